@@ -1,13 +1,14 @@
-import { spawn } from 'node:child_process';
 import fs from 'node:fs';
 import fsPromises from 'node:fs/promises';
 import https from 'node:https';
 import path from 'node:path';
 import readline from 'node:readline';
+import type { Readable } from 'node:stream';
 
-import type { CityCatalogStatus } from '@shared/types/ipc';
+import type { CityCatalogStatus, CityCatalogVariant } from '@shared/types/ipc';
 
 import { CITY_CATALOG_FILENAME, createCityCatalogDbClient } from './catalogDb';
+import { listZipEntries, openZipEntryStream } from './zipArchive';
 
 interface CountryRow {
   countryCode: string;
@@ -32,15 +33,32 @@ interface CityRow {
 export interface CatalogImportResult {
   rowCount: number;
   updatedAtMs: number;
+  variant: CityCatalogVariant;
+}
+
+/** Local GeoNames dumps to build the catalog from instead of downloading them. */
+export interface LocalCatalogFiles {
+  countryInfoPath: string;
+  citiesPath: string;
 }
 
 interface CatalogImportOptions {
   catalogDir: string;
+  files?: LocalCatalogFiles;
   onProgress: (progress: CityCatalogStatus) => void;
 }
 
+interface CityDumpInput {
+  stream: Readable;
+  totalBytes: number;
+  variant: CityCatalogVariant;
+}
+
 const GEONAMES_COUNTRIES_URL = 'https://download.geonames.org/export/dump/countryInfo.txt';
 const GEONAMES_CITIES_ZIP_URL = 'https://download.geonames.org/export/dump/allCountries.zip';
+const COUNTRY_INFO_FILENAME = 'countryinfo.txt';
+// allCountries is the full gazetteer; citiesNNNNN only holds places above that population.
+const CITY_DUMP_PATTERN = /^(allCountries|cities\d+)\.(zip|txt)$/i;
 
 const CONTINENT_NAME_BY_CODE: Record<string, string> = {
   AF: 'Africa',
@@ -52,32 +70,6 @@ const CONTINENT_NAME_BY_CODE: Record<string, string> = {
   SA: 'South America',
 };
 
-function quoteForPowerShell(value: string): string {
-  return `'${value.replace(/'/g, "''")}'`;
-}
-
-async function expandArchive(zipPath: string, outputDir: string): Promise<void> {
-  await fsPromises.mkdir(outputDir, { recursive: true });
-  const command = `Expand-Archive -Path ${quoteForPowerShell(zipPath)} -DestinationPath ${quoteForPowerShell(outputDir)} -Force`;
-  await new Promise<void>((resolve, reject) => {
-    const child = spawn('powershell.exe', ['-NoProfile', '-ExecutionPolicy', 'Bypass', '-Command', command], {
-      windowsHide: true,
-    });
-    let stderr = '';
-    child.stderr.on('data', (chunk) => {
-      stderr += String(chunk);
-    });
-    child.on('error', reject);
-    child.on('exit', (code) => {
-      if (code === 0) {
-        resolve();
-        return;
-      }
-      reject(new Error(stderr.trim() || `Expand-Archive failed with code ${String(code)}`));
-    });
-  });
-}
-
 async function downloadToFile(
   url: string,
   targetPath: string,
@@ -143,10 +135,9 @@ export function normalizeCityName(name: string, asciiName: string | null): strin
     .trim();
 }
 
-async function parseCountryInfoFile(countryInfoPath: string): Promise<Map<string, CountryRow>> {
+async function parseCountryInfo(input: Readable): Promise<Map<string, CountryRow>> {
   const map = new Map<string, CountryRow>();
-  const stream = fs.createReadStream(countryInfoPath, { encoding: 'utf8' });
-  const reader = readline.createInterface({ input: stream, crlfDelay: Infinity });
+  const reader = readline.createInterface({ input, crlfDelay: Infinity });
 
   for await (const line of reader) {
     if (!line || line.startsWith('#')) {
@@ -170,6 +161,50 @@ async function parseCountryInfoFile(countryInfoPath: string): Promise<Map<string
   return map;
 }
 
+function variantForDump(fileName: string): CityCatalogVariant {
+  return fileName.toLowerCase().startsWith('allcountries') ? 'full' : 'lite';
+}
+
+/**
+ * Picks countryInfo.txt and one city dump (allCountries or citiesNNNNN, zipped or not) out of
+ * user-selected files. Throws with a readable message when either is missing or ambiguous.
+ */
+export function resolveLocalCatalogFiles(paths: string[]): LocalCatalogFiles {
+  const countryInfoPaths = paths.filter((filePath) => path.basename(filePath).toLowerCase() === COUNTRY_INFO_FILENAME);
+  const cityPaths = paths.filter((filePath) => CITY_DUMP_PATTERN.test(path.basename(filePath)));
+  if (countryInfoPaths.length !== 1) {
+    throw new Error('Select exactly one countryInfo.txt from the GeoNames dump.');
+  }
+  if (cityPaths.length !== 1) {
+    throw new Error('Select exactly one city dump: allCountries.zip/.txt or citiesNNNNN.zip/.txt.');
+  }
+  return { countryInfoPath: countryInfoPaths[0], citiesPath: cityPaths[0] };
+}
+
+/** Streams a city dump straight out of its zip (or the plain text file) without extracting it. */
+async function openCityDump(filePath: string, onBytes: (bytes: number) => void): Promise<CityDumpInput> {
+  if (path.extname(filePath).toLowerCase() !== '.zip') {
+    const totalBytes = (await fsPromises.stat(filePath)).size;
+    const stream = fs.createReadStream(filePath);
+    stream.on('data', (chunk) => onBytes(chunk.length));
+    return { stream, totalBytes, variant: variantForDump(path.basename(filePath)) };
+  }
+
+  const entries = await listZipEntries(filePath);
+  const entry = entries.find((item) => {
+    const name = path.posix.basename(item.name);
+    return CITY_DUMP_PATTERN.test(name) && name.toLowerCase().endsWith('.txt');
+  });
+  if (!entry) {
+    throw new Error(`No allCountries.txt or citiesNNNNN.txt found in ${path.basename(filePath)}.`);
+  }
+  return {
+    stream: await openZipEntryStream(filePath, entry, onBytes),
+    totalBytes: entry.compressedSize,
+    variant: variantForDump(path.posix.basename(entry.name)),
+  };
+}
+
 async function cleanupTempFiles(paths: string[]): Promise<void> {
   await Promise.all(
     paths.map(async (entryPath) => {
@@ -217,57 +252,70 @@ async function replaceCatalogFile(tmpPath: string, finalPath: string): Promise<v
 }
 
 export async function importGeoNamesCatalog(options: CatalogImportOptions): Promise<CatalogImportResult> {
-  const { catalogDir, onProgress } = options;
+  const { catalogDir, files, onProgress } = options;
   await fsPromises.mkdir(catalogDir, { recursive: true });
 
   const workId = `${Date.now()}-${Math.random().toString(16).slice(2)}`;
   const tempDir = path.join(catalogDir, `.tmp-${workId}`);
-  const extractDir = path.join(tempDir, 'extract');
-  const countryInfoPath = path.join(tempDir, 'countryInfo.txt');
-  const zipPath = path.join(tempDir, 'allCountries.zip');
   const tempCatalogFileName = `${CITY_CATALOG_FILENAME}.tmp`;
   const finalCatalogPath = path.join(catalogDir, CITY_CATALOG_FILENAME);
   const tmpCatalogPath = path.join(catalogDir, tempCatalogFileName);
+  let cityDb: ReturnType<typeof createCityCatalogDbClient> | null = null;
+  let dump: CityDumpInput | null = null;
 
   await fsPromises.mkdir(tempDir, { recursive: true });
 
   try {
-    onProgress({
-      phase: 'downloading',
-      percent: 0,
-      message: 'Downloading country metadata...',
-    });
-    await downloadToFile(GEONAMES_COUNTRIES_URL, countryInfoPath);
-    onProgress({
-      phase: 'downloading',
-      percent: 6,
-      message: 'Downloading city catalog...',
-    });
-
-    await downloadToFile(GEONAMES_CITIES_ZIP_URL, zipPath, (downloaded, total) => {
-      const ratio = total && total > 0 ? Math.min(1, downloaded / total) : 0;
+    let countryInfoPath: string;
+    let citiesPath: string;
+    let importStartPercent: number;
+    if (files) {
+      countryInfoPath = files.countryInfoPath;
+      citiesPath = files.citiesPath;
+      importStartPercent = 2;
+    } else {
+      countryInfoPath = path.join(tempDir, 'countryInfo.txt');
+      citiesPath = path.join(tempDir, 'allCountries.zip');
+      importStartPercent = 60;
       onProgress({
         phase: 'downloading',
-        percent: Math.min(58, 6 + ratio * 52),
-        message: total ? `Downloading city catalog (${Math.floor(ratio * 100)}%)...` : 'Downloading city catalog...',
+        percent: 0,
+        message: 'Downloading country metadata...',
+      });
+      await downloadToFile(GEONAMES_COUNTRIES_URL, countryInfoPath);
+      onProgress({
+        phase: 'downloading',
+        percent: 6,
+        message: 'Downloading city catalog...',
       });
-    });
+
+      await downloadToFile(GEONAMES_CITIES_ZIP_URL, citiesPath, (downloaded, total) => {
+        const ratio = total && total > 0 ? Math.min(1, downloaded / total) : 0;
+        onProgress({
+          phase: 'downloading',
+          percent: Math.min(58, 6 + ratio * 52),
+          message: total ? `Downloading city catalog (${Math.floor(ratio * 100)}%)...` : 'Downloading city catalog...',
+        });
+      });
+    }
 
     onProgress({
       phase: 'importing',
-      percent: 60,
-      message: 'Extracting archive...',
+      percent: importStartPercent,
+      message: 'Reading country metadata...',
     });
-    await expandArchive(zipPath, extractDir);
-
-    const allCountriesPath = path.join(extractDir, 'allCountries.txt');
-    const countryByCode = await parseCountryInfoFile(countryInfoPath);
+    const countryByCode = await parseCountryInfo(fs.createReadStream(countryInfoPath));
     if (countryByCode.size === 0) {
       throw new Error('Country metadata is empty.');
     }
 
+    let processedBytes = 0;
+    dump = await openCityDump(citiesPath, (bytes) => {
+      processedBytes += bytes;
+    });
+
     await fsPromises.rm(tmpCatalogPath, { force: true });
-    const cityDb = createCityCatalogDbClient(catalogDir, tempCatalogFileName);
+    cityDb = createCityCatalogDbClient(catalogDir, tempCatalogFileName);
     const insertCountryStmt = cityDb.db.prepare(`
       INSERT INTO country_catalog (countryCode, countryName, continentCode, continentName)
       VALUES (@countryCode, @countryName, @continentCode, @continentName)
@@ -304,16 +352,13 @@ export async function importGeoNamesCatalog(options: CatalogImportOptions): Prom
       }
     });
 
-    const totalBytes = (await fsPromises.stat(allCountriesPath)).size;
-    const stream = fs.createReadStream(allCountriesPath, { encoding: 'utf8' });
-    const reader = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    const reader = readline.createInterface({ input: dump.stream, crlfDelay: Infinity });
     const batchSize = 2_000;
+    const importSpan = 99 - importStartPercent;
     let currentBatch: CityRow[] = [];
-    let processedBytes = 0;
     let importedRows = 0;
 
     for await (const line of reader) {
-      processedBytes += Buffer.byteLength(line, 'utf8') + 1;
       if (!line || line.startsWith('#')) {
         continue;
       }
@@ -359,10 +404,10 @@ export async function importGeoNamesCatalog(options: CatalogImportOptions): Prom
         importedRows += currentBatch.length;
         currentBatch = [];
 
-        const ratio = totalBytes > 0 ? Math.min(1, processedBytes / totalBytes) : 0;
+        const ratio = dump.totalBytes > 0 ? Math.min(1, processedBytes / dump.totalBytes) : 0;
         onProgress({
           phase: 'importing',
-          percent: Math.min(99, 60 + ratio * 39),
+          percent: Math.min(99, importStartPercent + ratio * importSpan),
           rowCount: importedRows,
           message: `Importing cities (${importedRows.toLocaleString()} rows)...`,
         });
@@ -373,12 +418,18 @@ export async function importGeoNamesCatalog(options: CatalogImportOptions): Prom
       insertCitiesTx(currentBatch);
       importedRows += currentBatch.length;
     }
+    if (importedRows === 0) {
+      throw new Error('The city dump contained no populated places.');
+    }
 
     const updatedAtMs = Date.now();
-    upsertMetaStmt.run({ key: 'catalogVersion', value: `geonames-${updatedAtMs}` });
+    upsertMetaStmt.run({ key: 'catalogVersion', value: `geonames-${dump.variant}-${updatedAtMs}` });
     upsertMetaStmt.run({ key: 'updatedAtMs', value: String(updatedAtMs) });
     upsertMetaStmt.run({ key: 'rowCount', value: String(importedRows) });
+    upsertMetaStmt.run({ key: 'variant', value: dump.variant });
+    upsertMetaStmt.run({ key: 'source', value: files ? path.basename(citiesPath) : GEONAMES_CITIES_ZIP_URL });
     cityDb.close();
+    cityDb = null;
 
     await replaceCatalogFile(tmpCatalogPath, finalCatalogPath);
 
@@ -387,14 +438,19 @@ export async function importGeoNamesCatalog(options: CatalogImportOptions): Prom
       percent: 100,
       rowCount: importedRows,
       updatedAtMs,
+      variant: dump.variant,
       message: 'City catalog is ready.',
     });
 
     return {
       rowCount: importedRows,
       updatedAtMs,
+      variant: dump.variant,
     };
   } finally {
+    // A failed import must not leave files open, or they cannot be removed on Windows.
+    dump?.stream.destroy();
+    cityDb?.close();
     await cleanupTempFiles([tempDir, tmpCatalogPath]);
   }
 }
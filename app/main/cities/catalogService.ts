@@ -4,14 +4,29 @@ import path from 'node:path';
 
 import Database from 'better-sqlite3';
 
-import type { CityCatalogStatus, CityItem, ContinentItem, CountryItem } from '@shared/types/ipc';
+import type {
+  CityCatalogStatus,
+  CityCatalogVariant,
+  CityItem,
+  ContinentItem,
+  CountryItem,
+} from '@shared/types/ipc';
 
 import { CITY_CATALOG_FILENAME } from './catalogDb';
-import { importGeoNamesCatalog, normalizeCityName } from './catalogImporter';
+import type { LocalCatalogFiles } from './catalogImporter';
+import { importGeoNamesCatalog, normalizeCityName, resolveLocalCatalogFiles } from './catalogImporter';
+
+export interface PlaceCandidate {
+  cityId: string;
+  countryCode: string;
+  lat: number;
+  lng: number;
+}
 
 interface CatalogMetaRows {
   updatedAtMs: number | null;
   rowCount: number;
+  variant: CityCatalogVariant;
 }
 
 export class CityCatalogService {
@@ -48,17 +63,31 @@ export class CityCatalogService {
   }
 
   async ensureCatalog(): Promise<CityCatalogStatus> {
+    // A file import replacing a ready catalog is still in flight; don't report the old one as current.
+    if (this.inFlight) {
+      return this.inFlight;
+    }
+
     const current = this.readExistingStatus();
     if (current.phase === 'ready') {
       this.updateStatus(current);
       return current;
     }
 
+    this.inFlight = this.rebuildCatalog();
+    return this.inFlight;
+  }
+
+  /**
+   * Rebuilds the catalog from local GeoNames files (countryInfo.txt plus allCountries or a
+   * citiesNNNNN dump), for machines that cannot reach geonames.org. Replaces any existing catalog.
+   */
+  async importFromFiles(paths: string[]): Promise<CityCatalogStatus> {
     if (this.inFlight) {
-      return this.inFlight;
+      throw new Error('The city catalog is already being built.');
     }
-
-    this.inFlight = this.rebuildCatalog();
+    const files = resolveLocalCatalogFiles(paths);
+    this.inFlight = this.rebuildCatalog(files);
     return this.inFlight;
   }
 
@@ -301,6 +330,30 @@ export class CityCatalogService {
     return cleanIds.map((id) => byId.get(id)).filter((item): item is CityItem => Boolean(item));
   }
 
+  /** Every populated place of at least `minPopulation`, for reverse geocoding. Empty without a catalog. */
+  listPlaceCandidates(minPopulation: number): PlaceCandidate[] {
+    const db = this.getDbOrNull();
+    if (!db) {
+      return [];
+    }
+    return db
+      .prepare('SELECT cityId, countryCode, lat, lng FROM city_catalog WHERE population >= ?')
+      .all(minPopulation) as PlaceCandidate[];
+  }
+
+  getCountryNames(codes: string[]): Map<string, string> {
+    const cleanCodes = Array.from(new Set(codes.filter((code) => code.length > 0)));
+    const db = this.getDbOrNull();
+    if (!db || cleanCodes.length === 0) {
+      return new Map();
+    }
+    const placeholders = cleanCodes.map(() => '?').join(', ');
+    const rows = db
+      .prepare(`SELECT countryCode, countryName FROM country_catalog WHERE countryCode IN (${placeholders})`)
+      .all(...cleanCodes) as Array<{ countryCode: string; countryName: string }>;
+    return new Map(rows.map((row) => [row.countryCode, row.countryName]));
+  }
+
   close(): void {
     if (!this.db) {
       return;
@@ -309,12 +362,13 @@ export class CityCatalogService {
     this.db = null;
   }
 
-  private async rebuildCatalog(): Promise<CityCatalogStatus> {
+  private async rebuildCatalog(files?: LocalCatalogFiles): Promise<CityCatalogStatus> {
     this.close();
     this.countryCacheByContinent.clear();
     try {
       await importGeoNamesCatalog({
         catalogDir: this.catalogDir,
+        files,
         onProgress: (progress) => this.updateStatus(progress),
       });
       const readyStatus = this.readExistingStatus();
@@ -323,11 +377,16 @@ export class CityCatalogService {
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       await this.appendErrorLog(message);
-      const next: CityCatalogStatus = {
-        phase: 'error',
-        percent: 0,
-        message,
-      };
+      // The importer only swaps the file in once the new catalog is complete, so a ready one is still there.
+      const previous = this.readExistingStatus();
+      const next: CityCatalogStatus =
+        previous.phase === 'ready'
+          ? { ...previous, error: message }
+          : {
+              phase: 'error',
+              percent: 0,
+              message,
+            };
       this.updateStatus(next);
       return next;
     } finally {
@@ -365,13 +424,14 @@ export class CityCatalogService {
       message: 'City catalog is ready.',
       updatedAtMs: stats.updatedAtMs,
       rowCount: stats.rowCount,
+      variant: stats.variant,
     };
   }
 
   private readMetaRows(db: Database.Database): CatalogMetaRows {
     const rows = db
-      .prepare('SELECT key, value FROM city_meta WHERE key IN (?, ?)')
-      .all('updatedAtMs', 'rowCount') as Array<{ key: string; value: string }>;
+      .prepare('SELECT key, value FROM city_meta WHERE key IN (?, ?, ?)')
+      .all('updatedAtMs', 'rowCount', 'variant') as Array<{ key: string; value: string }>;
 
     const map = new Map(rows.map((row) => [row.key, row.value]));
     const updatedAtMsRaw = Number.parseInt(map.get('updatedAtMs') ?? '', 10);
@@ -380,6 +440,8 @@ export class CityCatalogService {
     return {
       updatedAtMs: Number.isFinite(updatedAtMsRaw) ? updatedAtMsRaw : null,
       rowCount: Number.isFinite(rowCountRaw) ? rowCountRaw : 0,
+      // Catalogs built before lite imports existed always came from allCountries.
+      variant: map.get('variant') === 'lite' ? 'lite' : 'full',
     };
   }
 
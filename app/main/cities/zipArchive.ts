@@ -0,0 +1,182 @@
+import fs from 'node:fs';
+import fsPromises from 'node:fs/promises';
+import { Readable } from 'node:stream';
+import zlib from 'node:zlib';
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_ID = 0x0001;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+async function readAt(handle: fsPromises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+function readUInt64(buffer: Buffer, offset: number): number {
+  const value = buffer.readBigUInt64LE(offset);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error('Zip archive is too large.');
+  }
+  return Number(value);
+}
+
+interface CentralDirectory {
+  offset: number;
+  size: number;
+}
+
+async function findCentralDirectory(handle: fsPromises.FileHandle, fileSize: number): Promise<CentralDirectory> {
+  const tailLength = Math.min(fileSize, EOCD_MIN_SIZE + MAX_COMMENT_SIZE);
+  const tailStart = fileSize - tailLength;
+  const tail = await readAt(handle, tailStart, tailLength);
+  let eocd = -1;
+  for (let index = tail.length - EOCD_MIN_SIZE; index >= 0; index -= 1) {
+    if (tail.readUInt32LE(index) === EOCD_SIGNATURE) {
+      eocd = index;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a zip archive (end of central directory not found).');
+  }
+
+  const size = tail.readUInt32LE(eocd + 12);
+  const offset = tail.readUInt32LE(eocd + 16);
+  if (size !== 0xffffffff && offset !== 0xffffffff) {
+    return { offset, size };
+  }
+
+  // ZIP64: the real values live in a separate record pointed to by the locator just before the EOCD.
+  const locatorPosition = tailStart + eocd - 20;
+  const locator = await readAt(handle, locatorPosition, 20);
+  if (locator.length < 20 || locator.readUInt32LE(0) !== ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    throw new Error('Zip64 end of central directory locator not found.');
+  }
+  const record = await readAt(handle, readUInt64(locator, 8), 56);
+  if (record.length < 56 || record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+    throw new Error('Zip64 end of central directory record not found.');
+  }
+  return { offset: readUInt64(record, 48), size: readUInt64(record, 40) };
+}
+
+function applyZip64Extra(entry: ZipEntry, extra: Buffer): void {
+  let cursor = 0;
+  while (cursor + 4 <= extra.length) {
+    const id = extra.readUInt16LE(cursor);
+    const length = extra.readUInt16LE(cursor + 2);
+    const body = extra.subarray(cursor + 4, cursor + 4 + length);
+    cursor += 4 + length;
+    if (id !== ZIP64_EXTRA_ID) {
+      continue;
+    }
+    // Only the fields saturated in the fixed header are present, in this order.
+    let fieldOffset = 0;
+    if (entry.uncompressedSize === 0xffffffff && fieldOffset + 8 <= body.length) {
+      entry.uncompressedSize = readUInt64(body, fieldOffset);
+      fieldOffset += 8;
+    }
+    if (entry.compressedSize === 0xffffffff && fieldOffset + 8 <= body.length) {
+      entry.compressedSize = readUInt64(body, fieldOffset);
+      fieldOffset += 8;
+    }
+    if (entry.localHeaderOffset === 0xffffffff && fieldOffset + 8 <= body.length) {
+      entry.localHeaderOffset = readUInt64(body, fieldOffset);
+    }
+    return;
+  }
+}
+
+/** Files in a zip archive, read from its central directory. */
+export async function listZipEntries(zipPath: string): Promise<ZipEntry[]> {
+  const handle = await fsPromises.open(zipPath, 'r');
+  try {
+    const { size: fileSize } = await handle.stat();
+    const directory = await findCentralDirectory(handle, fileSize);
+    const buffer = await readAt(handle, directory.offset, directory.size);
+    const entries: ZipEntry[] = [];
+    let cursor = 0;
+    while (cursor + 46 <= buffer.length && buffer.readUInt32LE(cursor) === CENTRAL_HEADER_SIGNATURE) {
+      const flags = buffer.readUInt16LE(cursor + 8);
+      const nameLength = buffer.readUInt16LE(cursor + 28);
+      const extraLength = buffer.readUInt16LE(cursor + 30);
+      const commentLength = buffer.readUInt16LE(cursor + 32);
+      const nameStart = cursor + 46;
+      const entry: ZipEntry = {
+        // Bit 11 marks UTF-8 names; GeoNames only uses ASCII either way.
+        name: buffer.toString(flags & 0x800 ? 'utf8' : 'latin1', nameStart, nameStart + nameLength),
+        method: buffer.readUInt16LE(cursor + 10),
+        compressedSize: buffer.readUInt32LE(cursor + 20),
+        uncompressedSize: buffer.readUInt32LE(cursor + 24),
+        localHeaderOffset: buffer.readUInt32LE(cursor + 42),
+      };
+      if (flags & 0x1) {
+        throw new Error(`Encrypted zip entries are not supported: ${entry.name}`);
+      }
+      applyZip64Extra(entry, buffer.subarray(nameStart + nameLength, nameStart + nameLength + extraLength));
+      entries.push(entry);
+      cursor = nameStart + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Decompressed contents of one entry as a stream, without extracting the archive to disk.
+ * `onCompressedBytes` reports progress through the archive file itself.
+ */
+export async function openZipEntryStream(
+  zipPath: string,
+  entry: ZipEntry,
+  onCompressedBytes?: (bytes: number) => void,
+): Promise<Readable> {
+  if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+    throw new Error(`Unsupported zip compression method ${entry.method}: ${entry.name}`);
+  }
+  const handle = await fsPromises.open(zipPath, 'r');
+  let header: Buffer;
+  try {
+    header = await readAt(handle, entry.localHeaderOffset, 30);
+  } finally {
+    await handle.close();
+  }
+  if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt zip entry header: ${entry.name}`);
+  }
+  // A read stream's `end` is inclusive, so it cannot express zero bytes.
+  if (entry.compressedSize === 0) {
+    return Readable.from([]);
+  }
+  const dataStart = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+
+  const source = fs.createReadStream(zipPath, {
+    start: dataStart,
+    end: dataStart + entry.compressedSize - 1,
+  });
+  if (onCompressedBytes) {
+    source.on('data', (chunk) => onCompressedBytes(chunk.length));
+  }
+  if (entry.method === METHOD_STORED) {
+    return source;
+  }
+  const inflate = zlib.createInflateRaw();
+  source.on('error', (error) => inflate.destroy(error));
+  return source.pipe(inflate);
+}
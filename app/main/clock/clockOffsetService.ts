@@ -0,0 +1,201 @@
+import type { ClockOffsetsRepository, ClockOffsetWriteInput } from '@main/db/repositories/clockOffsetsRepo';
+import type { ClockOffsetSubject, PhotosRepository } from '@main/db/repositories/photosRepo';
+import { DEFAULT_SPLIT_HOURS, DEFAULT_SPLIT_KM, splitIntoSegments } from '@main/trips/tripService';
+import type {
+  CameraModelSummary,
+  ClockOffsetDraft,
+  ClockOffsetPreview,
+  ClockOffsetPreviewOptions,
+  ClockOffsetSample,
+  ClockOffsetSaveResult,
+  TripPoint,
+} from '@shared/types/ipc';
+import type { CameraClockOffset } from '@shared/types/photo';
+
+const PREVIEW_SAMPLE_LIMIT = 200;
+// A year either way covers cameras reset to their factory date.
+const MAX_OFFSET_MS = 366 * 86_400_000;
+const CAMERA_MODEL_MAX_LENGTH = 200;
+
+type TimeRange = NonNullable<ClockOffsetPreview['beforeRange']>;
+
+function ruleMatches(rule: CameraClockOffset, subject: ClockOffsetSubject): boolean {
+  return (
+    rule.cameraModel === subject.cameraModel &&
+    (rule.rootId == null || rule.rootId === subject.rootId) &&
+    (rule.fromLocalMs == null || subject.localMs >= rule.fromLocalMs) &&
+    (rule.toLocalMs == null || subject.localMs <= rule.toLocalMs)
+  );
+}
+
+/**
+ * JS twin of `clockOffsetSql`: the most recently saved matching rule wins. `rules` must be newest first.
+ * Photos whose corrected time was written into the file are left alone, as in the repository.
+ */
+export function resolveClockOffset(rules: CameraClockOffset[], subject: ClockOffsetSubject): number {
+  if (subject.clockOffsetWrittenAtMs != null) {
+    return 0;
+  }
+  return rules.find((rule) => ruleMatches(rule, subject))?.offsetMs ?? 0;
+}
+
+function normalizeOptionalMs(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.trunc(value) : null;
+}
+
+function normalizeDraft(draft: ClockOffsetDraft): ClockOffsetWriteInput {
+  const cameraModel = draft.cameraModel?.trim().slice(0, CAMERA_MODEL_MAX_LENGTH) ?? '';
+  if (!cameraModel) {
+    throw new Error('A camera model is required.');
+  }
+  if (!Number.isFinite(draft.offsetMs) || Math.abs(draft.offsetMs) > MAX_OFFSET_MS) {
+    throw new Error(`Invalid clock offset: ${draft.offsetMs}`);
+  }
+  const fromLocalMs = normalizeOptionalMs(draft.fromLocalMs);
+  const toLocalMs = normalizeOptionalMs(draft.toLocalMs);
+  if (fromLocalMs != null && toLocalMs != null && fromLocalMs > toLocalMs) {
+    throw new Error('The start of the date range is after its end.');
+  }
+  const rootId = draft.rootId;
+  return {
+    cameraModel,
+    offsetMs: Math.trunc(draft.offsetMs),
+    rootId: typeof rootId === 'number' && Number.isInteger(rootId) && rootId > 0 ? rootId : null,
+    fromLocalMs,
+    toLocalMs,
+  };
+}
+
+function extendRange(range: TimeRange | null, valueMs: number): TimeRange {
+  return range
+    ? { fromMs: Math.min(range.fromMs, valueMs), toMs: Math.max(range.toMs, valueMs) }
+    : { fromMs: valueMs, toMs: valueMs };
+}
+
+function normalizeSplit(value: number | undefined, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function countTrips(
+  subjects: ClockOffsetSubject[],
+  offsets: Map<number, number>,
+  splitMs: number,
+  splitKm: number,
+): number {
+  const points: TripPoint[] = [];
+  for (const subject of subjects) {
+    if (subject.lat == null || subject.lng == null) {
+      continue;
+    }
+    const offsetMs = offsets.get(subject.id) ?? subject.takenAtOffsetMs;
+    points.push({
+      photoId: subject.id,
+      lat: subject.lat,
+      lng: subject.lng,
+      takenAtMs: subject.takenAtMs + offsetMs,
+      takenAtLocalMs: subject.localMs + offsetMs,
+      mediaType: 'photo',
+    });
+  }
+  points.sort((a, b) => a.takenAtMs - b.takenAtMs || a.photoId - b.photoId);
+  return splitIntoSegments(points, splitMs, splitKm).length;
+}
+
+/**
+ * Per-camera clock corrections. Rules never touch the files or the raw capture columns; metadata
+ * write-back can put a corrected time into a file, after which rules skip that photo.
+ */
+export class ClockOffsetService {
+  constructor(
+    private readonly photosRepo: PhotosRepository,
+    private readonly offsetsRepo: ClockOffsetsRepository,
+    private readonly onDataChanged?: () => void,
+  ) {}
+
+  listCameras(): CameraModelSummary[] {
+    return this.photosRepo.getCameraModels();
+  }
+
+  list(): CameraClockOffset[] {
+    return this.offsetsRepo.list();
+  }
+
+  /** Dry run of `save(draft)`: which photos move and what that does to trip segmentation. */
+  preview(options: ClockOffsetPreviewOptions): ClockOffsetPreview {
+    const input = normalizeDraft(options.draft);
+    const draftRule: CameraClockOffset = {
+      ...input,
+      id: options.draft.id ?? 0,
+      createdAtMs: Date.now(),
+      updatedAtMs: Date.now(),
+    };
+    // The draft would be the newest rule, so it goes first.
+    const rules = [draftRule, ...this.newestFirst().filter((rule) => rule.id !== options.draft.id)];
+
+    const subjects = this.photosRepo.getClockOffsetSubjects();
+    const nextOffsets = new Map<number, number>();
+    const samples: ClockOffsetSample[] = [];
+    let beforeRange: TimeRange | null = null;
+    let afterRange: TimeRange | null = null;
+    for (const subject of subjects) {
+      const nextOffsetMs = resolveClockOffset(rules, subject);
+      if (nextOffsetMs === subject.takenAtOffsetMs) {
+        continue;
+      }
+      nextOffsets.set(subject.id, nextOffsetMs);
+      const beforeLocalMs = subject.localMs + subject.takenAtOffsetMs;
+      const afterLocalMs = subject.localMs + nextOffsetMs;
+      beforeRange = extendRange(beforeRange, beforeLocalMs);
+      afterRange = extendRange(afterRange, afterLocalMs);
+      samples.push({ photoId: subject.id, path: subject.path, beforeLocalMs, afterLocalMs });
+    }
+    samples.sort((a, b) => a.beforeLocalMs - b.beforeLocalMs || a.photoId - b.photoId);
+
+    const splitMs = normalizeSplit(options.splitHours, DEFAULT_SPLIT_HOURS) * 3_600_000;
+    const splitKm = normalizeSplit(options.splitKm, DEFAULT_SPLIT_KM);
+    return {
+      affectedCount: nextOffsets.size,
+      samples: samples.slice(0, PREVIEW_SAMPLE_LIMIT),
+      beforeRange,
+      afterRange,
+      tripCountBefore: countTrips(subjects, new Map(), splitMs, splitKm),
+      tripCountAfter: countTrips(subjects, nextOffsets, splitMs, splitKm),
+    };
+  }
+
+  save(draft: ClockOffsetDraft): ClockOffsetSaveResult {
+    const input = normalizeDraft(draft);
+    let id: number;
+    if (draft.id != null) {
+      if (!this.offsetsRepo.update(draft.id, input)) {
+        throw new Error(`Clock offset not found: ${draft.id}`);
+      }
+      id = draft.id;
+    } else {
+      id = this.offsetsRepo.insert(input);
+    }
+    const updated = this.refresh();
+    const rule = this.offsetsRepo.get(id);
+    if (!rule) {
+      throw new Error(`Clock offset not found: ${id}`);
+    }
+    return { rule, updated };
+  }
+
+  remove(id: number): { removed: boolean; updated: number } {
+    const removed = this.offsetsRepo.delete(id);
+    return { removed, updated: removed ? this.refresh() : 0 };
+  }
+
+  private newestFirst(): CameraClockOffset[] {
+    return [...this.offsetsRepo.list()].sort((a, b) => b.updatedAtMs - a.updatedAtMs || b.id - a.id);
+  }
+
+  private refresh(): number {
+    const updated = this.photosRepo.refreshClockOffsets();
+    if (updated > 0) {
+      this.onDataChanged?.();
+    }
+    return updated;
+  }
+}
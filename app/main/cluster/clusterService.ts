@@ -357,10 +357,26 @@ export class ClusterService {
       mediaTypes: [...(filters.mediaTypes ?? [])].sort(),
       hasGps: filters.hasGps ?? null,
       cameraModelQuery: filters.cameraModelQuery ?? null,
+      textQuery: filters.textQuery ?? null,
       minWidthPx: filters.minWidthPx ?? null,
       minHeightPx: filters.minHeightPx ?? null,
       durationFromMs: filters.durationFromMs ?? null,
       durationToMs: filters.durationToMs ?? null,
+      collapseDuplicates: filters.collapseDuplicates ?? false,
+      cameraMakeQuery: filters.cameraMakeQuery ?? null,
+      lensModelQuery: filters.lensModelQuery ?? null,
+      focalLengthFromMm: filters.focalLengthFromMm ?? null,
+      focalLengthToMm: filters.focalLengthToMm ?? null,
+      focalLengthUse35mm: filters.focalLengthUse35mm ?? false,
+      apertureFrom: filters.apertureFrom ?? null,
+      apertureTo: filters.apertureTo ?? null,
+      exposureFromSec: filters.exposureFromSec ?? null,
+      exposureToSec: filters.exposureToSec ?? null,
+      isoFrom: filters.isoFrom ?? null,
+      isoTo: filters.isoTo ?? null,
+      flashFired: filters.flashFired ?? null,
+      countryCodes: [...(filters.countryCodes ?? [])].sort(),
+      cityIds: [...(filters.cityIds ?? [])].sort(),
     });
   }
 }
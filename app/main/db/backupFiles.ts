@@ -0,0 +1,116 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import type { DatabaseBackupItem, DatabaseBackupKind } from '@shared/types/ipc';
+
+export const DB_FILE_NAME = 'photo-globe.sqlite';
+// SQLite keeps uncommitted WAL pages and its shared-memory index next to the database.
+export const DB_SIDE_FILE_SUFFIXES = ['-wal', '-shm'] as const;
+
+const BACKUP_NAME_PATTERN = /^photo-globe-(\d{8}-\d{6}-\d{3})(-pre-restore)?\.sqlite$/;
+const PENDING_RESTORE_FILE_NAME = 'restore-pending.json';
+
+export function getBackupDir(baseDir: string): string {
+  return path.join(baseDir, 'backups');
+}
+
+export function getCorruptDir(baseDir: string): string {
+  return path.join(baseDir, 'corrupt');
+}
+
+function parseStamp(stamp: string): number {
+  const [date, time, ms] = stamp.split('-');
+  return Date.UTC(
+    Number(date.slice(0, 4)),
+    Number(date.slice(4, 6)) - 1,
+    Number(date.slice(6, 8)),
+    Number(time.slice(0, 2)),
+    Number(time.slice(2, 4)),
+    Number(time.slice(4, 6)),
+    Number(ms),
+  );
+}
+
+function formatStamp(timeMs: number): string {
+  return new Date(timeMs).toISOString().replace(/[-:]/g, '').replace('T', '-').replace('.', '-').replace('Z', '');
+}
+
+export function formatBackupName(timeMs: number, kind: DatabaseBackupKind): string {
+  return `photo-globe-${formatStamp(timeMs)}${kind === 'pre-restore' ? '-pre-restore' : ''}.sqlite`;
+}
+
+export function isBackupName(name: string): boolean {
+  return BACKUP_NAME_PATTERN.test(name);
+}
+
+/** Backups in the directory, newest first. Partial files from an interrupted backup are not listed. */
+export function listBackups(backupDir: string): DatabaseBackupItem[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(backupDir);
+  } catch {
+    return [];
+  }
+  const items: DatabaseBackupItem[] = [];
+  for (const name of names) {
+    const match = BACKUP_NAME_PATTERN.exec(name);
+    if (!match) {
+      continue;
+    }
+    try {
+      const stat = fs.statSync(path.join(backupDir, name));
+      items.push({
+        name,
+        kind: match[2] ? 'pre-restore' : 'regular',
+        createdAtMs: parseStamp(match[1]),
+        sizeBytes: stat.size,
+      });
+    } catch {
+      // Deleted while listing.
+    }
+  }
+  // The stamp in the name, unlike mtime, survives copying the folder elsewhere.
+  return items.sort((a, b) => b.createdAtMs - a.createdAtMs);
+}
+
+/** Moves the database and its WAL files aside, returning the new database path. */
+export function moveDatabaseFiles(dbPath: string, targetDir: string, timeMs: number): string {
+  fs.mkdirSync(targetDir, { recursive: true });
+  const targetPath = path.join(targetDir, `photo-globe-${formatStamp(timeMs)}.sqlite`);
+  for (const suffix of ['', ...DB_SIDE_FILE_SUFFIXES]) {
+    if (fs.existsSync(dbPath + suffix)) {
+      fs.renameSync(dbPath + suffix, targetPath + suffix);
+    }
+  }
+  return targetPath;
+}
+
+/** Copies a backup over the database, dropping WAL files that belong to the replaced one. */
+export function replaceDatabaseWithBackup(dbPath: string, backupPath: string): void {
+  for (const suffix of DB_SIDE_FILE_SUFFIXES) {
+    fs.rmSync(dbPath + suffix, { force: true });
+  }
+  fs.copyFileSync(backupPath, dbPath);
+}
+
+export function writePendingRestore(baseDir: string, backupName: string): void {
+  fs.writeFileSync(path.join(baseDir, PENDING_RESTORE_FILE_NAME), JSON.stringify({ backupName }), 'utf8');
+}
+
+/** Reads and removes the restore request, so a restore that fails is not retried on every launch. */
+export function takePendingRestore(baseDir: string): string | null {
+  const filePath = path.join(baseDir, PENDING_RESTORE_FILE_NAME);
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+  fs.rmSync(filePath, { force: true });
+  try {
+    const parsed = JSON.parse(raw) as { backupName?: unknown };
+    return typeof parsed.backupName === 'string' && isBackupName(parsed.backupName) ? parsed.backupName : null;
+  } catch {
+    return null;
+  }
+}
@@ -3,31 +3,121 @@ import path from 'node:path';
 
 import Database from 'better-sqlite3';
 
+import type { DatabaseRecoveryInfo } from '@shared/types/ipc';
+
+import {
+  DB_FILE_NAME,
+  getBackupDir,
+  getCorruptDir,
+  listBackups,
+  moveDatabaseFiles,
+  replaceDatabaseWithBackup,
+  takePendingRestore,
+} from './backupFiles';
+import { checkDatabaseFile, isCorruptionError, runIntegrityCheck } from './integrity';
+
 import migration001 from './migrations/001_init.sql?raw';
 import migration002 from './migrations/002_media_support.sql?raw';
 import migration003 from './migrations/003_settings_favorite_cities.sql?raw';
+import migration004 from './migrations/004_content_hash.sql?raw';
+import migration005 from './migrations/005_root_ignore_stats.sql?raw';
+import migration006 from './migrations/006_photo_exif_details.sql?raw';
+import migration007 from './migrations/007_capture_timezone.sql?raw';
+import migration008 from './migrations/008_photo_sidecars.sql?raw';
+import migration009 from './migrations/009_photo_stacks.sql?raw';
+import migration010 from './migrations/010_index_jobs.sql?raw';
+import migration011 from './migrations/011_index_job_priority.sql?raw';
+import migration012 from './migrations/012_index_job_metrics.sql?raw';
+import migration013 from './migrations/013_photo_geotags.sql?raw';
+import migration014 from './migrations/014_location_overrides.sql?raw';
+import migration015 from './migrations/015_camera_clock_offsets.sql?raw';
+import migration016 from './migrations/016_photo_places.sql?raw';
+import migration017 from './migrations/017_photo_search.sql?raw';
+import migration018 from './migrations/018_perceptual_hash.sql?raw';
+import migration019 from './migrations/019_thumbnail_cache.sql?raw';
+import migration020 from './migrations/020_photo_geo_rtree.sql?raw';
+import migration021 from './migrations/021_photo_enrichment_version.sql?raw';
+import migration022 from './migrations/022_photo_content_identifier_index.sql?raw';
+import migration023 from './migrations/023_photo_clock_offset_written.sql?raw';
+import migration024 from './migrations/024_photo_place_stale.sql?raw';
+import migration025 from './migrations/025_photo_search_cleanup.sql?raw';
+import migration026 from './migrations/026_perceptual_hash_failures.sql?raw';
 
 const MIGRATIONS: Array<{ name: string; sql: string }> = [
   { name: '001_init.sql', sql: migration001 },
   { name: '002_media_support.sql', sql: migration002 },
   { name: '003_settings_favorite_cities.sql', sql: migration003 },
+  { name: '004_content_hash.sql', sql: migration004 },
+  { name: '005_root_ignore_stats.sql', sql: migration005 },
+  { name: '006_photo_exif_details.sql', sql: migration006 },
+  { name: '007_capture_timezone.sql', sql: migration007 },
+  { name: '008_photo_sidecars.sql', sql: migration008 },
+  { name: '009_photo_stacks.sql', sql: migration009 },
+  { name: '010_index_jobs.sql', sql: migration010 },
+  { name: '011_index_job_priority.sql', sql: migration011 },
+  { name: '012_index_job_metrics.sql', sql: migration012 },
+  { name: '013_photo_geotags.sql', sql: migration013 },
+  { name: '014_location_overrides.sql', sql: migration014 },
+  { name: '015_camera_clock_offsets.sql', sql: migration015 },
+  { name: '016_photo_places.sql', sql: migration016 },
+  { name: '017_photo_search.sql', sql: migration017 },
+  { name: '018_perceptual_hash.sql', sql: migration018 },
+  { name: '019_thumbnail_cache.sql', sql: migration019 },
+  { name: '020_photo_geo_rtree.sql', sql: migration020 },
+  { name: '021_photo_enrichment_version.sql', sql: migration021 },
+  { name: '022_photo_content_identifier_index.sql', sql: migration022 },
+  { name: '023_photo_clock_offset_written.sql', sql: migration023 },
+  { name: '024_photo_place_stale.sql', sql: migration024 },
+  { name: '025_photo_search_cleanup.sql', sql: migration025 },
+  { name: '026_perceptual_hash_failures.sql', sql: migration026 },
 ];
 
 export interface DbClient {
   db: Database.Database;
   dbPath: string;
+  baseDir: string;
+  // Set when the database was restored or rebuilt while opening it.
+  recovery: DatabaseRecoveryInfo | null;
   close: () => void;
 }
 
-export function createDbClient(baseDir: string): DbClient {
-  fs.mkdirSync(baseDir, { recursive: true });
-  const dbPath = path.join(baseDir, 'photo-globe.sqlite');
+function openDatabase(dbPath: string): Database.Database {
   const db = new Database(dbPath);
+  try {
+    db.pragma('journal_mode = WAL');
+    db.pragma('synchronous = NORMAL');
+    db.pragma('foreign_keys = ON');
+    applyMigrations(db);
+    return db;
+  } catch (error) {
+    db.close();
+    throw error;
+  }
+}
 
-  db.pragma('journal_mode = WAL');
-  db.pragma('synchronous = NORMAL');
-  db.pragma('foreign_keys = ON');
+/**
+ * Whether opening failed because the file is damaged. The quick check reads every page, so it only
+ * runs once opening has already failed; scheduled backups check their copy of the live database.
+ */
+function isDamagedDatabase(dbPath: string, error: unknown): boolean {
+  if (isCorruptionError(error)) {
+    return true;
+  }
+  if (!fs.existsSync(dbPath)) {
+    return false;
+  }
+  let db: Database.Database | null = null;
+  try {
+    db = new Database(dbPath, { readonly: true, fileMustExist: true });
+    return !runIntegrityCheck(db, 'quick').ok;
+  } catch (checkError) {
+    return isCorruptionError(checkError);
+  } finally {
+    db?.close();
+  }
+}
 
+function applyMigrations(db: Database.Database): void {
   db.exec(`
     CREATE TABLE IF NOT EXISTS schema_migrations (
       name TEXT PRIMARY KEY,
@@ -52,10 +142,65 @@ export function createDbClient(baseDir: string): DbClient {
     });
     tx();
   }
+}
+
+/** Carries out a restore requested in the previous session; see DatabaseBackupService.restore. */
+function applyPendingRestore(baseDir: string, dbPath: string): DatabaseRecoveryInfo | null {
+  const backupName = takePendingRestore(baseDir);
+  if (!backupName) {
+    return null;
+  }
+  const backupPath = path.join(getBackupDir(baseDir), backupName);
+  const check = checkDatabaseFile(backupPath, 'quick');
+  if (!check.ok) {
+    console.error(`[db] restore of ${backupName} skipped: ${check.messages.join('; ')}`);
+    return null;
+  }
+  replaceDatabaseWithBackup(dbPath, backupPath);
+  return { reason: 'restore', atMs: Date.now(), message: null, restoredFrom: backupName, movedToPath: null };
+}
+
+/**
+ * Moves a corrupt database aside and puts the newest backup that passes a quick check in its
+ * place. With no usable backup the app starts from an empty database and the library is rescanned.
+ */
+function recoverCorruptDatabase(baseDir: string, dbPath: string, error: unknown): DatabaseRecoveryInfo {
+  const atMs = Date.now();
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`[db] database is corrupt, recovering: ${message}`);
+  const movedToPath = moveDatabaseFiles(dbPath, getCorruptDir(baseDir), atMs);
+  const backupDir = getBackupDir(baseDir);
+  for (const backup of listBackups(backupDir)) {
+    const backupPath = path.join(backupDir, backup.name);
+    if (checkDatabaseFile(backupPath, 'quick').ok) {
+      replaceDatabaseWithBackup(dbPath, backupPath);
+      return { reason: 'corrupt', atMs, message, restoredFrom: backup.name, movedToPath };
+    }
+  }
+  return { reason: 'corrupt', atMs, message, restoredFrom: null, movedToPath };
+}
+
+export function createDbClient(baseDir: string): DbClient {
+  fs.mkdirSync(baseDir, { recursive: true });
+  const dbPath = path.join(baseDir, DB_FILE_NAME);
+  let recovery = applyPendingRestore(baseDir, dbPath);
+
+  let db: Database.Database;
+  try {
+    db = openDatabase(dbPath);
+  } catch (error) {
+    if (!isDamagedDatabase(dbPath, error)) {
+      throw error;
+    }
+    recovery = recoverCorruptDatabase(baseDir, dbPath, error);
+    db = openDatabase(dbPath);
+  }
 
   return {
     db,
     dbPath,
+    baseDir,
+    recovery,
     close: () => db.close(),
   };
 }
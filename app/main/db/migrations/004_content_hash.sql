@@ -0,0 +1,3 @@
+ALTER TABLE photos ADD COLUMN contentHash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_photos_content_hash ON photos(contentHash);
@@ -0,0 +1 @@
+ALTER TABLE roots ADD COLUMN ignoreStatsJson TEXT;
@@ -0,0 +1,13 @@
+ALTER TABLE photos ADD COLUMN cameraMake TEXT;
+ALTER TABLE photos ADD COLUMN lensModel TEXT;
+ALTER TABLE photos ADD COLUMN focalLengthMm REAL;
+ALTER TABLE photos ADD COLUMN focalLength35mm REAL;
+ALTER TABLE photos ADD COLUMN fNumber REAL;
+ALTER TABLE photos ADD COLUMN exposureTimeSec REAL;
+ALTER TABLE photos ADD COLUMN iso INTEGER;
+ALTER TABLE photos ADD COLUMN flashFired INTEGER;
+ALTER TABLE photos ADD COLUMN orientation INTEGER;
+ALTER TABLE photos ADD COLUMN metadataVersion INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_photos_focal_length ON photos(focalLengthMm);
+CREATE INDEX IF NOT EXISTS idx_photos_f_number ON photos(fNumber);
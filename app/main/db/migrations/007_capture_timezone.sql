@@ -0,0 +1,11 @@
+ALTER TABLE photos ADD COLUMN takenAtLocalMs INTEGER;
+ALTER TABLE photos ADD COLUMN takenTzOffsetMinutes INTEGER;
+
+-- Rows indexed before this migration only know the instant; approximate their wall clock with
+-- this machine's zone (the old grouping behaviour) until the next scan re-reads them.
+UPDATE photos
+SET takenAtLocalMs = CAST(strftime('%s', datetime(takenAtMs / 1000, 'unixepoch', 'localtime')) AS INTEGER) * 1000
+  + (takenAtMs % 1000)
+WHERE takenAtMs IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_photos_taken_local ON photos(takenAtLocalMs);
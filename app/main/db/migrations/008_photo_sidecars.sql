@@ -0,0 +1,2 @@
+ALTER TABLE photos ADD COLUMN metadataSourcesJson TEXT;
+ALTER TABLE photos ADD COLUMN sidecarSignature TEXT;
@@ -0,0 +1,5 @@
+ALTER TABLE photos ADD COLUMN contentIdentifier TEXT;
+ALTER TABLE photos ADD COLUMN stackId INTEGER;
+ALTER TABLE photos ADD COLUMN isStackPrimary INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_photos_stack ON photos(stackId);
@@ -0,0 +1,30 @@
+CREATE TABLE IF NOT EXISTS index_jobs (
+  id TEXT PRIMARY KEY,
+  rootPath TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  phase TEXT NOT NULL,
+  hasPlan INTEGER NOT NULL DEFAULT 0,
+  scanned INTEGER NOT NULL DEFAULT 0,
+  queued INTEGER NOT NULL DEFAULT 0,
+  processed INTEGER NOT NULL DEFAULT 0,
+  indexed INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  relocated INTEGER NOT NULL DEFAULT 0,
+  errored INTEGER NOT NULL DEFAULT 0,
+  percent INTEGER NOT NULL DEFAULT 0,
+  message TEXT,
+  startedAtMs INTEGER NOT NULL,
+  finishedAtMs INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_index_jobs_started ON index_jobs(startedAtMs);
+
+-- Work still owed by a job; rows are removed as batches commit, so what remains is the resume cursor.
+CREATE TABLE IF NOT EXISTS index_job_items (
+  jobId TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  path TEXT NOT NULL,
+  payloadJson TEXT,
+  PRIMARY KEY (jobId, kind, path),
+  FOREIGN KEY(jobId) REFERENCES index_jobs(id) ON DELETE CASCADE
+);
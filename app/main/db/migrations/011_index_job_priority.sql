@@ -0,0 +1 @@
+ALTER TABLE index_jobs ADD COLUMN priority TEXT NOT NULL DEFAULT 'user';
@@ -0,0 +1,4 @@
+ALTER TABLE index_jobs ADD COLUMN bytesProcessed INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE index_jobs ADD COLUMN throughputJson TEXT;
+ALTER TABLE index_jobs ADD COLUMN phaseTimingsJson TEXT;
+ALTER TABLE index_jobs ADD COLUMN enrichmentJson TEXT;
@@ -0,0 +1,9 @@
+-- Positions matched from GPS track files. Kept apart from lat/lng so the file's own values survive;
+-- location queries read COALESCE(geotagLat, lat).
+ALTER TABLE photos ADD COLUMN geotagLat REAL;
+ALTER TABLE photos ADD COLUMN geotagLng REAL;
+ALTER TABLE photos ADD COLUMN geotagAlt REAL;
+ALTER TABLE photos ADD COLUMN geotagSource TEXT;
+ALTER TABLE photos ADD COLUMN geotagAppliedAtMs INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_photos_effective_geo ON photos(COALESCE(geotagLat, lat), COALESCE(geotagLng, lng));
@@ -0,0 +1,23 @@
+-- Positions set from GPS tracks or by hand. Kept apart from photos so the file's own lat/lng
+-- survive and "revert to original" is a delete; location queries read through this table.
+CREATE TABLE IF NOT EXISTS photo_location_overrides (
+  photoId INTEGER PRIMARY KEY REFERENCES photos(id) ON DELETE CASCADE,
+  lat REAL NOT NULL,
+  lng REAL NOT NULL,
+  alt REAL,
+  kind TEXT NOT NULL CHECK (kind IN ('track', 'manual')),
+  source TEXT,
+  updatedAtMs INTEGER NOT NULL
+);
+
+INSERT OR REPLACE INTO photo_location_overrides (photoId, lat, lng, alt, kind, source, updatedAtMs)
+SELECT id, geotagLat, geotagLng, geotagAlt, 'track', geotagSource, COALESCE(geotagAppliedAtMs, 0)
+FROM photos
+WHERE geotagLat IS NOT NULL AND geotagLng IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_photos_effective_geo;
+ALTER TABLE photos DROP COLUMN geotagLat;
+ALTER TABLE photos DROP COLUMN geotagLng;
+ALTER TABLE photos DROP COLUMN geotagAlt;
+ALTER TABLE photos DROP COLUMN geotagSource;
+ALTER TABLE photos DROP COLUMN geotagAppliedAtMs;
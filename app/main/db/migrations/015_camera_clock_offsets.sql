@@ -0,0 +1,20 @@
+-- Clock corrections per camera model, optionally limited to one root and to a range of the
+-- camera's own (uncorrected) wall-clock time. takenAtMs is never rewritten: the offset of the
+-- rule that applies is cached in photos.takenAtOffsetMs and every time query adds it.
+CREATE TABLE IF NOT EXISTS camera_clock_offsets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  cameraModel TEXT NOT NULL,
+  offsetMs INTEGER NOT NULL,
+  rootId INTEGER REFERENCES roots(id) ON DELETE CASCADE,
+  fromLocalMs INTEGER,
+  toLocalMs INTEGER,
+  createdAtMs INTEGER NOT NULL,
+  updatedAtMs INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_camera_clock_offsets_model ON camera_clock_offsets(cameraModel);
+
+ALTER TABLE photos ADD COLUMN takenAtOffsetMs INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_photos_effective_taken ON photos(takenAtMs + takenAtOffsetMs);
+CREATE INDEX IF NOT EXISTS idx_photos_effective_taken_local ON photos(takenAtLocalMs + takenAtOffsetMs);
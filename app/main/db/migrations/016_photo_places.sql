@@ -0,0 +1,10 @@
+-- Nearest city from the offline GeoNames catalog for each photo's effective position (override
+-- first, then the file's own). placeLat/placeLng keep the position that was looked up, so a photo
+-- whose position changed since is found again; they are also set when no city was close enough.
+ALTER TABLE photos ADD COLUMN placeCityId TEXT;
+ALTER TABLE photos ADD COLUMN placeCountryCode TEXT;
+ALTER TABLE photos ADD COLUMN placeLat REAL;
+ALTER TABLE photos ADD COLUMN placeLng REAL;
+
+CREATE INDEX IF NOT EXISTS idx_photos_place_country ON photos(placeCountryCode, placeCityId);
+CREATE INDEX IF NOT EXISTS idx_photos_place_city ON photos(placeCityId);
@@ -0,0 +1,11 @@
+-- Full-text index for the search box; rowid is photos.id. Documents are built in the repository
+-- (file name, folder segments under the root, camera, place names) and filled in for existing
+-- photos on startup, with names for the places they already have. After that `places` is written
+-- by the place lookup pass.
+CREATE VIRTUAL TABLE IF NOT EXISTS photo_search USING fts5(
+  fileName,
+  folders,
+  camera,
+  places,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
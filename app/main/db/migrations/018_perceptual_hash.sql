@@ -0,0 +1,6 @@
+-- 64-bit difference hash (16 hex chars) of the photo's 64px thumbnail, for finding bursts and
+-- re-edited exports of the same shot. Cleared whenever the file's size or mtime changes.
+ALTER TABLE photos ADD COLUMN perceptualHash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_photos_perceptual_pending ON photos(mediaType, isDeleted)
+  WHERE perceptualHash IS NULL;
@@ -0,0 +1,10 @@
+-- Files in the on-disk thumbnail cache with their size and last use, for the per-class disk
+-- budget. Rows are written in batches by the cache budget; the files themselves stay the truth.
+CREATE TABLE IF NOT EXISTS thumbnail_cache_entries (
+  path TEXT PRIMARY KEY,
+  cacheClass TEXT NOT NULL,
+  sizeBytes INTEGER NOT NULL,
+  lastAccessMs INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_thumbnail_cache_lru ON thumbnail_cache_entries(cacheClass, lastAccessMs, path);
@@ -0,0 +1,67 @@
+-- Spatial index over each photo's effective position (its location override, else the file's own
+-- lat/lng), for bbox queries. rowid is photos.id. Triggers on both tables keep it in sync, so the
+-- repository never writes it directly. R*Tree stores 32-bit floats rounded outward, so queries
+-- still compare the exact coordinates on the rows it returns.
+CREATE VIRTUAL TABLE IF NOT EXISTS photo_geo_index USING rtree(
+  id,
+  minLat, maxLat,
+  minLng, maxLng
+);
+
+CREATE VIEW IF NOT EXISTS photo_effective_geo AS
+SELECT
+  photos.id AS id,
+  COALESCE(loc.lat, photos.lat) AS lat,
+  COALESCE(loc.lng, photos.lng) AS lng
+FROM photos
+LEFT JOIN photo_location_overrides loc ON loc.photoId = photos.id;
+
+CREATE TRIGGER IF NOT EXISTS trg_photo_geo_insert AFTER INSERT ON photos
+BEGIN
+  DELETE FROM photo_geo_index WHERE id = NEW.id;
+  INSERT INTO photo_geo_index (id, minLat, maxLat, minLng, maxLng)
+  SELECT id, lat, lat, lng, lng FROM photo_effective_geo
+  WHERE id = NEW.id AND lat IS NOT NULL AND lng IS NOT NULL;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_photo_geo_update AFTER UPDATE OF lat, lng ON photos
+BEGIN
+  DELETE FROM photo_geo_index WHERE id = NEW.id;
+  INSERT INTO photo_geo_index (id, minLat, maxLat, minLng, maxLng)
+  SELECT id, lat, lat, lng, lng FROM photo_effective_geo
+  WHERE id = NEW.id AND lat IS NOT NULL AND lng IS NOT NULL;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_photo_geo_delete AFTER DELETE ON photos
+BEGIN
+  DELETE FROM photo_geo_index WHERE id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_photo_geo_override_insert AFTER INSERT ON photo_location_overrides
+BEGIN
+  DELETE FROM photo_geo_index WHERE id = NEW.photoId;
+  INSERT INTO photo_geo_index (id, minLat, maxLat, minLng, maxLng)
+  SELECT id, lat, lat, lng, lng FROM photo_effective_geo
+  WHERE id = NEW.photoId AND lat IS NOT NULL AND lng IS NOT NULL;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_photo_geo_override_update AFTER UPDATE ON photo_location_overrides
+BEGIN
+  DELETE FROM photo_geo_index WHERE id IN (OLD.photoId, NEW.photoId);
+  INSERT INTO photo_geo_index (id, minLat, maxLat, minLng, maxLng)
+  SELECT id, lat, lat, lng, lng FROM photo_effective_geo
+  WHERE id IN (OLD.photoId, NEW.photoId) AND lat IS NOT NULL AND lng IS NOT NULL;
+END;
+
+-- Reverting to the file's own position is a delete; the photo falls back to photos.lat/lng.
+CREATE TRIGGER IF NOT EXISTS trg_photo_geo_override_delete AFTER DELETE ON photo_location_overrides
+BEGIN
+  DELETE FROM photo_geo_index WHERE id = OLD.photoId;
+  INSERT INTO photo_geo_index (id, minLat, maxLat, minLng, maxLng)
+  SELECT id, lat, lat, lng, lng FROM photo_effective_geo
+  WHERE id = OLD.photoId AND lat IS NOT NULL AND lng IS NOT NULL;
+END;
+
+INSERT OR REPLACE INTO photo_geo_index (id, minLat, maxLat, minLng, maxLng)
+SELECT id, lat, lat, lng, lng FROM photo_effective_geo
+WHERE lat IS NOT NULL AND lng IS NOT NULL;
@@ -0,0 +1,3 @@
+-- EXIF_METADATA_VERSION the full (enrichment) read last succeeded with; NULL until it has run for the
+-- file as it is now. Tags that file simply does not carry are then not looked for again.
+ALTER TABLE photos ADD COLUMN enrichedVersion INTEGER;
@@ -0,0 +1,2 @@
+-- Restacking looks up the files sharing a Live Photo ContentIdentifier with the ones that changed.
+CREATE INDEX IF NOT EXISTS idx_photos_content_identifier ON photos(contentIdentifier);
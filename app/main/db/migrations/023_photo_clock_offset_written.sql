@@ -0,0 +1,3 @@
+-- Set when metadata write-back put the clock-corrected capture time into the file or its sidecar.
+-- Clock offset rules skip these photos since their own time is already corrected; a changed file clears it.
+ALTER TABLE photos ADD COLUMN clockOffsetWrittenAtMs INTEGER;
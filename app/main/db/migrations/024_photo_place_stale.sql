@@ -0,0 +1,37 @@
+-- Photos whose place has to be looked up again: new rows, changed positions and a rebuilt city
+-- catalog. Triggers flag position changes, so the resolver reads stale photos from a partial index
+-- instead of comparing every photo's effective position with placeLat/placeLng.
+ALTER TABLE photos ADD COLUMN placeStale INTEGER NOT NULL DEFAULT 1;
+
+UPDATE photos
+SET placeStale = (
+  SELECT CASE
+    WHEN geo.lat IS NULL OR geo.lng IS NULL THEN photos.placeLat IS NOT NULL OR photos.placeCityId IS NOT NULL
+    ELSE photos.placeLat IS NULL OR photos.placeLat != geo.lat OR photos.placeLng != geo.lng
+  END
+  FROM photo_effective_geo geo
+  WHERE geo.id = photos.id
+);
+
+CREATE INDEX IF NOT EXISTS idx_photos_place_stale ON photos(isDeleted) WHERE placeStale = 1;
+
+CREATE TRIGGER IF NOT EXISTS trg_photo_place_stale_update AFTER UPDATE OF lat, lng ON photos
+WHEN OLD.lat IS NOT NEW.lat OR OLD.lng IS NOT NEW.lng
+BEGIN
+  UPDATE photos SET placeStale = 1 WHERE id = NEW.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_photo_place_stale_override_insert AFTER INSERT ON photo_location_overrides
+BEGIN
+  UPDATE photos SET placeStale = 1 WHERE id = NEW.photoId;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_photo_place_stale_override_update AFTER UPDATE ON photo_location_overrides
+BEGIN
+  UPDATE photos SET placeStale = 1 WHERE id IN (OLD.photoId, NEW.photoId);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_photo_place_stale_override_delete AFTER DELETE ON photo_location_overrides
+BEGIN
+  UPDATE photos SET placeStale = 1 WHERE id = OLD.photoId;
+END;
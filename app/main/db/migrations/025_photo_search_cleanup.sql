@@ -0,0 +1,8 @@
+-- Drops a photo's search document with its row, including rows removed with their root by the
+-- ON DELETE CASCADE from roots, so no orphaned documents match until the next prune.
+CREATE TRIGGER IF NOT EXISTS trg_photo_search_delete AFTER DELETE ON photos
+BEGIN
+  DELETE FROM photo_search WHERE rowid = OLD.id;
+END;
+
+DELETE FROM photo_search WHERE rowid NOT IN (SELECT id FROM photos);
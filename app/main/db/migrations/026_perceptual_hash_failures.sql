@@ -0,0 +1,11 @@
+-- When hashing a photo last failed (no usable thumbnail, unreadable image). Kept apart from
+-- lastError so indexing errors stay accurate; cleared with the hash when the file changes.
+ALTER TABLE photos ADD COLUMN perceptualHashFailedAtMs INTEGER;
+
+UPDATE photos
+SET perceptualHashFailedAtMs = lastIndexedAtMs, lastError = NULL
+WHERE lastError LIKE 'Perceptual hash failed: %';
+
+DROP INDEX IF EXISTS idx_photos_perceptual_pending;
+CREATE INDEX IF NOT EXISTS idx_photos_perceptual_pending ON photos(mediaType, isDeleted)
+  WHERE perceptualHash IS NULL AND perceptualHashFailedAtMs IS NULL;
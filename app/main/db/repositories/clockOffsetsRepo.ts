@@ -0,0 +1,79 @@
+import type Database from 'better-sqlite3';
+
+import type { CameraClockOffset } from '@shared/types/photo';
+
+export interface ClockOffsetWriteInput {
+  cameraModel: string;
+  offsetMs: number;
+  rootId: number | null;
+  fromLocalMs: number | null;
+  toLocalMs: number | null;
+}
+
+/**
+ * SQL for the offset a photo gets from the rules; 0 when none applies. Arguments are SQL
+ * expressions for the photo's camera model, root id and uncorrected wall-clock capture time.
+ * Mirrored by `resolveClockOffset` in main/clock/clockOffsetService.ts for previews.
+ */
+export function clockOffsetSql(cameraModel: string, rootId: string, localMs: string): string {
+  return `COALESCE((
+    SELECT rule.offsetMs
+    FROM camera_clock_offsets rule
+    WHERE rule.cameraModel = ${cameraModel}
+      AND (rule.rootId IS NULL OR rule.rootId = ${rootId})
+      AND (rule.fromLocalMs IS NULL OR ${localMs} >= rule.fromLocalMs)
+      AND (rule.toLocalMs IS NULL OR ${localMs} <= rule.toLocalMs)
+    ORDER BY rule.updatedAtMs DESC, rule.id DESC
+    LIMIT 1
+  ), 0)`;
+}
+
+export class ClockOffsetsRepository {
+  private readonly listStmt;
+  private readonly byIdStmt;
+  private readonly insertStmt;
+  private readonly updateStmt;
+  private readonly deleteStmt;
+
+  constructor(db: Database.Database) {
+    this.listStmt = db.prepare('SELECT * FROM camera_clock_offsets ORDER BY cameraModel ASC, updatedAtMs DESC');
+    this.byIdStmt = db.prepare('SELECT * FROM camera_clock_offsets WHERE id = ? LIMIT 1');
+    this.insertStmt = db.prepare(`
+      INSERT INTO camera_clock_offsets (cameraModel, offsetMs, rootId, fromLocalMs, toLocalMs, createdAtMs, updatedAtMs)
+      VALUES (@cameraModel, @offsetMs, @rootId, @fromLocalMs, @toLocalMs, @nowMs, @nowMs)
+    `);
+    this.updateStmt = db.prepare(`
+      UPDATE camera_clock_offsets
+      SET
+        cameraModel = @cameraModel,
+        offsetMs = @offsetMs,
+        rootId = @rootId,
+        fromLocalMs = @fromLocalMs,
+        toLocalMs = @toLocalMs,
+        updatedAtMs = @nowMs
+      WHERE id = @id
+    `);
+    this.deleteStmt = db.prepare('DELETE FROM camera_clock_offsets WHERE id = ?');
+  }
+
+  list(): CameraClockOffset[] {
+    return this.listStmt.all() as CameraClockOffset[];
+  }
+
+  get(id: number): CameraClockOffset | null {
+    const row = this.byIdStmt.get(id) as CameraClockOffset | undefined;
+    return row ?? null;
+  }
+
+  insert(input: ClockOffsetWriteInput, nowMs = Date.now()): number {
+    return Number(this.insertStmt.run({ ...input, nowMs }).lastInsertRowid);
+  }
+
+  update(id: number, input: ClockOffsetWriteInput, nowMs = Date.now()): boolean {
+    return this.updateStmt.run({ ...input, id, nowMs }).changes > 0;
+  }
+
+  delete(id: number): boolean {
+    return this.deleteStmt.run(id).changes > 0;
+  }
+}
@@ -0,0 +1,274 @@
+import type Database from 'better-sqlite3';
+
+import {
+  EMPTY_INDEX_PHASE_TIMINGS,
+  type IndexEnrichmentProgress,
+  type IndexJobPriority,
+  type IndexJobRunMode,
+  type IndexPhase,
+  type IndexPhaseTimings,
+  type IndexStatus,
+  type IndexThroughput,
+} from '@shared/types/ipc';
+import type { MediaType, ScanFile } from '@shared/types/photo';
+
+export interface EnrichmentTarget {
+  rootId: number;
+  path: string;
+  mediaType: MediaType;
+  sizeBytes: number;
+  sidecarPaths: string[];
+  hasContentHash: boolean;
+}
+
+export interface PersistedIndexJob {
+  status: IndexStatus;
+  hasPlan: boolean;
+}
+
+export interface PersistedIndexPlan {
+  toProcess: ScanFile[];
+  toRestore: string[];
+  toDelete: string[];
+  enrichment: EnrichmentTarget[];
+}
+
+type IndexJobItemKind = 'process' | 'restore' | 'delete' | 'enrich';
+
+interface IndexJobRow {
+  id: string;
+  rootPath: string;
+  mode: IndexJobRunMode;
+  priority: IndexJobPriority;
+  phase: IndexPhase;
+  hasPlan: number;
+  scanned: number;
+  queued: number;
+  processed: number;
+  indexed: number;
+  skipped: number;
+  relocated: number;
+  errored: number;
+  percent: number;
+  message: string | null;
+  bytesProcessed: number;
+  throughputJson: string | null;
+  phaseTimingsJson: string | null;
+  enrichmentJson: string | null;
+  startedAtMs: number;
+  finishedAtMs: number | null;
+}
+
+const ACTIVE_PHASES: IndexPhase[] = ['idle', 'queued', 'scanning', 'extracting', 'saving'];
+const HISTORY_KEEP = 50;
+
+function toPersistedJob(row: IndexJobRow): PersistedIndexJob {
+  return {
+    hasPlan: row.hasPlan === 1,
+    status: {
+      jobId: row.id,
+      rootPath: row.rootPath,
+      mode: row.mode,
+      priority: row.priority,
+      phase: row.phase,
+      scanned: row.scanned,
+      queued: row.queued,
+      processed: row.processed,
+      indexed: row.indexed,
+      skipped: row.skipped,
+      relocated: row.relocated,
+      errored: row.errored,
+      percent: row.percent,
+      message: row.message ?? undefined,
+      bytesProcessed: row.bytesProcessed,
+      throughput: parsePayload<IndexThroughput>(row.throughputJson),
+      phaseTimings: { ...EMPTY_INDEX_PHASE_TIMINGS, ...parsePayload<Partial<IndexPhaseTimings>>(row.phaseTimingsJson) },
+      enrichment: parsePayload<IndexEnrichmentProgress>(row.enrichmentJson),
+      startedAtMs: row.startedAtMs,
+      finishedAtMs: row.finishedAtMs,
+    },
+  };
+}
+
+function parsePayload<T>(payloadJson: string | null): T | null {
+  if (!payloadJson) {
+    return null;
+  }
+  try {
+    return JSON.parse(payloadJson) as T;
+  } catch {
+    return null;
+  }
+}
+
+export class IndexJobsRepository {
+  private readonly db: Database.Database;
+  private readonly insertStmt;
+  private readonly updateStatusStmt;
+  private readonly markPlanStmt;
+  private readonly byIdStmt;
+  private readonly recentStmt;
+  private readonly insertItemStmt;
+  private readonly deleteItemStmt;
+  private readonly clearItemsStmt;
+  private readonly itemsByKindStmt;
+  private readonly pruneStmt;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+    this.insertStmt = db.prepare(`
+      INSERT INTO index_jobs (
+        id, rootPath, mode, priority, phase, scanned, queued, processed, indexed, skipped, relocated, errored,
+        percent, message, bytesProcessed, throughputJson, phaseTimingsJson, enrichmentJson, startedAtMs, finishedAtMs
+      ) VALUES (
+        @jobId, @rootPath, @mode, @priority, @phase, @scanned, @queued, @processed, @indexed, @skipped, @relocated,
+        @errored, @percent, @message, @bytesProcessed, @throughputJson, @phaseTimingsJson, @enrichmentJson,
+        @startedAtMs, @finishedAtMs
+      )
+    `);
+    this.updateStatusStmt = db.prepare(`
+      UPDATE index_jobs SET
+        mode = @mode,
+        priority = @priority,
+        phase = @phase,
+        scanned = @scanned,
+        queued = @queued,
+        processed = @processed,
+        indexed = @indexed,
+        skipped = @skipped,
+        relocated = @relocated,
+        errored = @errored,
+        percent = @percent,
+        message = @message,
+        bytesProcessed = @bytesProcessed,
+        throughputJson = @throughputJson,
+        phaseTimingsJson = @phaseTimingsJson,
+        enrichmentJson = @enrichmentJson,
+        finishedAtMs = @finishedAtMs
+      WHERE id = @jobId
+    `);
+    this.markPlanStmt = db.prepare('UPDATE index_jobs SET hasPlan = 1 WHERE id = ?');
+    this.byIdStmt = db.prepare('SELECT * FROM index_jobs WHERE id = ? LIMIT 1');
+    this.recentStmt = db.prepare('SELECT * FROM index_jobs ORDER BY startedAtMs DESC LIMIT ?');
+    this.insertItemStmt = db.prepare(
+      'INSERT OR REPLACE INTO index_job_items (jobId, kind, path, payloadJson) VALUES (?, ?, ?, ?)',
+    );
+    this.deleteItemStmt = db.prepare('DELETE FROM index_job_items WHERE jobId = ? AND kind = ? AND path = ?');
+    this.clearItemsStmt = db.prepare('DELETE FROM index_job_items WHERE jobId = ?');
+    this.itemsByKindStmt = db.prepare(
+      'SELECT path, payloadJson FROM index_job_items WHERE jobId = ? AND kind = ? ORDER BY rowid ASC',
+    );
+    this.pruneStmt = db.prepare(`
+      DELETE FROM index_jobs
+      WHERE id NOT IN (SELECT id FROM index_jobs ORDER BY startedAtMs DESC LIMIT ?)
+        AND phase IN ('complete', 'cancelled', 'error')
+    `);
+  }
+
+  create(status: IndexStatus): void {
+    this.insertStmt.run({
+      ...this.toStatusParams(status),
+      rootPath: status.rootPath,
+      startedAtMs: status.startedAtMs,
+    });
+    this.pruneStmt.run(HISTORY_KEEP);
+  }
+
+  saveStatus(status: IndexStatus): void {
+    this.updateStatusStmt.run(this.toStatusParams(status));
+  }
+
+  get(jobId: string): PersistedIndexJob | null {
+    const row = this.byIdStmt.get(jobId) as IndexJobRow | undefined;
+    return row ? toPersistedJob(row) : null;
+  }
+
+  listRecent(limit = 20): IndexStatus[] {
+    const safeLimit = Math.max(1, Math.min(HISTORY_KEEP, Math.trunc(limit) || 20));
+    return (this.recentStmt.all(safeLimit) as IndexJobRow[]).map((row) => toPersistedJob(row).status);
+  }
+
+  /** Jobs that were running when the app last quit. */
+  listInterrupted(): PersistedIndexJob[] {
+    const placeholders = ACTIVE_PHASES.map(() => '?').join(', ');
+    const rows = this.db
+      .prepare(`SELECT * FROM index_jobs WHERE phase IN (${placeholders}) ORDER BY startedAtMs ASC`)
+      .all(...ACTIVE_PHASES) as IndexJobRow[];
+    return rows.map(toPersistedJob);
+  }
+
+  savePlan(jobId: string, plan: Omit<PersistedIndexPlan, 'enrichment'>): void {
+    const tx = this.db.transaction(() => {
+      this.clearItemsStmt.run(jobId);
+      for (const file of plan.toProcess) {
+        this.insertItemStmt.run(jobId, 'process', file.path, JSON.stringify(file));
+      }
+      for (const pathItem of plan.toRestore) {
+        this.insertItemStmt.run(jobId, 'restore', pathItem, null);
+      }
+      for (const pathItem of plan.toDelete) {
+        this.insertItemStmt.run(jobId, 'delete', pathItem, null);
+      }
+      this.markPlanStmt.run(jobId);
+    });
+    tx();
+  }
+
+  loadPlan(jobId: string): PersistedIndexPlan {
+    return {
+      toProcess: this.loadPayloads<ScanFile>(jobId, 'process'),
+      toRestore: this.loadPaths(jobId, 'restore'),
+      toDelete: this.loadPaths(jobId, 'delete'),
+      enrichment: this.loadPayloads<EnrichmentTarget>(jobId, 'enrich'),
+    };
+  }
+
+  /** Drops committed files from the plan and remembers which of them still need enrichment. */
+  completeProcessed(jobId: string, paths: string[], enrichment: EnrichmentTarget[]): void {
+    const tx = this.db.transaction(() => {
+      for (const pathItem of paths) {
+        this.deleteItemStmt.run(jobId, 'process', pathItem);
+      }
+      for (const target of enrichment) {
+        this.insertItemStmt.run(jobId, 'enrich', target.path, JSON.stringify(target));
+      }
+    });
+    tx();
+  }
+
+  clearItems(jobId: string): void {
+    this.clearItemsStmt.run(jobId);
+  }
+
+  private loadPaths(jobId: string, kind: IndexJobItemKind): string[] {
+    return (this.itemsByKindStmt.all(jobId, kind) as Array<{ path: string }>).map((row) => row.path);
+  }
+
+  private loadPayloads<T>(jobId: string, kind: IndexJobItemKind): T[] {
+    const rows = this.itemsByKindStmt.all(jobId, kind) as Array<{ payloadJson: string | null }>;
+    return rows.map((row) => parsePayload<T>(row.payloadJson)).filter((item): item is T => item != null);
+  }
+
+  private toStatusParams(status: IndexStatus) {
+    return {
+      jobId: status.jobId,
+      mode: status.mode,
+      priority: status.priority,
+      phase: status.phase,
+      scanned: status.scanned,
+      queued: status.queued,
+      processed: status.processed,
+      indexed: status.indexed,
+      skipped: status.skipped,
+      relocated: status.relocated,
+      errored: status.errored,
+      percent: status.percent,
+      message: status.message ?? null,
+      bytesProcessed: status.bytesProcessed,
+      throughputJson: status.throughput ? JSON.stringify(status.throughput) : null,
+      phaseTimingsJson: JSON.stringify(status.phaseTimings),
+      enrichmentJson: status.enrichment ? JSON.stringify(status.enrichment) : null,
+      finishedAtMs: status.finishedAtMs,
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import type Database from 'better-sqlite3';
+
+import type { LocationOverride, LocationOverrideKind } from '@shared/types/photo';
+
+export class LocationOverridesRepository {
+  private readonly db: Database.Database;
+  private readonly byIdStmt;
+  private readonly upsertStmt;
+  private readonly deleteStmt;
+  private readonly deleteByKindStmt;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+    this.byIdStmt = db.prepare('SELECT * FROM photo_location_overrides WHERE photoId = ? LIMIT 1');
+    this.upsertStmt = db.prepare(`
+      INSERT INTO photo_location_overrides (photoId, lat, lng, alt, kind, source, updatedAtMs)
+      SELECT @photoId, @lat, @lng, @alt, @kind, @source, @updatedAtMs
+      WHERE EXISTS (SELECT 1 FROM photos WHERE id = @photoId)
+      ON CONFLICT(photoId) DO UPDATE SET
+        lat = excluded.lat,
+        lng = excluded.lng,
+        alt = excluded.alt,
+        kind = excluded.kind,
+        source = excluded.source,
+        updatedAtMs = excluded.updatedAtMs
+    `);
+    this.deleteStmt = db.prepare('DELETE FROM photo_location_overrides WHERE photoId = ?');
+    this.deleteByKindStmt = db.prepare('DELETE FROM photo_location_overrides WHERE photoId = ? AND kind = ?');
+  }
+
+  get(photoId: number): LocationOverride | null {
+    const row = this.byIdStmt.get(photoId) as LocationOverride | undefined;
+    return row ?? null;
+  }
+
+  /** Current overrides for `photoIds`, in input order; photos without one are left out. */
+  getMany(photoIds: number[]): LocationOverride[] {
+    const rows: LocationOverride[] = [];
+    for (const photoId of new Set(photoIds)) {
+      const row = this.byIdStmt.get(photoId) as LocationOverride | undefined;
+      if (row) {
+        rows.push(row);
+      }
+    }
+    return rows;
+  }
+
+  /** Inserts or replaces overrides; rows for photos that no longer exist are skipped. */
+  upsert(items: LocationOverride[]): number {
+    if (items.length === 0) {
+      return 0;
+    }
+    let changed = 0;
+    const tx = this.db.transaction((rows: LocationOverride[]) => {
+      for (const row of rows) {
+        changed += this.upsertStmt.run(row).changes;
+      }
+    });
+    tx(items);
+    return changed;
+  }
+
+  /** Drops overrides so the file's own coordinates apply again; `kind` limits which ones go. */
+  delete(photoIds: number[], kind?: LocationOverrideKind): number {
+    if (photoIds.length === 0) {
+      return 0;
+    }
+    let removed = 0;
+    const tx = this.db.transaction((ids: number[]) => {
+      for (const photoId of ids) {
+        removed += (kind ? this.deleteByKindStmt.run(photoId, kind) : this.deleteStmt.run(photoId)).changes;
+      }
+    });
+    tx(Array.from(new Set(photoIds)));
+    return removed;
+  }
+}
@@ -2,48 +2,275 @@ import path from 'node:path';
 
 import type Database from 'better-sqlite3';
 
-import type { DateMediaCountItem, TimelineExtentInfo, TripPoint } from '@shared/types/ipc';
-import type { PointItem, PhotoRecord, PhotoUpsertInput } from '@shared/types/photo';
+import type {
+  DateMediaCountItem,
+  DuplicateGroupItem,
+  DuplicateMemberItem,
+  IndexErrorFileItem,
+  IndexErrorGroup,
+  SearchCount,
+  SimilarMemberItem,
+  StackMemberItem,
+  TimelineExtentInfo,
+  TripPoint,
+} from '@shared/types/ipc';
+import type { MediaType, PhotoExifDetails, PointItem, PhotoRecord, PhotoUpsertInput } from '@shared/types/photo';
 import type { Filters } from '@shared/types/settings';
+import { splitBboxAtAntimeridian } from '@shared/utils/geo';
+import { sha1 } from '@shared/utils/hash';
 import { normalizeFsPath } from '@shared/utils/path';
 
+import type { SearchSource } from '@main/search/searchText';
+import { buildSearchDocument, toFtsQuery } from '@main/search/searchText';
+
+import { clockOffsetSql } from './clockOffsetsRepo';
+
 export interface ExistingPhotoSnapshot {
   id: number;
   path: string;
   mtimeMs: number;
   sizeBytes: number;
   isDeleted: number;
+  contentHash: string | null;
+  metadataVersion: number;
+  sidecarSignature: string | null;
+  hasError: number;
+}
+
+export interface StackCandidate {
+  id: number;
+  path: string;
+  mediaType: MediaType;
+  takenAtMs: number | null;
+  contentIdentifier: string | null;
+  stackId: number | null;
+  isStackPrimary: number;
+}
+
+export interface StackAssignment {
+  id: number;
+  stackId: number | null;
+  isStackPrimary: number;
+}
+
+export interface PhotoRelocationInput {
+  rootId: number;
+  fromPath: string;
+  toPath: string;
+  pathHash: string;
+  sizeBytes: number;
+  mtimeMs: number;
+  mime: string | null;
+  lastIndexedAtMs: number;
+}
+
+export interface RelocatedPhoto {
+  id: number;
+  mediaType: MediaType;
+  fromPath: string;
+  toPath: string;
+  thumbPath: string | null;
+}
+
+export interface RootSampleFile {
+  path: string;
+  sizeBytes: number;
 }
 
-export interface PhotoMetadataPatchInput {
+export interface PhotoMetadataPatchInput extends PhotoExifDetails {
   rootId: number;
   path: string;
   lat: number | null;
   lng: number | null;
   alt: number | null;
   takenAtMs: number | null;
+  takenAtLocalMs: number | null;
+  takenTzOffsetMinutes: number | null;
   width: number | null;
   height: number | null;
   durationMs: number | null;
   cameraModel: string | null;
+  metadataSourcesJson: string | null;
+  contentIdentifier: string | null;
+  contentHash: string | null;
+  enrichedVersion: number | null;
   lastIndexedAtMs: number;
   lastError: string | null;
 }
 
+export interface PhotoEnrichmentState {
+  hasContentHash: boolean;
+  enrichedVersion: number | null;
+}
+
+/** A row enrichment has not run on at the current version, with the tags that decide whether it should. */
+export type EnrichmentBacklogRow = PhotoEnrichmentState &
+  Pick<
+    PhotoUpsertInput,
+    | 'path'
+    | 'mediaType'
+    | 'sizeBytes'
+    | 'lat'
+    | 'lng'
+    | 'takenAtMs'
+    | 'width'
+    | 'height'
+    | 'durationMs'
+    | 'cameraModel'
+    | 'cameraMake'
+    | 'lensModel'
+    | 'contentIdentifier'
+  >;
+
+export interface MetadataWriteRecordInput {
+  id: number;
+  sizeBytes: number;
+  mtimeMs: number;
+  sidecarSignature: string | null;
+  contentHash: string | null;
+  lat: number | null;
+  lng: number | null;
+  alt: number | null;
+  takenAtMs: number | null;
+  takenAtLocalMs: number | null;
+  takenAtOffsetMs: number;
+  // Set when the corrected capture time went into the file, so clock offset rules skip it from now on;
+  // null keeps what an earlier write recorded.
+  clockOffsetWrittenAtMs: number | null;
+  metadataSourcesJson: string;
+}
+
+export interface ClockOffsetSubject {
+  id: number;
+  path: string;
+  rootId: number;
+  cameraModel: string | null;
+  takenAtMs: number;
+  // Uncorrected wall-clock time, what clock offset ranges are matched against.
+  localMs: number;
+  takenAtOffsetMs: number;
+  // Write-back already put the corrected time into the file; rules no longer apply to it.
+  clockOffsetWrittenAtMs: number | null;
+  lat: number | null;
+  lng: number | null;
+}
+
+export interface SearchBackfillItem {
+  id: number;
+  placeCityId: string | null;
+}
+
+export interface PlaceSubject {
+  id: number;
+  // Effective position; null when the photo lost it and its place has to be cleared.
+  lat: number | null;
+  lng: number | null;
+}
+
+export interface PlaceAssignment {
+  id: number;
+  cityId: string | null;
+  countryCode: string | null;
+  lat: number | null;
+  lng: number | null;
+  // City and country names for text search; empty when no city was close enough.
+  searchText: string;
+}
+
+export interface PlaceCountRow {
+  countryCode: string;
+  cityId: string;
+  count: number;
+}
+
+export interface CameraModelRow {
+  cameraModel: string;
+  count: number;
+  minLocalMs: number | null;
+  maxLocalMs: number | null;
+}
+
+export interface PerceptualHashRow {
+  id: number;
+  hash: string;
+}
+
+export interface CachedMediaRow {
+  path: string;
+  mediaType: MediaType;
+}
+
+export interface GeotagCandidate {
+  id: number;
+  path: string;
+  takenAtMs: number;
+  hasOverride: number;
+}
+
 interface FilterSql {
   where: string;
   params: unknown[];
 }
 
+// An override (track match or manual edit) wins over the file's own coordinates wherever a location is read.
+// Queries reading these select FROM LOCATED_PHOTOS_SQL, which joins the override on its primary key.
+const LOCATED_PHOTOS_SQL = 'photos LEFT JOIN photo_location_overrides loc ON loc.photoId = photos.id';
+const EFFECTIVE_LAT_SQL = 'COALESCE(loc.lat, photos.lat)';
+const EFFECTIVE_LNG_SQL = 'COALESCE(loc.lng, photos.lng)';
+
+// Photos whose place has to be looked up again; triggers from migration 024 flag position changes.
+const PLACE_STALE_SQL = `
+  SELECT photos.id AS id, ${EFFECTIVE_LAT_SQL} AS lat, ${EFFECTIVE_LNG_SQL} AS lng
+  FROM ${LOCATED_PHOTOS_SQL}
+  WHERE photos.placeStale = 1 AND photos.isDeleted = 0
+`;
+
+// Camera clock corrections apply wherever a capture time is read; the raw columns keep what the file says.
+// Written exactly like the expression indexes from migration 015 so SQLite can use them.
+const EFFECTIVE_TAKEN_SQL = 'takenAtMs + takenAtOffsetMs';
+const EFFECTIVE_TAKEN_LOCAL_SQL = 'takenAtLocalMs + takenAtOffsetMs';
+// The upserted file is the one the row already describes, so what enrichment found for it still holds.
+const SAME_FILE_SQL = `(
+  photos.sizeBytes = excluded.sizeBytes
+  AND photos.mtimeMs = excluded.mtimeMs
+  AND photos.sidecarSignature IS excluded.sidecarSignature
+)`;
+
+// Rules correct the camera's own clock; once write-back stored the corrected time in the file they no longer apply.
+function photoClockOffsetSql(cameraModel: string, rootId: string, localMs: string): string {
+  return `CASE
+    WHEN photos.clockOffsetWrittenAtMs IS NULL THEN ${clockOffsetSql(cameraModel, rootId, localMs)}
+    ELSE 0
+  END`;
+}
+
+const PHOTO_CLOCK_OFFSET_SQL = photoClockOffsetSql(
+  'photos.cameraModel',
+  'photos.rootId',
+  'COALESCE(photos.takenAtLocalMs, photos.takenAtMs)',
+);
+
 export class PhotosRepository {
   private readonly upsertStmt;
   private readonly markDeletedByPathStmt;
   private readonly restoreByPathStmt;
+  private readonly relocateByPathStmt;
+  private readonly byPathStmt;
   private readonly patchMetadataStmt;
   private readonly byIdStmt;
   private readonly updateThumbStmt;
   private readonly setErrorStmt;
   private readonly clearErrorStmt;
+  private readonly setStackStmt;
+  private readonly recordMetadataWriteStmt;
+  private readonly setPlaceStmt;
+  private readonly setPerceptualHashStmt;
+  private readonly setPerceptualHashFailedStmt;
+  private readonly searchSourceStmt;
+  private readonly searchPlacesStmt;
+  private readonly deleteSearchStmt;
+  private readonly insertSearchStmt;
+  private readonly setSearchPlacesStmt;
 
   constructor(private readonly db: Database.Database) {
     this.upsertStmt = db.prepare(`
@@ -51,6 +278,7 @@ export class PhotosRepository {
         rootId,
         path,
         pathHash,
+        contentHash,
         sizeBytes,
         mtimeMs,
         mediaType,
@@ -59,19 +287,36 @@ export class PhotosRepository {
         lng,
         alt,
         takenAtMs,
+        takenAtLocalMs,
+        takenTzOffsetMinutes,
+        takenAtOffsetMs,
         width,
         height,
         durationMs,
         cameraModel,
+        cameraMake,
+        lensModel,
+        focalLengthMm,
+        focalLength35mm,
+        fNumber,
+        exposureTimeSec,
+        iso,
+        flashFired,
+        orientation,
+        metadataSourcesJson,
+        sidecarSignature,
+        contentIdentifier,
         thumbPath,
         thumbUpdatedAtMs,
         isDeleted,
+        metadataVersion,
         lastIndexedAtMs,
         lastError
       ) VALUES (
         @rootId,
         @path,
         @pathHash,
+        @contentHash,
         @sizeBytes,
         @mtimeMs,
         @mediaType,
@@ -80,19 +325,48 @@ export class PhotosRepository {
         @lng,
         @alt,
         @takenAtMs,
+        @takenAtLocalMs,
+        @takenTzOffsetMinutes,
+        ${clockOffsetSql('@cameraModel', '@rootId', 'COALESCE(@takenAtLocalMs, @takenAtMs)')},
         @width,
         @height,
         @durationMs,
         @cameraModel,
+        @cameraMake,
+        @lensModel,
+        @focalLengthMm,
+        @focalLength35mm,
+        @fNumber,
+        @exposureTimeSec,
+        @iso,
+        @flashFired,
+        @orientation,
+        @metadataSourcesJson,
+        @sidecarSignature,
+        @contentIdentifier,
         @thumbPath,
         @thumbUpdatedAtMs,
         0,
+        @metadataVersion,
         @lastIndexedAtMs,
         @lastError
       )
       ON CONFLICT(path) DO UPDATE SET
         rootId = excluded.rootId,
         pathHash = excluded.pathHash,
+        contentHash = COALESCE(excluded.contentHash, CASE
+          WHEN photos.sizeBytes = excluded.sizeBytes AND photos.mtimeMs = excluded.mtimeMs THEN photos.contentHash
+          ELSE NULL
+        END),
+        perceptualHash = CASE
+          WHEN photos.sizeBytes = excluded.sizeBytes AND photos.mtimeMs = excluded.mtimeMs THEN photos.perceptualHash
+          ELSE NULL
+        END,
+        perceptualHashFailedAtMs = CASE
+          WHEN photos.sizeBytes = excluded.sizeBytes AND photos.mtimeMs = excluded.mtimeMs
+            THEN photos.perceptualHashFailedAtMs
+          ELSE NULL
+        END,
         sizeBytes = excluded.sizeBytes,
         mtimeMs = excluded.mtimeMs,
         mediaType = excluded.mediaType,
@@ -101,16 +375,43 @@ export class PhotosRepository {
         lng = excluded.lng,
         alt = excluded.alt,
         takenAtMs = excluded.takenAtMs,
+        takenAtLocalMs = excluded.takenAtLocalMs,
+        takenTzOffsetMinutes = excluded.takenTzOffsetMinutes,
+        takenAtOffsetMs = CASE
+          WHEN ${SAME_FILE_SQL} AND photos.clockOffsetWrittenAtMs IS NOT NULL THEN 0
+          ELSE excluded.takenAtOffsetMs
+        END,
+        clockOffsetWrittenAtMs = CASE WHEN ${SAME_FILE_SQL} THEN photos.clockOffsetWrittenAtMs ELSE NULL END,
         width = excluded.width,
         height = excluded.height,
         durationMs = excluded.durationMs,
         cameraModel = excluded.cameraModel,
+        cameraMake = excluded.cameraMake,
+        lensModel = CASE
+          WHEN ${SAME_FILE_SQL} THEN COALESCE(excluded.lensModel, photos.lensModel)
+          ELSE excluded.lensModel
+        END,
+        focalLengthMm = excluded.focalLengthMm,
+        focalLength35mm = excluded.focalLength35mm,
+        fNumber = excluded.fNumber,
+        exposureTimeSec = excluded.exposureTimeSec,
+        iso = excluded.iso,
+        flashFired = excluded.flashFired,
+        orientation = excluded.orientation,
+        metadataSourcesJson = excluded.metadataSourcesJson,
+        sidecarSignature = excluded.sidecarSignature,
+        contentIdentifier = CASE
+          WHEN ${SAME_FILE_SQL} THEN COALESCE(excluded.contentIdentifier, photos.contentIdentifier)
+          ELSE excluded.contentIdentifier
+        END,
+        enrichedVersion = CASE WHEN ${SAME_FILE_SQL} THEN photos.enrichedVersion ELSE NULL END,
         thumbPath = COALESCE(photos.thumbPath, excluded.thumbPath),
         thumbUpdatedAtMs = CASE
           WHEN excluded.thumbPath IS NOT NULL THEN excluded.thumbUpdatedAtMs
           ELSE photos.thumbUpdatedAtMs
         END,
         isDeleted = 0,
+        metadataVersion = excluded.metadataVersion,
         lastIndexedAtMs = excluded.lastIndexedAtMs,
         lastError = excluded.lastError
     `);
@@ -121,6 +422,25 @@ export class PhotosRepository {
     this.restoreByPathStmt = db.prepare(
       'UPDATE photos SET isDeleted = 0, lastIndexedAtMs = @lastIndexedAtMs WHERE path = @path',
     );
+    this.relocateByPathStmt = db.prepare(`
+      UPDATE photos
+      SET
+        rootId = @rootId,
+        path = @toPath,
+        pathHash = @pathHash,
+        sizeBytes = @sizeBytes,
+        mtimeMs = @mtimeMs,
+        mime = COALESCE(@mime, mime),
+        takenAtOffsetMs = ${photoClockOffsetSql(
+          'photos.cameraModel',
+          '@rootId',
+          'COALESCE(photos.takenAtLocalMs, photos.takenAtMs)',
+        )},
+        isDeleted = 0,
+        lastIndexedAtMs = @lastIndexedAtMs
+      WHERE path = @fromPath
+    `);
+    this.byPathStmt = db.prepare('SELECT id, mediaType, thumbPath FROM photos WHERE path = ? LIMIT 1');
     this.patchMetadataStmt = db.prepare(`
       UPDATE photos
       SET
@@ -128,10 +448,33 @@ export class PhotosRepository {
         lng = COALESCE(@lng, lng),
         alt = COALESCE(@alt, alt),
         takenAtMs = COALESCE(@takenAtMs, takenAtMs),
+        takenAtLocalMs = CASE WHEN @takenAtMs IS NULL THEN takenAtLocalMs ELSE @takenAtLocalMs END,
+        takenTzOffsetMinutes = CASE WHEN @takenAtMs IS NULL THEN takenTzOffsetMinutes ELSE @takenTzOffsetMinutes END,
+        takenAtOffsetMs = ${photoClockOffsetSql(
+          'COALESCE(@cameraModel, photos.cameraModel)',
+          'photos.rootId',
+          `CASE
+            WHEN @takenAtMs IS NULL THEN COALESCE(photos.takenAtLocalMs, photos.takenAtMs)
+            ELSE COALESCE(@takenAtLocalMs, @takenAtMs)
+          END`,
+        )},
         width = COALESCE(@width, width),
         height = COALESCE(@height, height),
         durationMs = COALESCE(@durationMs, durationMs),
         cameraModel = COALESCE(@cameraModel, cameraModel),
+        cameraMake = COALESCE(@cameraMake, cameraMake),
+        lensModel = COALESCE(@lensModel, lensModel),
+        focalLengthMm = COALESCE(@focalLengthMm, focalLengthMm),
+        focalLength35mm = COALESCE(@focalLength35mm, focalLength35mm),
+        fNumber = COALESCE(@fNumber, fNumber),
+        exposureTimeSec = COALESCE(@exposureTimeSec, exposureTimeSec),
+        iso = COALESCE(@iso, iso),
+        flashFired = COALESCE(@flashFired, flashFired),
+        orientation = COALESCE(@orientation, orientation),
+        metadataSourcesJson = COALESCE(@metadataSourcesJson, metadataSourcesJson),
+        contentIdentifier = COALESCE(@contentIdentifier, contentIdentifier),
+        contentHash = COALESCE(@contentHash, contentHash),
+        enrichedVersion = @enrichedVersion,
         lastIndexedAtMs = @lastIndexedAtMs,
         lastError = @lastError
       WHERE rootId = @rootId AND path = @path
@@ -142,12 +485,62 @@ export class PhotosRepository {
     );
     this.setErrorStmt = db.prepare('UPDATE photos SET lastError = @lastError WHERE id = @id');
     this.clearErrorStmt = db.prepare('UPDATE photos SET lastError = NULL WHERE id = @id');
+    this.setStackStmt = db.prepare(
+      'UPDATE photos SET stackId = @stackId, isStackPrimary = @isStackPrimary WHERE id = @id',
+    );
+    this.recordMetadataWriteStmt = db.prepare(`
+      UPDATE photos
+      SET
+        sizeBytes = @sizeBytes,
+        mtimeMs = @mtimeMs,
+        sidecarSignature = @sidecarSignature,
+        contentHash = COALESCE(@contentHash, contentHash),
+        lat = @lat,
+        lng = @lng,
+        alt = @alt,
+        takenAtMs = @takenAtMs,
+        takenAtLocalMs = @takenAtLocalMs,
+        takenAtOffsetMs = @takenAtOffsetMs,
+        clockOffsetWrittenAtMs = COALESCE(@clockOffsetWrittenAtMs, clockOffsetWrittenAtMs),
+        metadataSourcesJson = @metadataSourcesJson
+      WHERE id = @id
+    `);
+    this.setPlaceStmt = db.prepare(`
+      UPDATE photos
+      SET placeCityId = @cityId, placeCountryCode = @countryCode, placeLat = @lat, placeLng = @lng, placeStale = 0
+      WHERE id = @id
+    `);
+    this.setPerceptualHashStmt = db.prepare(
+      'UPDATE photos SET perceptualHash = @hash, perceptualHashFailedAtMs = NULL WHERE id = @id',
+    );
+    this.setPerceptualHashFailedStmt = db.prepare(
+      'UPDATE photos SET perceptualHashFailedAtMs = @failedAtMs WHERE id = @id',
+    );
+    this.searchSourceStmt = db.prepare(`
+      SELECT photos.path, roots.path AS rootPath, photos.cameraMake, photos.cameraModel, photos.lensModel
+      FROM photos
+      LEFT JOIN roots ON roots.id = photos.rootId
+      WHERE photos.id = ?
+    `);
+    this.searchPlacesStmt = db.prepare('SELECT places FROM photo_search WHERE rowid = ?');
+    this.deleteSearchStmt = db.prepare('DELETE FROM photo_search WHERE rowid = ?');
+    this.insertSearchStmt = db.prepare(`
+      INSERT INTO photo_search (rowid, fileName, folders, camera, places)
+      VALUES (@id, @fileName, @folders, @camera, @places)
+    `);
+    this.setSearchPlacesStmt = db.prepare('UPDATE photo_search SET places = @searchText WHERE rowid = @id');
   }
 
   getExistingByRoot(rootId: number): Map<string, ExistingPhotoSnapshot> {
-    const rows = this.db.prepare('SELECT id, path, mtimeMs, sizeBytes, isDeleted FROM photos WHERE rootId = ?').all(rootId) as
-      | ExistingPhotoSnapshot[]
-      | undefined;
+    const rows = this.db
+      .prepare(`
+        SELECT
+          id, path, mtimeMs, sizeBytes, isDeleted, contentHash, metadataVersion, sidecarSignature,
+          lastError IS NOT NULL AS hasError
+        FROM photos
+        WHERE rootId = ?
+      `)
+      .all(rootId) as ExistingPhotoSnapshot[] | undefined;
     const map = new Map<string, ExistingPhotoSnapshot>();
     for (const row of rows ?? []) {
       map.set(normalizeFsPath(row.path), row);
@@ -155,6 +548,49 @@ export class PhotosRepository {
     return map;
   }
 
+  /** Whether each given path's row is hashed and which metadata version enrichment last ran at. */
+  getEnrichmentStates(paths: string[]): Map<string, PhotoEnrichmentState> {
+    const states = new Map<string, PhotoEnrichmentState>();
+    for (let offset = 0; offset < paths.length; offset += 500) {
+      const chunk = paths.slice(offset, offset + 500);
+      const rows = this.db
+        .prepare(`
+          SELECT path, contentHash IS NOT NULL AS hasContentHash, enrichedVersion
+          FROM photos
+          WHERE path IN (${chunk.map(() => '?').join(', ')})
+        `)
+        .all(...chunk) as Array<{ path: string; hasContentHash: number; enrichedVersion: number | null }>;
+      for (const row of rows) {
+        states.set(row.path, { hasContentHash: row.hasContentHash === 1, enrichedVersion: row.enrichedVersion });
+      }
+    }
+    return states;
+  }
+
+  /**
+   * Live rows of a root that enrichment has not run on at `version` and that lack a content hash or
+   * a tag the quick pass may miss. The caller decides per row; this only narrows the scan.
+   */
+  getEnrichmentBacklog(rootId: number, version: number): EnrichmentBacklogRow[] {
+    const rows = this.db
+      .prepare(`
+        SELECT
+          path, mediaType, sizeBytes, lat, lng, takenAtMs, width, height, durationMs, cameraModel, cameraMake,
+          lensModel, contentIdentifier, contentHash IS NOT NULL AS hasContentHash, enrichedVersion
+        FROM photos
+        WHERE rootId = @rootId AND isDeleted = 0 AND lastError IS NULL
+          AND (enrichedVersion IS NULL OR enrichedVersion <> @version)
+          AND (
+            contentHash IS NULL OR lat IS NULL OR lng IS NULL OR takenAtMs IS NULL OR width IS NULL
+            OR height IS NULL OR cameraModel IS NULL OR TRIM(cameraModel) = ''
+            OR (mediaType = 'photo' AND (lensModel IS NULL OR (cameraMake = 'Apple' AND contentIdentifier IS NULL)))
+            OR (mediaType = 'video' AND durationMs IS NULL)
+          )
+      `)
+      .all({ rootId, version }) as Array<Omit<EnrichmentBacklogRow, 'hasContentHash'> & { hasContentHash: number }>;
+    return rows.map((row) => ({ ...row, hasContentHash: row.hasContentHash === 1 }));
+  }
+
   markDeletedByPaths(rootId: number, paths: string[], lastIndexedAtMs: number): void {
     if (paths.length === 0) {
       return;
@@ -179,6 +615,101 @@ export class PhotosRepository {
     tx(paths);
   }
 
+  /**
+   * Removes rows soft-deleted before `deletedBeforeMs` (deletion stamps `lastIndexedAtMs`) along
+   * with their search documents; location overrides go by cascade. Returns the purged ids.
+   */
+  purgeDeleted(deletedBeforeMs: number): number[] {
+    const tx = this.db.transaction((cutoffMs: number) => {
+      const ids = (
+        this.db
+          .prepare('SELECT id FROM photos WHERE isDeleted = 1 AND lastIndexedAtMs < ?')
+          .all(cutoffMs) as Array<{ id: number }>
+      ).map((row) => row.id);
+      for (const id of ids) {
+        this.deleteSearchStmt.run(id);
+      }
+      this.db.prepare('DELETE FROM photos WHERE isDeleted = 1 AND lastIndexedAtMs < ?').run(cutoffMs);
+      return ids;
+    });
+    return tx(deletedBeforeMs);
+  }
+
+  /** Source paths of every photo that is not deleted, which is what the thumbnail cache may hold. */
+  getCachedMediaRows(): CachedMediaRow[] {
+    return this.db
+      .prepare('SELECT path, mediaType FROM photos WHERE isDeleted = 0')
+      .all() as CachedMediaRow[];
+  }
+
+  relocateBatch(items: PhotoRelocationInput[]): RelocatedPhoto[] {
+    if (items.length === 0) {
+      return [];
+    }
+    const tx = this.db.transaction((rows: PhotoRelocationInput[]) => {
+      const relocated: RelocatedPhoto[] = [];
+      for (const row of rows) {
+        const current = this.byPathStmt.get(row.fromPath) as
+          | { id: number; mediaType: MediaType; thumbPath: string | null }
+          | undefined;
+        if (!current || this.byPathStmt.get(row.toPath)) {
+          continue;
+        }
+        this.relocateByPathStmt.run(row);
+        this.refreshSearchDocument(current.id);
+        relocated.push({
+          id: current.id,
+          mediaType: current.mediaType,
+          fromPath: row.fromPath,
+          toPath: row.toPath,
+          thumbPath: current.thumbPath,
+        });
+      }
+      return relocated;
+    });
+    return tx(items);
+  }
+
+  /** Rewrites the path of every photo in a root that moved to `toRoot`, keeping ids and everything keyed by them. */
+  relocateRoot(rootId: number, fromRoot: string, toRoot: string): RelocatedPhoto[] {
+    const selectStmt = this.db.prepare('SELECT id, path, mediaType, thumbPath FROM photos WHERE rootId = ?');
+    const updateStmt = this.db.prepare('UPDATE photos SET path = ?, pathHash = ? WHERE id = ?');
+    const tx = this.db.transaction(() => {
+      const rows = selectStmt.all(rootId) as Array<{
+        id: number;
+        path: string;
+        mediaType: MediaType;
+        thumbPath: string | null;
+      }>;
+      const relocated: RelocatedPhoto[] = [];
+      for (const row of rows) {
+        const relativePath = path.relative(fromRoot, row.path);
+        if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+          continue;
+        }
+        const toPath = normalizeFsPath(path.join(toRoot, relativePath));
+        updateStmt.run(toPath, sha1(toPath), row.id);
+        this.refreshSearchDocument(row.id);
+        relocated.push({
+          id: row.id,
+          mediaType: row.mediaType,
+          fromPath: row.path,
+          toPath,
+          thumbPath: row.thumbPath,
+        });
+      }
+      return relocated;
+    });
+    return tx();
+  }
+
+  /** A random sample of a root's live photos, used to recognise the same tree under another path. */
+  getRootSample(rootId: number, limit: number): RootSampleFile[] {
+    return this.db
+      .prepare('SELECT path, sizeBytes FROM photos WHERE rootId = ? AND isDeleted = 0 ORDER BY RANDOM() LIMIT ?')
+      .all(rootId, limit) as RootSampleFile[];
+  }
+
   upsertBatch(records: PhotoUpsertInput[]): void {
     if (records.length === 0) {
       return;
@@ -186,6 +717,7 @@ export class PhotosRepository {
     const tx = this.db.transaction((rows: PhotoUpsertInput[]) => {
       for (const row of rows) {
         this.upsertStmt.run(row);
+        this.refreshSearchDocumentByPath(row.path);
       }
     });
     tx(records);
@@ -197,12 +729,110 @@ export class PhotosRepository {
     }
     const tx = this.db.transaction((rows: PhotoMetadataPatchInput[]) => {
       for (const row of rows) {
-        this.patchMetadataStmt.run(row);
+        if (this.patchMetadataStmt.run(row).changes > 0) {
+          this.refreshSearchDocumentByPath(row.path);
+        }
       }
     });
     tx(records);
   }
 
+  /**
+   * Live rows that may share a stack with the given files: same folder, same content identifier, or
+   * already stacked with one of them. Grows until closed over those links, so no stack is split.
+   */
+  getStackCandidatesAround(rootId: number, paths: string[]): StackCandidate[] {
+    // The unary + keeps SQLite on the path, identifier and stack indexes rather than idx_photos_deleted.
+    const folderStmt = this.db.prepare(`
+      SELECT id, path, mediaType, takenAtMs, contentIdentifier, stackId, isStackPrimary
+      FROM photos
+      WHERE +rootId = ? AND +isDeleted = 0 AND path > ? AND path < ? AND instr(substr(path, ?), ?) = 0
+    `);
+    const identifierStmt = this.db.prepare(`
+      SELECT id, path, mediaType, takenAtMs, contentIdentifier, stackId, isStackPrimary
+      FROM photos
+      WHERE +rootId = ? AND +isDeleted = 0 AND contentIdentifier = ?
+    `);
+    const stackStmt = this.db.prepare(`
+      SELECT id, path, mediaType, takenAtMs, contentIdentifier, stackId, isStackPrimary
+      FROM photos
+      WHERE +rootId = ? AND +isDeleted = 0 AND stackId = ?
+    `);
+    const seedStmt = this.db.prepare('SELECT contentIdentifier, stackId FROM photos WHERE path = ?');
+
+    const candidates = new Map<number, StackCandidate>();
+    const seen = { folders: new Set<string>(), identifiers: new Set<string>(), stackIds: new Set<number>() };
+    const pending = { folders: [] as string[], identifiers: [] as string[], stackIds: [] as number[] };
+    const follow = (filePath: string, contentIdentifier: string | null, stackId: number | null) => {
+      const folder = path.dirname(filePath);
+      if (!seen.folders.has(folder)) {
+        seen.folders.add(folder);
+        pending.folders.push(folder);
+      }
+      if (contentIdentifier != null && !seen.identifiers.has(contentIdentifier)) {
+        seen.identifiers.add(contentIdentifier);
+        pending.identifiers.push(contentIdentifier);
+      }
+      if (stackId != null && !seen.stackIds.has(stackId)) {
+        seen.stackIds.add(stackId);
+        pending.stackIds.push(stackId);
+      }
+    };
+    const collect = (rows: StackCandidate[]) => {
+      for (const row of rows) {
+        if (!candidates.has(row.id)) {
+          candidates.set(row.id, row);
+          follow(row.path, row.contentIdentifier, row.stackId);
+        }
+      }
+    };
+
+    // Deleted rows still seed the search: their former stack mates may need a new primary.
+    for (const filePath of paths) {
+      const seed = seedStmt.get(filePath) as { contentIdentifier: string | null; stackId: number | null } | undefined;
+      follow(filePath, seed?.contentIdentifier ?? null, seed?.stackId ?? null);
+    }
+    while (pending.folders.length > 0 || pending.identifiers.length > 0 || pending.stackIds.length > 0) {
+      for (const folder of pending.folders.splice(0)) {
+        // Direct children only: the range covers the folder's subtree, the instr() drops nested folders.
+        const prefix = folder.endsWith(path.sep) ? folder : `${folder}${path.sep}`;
+        const upper = `${prefix.slice(0, -1)}${String.fromCharCode(path.sep.charCodeAt(0) + 1)}`;
+        collect(folderStmt.all(rootId, prefix, upper, prefix.length + 1, path.sep) as StackCandidate[]);
+      }
+      for (const identifier of pending.identifiers.splice(0)) {
+        collect(identifierStmt.all(rootId, identifier) as StackCandidate[]);
+      }
+      for (const stackId of pending.stackIds.splice(0)) {
+        collect(stackStmt.all(rootId, stackId) as StackCandidate[]);
+      }
+    }
+    return Array.from(candidates.values());
+  }
+
+  applyStackAssignments(assignments: StackAssignment[]): void {
+    if (assignments.length === 0) {
+      return;
+    }
+    const tx = this.db.transaction((rows: StackAssignment[]) => {
+      for (const row of rows) {
+        this.setStackStmt.run(row);
+      }
+    });
+    tx(assignments);
+  }
+
+  getStackMembers(stackId: number): StackMemberItem[] {
+    const rows = this.db
+      .prepare(`
+        SELECT id AS photoId, path, mediaType, isStackPrimary
+        FROM photos
+        WHERE stackId = ? AND isDeleted = 0
+        ORDER BY isStackPrimary DESC, id ASC
+      `)
+      .all(stackId) as Array<Omit<StackMemberItem, 'isPrimary'> & { isStackPrimary: number }>;
+    return rows.map(({ isStackPrimary, ...row }) => ({ ...row, isPrimary: isStackPrimary === 1 }));
+  }
+
   getById(id: number): PhotoRecord | null {
     const row = this.byIdStmt.get(id) as PhotoRecord | undefined;
     return row ?? null;
@@ -220,28 +850,45 @@ export class PhotosRepository {
     this.clearErrorStmt.run({ id });
   }
 
+  /** Points in the bbox; one whose west edge is east of its east edge wraps across ±180°. */
   getPointsInBbox(
     bbox: [number, number, number, number],
     filters: Filters,
     limit: number,
     offset: number,
   ): PointItem[] {
-    const [west, south, east, north] = bbox;
+    const ranges = splitBboxAtAntimeridian(bbox);
     const filterSql = this.buildFilterSql(filters, true);
+    // The R*Tree narrows the rows by bbox; the exact test drops its float32 rounding at the edges.
+    const candidateSql = ranges
+      .map(() => 'SELECT id FROM photo_geo_index WHERE minLat <= ? AND maxLat >= ? AND minLng <= ? AND maxLng >= ?')
+      .join(' UNION ALL ');
+    const exactSql = ranges
+      .map(() => `(${EFFECTIVE_LAT_SQL} BETWEEN ? AND ? AND ${EFFECTIVE_LNG_SQL} BETWEEN ? AND ?)`)
+      .join(' OR ');
     const sql = `
-      SELECT id, lat, lng, mediaType, takenAtMs, path, thumbPath
-      FROM photos
-      WHERE ${filterSql.where}
-        AND lat BETWEEN ? AND ?
-        AND lng BETWEEN ? AND ?
-      ORDER BY takenAtMs DESC NULLS LAST, id DESC
+      SELECT
+        id,
+        ${EFFECTIVE_LAT_SQL} AS lat,
+        ${EFFECTIVE_LNG_SQL} AS lng,
+        mediaType,
+        ${EFFECTIVE_TAKEN_SQL} AS takenAtMs,
+        path,
+        thumbPath
+      FROM ${LOCATED_PHOTOS_SQL}
+      WHERE id IN (${candidateSql})
+        AND ${filterSql.where}
+        AND (${exactSql})
+      ORDER BY ${EFFECTIVE_TAKEN_SQL} DESC NULLS LAST, id DESC
       LIMIT ?
       OFFSET ?
     `;
 
+    const candidateParams = ranges.flatMap(([west, south, east, north]) => [north, south, east, west]);
+    const exactParams = ranges.flatMap(([west, south, east, north]) => [south, north, west, east]);
     const rows = this.db
       .prepare(sql)
-      .all(...filterSql.params, south, north, west, east, limit, offset) as Array<
+      .all(...candidateParams, ...filterSql.params, ...exactParams, limit, offset) as Array<
       Omit<PointItem, 'lat' | 'lng'> & { lat: number; lng: number }
     >;
 
@@ -253,8 +900,8 @@ export class PhotosRepository {
   ): Array<{ id: number; lat: number; lng: number; mediaType: 'photo' | 'video'; sortKey: string; groupKey: string }> {
     const filterSql = this.buildFilterSql(filters, true);
     const sql = `
-      SELECT id, lat, lng, mediaType, path
-      FROM photos
+      SELECT id, ${EFFECTIVE_LAT_SQL} AS lat, ${EFFECTIVE_LNG_SQL} AS lng, mediaType, path
+      FROM ${LOCATED_PHOTOS_SQL}
       WHERE ${filterSql.where}
     `;
     const rows = this.db.prepare(sql).all(...filterSql.params) as Array<{
@@ -276,7 +923,7 @@ export class PhotosRepository {
 
   countPrefetchTargets(filters: Filters): number {
     const filterSql = this.buildFilterSql(filters, true);
-    const sql = `SELECT COUNT(1) as count FROM photos WHERE ${filterSql.where}`;
+    const sql = `SELECT COUNT(1) as count FROM ${LOCATED_PHOTOS_SQL} WHERE ${filterSql.where}`;
     const row = this.db.prepare(sql).get(...filterSql.params) as { count: number } | undefined;
     return row?.count ?? 0;
   }
@@ -287,7 +934,7 @@ export class PhotosRepository {
     const filterSql = this.buildFilterSql(filters, true);
     const sql = `
       SELECT id
-      FROM photos
+      FROM ${LOCATED_PHOTOS_SQL}
       WHERE ${filterSql.where}
       ORDER BY id ASC
       LIMIT ?
@@ -303,11 +950,11 @@ export class PhotosRepository {
     const filterSql = this.buildFilterSql(filters, true);
     const sql = `
       SELECT
-        MIN(takenAtMs) AS minMs,
-        MAX(takenAtMs) AS maxMs,
+        MIN(${EFFECTIVE_TAKEN_LOCAL_SQL}) AS minMs,
+        MAX(${EFFECTIVE_TAKEN_LOCAL_SQL}) AS maxMs,
         SUM(CASE WHEN takenAtMs IS NOT NULL THEN 1 ELSE 0 END) AS datedCount,
         SUM(CASE WHEN takenAtMs IS NULL THEN 1 ELSE 0 END) AS undatedCount
-      FROM photos
+      FROM ${LOCATED_PHOTOS_SQL}
       WHERE ${filterSql.where}
     `;
     const row = this.db.prepare(sql).get(...filterSql.params) as
@@ -326,13 +973,13 @@ export class PhotosRepository {
     const filterSql = this.buildFilterSql(filters, false);
     const sql = `
       SELECT
-        strftime('%Y-%m-%d', datetime(takenAtMs / 1000, 'unixepoch', 'localtime')) AS date,
+        strftime('%Y-%m-%d', (${EFFECTIVE_TAKEN_LOCAL_SQL}) / 1000, 'unixepoch') AS date,
         SUM(CASE WHEN mediaType = 'photo' THEN 1 ELSE 0 END) AS photoCount,
         SUM(CASE WHEN mediaType = 'video' THEN 1 ELSE 0 END) AS videoCount,
         COUNT(1) AS totalCount
-      FROM photos
+      FROM ${LOCATED_PHOTOS_SQL}
       WHERE ${filterSql.where}
-        AND takenAtMs IS NOT NULL
+        AND takenAtLocalMs IS NOT NULL
       GROUP BY date
       ORDER BY date DESC
       LIMIT ?
@@ -354,30 +1001,426 @@ export class PhotosRepository {
   getTripPoints(filters: Filters): TripPoint[] {
     const filterSql = this.buildFilterSql(filters, true);
     const sql = `
-      SELECT id AS photoId, lat, lng, takenAtMs, mediaType
-      FROM photos
+      SELECT
+        id AS photoId,
+        ${EFFECTIVE_LAT_SQL} AS lat,
+        ${EFFECTIVE_LNG_SQL} AS lng,
+        ${EFFECTIVE_TAKEN_SQL} AS takenAtMs,
+        COALESCE(takenAtLocalMs, takenAtMs) + takenAtOffsetMs AS takenAtLocalMs,
+        mediaType
+      FROM ${LOCATED_PHOTOS_SQL}
       WHERE ${filterSql.where}
         AND takenAtMs IS NOT NULL
-      ORDER BY takenAtMs ASC, id ASC
+      ORDER BY ${EFFECTIVE_TAKEN_SQL} ASC, id ASC
     `;
     const rows = this.db.prepare(sql).all(...filterSql.params) as Array<{
       photoId: number;
       lat: number;
       lng: number;
       takenAtMs: number;
+      takenAtLocalMs: number;
       mediaType: 'photo' | 'video';
     }>;
     return rows;
   }
 
+  getDuplicateGroups(limit = 200): DuplicateGroupItem[] {
+    const safeLimit = Math.max(1, Math.min(2_000, Math.trunc(limit) || 200));
+    const groups = this.db
+      .prepare(
+        `
+        SELECT contentHash, MAX(sizeBytes) AS sizeBytes, COUNT(1) AS count
+        FROM photos
+        WHERE isDeleted = 0 AND contentHash IS NOT NULL
+        GROUP BY contentHash
+        HAVING COUNT(1) > 1
+        ORDER BY MAX(sizeBytes) * (COUNT(1) - 1) DESC, contentHash ASC
+        LIMIT ?
+      `,
+      )
+      .all(safeLimit) as Array<{ contentHash: string; sizeBytes: number; count: number }>;
+    if (groups.length === 0) {
+      return [];
+    }
+
+    const placeholders = groups.map(() => '?').join(', ');
+    const members = this.db
+      .prepare(
+        `
+        SELECT id AS photoId, rootId, path, mediaType, mtimeMs, contentHash
+        FROM photos
+        WHERE isDeleted = 0 AND contentHash IN (${placeholders})
+        ORDER BY id ASC
+      `,
+      )
+      .all(...groups.map((group) => group.contentHash)) as Array<DuplicateMemberItem & { contentHash: string }>;
+
+    const membersByHash = new Map<string, DuplicateMemberItem[]>();
+    for (const { contentHash, ...member } of members) {
+      const bucket = membersByHash.get(contentHash);
+      if (bucket) {
+        bucket.push(member);
+      } else {
+        membersByHash.set(contentHash, [member]);
+      }
+    }
+
+    return groups.map((group) => ({
+      contentHash: group.contentHash,
+      sizeBytes: group.sizeBytes,
+      count: group.count,
+      reclaimableBytes: group.sizeBytes * (group.count - 1),
+      members: membersByHash.get(group.contentHash) ?? [],
+    }));
+  }
+
+  getErrorGroups(limit = 200, filesPerGroup = 20): IndexErrorGroup[] {
+    const safeLimit = Math.max(1, Math.min(2_000, Math.trunc(limit) || 200));
+    const groups = this.db
+      .prepare(
+        `
+        SELECT photos.rootId, roots.path AS rootPath, photos.lastError AS message, COUNT(1) AS count
+        FROM photos
+        JOIN roots ON roots.id = photos.rootId
+        WHERE photos.isDeleted = 0 AND photos.lastError IS NOT NULL
+        GROUP BY photos.rootId, photos.lastError
+        ORDER BY COUNT(1) DESC, roots.path ASC, photos.lastError ASC
+        LIMIT ?
+      `,
+      )
+      .all(safeLimit) as Array<Omit<IndexErrorGroup, 'files'>>;
+    if (groups.length === 0) {
+      return [];
+    }
+
+    const files = this.db
+      .prepare(
+        `
+        SELECT photoId, rootId, path, lastIndexedAtMs, message
+        FROM (
+          SELECT
+            id AS photoId, rootId, path, lastIndexedAtMs, lastError AS message,
+            ROW_NUMBER() OVER (PARTITION BY rootId, lastError ORDER BY path ASC) AS position
+          FROM photos
+          WHERE isDeleted = 0 AND lastError IS NOT NULL
+        )
+        WHERE position <= ?
+      `,
+      )
+      .all(filesPerGroup) as Array<IndexErrorFileItem & { rootId: number; message: string }>;
+
+    const filesByGroup = new Map<string, IndexErrorFileItem[]>();
+    for (const { rootId, message, ...file } of files) {
+      const key = `${rootId}:${message}`;
+      const bucket = filesByGroup.get(key);
+      if (bucket) {
+        bucket.push(file);
+      } else {
+        filesByGroup.set(key, [file]);
+      }
+    }
+
+    return groups.map((group) => ({
+      ...group,
+      files: filesByGroup.get(`${group.rootId}:${group.message}`) ?? [],
+    }));
+  }
+
+  /** Stores what a metadata write left on disk, so incremental scans treat the file as already indexed. */
+  recordMetadataWrite(input: MetadataWriteRecordInput): void {
+    this.recordMetadataWriteStmt.run(input);
+  }
+
+  clearErrorsByMessage(rootId: number, message: string): number {
+    return this.db
+      .prepare('UPDATE photos SET lastError = NULL WHERE rootId = ? AND lastError = ? AND isDeleted = 0')
+      .run(rootId, message).changes;
+  }
+
+  /** Dated files whose own metadata has no position, skipping ones placed by hand. */
+  getGeotagCandidates(rootIds?: number[]): GeotagCandidate[] {
+    const where = [
+      'isDeleted = 0',
+      'takenAtMs IS NOT NULL',
+      '(lat IS NULL OR lng IS NULL)',
+      "NOT EXISTS (SELECT 1 FROM photo_location_overrides loc WHERE loc.photoId = photos.id AND loc.kind = 'manual')",
+    ];
+    const params: unknown[] = [];
+    if (rootIds && rootIds.length > 0) {
+      where.push(`rootId IN (${rootIds.map(() => '?').join(', ')})`);
+      params.push(...rootIds);
+    }
+    return this.db
+      .prepare(`
+        SELECT id, path, ${EFFECTIVE_TAKEN_SQL} AS takenAtMs,
+          EXISTS (SELECT 1 FROM photo_location_overrides loc WHERE loc.photoId = photos.id) AS hasOverride
+        FROM photos
+        WHERE ${where.join(' AND ')}
+        ORDER BY ${EFFECTIVE_TAKEN_SQL} ASC, id ASC
+      `)
+      .all(...params) as GeotagCandidate[];
+  }
+
+  /** Re-resolves every photo's clock offset after rules change; returns how many photos moved in time. */
+  refreshClockOffsets(): number {
+    return this.db
+      .prepare(`
+        UPDATE photos
+        SET takenAtOffsetMs = ${PHOTO_CLOCK_OFFSET_SQL}
+        WHERE takenAtOffsetMs != ${PHOTO_CLOCK_OFFSET_SQL}
+      `)
+      .run().changes;
+  }
+
+  getCameraModels(): CameraModelRow[] {
+    return this.db
+      .prepare(`
+        SELECT
+          cameraModel,
+          COUNT(1) AS count,
+          MIN(COALESCE(takenAtLocalMs, takenAtMs)) AS minLocalMs,
+          MAX(COALESCE(takenAtLocalMs, takenAtMs)) AS maxLocalMs
+        FROM photos
+        WHERE isDeleted = 0 AND cameraModel IS NOT NULL AND cameraModel != ''
+        GROUP BY cameraModel
+        ORDER BY count DESC, cameraModel ASC
+      `)
+      .all() as CameraModelRow[];
+  }
+
+  /** Every dated, visible photo with what clock offset previews need to recompute it. */
+  getClockOffsetSubjects(): ClockOffsetSubject[] {
+    return this.db
+      .prepare(`
+        SELECT
+          id,
+          path,
+          rootId,
+          cameraModel,
+          takenAtMs,
+          COALESCE(takenAtLocalMs, takenAtMs) AS localMs,
+          takenAtOffsetMs,
+          clockOffsetWrittenAtMs,
+          ${EFFECTIVE_LAT_SQL} AS lat,
+          ${EFFECTIVE_LNG_SQL} AS lng
+        FROM ${LOCATED_PHOTOS_SQL}
+        WHERE isDeleted = 0 AND isStackPrimary = 1 AND takenAtMs IS NOT NULL
+        ORDER BY id ASC
+      `)
+      .all() as ClockOffsetSubject[];
+  }
+
+  /** Photos after `afterId` whose place has to be looked up again, oldest ids first. */
+  getStalePlaceSubjects(afterId: number, limit: number): PlaceSubject[] {
+    return this.db
+      .prepare(`${PLACE_STALE_SQL} AND photos.id > ? ORDER BY photos.id ASC LIMIT ?`)
+      .all(afterId, limit) as PlaceSubject[];
+  }
+
+  /** Geotagged photos still waiting for a place. */
+  countPendingPlaces(): number {
+    const row = this.db
+      .prepare(`SELECT COUNT(1) AS count FROM (${PLACE_STALE_SQL}) WHERE lat IS NOT NULL AND lng IS NOT NULL`)
+      .get() as { count: number };
+    return row.count;
+  }
+
+  setPlaces(items: PlaceAssignment[]): void {
+    if (items.length === 0) {
+      return;
+    }
+    const tx = this.db.transaction((rows: PlaceAssignment[]) => {
+      for (const row of rows) {
+        this.setPlaceStmt.run(row);
+        this.setSearchPlacesStmt.run(row);
+      }
+    });
+    tx(items);
+  }
+
+  /** Marks every place stale, e.g. after the city catalog was rebuilt. Current values stay until replaced. */
+  resetPlaces(): number {
+    return this.db.prepare('UPDATE photos SET placeStale = 1 WHERE placeStale = 0').run().changes;
+  }
+
+  getPlaceCounts(filters: Filters): PlaceCountRow[] {
+    const filterSql = this.buildFilterSql(filters, true);
+    return this.db
+      .prepare(`
+        SELECT placeCountryCode AS countryCode, placeCityId AS cityId, COUNT(1) AS count
+        FROM ${LOCATED_PHOTOS_SQL}
+        WHERE ${filterSql.where}
+          AND placeCityId IS NOT NULL
+        GROUP BY placeCountryCode, placeCityId
+      `)
+      .all(...filterSql.params) as PlaceCountRow[];
+  }
+
+  /** Place of each dated, geotagged photo under the filters; the trip counterpart of getTripPoints. */
+  getTripPlaceIds(filters: Filters): Map<number, string> {
+    const filterSql = this.buildFilterSql(filters, true);
+    const rows = this.db
+      .prepare(`
+        SELECT id, placeCityId AS cityId
+        FROM ${LOCATED_PHOTOS_SQL}
+        WHERE ${filterSql.where}
+          AND takenAtMs IS NOT NULL
+          AND placeCityId IS NOT NULL
+      `)
+      .all(...filterSql.params) as Array<{ id: number; cityId: string }>;
+    return new Map(rows.map((row) => [row.id, row.cityId]));
+  }
+
+  /**
+   * Hashes of every visible photo (stack primaries only, so a RAW+JPEG pair is not its own match).
+   * Videos are never hashed.
+   */
+  getPerceptualHashes(): PerceptualHashRow[] {
+    return this.db
+      .prepare(`
+        SELECT id, perceptualHash AS hash
+        FROM photos
+        WHERE isDeleted = 0 AND isStackPrimary = 1 AND mediaType = 'photo' AND perceptualHash IS NOT NULL
+        ORDER BY id ASC
+      `)
+      .all() as PerceptualHashRow[];
+  }
+
+  /** Photos still waiting for a perceptual hash; ones whose thumbnail failed are skipped until re-indexed. */
+  getPerceptualHashTargets(limit: number): number[] {
+    const rows = this.db
+      .prepare(`
+        SELECT id
+        FROM photos
+        WHERE mediaType = 'photo' AND isDeleted = 0 AND perceptualHash IS NULL
+          AND isStackPrimary = 1 AND perceptualHashFailedAtMs IS NULL
+        ORDER BY id ASC
+        LIMIT ?
+      `)
+      .all(limit) as Array<{ id: number }>;
+    return rows.map((row) => row.id);
+  }
+
+  countPerceptualHashPending(): number {
+    const row = this.db
+      .prepare(`
+        SELECT COUNT(1) AS count
+        FROM photos
+        WHERE mediaType = 'photo' AND isDeleted = 0 AND perceptualHash IS NULL
+          AND isStackPrimary = 1 AND perceptualHashFailedAtMs IS NULL
+      `)
+      .get() as { count: number };
+    return row.count;
+  }
+
+  setPerceptualHash(id: number, hash: string): void {
+    this.setPerceptualHashStmt.run({ id, hash });
+  }
+
+  /** Takes the photo off the hashing queue until its file changes. */
+  setPerceptualHashFailed(id: number): void {
+    this.setPerceptualHashFailedStmt.run({ id, failedAtMs: Date.now() });
+  }
+
+  /** Rows for similar-photo results; `distance` is filled in by the caller. Order follows `ids`. */
+  getSimilarMembers(ids: number[]): SimilarMemberItem[] {
+    if (ids.length === 0) {
+      return [];
+    }
+    const rows = this.db
+      .prepare(`
+        SELECT
+          id AS photoId, rootId, path, mediaType, ${EFFECTIVE_TAKEN_SQL} AS takenAtMs, sizeBytes, width, height,
+          0 AS distance
+        FROM photos
+        WHERE id IN (${ids.map(() => '?').join(', ')})
+      `)
+      .all(...ids) as SimilarMemberItem[];
+    const byId = new Map(rows.map((row) => [row.photoId, row]));
+    return ids.map((id) => byId.get(id)).filter((row): row is SimilarMemberItem => Boolean(row));
+  }
+
+  /** Photos and geotagged photos under the filters, for the search box's live counts. */
+  countMatches(filters: Filters): SearchCount {
+    const filterSql = this.buildFilterSql(filters, false);
+    const row = this.db
+      .prepare(`
+        SELECT
+          COUNT(1) AS total,
+          COALESCE(SUM(CASE WHEN ${EFFECTIVE_LAT_SQL} IS NOT NULL AND ${EFFECTIVE_LNG_SQL} IS NOT NULL THEN 1 END), 0)
+            AS geotagged
+        FROM ${LOCATED_PHOTOS_SQL}
+        WHERE ${filterSql.where}
+      `)
+      .get(...filterSql.params) as SearchCount;
+    return row;
+  }
+
+  /**
+   * Builds search documents for up to `limit` photos that have none yet (photos indexed before
+   * search existed). Returns the photos added with their place, whose names go in with setSearchPlaces.
+   */
+  indexMissingSearchDocuments(limit: number): SearchBackfillItem[] {
+    const rows = this.db
+      .prepare(`
+        SELECT id, placeCityId
+        FROM photos
+        WHERE id NOT IN (SELECT rowid FROM photo_search)
+        ORDER BY id ASC
+        LIMIT ?
+      `)
+      .all(limit) as SearchBackfillItem[];
+    const tx = this.db.transaction((items: SearchBackfillItem[]) => {
+      for (const item of items) {
+        this.refreshSearchDocument(item.id);
+      }
+    });
+    tx(rows);
+    return rows;
+  }
+
+  /** Replaces the place names in search documents, e.g. for photos placed before search existed. */
+  setSearchPlaces(items: Array<{ id: number; searchText: string }>): void {
+    const tx = this.db.transaction((rows: Array<{ id: number; searchText: string }>) => {
+      for (const row of rows) {
+        this.setSearchPlacesStmt.run(row);
+      }
+    });
+    tx(items);
+  }
+
+  /** Drops search documents whose photo row is gone. */
+  pruneSearchDocuments(): number {
+    return this.db.prepare('DELETE FROM photo_search WHERE rowid NOT IN (SELECT id FROM photos)').run().changes;
+  }
+
+  private refreshSearchDocumentByPath(photoPath: string): void {
+    const current = this.byPathStmt.get(photoPath) as { id: number } | undefined;
+    if (current) {
+      this.refreshSearchDocument(current.id);
+    }
+  }
+
+  // Rewrites the file, folder and camera columns; place names are kept until the place pass replaces them.
+  private refreshSearchDocument(id: number): void {
+    const source = this.searchSourceStmt.get(id) as SearchSource | undefined;
+    const existing = this.searchPlacesStmt.get(id) as { places: string | null } | undefined;
+    this.deleteSearchStmt.run(id);
+    if (!source) {
+      return;
+    }
+    this.insertSearchStmt.run({ id, ...buildSearchDocument(source), places: existing?.places ?? '' });
+  }
+
   private buildFilterSql(filters: Filters, requireGps: boolean): FilterSql {
-    const where: string[] = ['isDeleted = 0'];
+    // Stacked Live Photo / RAW+JPEG members are reached through their primary only.
+    const where: string[] = ['isDeleted = 0', 'isStackPrimary = 1'];
     const params: unknown[] = [];
 
     if (requireGps || filters.hasGps === true) {
-      where.push('lat IS NOT NULL', 'lng IS NOT NULL');
+      where.push(`${EFFECTIVE_LAT_SQL} IS NOT NULL`, `${EFFECTIVE_LNG_SQL} IS NOT NULL`);
     } else if (filters.hasGps === false) {
-      where.push('(lat IS NULL OR lng IS NULL)');
+      where.push(`(${EFFECTIVE_LAT_SQL} IS NULL OR ${EFFECTIVE_LNG_SQL} IS NULL)`);
     }
 
     if (filters.rootIds && filters.rootIds.length > 0) {
@@ -392,14 +1435,27 @@ export class PhotosRepository {
       params.push(...filters.mediaTypes);
     }
 
+    const placeClauses: string[] = [];
+    if (filters.countryCodes && filters.countryCodes.length > 0) {
+      placeClauses.push(`placeCountryCode IN (${filters.countryCodes.map(() => '?').join(', ')})`);
+      params.push(...filters.countryCodes);
+    }
+    if (filters.cityIds && filters.cityIds.length > 0) {
+      placeClauses.push(`placeCityId IN (${filters.cityIds.map(() => '?').join(', ')})`);
+      params.push(...filters.cityIds);
+    }
+    if (placeClauses.length > 0) {
+      where.push(`(${placeClauses.join(' OR ')})`);
+    }
+
     const dateClauses: string[] = [];
     const dateParams: unknown[] = [];
     if (typeof filters.dateFromMs === 'number') {
-      dateClauses.push('takenAtMs >= ?');
+      dateClauses.push(`${EFFECTIVE_TAKEN_LOCAL_SQL} >= ?`);
       dateParams.push(filters.dateFromMs);
     }
     if (typeof filters.dateToMs === 'number') {
-      dateClauses.push('takenAtMs <= ?');
+      dateClauses.push(`${EFFECTIVE_TAKEN_LOCAL_SQL} <= ?`);
       dateParams.push(filters.dateToMs);
     }
     if (dateClauses.length > 0) {
@@ -411,12 +1467,53 @@ export class PhotosRepository {
       params.push(...dateParams);
     }
 
+    const textQuery = toFtsQuery(filters.textQuery ?? '');
+    if (textQuery) {
+      where.push('photos.id IN (SELECT rowid FROM photo_search WHERE photo_search MATCH ?)');
+      params.push(textQuery);
+    }
+
     const cameraQuery = filters.cameraModelQuery?.trim().toLowerCase() ?? '';
     if (cameraQuery.length > 0) {
       where.push("LOWER(COALESCE(cameraModel, '')) LIKE ?");
       params.push(`%${cameraQuery}%`);
     }
 
+    const makeQuery = filters.cameraMakeQuery?.trim().toLowerCase() ?? '';
+    if (makeQuery.length > 0) {
+      where.push("LOWER(COALESCE(cameraMake, '')) LIKE ?");
+      params.push(`%${makeQuery}%`);
+    }
+
+    const lensQuery = filters.lensModelQuery?.trim().toLowerCase() ?? '';
+    if (lensQuery.length > 0) {
+      where.push("LOWER(COALESCE(lensModel, '')) LIKE ?");
+      params.push(`%${lensQuery}%`);
+    }
+
+    const focalColumn = filters.focalLengthUse35mm ? 'focalLength35mm' : 'focalLengthMm';
+    const rangeFilters: Array<[string, number | undefined, number | undefined]> = [
+      [focalColumn, filters.focalLengthFromMm, filters.focalLengthToMm],
+      ['fNumber', filters.apertureFrom, filters.apertureTo],
+      ['exposureTimeSec', filters.exposureFromSec, filters.exposureToSec],
+      ['iso', filters.isoFrom, filters.isoTo],
+    ];
+    for (const [column, from, to] of rangeFilters) {
+      if (typeof from === 'number' && Number.isFinite(from)) {
+        where.push(`${column} IS NOT NULL`, `${column} >= ?`);
+        params.push(from);
+      }
+      if (typeof to === 'number' && Number.isFinite(to)) {
+        where.push(`${column} IS NOT NULL`, `${column} <= ?`);
+        params.push(to);
+      }
+    }
+
+    if (typeof filters.flashFired === 'boolean') {
+      where.push('flashFired = ?');
+      params.push(filters.flashFired ? 1 : 0);
+    }
+
     if (typeof filters.minWidthPx === 'number' && Number.isFinite(filters.minWidthPx)) {
       where.push('width IS NOT NULL', 'width >= ?');
       params.push(filters.minWidthPx);
@@ -437,6 +1534,23 @@ export class PhotosRepository {
       params.push(filters.durationToMs);
     }
 
+    if (filters.collapseDuplicates) {
+      // Keep the lowest stack primary per content hash as the canonical row, scoped to the same roots.
+      const rootScope =
+        filters.rootIds && filters.rootIds.length > 0
+          ? ` AND dup.rootId IN (${filters.rootIds.map(() => '?').join(', ')})`
+          : '';
+      where.push(
+        `(contentHash IS NULL OR id = (
+          SELECT MIN(dup.id) FROM photos dup
+          WHERE dup.contentHash = photos.contentHash AND dup.isDeleted = 0 AND dup.isStackPrimary = 1${rootScope}
+        ))`,
+      );
+      if (filters.rootIds && filters.rootIds.length > 0) {
+        params.push(...filters.rootIds);
+      }
+    }
+
     return {
       where: where.join(' AND '),
       params,
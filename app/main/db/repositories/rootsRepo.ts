@@ -1,5 +1,6 @@
 ﻿import type Database from 'better-sqlite3';
 
+import type { RootIgnoreRuleStat } from '@shared/types/ipc';
 import type { RootRecord } from '@shared/types/photo';
 
 export class RootsRepository {
@@ -8,7 +9,9 @@ export class RootsRepository {
   private readonly findByIdStmt;
   private readonly insertStmt;
   private readonly touchStmt;
+  private readonly updatePathStmt;
   private readonly updateLastScanStmt;
+  private readonly updateIgnoreStatsStmt;
   private readonly recentStmt;
   private readonly deleteStmt;
   private readonly listAllStmt;
@@ -21,7 +24,9 @@ export class RootsRepository {
       'INSERT INTO roots (path, lastScanAtMs, createdAtMs, updatedAtMs) VALUES (@path, NULL, @createdAtMs, @updatedAtMs)',
     );
     this.touchStmt = db.prepare('UPDATE roots SET updatedAtMs = ? WHERE id = ?');
+    this.updatePathStmt = db.prepare('UPDATE roots SET path = ?, updatedAtMs = ? WHERE id = ?');
     this.updateLastScanStmt = db.prepare('UPDATE roots SET lastScanAtMs = ?, updatedAtMs = ? WHERE id = ?');
+    this.updateIgnoreStatsStmt = db.prepare('UPDATE roots SET ignoreStatsJson = ? WHERE id = ?');
     this.recentStmt = db.prepare('SELECT * FROM roots ORDER BY updatedAtMs DESC LIMIT ?');
     this.deleteStmt = db.prepare('DELETE FROM roots WHERE id = ?');
     this.listAllStmt = db.prepare('SELECT * FROM roots ORDER BY updatedAtMs DESC');
@@ -40,6 +45,7 @@ export class RootsRepository {
       id: Number(result.lastInsertRowid),
       path,
       lastScanAtMs: null,
+      ignoreStatsJson: null,
       createdAtMs: now,
       updatedAtMs: now,
     };
@@ -55,10 +61,18 @@ export class RootsRepository {
     return row ?? null;
   }
 
+  updatePath(rootId: number, path: string): void {
+    this.updatePathStmt.run(path, Date.now(), rootId);
+  }
+
   setLastScan(rootId: number, lastScanAtMs: number): void {
     this.updateLastScanStmt.run(lastScanAtMs, Date.now(), rootId);
   }
 
+  setIgnoreStats(rootId: number, stats: RootIgnoreRuleStat[]): void {
+    this.updateIgnoreStatsStmt.run(JSON.stringify(stats), rootId);
+  }
+
   listRecent(limit = 10): RootRecord[] {
     return this.recentStmt.all(limit) as RootRecord[];
   }
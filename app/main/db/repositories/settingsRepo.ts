@@ -1,12 +1,21 @@
 ﻿import type Database from 'better-sqlite3';
 
 import {
+  DEFAULT_BACKUP_SETTINGS,
   DEFAULT_FEATURE_FLAGS,
+  DEFAULT_GEOTAG_SETTINGS,
+  DEFAULT_MAINTENANCE_SETTINGS,
   DEFAULT_ONBOARDING_STATE,
   DEFAULT_SETTINGS,
+  DEFAULT_THUMBNAIL_CACHE_SETTINGS,
+  THUMBNAIL_CACHE_CLASSES,
   type AppSettings,
+  type BackupSettings,
   type FeatureFlags,
+  type GeotagSettings,
+  type MaintenanceSettings,
   type OnboardingState,
+  type ThumbnailCacheSettings,
   type UiThemePreset,
 } from '@shared/types/settings';
 
@@ -48,6 +57,80 @@ function normalizeOnboarding(value: unknown): OnboardingState {
   };
 }
 
+function normalizeGeotagSettings(value: unknown): GeotagSettings {
+  const raw = typeof value === 'object' && value !== null ? (value as Partial<GeotagSettings>) : {};
+  const clockOffsetSeconds = typeof raw.clockOffsetSeconds === 'number' && Number.isFinite(raw.clockOffsetSeconds)
+    ? Math.trunc(raw.clockOffsetSeconds)
+    : DEFAULT_GEOTAG_SETTINGS.clockOffsetSeconds;
+  const maxGapSeconds = typeof raw.maxGapSeconds === 'number' && Number.isFinite(raw.maxGapSeconds)
+    ? Math.max(1, Math.min(86_400, Math.trunc(raw.maxGapSeconds)))
+    : DEFAULT_GEOTAG_SETTINGS.maxGapSeconds;
+  return { clockOffsetSeconds, maxGapSeconds };
+}
+
+function normalizeMaintenanceSettings(value: unknown): MaintenanceSettings {
+  const raw = typeof value === 'object' && value !== null ? (value as Partial<MaintenanceSettings>) : {};
+  const autoRunEnabled = typeof raw.autoRunEnabled === 'boolean'
+    ? raw.autoRunEnabled
+    : DEFAULT_MAINTENANCE_SETTINGS.autoRunEnabled;
+  const intervalDays = typeof raw.intervalDays === 'number' && Number.isFinite(raw.intervalDays)
+    ? Math.max(1, Math.min(90, Math.trunc(raw.intervalDays)))
+    : DEFAULT_MAINTENANCE_SETTINGS.intervalDays;
+  const tombstoneRetentionDays =
+    typeof raw.tombstoneRetentionDays === 'number' && Number.isFinite(raw.tombstoneRetentionDays)
+      ? Math.max(0, Math.min(3_650, Math.trunc(raw.tombstoneRetentionDays)))
+      : DEFAULT_MAINTENANCE_SETTINGS.tombstoneRetentionDays;
+  return { autoRunEnabled, intervalDays, tombstoneRetentionDays };
+}
+
+function normalizeBackupSettings(value: unknown): BackupSettings {
+  const raw = typeof value === 'object' && value !== null ? (value as Partial<BackupSettings>) : {};
+  const autoBackupEnabled = typeof raw.autoBackupEnabled === 'boolean'
+    ? raw.autoBackupEnabled
+    : DEFAULT_BACKUP_SETTINGS.autoBackupEnabled;
+  const intervalHours = typeof raw.intervalHours === 'number' && Number.isFinite(raw.intervalHours)
+    ? Math.max(1, Math.min(24 * 30, Math.trunc(raw.intervalHours)))
+    : DEFAULT_BACKUP_SETTINGS.intervalHours;
+  const keepCount = typeof raw.keepCount === 'number' && Number.isFinite(raw.keepCount)
+    ? Math.max(1, Math.min(100, Math.trunc(raw.keepCount)))
+    : DEFAULT_BACKUP_SETTINGS.keepCount;
+  return { autoBackupEnabled, intervalHours, keepCount };
+}
+
+function normalizeThumbnailCacheSettings(value: unknown): ThumbnailCacheSettings {
+  const raw = typeof value === 'object' && value !== null ? (value as Partial<ThumbnailCacheSettings>) : {};
+  const rawBudgets: Partial<Record<string, unknown>> =
+    typeof raw.budgetsMb === 'object' && raw.budgetsMb !== null ? raw.budgetsMb : {};
+  const budgetsMb = { ...DEFAULT_THUMBNAIL_CACHE_SETTINGS.budgetsMb };
+  for (const cacheClass of THUMBNAIL_CACHE_CLASSES) {
+    const budget = rawBudgets[cacheClass];
+    if (typeof budget === 'number' && Number.isFinite(budget)) {
+      budgetsMb[cacheClass] = Math.max(0, Math.min(1_048_576, Math.trunc(budget)));
+    }
+  }
+  return { budgetsMb };
+}
+
+function normalizeRootIgnorePatterns(value: unknown): Record<string, string[]> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return {};
+  }
+  const normalized: Record<string, string[]> = {};
+  for (const [rootPath, patterns] of Object.entries(value as Record<string, unknown>)) {
+    if (!Array.isArray(patterns)) {
+      continue;
+    }
+    const lines = patterns
+      .filter((item): item is string => typeof item === 'string')
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+    if (lines.length > 0) {
+      normalized[rootPath] = lines;
+    }
+  }
+  return normalized;
+}
+
 export class SettingsRepository {
   private readonly getStmt;
   private readonly upsertStmt;
@@ -76,12 +159,17 @@ export class SettingsRepository {
         activeRootIds: Array.isArray(parsed.activeRootIds)
           ? parsed.activeRootIds.filter((item): item is number => Number.isInteger(item) && item > 0)
           : [],
+        rootIgnorePatterns: normalizeRootIgnorePatterns(parsed.rootIgnorePatterns),
         favoriteCityIds: Array.isArray(parsed.favoriteCityIds)
           ? parsed.favoriteCityIds.filter((item): item is string => typeof item === 'string')
           : [],
         uiThemePreset: normalizeThemePreset(parsed.uiThemePreset),
         featureFlags: normalizeFeatureFlags(parsed.featureFlags),
         onboarding: normalizeOnboarding(parsed.onboarding),
+        geotag: normalizeGeotagSettings(parsed.geotag),
+        maintenance: normalizeMaintenanceSettings(parsed.maintenance),
+        thumbnailCache: normalizeThumbnailCacheSettings(parsed.thumbnailCache),
+        backup: normalizeBackupSettings(parsed.backup),
       };
     } catch {
       return DEFAULT_SETTINGS;
@@ -95,10 +183,15 @@ export class SettingsRepository {
       ...patch,
       recentRoots: patch.recentRoots ?? current.recentRoots,
       activeRootIds: patch.activeRootIds ?? current.activeRootIds,
+      rootIgnorePatterns: normalizeRootIgnorePatterns(patch.rootIgnorePatterns ?? current.rootIgnorePatterns),
       favoriteCityIds: patch.favoriteCityIds ?? current.favoriteCityIds,
       uiThemePreset: normalizeThemePreset(patch.uiThemePreset ?? current.uiThemePreset),
       featureFlags: normalizeFeatureFlags(patch.featureFlags ?? current.featureFlags),
       onboarding: normalizeOnboarding(patch.onboarding ?? current.onboarding ?? DEFAULT_ONBOARDING_STATE),
+      geotag: normalizeGeotagSettings(patch.geotag ?? current.geotag),
+      maintenance: normalizeMaintenanceSettings(patch.maintenance ?? current.maintenance),
+      thumbnailCache: normalizeThumbnailCacheSettings(patch.thumbnailCache ?? current.thumbnailCache),
+      backup: normalizeBackupSettings(patch.backup ?? current.backup),
     };
 
     this.upsertStmt.run({ key: SETTINGS_KEY, value: JSON.stringify(next) });
@@ -0,0 +1,129 @@
+import type Database from 'better-sqlite3';
+
+import type { ThumbnailCacheClass } from '@shared/types/settings';
+
+export interface ThumbnailCacheEntry {
+  path: string;
+  cacheClass: ThumbnailCacheClass;
+  sizeBytes: number;
+  lastAccessMs: number;
+}
+
+export interface ThumbnailCacheUsageRow {
+  cacheClass: ThumbnailCacheClass;
+  fileCount: number;
+  usedBytes: number;
+}
+
+export class ThumbnailCacheRepository {
+  private readonly db: Database.Database;
+  private readonly existsStmt;
+  private readonly upsertStmt;
+  private readonly touchStmt;
+  private readonly deleteStmt;
+  private readonly renameStmt;
+  private readonly candidatesStmt;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+    this.existsStmt = db.prepare('SELECT 1 FROM thumbnail_cache_entries WHERE path = ? LIMIT 1');
+    this.upsertStmt = db.prepare(`
+      INSERT INTO thumbnail_cache_entries (path, cacheClass, sizeBytes, lastAccessMs)
+      VALUES (@path, @cacheClass, @sizeBytes, @lastAccessMs)
+      ON CONFLICT(path) DO UPDATE SET
+        cacheClass = excluded.cacheClass,
+        sizeBytes = excluded.sizeBytes,
+        lastAccessMs = MAX(lastAccessMs, excluded.lastAccessMs)
+    `);
+    this.touchStmt = db.prepare(
+      'UPDATE thumbnail_cache_entries SET lastAccessMs = MAX(lastAccessMs, @lastAccessMs) WHERE path = @path',
+    );
+    this.deleteStmt = db.prepare('DELETE FROM thumbnail_cache_entries WHERE path = ?');
+    this.renameStmt = db.prepare(`
+      UPDATE OR REPLACE thumbnail_cache_entries
+      SET path = @toPath
+      WHERE path = @fromPath
+    `);
+    // Keyset pagination in LRU order, so entries skipped as pinned are not returned again.
+    this.candidatesStmt = db.prepare(`
+      SELECT path, cacheClass, sizeBytes, lastAccessMs
+      FROM thumbnail_cache_entries
+      WHERE cacheClass = @cacheClass
+        AND lastAccessMs < @accessedBeforeMs
+        AND (lastAccessMs > @afterAccessMs OR (lastAccessMs = @afterAccessMs AND path > @afterPath))
+      ORDER BY lastAccessMs ASC, path ASC
+      LIMIT @limit
+    `);
+  }
+
+  has(path: string): boolean {
+    return Boolean(this.existsStmt.get(path));
+  }
+
+  upsertMany(entries: ThumbnailCacheEntry[]): void {
+    if (entries.length === 0) {
+      return;
+    }
+    const tx = this.db.transaction((rows: ThumbnailCacheEntry[]) => {
+      for (const row of rows) {
+        this.upsertStmt.run(row);
+      }
+    });
+    tx(entries);
+  }
+
+  /** Moves last-use times forward; paths without a row are ignored. */
+  touchMany(items: Array<{ path: string; lastAccessMs: number }>): void {
+    if (items.length === 0) {
+      return;
+    }
+    const tx = this.db.transaction((rows: Array<{ path: string; lastAccessMs: number }>) => {
+      for (const row of rows) {
+        this.touchStmt.run(row);
+      }
+    });
+    tx(items);
+  }
+
+  deleteMany(paths: string[]): void {
+    if (paths.length === 0) {
+      return;
+    }
+    const tx = this.db.transaction((rows: string[]) => {
+      for (const row of rows) {
+        this.deleteStmt.run(row);
+      }
+    });
+    tx(paths);
+  }
+
+  rename(fromPath: string, toPath: string): void {
+    this.renameStmt.run({ fromPath, toPath });
+  }
+
+  getUsage(): ThumbnailCacheUsageRow[] {
+    return this.db
+      .prepare(`
+        SELECT cacheClass, COUNT(1) AS fileCount, COALESCE(SUM(sizeBytes), 0) AS usedBytes
+        FROM thumbnail_cache_entries
+        GROUP BY cacheClass
+      `)
+      .all() as ThumbnailCacheUsageRow[];
+  }
+
+  /** Least recently used entries of a class not used since `accessedBeforeMs`, after the given cursor. */
+  getEvictionCandidates(
+    cacheClass: ThumbnailCacheClass,
+    accessedBeforeMs: number,
+    after: { lastAccessMs: number; path: string } | null,
+    limit: number,
+  ): ThumbnailCacheEntry[] {
+    return this.candidatesStmt.all({
+      cacheClass,
+      accessedBeforeMs,
+      afterAccessMs: after?.lastAccessMs ?? -1,
+      afterPath: after?.path ?? '',
+      limit,
+    }) as ThumbnailCacheEntry[];
+  }
+}
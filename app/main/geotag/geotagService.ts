@@ -0,0 +1,129 @@
+import path from 'node:path';
+
+import type { LocationOverridesRepository } from '@main/db/repositories/locationOverridesRepo';
+import type { GeotagCandidate, PhotosRepository } from '@main/db/repositories/photosRepo';
+import type { GeotagMatch, GeotagOptions, GeotagPreview, GeotagTrackSummary } from '@shared/types/ipc';
+import { normalizeFsPath } from '@shared/utils/path';
+
+import { locateOnTrack, prepareTrack } from './trackMatcher';
+import { parseTrackFile, type TrackPoint } from './trackParser';
+
+const PREVIEW_MATCH_LIMIT = 500;
+const MAX_GAP_SECONDS_LIMIT = 86_400;
+const SOURCE_MAX_LENGTH = 400;
+
+interface GeotagRun {
+  tracks: GeotagTrackSummary[];
+  candidates: GeotagCandidate[];
+  matches: GeotagMatch[];
+}
+
+export class GeotagService {
+  constructor(
+    private readonly photosRepo: PhotosRepository,
+    private readonly overridesRepo: LocationOverridesRepository,
+    private readonly onDataChanged?: () => void,
+  ) {}
+
+  /** Dry run: what `apply` would write with the same options. */
+  async preview(options: GeotagOptions): Promise<GeotagPreview> {
+    const run = await this.match(options);
+    return {
+      tracks: run.tracks,
+      candidateCount: run.candidates.length,
+      matchedCount: run.matches.length,
+      matches: run.matches.slice(0, PREVIEW_MATCH_LIMIT),
+    };
+  }
+
+  /** Writes matched positions as overrides; `photoIds` narrows the write to rows picked from a preview. */
+  async apply(options: GeotagOptions & { photoIds?: number[] }): Promise<{ applied: number; photoIds: number[] }> {
+    const run = await this.match(options);
+    const selected = options.photoIds ? new Set(options.photoIds) : null;
+    const matches = selected ? run.matches.filter((match) => selected.has(match.photoId)) : run.matches;
+    const source = run.tracks
+      .filter((track) => track.pointCount > 0)
+      .map((track) => path.basename(track.path))
+      .join(', ')
+      .slice(0, SOURCE_MAX_LENGTH);
+    const updatedAtMs = Date.now();
+    const applied = this.overridesRepo.upsert(
+      matches.map((match) => ({
+        photoId: match.photoId,
+        lat: match.lat,
+        lng: match.lng,
+        alt: match.alt,
+        kind: 'track',
+        source,
+        updatedAtMs,
+      })),
+    );
+    if (applied > 0) {
+      this.onDataChanged?.();
+    }
+    return { applied, photoIds: matches.map((match) => match.photoId) };
+  }
+
+  /** Removes track matches only; positions placed by hand since then are left alone. */
+  clear(photoIds: number[]): number {
+    const cleared = this.overridesRepo.delete(photoIds, 'track');
+    if (cleared > 0) {
+      this.onDataChanged?.();
+    }
+    return cleared;
+  }
+
+  private async match(options: GeotagOptions): Promise<GeotagRun> {
+    const { tracks, points } = await this.loadTracks(options.trackPaths);
+    const track = prepareTrack(points);
+    const candidates = this.photosRepo.getGeotagCandidates(options.rootIds);
+    const offsetMs = Math.trunc(Number.isFinite(options.clockOffsetSeconds) ? options.clockOffsetSeconds : 0) * 1_000;
+    const maxGapSeconds = Number.isFinite(options.maxGapSeconds) ? options.maxGapSeconds : 0;
+    const maxGapMs = Math.max(0, Math.min(MAX_GAP_SECONDS_LIMIT, maxGapSeconds)) * 1_000;
+
+    const matches: GeotagMatch[] = [];
+    for (const candidate of candidates) {
+      const position = locateOnTrack(track, candidate.takenAtMs + offsetMs, maxGapMs);
+      if (!position) {
+        continue;
+      }
+      matches.push({
+        photoId: candidate.id,
+        path: candidate.path,
+        takenAtMs: candidate.takenAtMs,
+        ...position,
+        hasGeotag: candidate.hasOverride === 1,
+      });
+    }
+    return { tracks, candidates, matches };
+  }
+
+  // One unreadable file should not sink the others; its error is reported in the summary instead.
+  private async loadTracks(trackPaths: string[]): Promise<{ tracks: GeotagTrackSummary[]; points: TrackPoint[] }> {
+    const tracks: GeotagTrackSummary[] = [];
+    const points: TrackPoint[] = [];
+    for (const trackPath of Array.from(new Set(trackPaths.map((item) => normalizeFsPath(item))))) {
+      try {
+        const filePoints = await parseTrackFile(trackPath);
+        let startMs: number | null = null;
+        let endMs: number | null = null;
+        // Long logs run to hundreds of thousands of fixes, too many to spread into call arguments.
+        for (const point of filePoints) {
+          startMs = startMs == null ? point.timeMs : Math.min(startMs, point.timeMs);
+          endMs = endMs == null ? point.timeMs : Math.max(endMs, point.timeMs);
+          points.push(point);
+        }
+        tracks.push({ path: trackPath, pointCount: filePoints.length, startMs, endMs });
+      } catch (error) {
+        tracks.push({
+          path: trackPath,
+          pointCount: 0,
+          startMs: null,
+          endMs: null,
+          error: error instanceof Error ? error.message : 'Failed to read track file',
+        });
+      }
+    }
+    return { tracks, points };
+  }
+}
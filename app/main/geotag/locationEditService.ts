@@ -0,0 +1,91 @@
+import type { LocationOverridesRepository } from '@main/db/repositories/locationOverridesRepo';
+import type { LocationEditResult, LocationEditSnapshot, ManualLocationPayload } from '@shared/types/ipc';
+import type { LocationOverride } from '@shared/types/photo';
+
+const LABEL_MAX_LENGTH = 200;
+
+function normalizePhotoIds(photoIds: number[]): number[] {
+  return Array.from(new Set(photoIds.filter((id) => Number.isInteger(id) && id > 0)));
+}
+
+function isValidPosition(lat: number, lng: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+/** Manual placement of photos; every edit hands back what it replaced so the renderer can undo it. */
+export class LocationEditService {
+  constructor(
+    private readonly overridesRepo: LocationOverridesRepository,
+    private readonly onDataChanged?: () => void,
+  ) {}
+
+  setManual(payload: ManualLocationPayload): LocationEditResult {
+    const photoIds = normalizePhotoIds(payload.photoIds);
+    if (!isValidPosition(payload.lat, payload.lng)) {
+      throw new Error(`Invalid coordinates: ${payload.lat}, ${payload.lng}`);
+    }
+    const previous = this.snapshot(photoIds);
+    const label = payload.label?.trim().slice(0, LABEL_MAX_LENGTH) || null;
+    const updatedAtMs = Date.now();
+    const changed = this.overridesRepo.upsert(
+      photoIds.map((photoId) => ({
+        photoId,
+        lat: payload.lat,
+        lng: payload.lng,
+        alt: null,
+        kind: 'manual',
+        source: label,
+        updatedAtMs,
+      })),
+    );
+    this.notify(changed);
+    return { changed, previous };
+  }
+
+  /** Drops track and manual overrides alike, so the position from the file's metadata applies again. */
+  revertToOriginal(photoIds: number[]): LocationEditResult {
+    const normalized = normalizePhotoIds(photoIds);
+    const previous = this.snapshot(normalized).filter((item) => item.override != null);
+    const changed = this.overridesRepo.delete(normalized);
+    this.notify(changed);
+    return { changed, previous };
+  }
+
+  restore(snapshots: LocationEditSnapshot[]): number {
+    const restoredOverrides: LocationOverride[] = [];
+    const cleared: number[] = [];
+    for (const snapshot of snapshots) {
+      if (!Number.isInteger(snapshot.photoId) || snapshot.photoId <= 0) {
+        continue;
+      }
+      const override = snapshot.override;
+      if (override && isValidPosition(override.lat, override.lng)) {
+        restoredOverrides.push({
+          photoId: snapshot.photoId,
+          lat: override.lat,
+          lng: override.lng,
+          alt: override.alt ?? null,
+          kind: override.kind === 'track' ? 'track' : 'manual',
+          source: override.source ?? null,
+          updatedAtMs: override.updatedAtMs,
+        });
+      } else if (!override) {
+        cleared.push(snapshot.photoId);
+      }
+    }
+    const restored = this.overridesRepo.delete(cleared) + this.overridesRepo.upsert(restoredOverrides);
+    this.notify(restored);
+    return restored;
+  }
+
+  private snapshot(photoIds: number[]): LocationEditSnapshot[] {
+    const current = new Map(this.overridesRepo.getMany(photoIds).map((item) => [item.photoId, item]));
+    return photoIds.map((photoId) => ({ photoId, override: current.get(photoId) ?? null }));
+  }
+
+  private notify(changed: number): void {
+    if (changed > 0) {
+      this.onDataChanged?.();
+    }
+  }
+}
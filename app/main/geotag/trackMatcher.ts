@@ -0,0 +1,92 @@
+import type { GeotagMatchMethod } from '@shared/types/ipc';
+
+import type { TrackPoint } from './trackParser';
+
+export interface TrackPosition {
+  lat: number;
+  lng: number;
+  alt: number | null;
+  method: GeotagMatchMethod;
+  // Time to the closest track point.
+  gapMs: number;
+}
+
+/** Time-ordered points with duplicate timestamps dropped, ready for `locateOnTrack`. */
+export function prepareTrack(points: TrackPoint[]): TrackPoint[] {
+  const sorted = [...points].sort((a, b) => a.timeMs - b.timeMs);
+  return sorted.filter((point, index) => index === 0 || point.timeMs !== sorted[index - 1].timeMs);
+}
+
+function findSegmentStart(track: TrackPoint[], timeMs: number): number {
+  let low = 0;
+  let high = track.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (track[mid].timeMs <= timeMs) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+function interpolateLng(from: number, to: number, ratio: number): number {
+  // Take the short way across the antimeridian.
+  let delta = to - from;
+  if (delta > 180) {
+    delta -= 360;
+  } else if (delta < -180) {
+    delta += 360;
+  }
+  const lng = from + delta * ratio;
+  return lng > 180 ? lng - 360 : lng < -180 ? lng + 360 : lng;
+}
+
+function toNearest(point: TrackPoint, gapMs: number): TrackPosition {
+  return { lat: point.lat, lng: point.lng, alt: point.alt, method: 'nearest', gapMs };
+}
+
+/**
+ * Position at `timeMs` on a prepared track. Between two points no more than `maxGapMs` apart the
+ * position is interpolated linearly; across a longer logging gap, or past either end, the closer
+ * point is used if it lies within `maxGapMs`. Anything farther is left unmatched.
+ */
+export function locateOnTrack(track: TrackPoint[], timeMs: number, maxGapMs: number): TrackPosition | null {
+  if (track.length === 0) {
+    return null;
+  }
+  const first = track[0];
+  const last = track[track.length - 1];
+  if (timeMs <= first.timeMs) {
+    const gapMs = first.timeMs - timeMs;
+    return gapMs <= maxGapMs ? toNearest(first, gapMs) : null;
+  }
+  if (timeMs >= last.timeMs) {
+    const gapMs = timeMs - last.timeMs;
+    return gapMs <= maxGapMs ? toNearest(last, gapMs) : null;
+  }
+
+  const startIndex = findSegmentStart(track, timeMs);
+  const before = track[startIndex];
+  const after = track[startIndex + 1];
+  const sinceBefore = timeMs - before.timeMs;
+  const untilAfter = after.timeMs - timeMs;
+  const gapMs = Math.min(sinceBefore, untilAfter);
+  if (after.timeMs - before.timeMs <= maxGapMs) {
+    const ratio = sinceBefore / (after.timeMs - before.timeMs);
+    const alt =
+      before.alt != null && after.alt != null ? before.alt + (after.alt - before.alt) * ratio : (before.alt ?? after.alt);
+    return {
+      lat: before.lat + (after.lat - before.lat) * ratio,
+      lng: interpolateLng(before.lng, after.lng, ratio),
+      alt,
+      method: 'interpolated',
+      gapMs,
+    };
+  }
+  if (gapMs > maxGapMs) {
+    return null;
+  }
+  return sinceBefore <= untilAfter ? toNearest(before, gapMs) : toNearest(after, gapMs);
+}
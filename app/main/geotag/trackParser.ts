@@ -0,0 +1,203 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export interface TrackPoint {
+  timeMs: number;
+  lat: number;
+  lng: number;
+  alt: number | null;
+}
+
+export type TrackFormat = 'gpx' | 'kml' | 'geojson';
+
+const TRACK_EXTENSIONS: Record<string, TrackFormat> = {
+  '.gpx': 'gpx',
+  '.kml': 'kml',
+  '.geojson': 'geojson',
+  '.json': 'geojson',
+};
+
+export const TRACK_FILE_EXTENSIONS = Object.keys(TRACK_EXTENSIONS).map((extension) => extension.slice(1));
+
+export function getTrackFormat(filePath: string): TrackFormat | null {
+  return TRACK_EXTENSIONS[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+function toFiniteNumber(value: unknown): number | null {
+  const parsed = typeof value === 'number' ? value : Number.parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Loggers write ISO 8601 almost universally; GeoJSON exporters sometimes use epoch seconds or milliseconds.
+function parseTime(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value > 1e11 ? value : value * 1_000;
+  }
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+  const parsed = Date.parse(value.trim());
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function createPoint(timeValue: unknown, latValue: unknown, lngValue: unknown, altValue: unknown): TrackPoint | null {
+  const timeMs = parseTime(timeValue);
+  const lat = toFiniteNumber(latValue);
+  const lng = toFiniteNumber(lngValue);
+  if (timeMs == null || lat == null || lng == null || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+  return { timeMs, lat, lng, alt: toFiniteNumber(altValue) };
+}
+
+function readTag(xml: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return match ? match[1].trim() : null;
+}
+
+function readAllTags(xml: string, tag: string): string[] {
+  return Array.from(xml.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'g')), (match) =>
+    match[1].trim(),
+  );
+}
+
+function readAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`).exec(attributes);
+  return match ? match[1] : null;
+}
+
+function parseGpx(xml: string): TrackPoint[] {
+  const points: TrackPoint[] = [];
+  for (const match of xml.matchAll(/<(trkpt|rtept|wpt)\b([^>]*)>([\s\S]*?)<\/\1>/g)) {
+    const [, , attributes, body] = match;
+    const point = createPoint(
+      readTag(body, 'time'),
+      readAttribute(attributes, 'lat'),
+      readAttribute(attributes, 'lon'),
+      readTag(body, 'ele'),
+    );
+    if (point) {
+      points.push(point);
+    }
+  }
+  return points;
+}
+
+function parseKml(xml: string): TrackPoint[] {
+  const points: TrackPoint[] = [];
+  // Google's gx:Track lists <when> and <gx:coord> ("lng lat alt") as parallel sequences.
+  for (const track of readAllTags(xml, 'gx:Track')) {
+    const whens = readAllTags(track, 'when');
+    const coords = readAllTags(track, 'gx:coord');
+    for (let index = 0; index < Math.min(whens.length, coords.length); index += 1) {
+      const [lng, lat, alt] = coords[index].split(/\s+/);
+      const point = createPoint(whens[index], lat, lng, alt);
+      if (point) {
+        points.push(point);
+      }
+    }
+  }
+  // Plain KML exports put one timestamped Point per Placemark instead.
+  for (const placemark of readAllTags(xml, 'Placemark')) {
+    if (placemark.includes('<gx:Track')) {
+      continue;
+    }
+    const coordinates = readTag(placemark, 'coordinates');
+    const when = readTag(placemark, 'when');
+    if (!coordinates || !when) {
+      continue;
+    }
+    const [lng, lat, alt] = coordinates.split(/\s+/)[0].split(',');
+    const point = createPoint(when, lat, lng, alt);
+    if (point) {
+      points.push(point);
+    }
+  }
+  return points;
+}
+
+type GeoJsonValue = Record<string, unknown>;
+
+function asObject(value: unknown): GeoJsonValue | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as GeoJsonValue) : null;
+}
+
+function pointFromPosition(position: unknown, timeValue: unknown): TrackPoint | null {
+  if (!Array.isArray(position)) {
+    return null;
+  }
+  // A fourth coordinate is a timestamp in some exporters.
+  return createPoint(timeValue ?? position[3], position[1], position[0], position[2]);
+}
+
+function collectLine(positions: unknown, times: unknown, points: TrackPoint[]): void {
+  if (!Array.isArray(positions)) {
+    return;
+  }
+  const timeList = Array.isArray(times) ? times : [];
+  positions.forEach((position, index) => {
+    const point = pointFromPosition(position, timeList[index]);
+    if (point) {
+      points.push(point);
+    }
+  });
+}
+
+// Times follow the togeojson convention: `properties.coordTimes`, nested per line for MultiLineString.
+function collectFeature(feature: GeoJsonValue, points: TrackPoint[]): void {
+  const geometry = asObject(feature.geometry);
+  const properties = asObject(feature.properties) ?? {};
+  if (!geometry) {
+    return;
+  }
+  const times = properties.coordTimes ?? properties.times;
+  if (geometry.type === 'LineString') {
+    collectLine(geometry.coordinates, times, points);
+  } else if (geometry.type === 'MultiLineString' && Array.isArray(geometry.coordinates)) {
+    geometry.coordinates.forEach((line, index) => {
+      collectLine(line, Array.isArray(times) ? times[index] : undefined, points);
+    });
+  } else if (geometry.type === 'Point') {
+    const point = pointFromPosition(geometry.coordinates, properties.time ?? properties.timestamp);
+    if (point) {
+      points.push(point);
+    }
+  }
+}
+
+function parseGeoJson(text: string): TrackPoint[] {
+  const root = asObject(JSON.parse(text));
+  const points: TrackPoint[] = [];
+  if (!root) {
+    return points;
+  }
+  if (root.type === 'FeatureCollection' && Array.isArray(root.features)) {
+    for (const feature of root.features) {
+      const item = asObject(feature);
+      if (item) {
+        collectFeature(item, points);
+      }
+    }
+  } else if (root.type === 'Feature') {
+    collectFeature(root, points);
+  } else {
+    collectFeature({ geometry: root }, points);
+  }
+  return points;
+}
+
+/** Timestamped positions from a GPX, KML or GeoJSON file; untimed points are dropped. */
+export async function parseTrackFile(filePath: string): Promise<TrackPoint[]> {
+  const format = getTrackFormat(filePath);
+  if (!format) {
+    throw new Error(`Unsupported track file: ${path.basename(filePath)}`);
+  }
+  const text = await fs.readFile(filePath, 'utf8');
+  if (format === 'gpx') {
+    return parseGpx(text);
+  }
+  if (format === 'kml') {
+    return parseKml(text);
+  }
+  return parseGeoJson(text);
+}
@@ -0,0 +1,211 @@
+import tzLookup from '@photostructure/tz-lookup';
+import { ExifDate, ExifDateTime, type Tags } from 'exiftool-vendored';
+
+import type { MediaType } from '@shared/types/photo';
+
+const MINUTE_MS = 60_000;
+const MAX_OFFSET_MINUTES = 14 * 60;
+const OFFSET_TAGS = ['OffsetTimeOriginal', 'OffsetTime', 'OffsetTimeDigitized', 'TimeZone', 'TimeZoneOffset'] as const;
+
+export interface CaptureTime {
+  takenAtMs: number | null;
+  // Wall-clock time where the photo was taken, encoded as if it were UTC.
+  takenAtLocalMs: number | null;
+  takenTzOffsetMinutes: number | null;
+}
+
+export const EMPTY_CAPTURE_TIME: CaptureTime = {
+  takenAtMs: null,
+  takenAtLocalMs: null,
+  takenTzOffsetMinutes: null,
+};
+
+function isValidOffset(minutes: number): boolean {
+  return Number.isFinite(minutes) && Math.abs(minutes) <= MAX_OFFSET_MINUTES;
+}
+
+function parseOffsetText(value: unknown): number | null {
+  if (typeof value === 'number') {
+    // TimeZoneOffset is stored in hours by some cameras.
+    const minutes = Math.round(value * 60);
+    return isValidOffset(minutes) ? minutes : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (/^(z|utc|gmt)$/i.test(trimmed)) {
+    return 0;
+  }
+  const match = /^(?:utc|gmt)?\s*([+-])(\d{1,2}):?(\d{2})?$/i.exec(trimmed);
+  if (!match) {
+    return null;
+  }
+  const minutes = (Number(match[2]) * 60 + Number(match[3] ?? 0)) * (match[1] === '-' ? -1 : 1);
+  return isValidOffset(minutes) ? minutes : null;
+}
+
+function getZoneOffsetMinutes(timeZone: string, atMs: number): number | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' }).formatToParts(
+      new Date(atMs),
+    );
+    const label = parts.find((part) => part.type === 'timeZoneName')?.value ?? '';
+    return parseOffsetText(label);
+  } catch {
+    return null;
+  }
+}
+
+function wallClockMs(value: ExifDateTime): number {
+  return Date.UTC(
+    value.year,
+    value.month - 1,
+    value.day,
+    value.hour,
+    value.minute,
+    value.second,
+    value.millisecond ?? 0,
+  );
+}
+
+function hasExplicitZone(value: ExifDateTime): boolean {
+  return value.tzoffsetMinutes != null && isValidOffset(value.tzoffsetMinutes) && !value.inferredZone;
+}
+
+function offsetFromTags(tags: Tags): number | null {
+  const looseTags = tags as Record<string, unknown>;
+  for (const tagName of OFFSET_TAGS) {
+    const offset = parseOffsetText(looseTags[tagName]);
+    if (offset != null) {
+      return offset;
+    }
+  }
+  // Apple videos keep the local zone in Keys:CreationDate while CreateDate is UTC.
+  if (tags.CreationDate instanceof ExifDateTime && hasExplicitZone(tags.CreationDate)) {
+    return tags.CreationDate.tzoffsetMinutes ?? null;
+  }
+  return null;
+}
+
+// GPSDateTime is UTC, so its distance from the wall clock is the offset, rounded to 15 minutes.
+function offsetFromGpsDateTime(tags: Tags, localMs: number): number | null {
+  const gps = tags.GPSDateTime;
+  if (!(gps instanceof ExifDateTime) || gps.tzoffsetMinutes == null) {
+    return null;
+  }
+  const diffMinutes = Math.round((localMs - gps.toMillis()) / MINUTE_MS / 15) * 15;
+  return isValidOffset(diffMinutes) ? diffMinutes : null;
+}
+
+function offsetFromLocation(lat: number | null, lng: number | null, atMs: number): number | null {
+  if (lat == null || lng == null || (lat === 0 && lng === 0)) {
+    return null;
+  }
+  try {
+    return getZoneOffsetMinutes(tzLookup(lat, lng), atMs);
+  } catch {
+    return null;
+  }
+}
+
+function pickCaptureValue(tags: Tags, allowFileDate: boolean): unknown {
+  return (
+    tags.DateTimeOriginal ??
+    tags.CreateDate ??
+    tags.MediaCreateDate ??
+    tags.TrackCreateDate ??
+    (allowFileDate ? tags.FileModifyDate : null) ??
+    null
+  );
+}
+
+function resolveWallClock(localMs: number, tags: Tags, lat: number | null, lng: number | null): CaptureTime {
+  let offset = offsetFromTags(tags) ?? offsetFromGpsDateTime(tags, localMs);
+  if (offset == null) {
+    // Zone rules depend on the instant; one refinement pass settles DST edges.
+    const guess = offsetFromLocation(lat, lng, localMs);
+    offset = guess == null ? null : offsetFromLocation(lat, lng, localMs - guess * MINUTE_MS);
+  }
+  if (offset == null) {
+    // No zone evidence: keep the wall clock and fall back to this machine's zone for the instant.
+    const date = new Date(localMs);
+    const machineMs = new Date(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate(),
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+      date.getUTCSeconds(),
+      date.getUTCMilliseconds(),
+    ).getTime();
+    return { takenAtMs: machineMs, takenAtLocalMs: localMs, takenTzOffsetMinutes: null };
+  }
+  return { takenAtMs: localMs - offset * MINUTE_MS, takenAtLocalMs: localMs, takenTzOffsetMinutes: offset };
+}
+
+export function resolveCaptureInstant(
+  instantMs: number,
+  tags: Tags,
+  lat: number | null,
+  lng: number | null,
+): CaptureTime {
+  const offset = offsetFromTags(tags) ?? offsetFromLocation(lat, lng, instantMs);
+  if (offset == null) {
+    const machineOffset = -new Date(instantMs).getTimezoneOffset();
+    return { takenAtMs: instantMs, takenAtLocalMs: instantMs + machineOffset * MINUTE_MS, takenTzOffsetMinutes: null };
+  }
+  return { takenAtMs: instantMs, takenAtLocalMs: instantMs + offset * MINUTE_MS, takenTzOffsetMinutes: offset };
+}
+
+function resolveExifDateTime(
+  value: ExifDateTime,
+  tags: Tags,
+  mediaType: MediaType,
+  lat: number | null,
+  lng: number | null,
+): CaptureTime {
+  // QuickTime dates are UTC by spec, which says nothing about where the video was shot.
+  if (mediaType === 'video' && value.tzoffsetMinutes === 0) {
+    return resolveCaptureInstant(value.toMillis(), tags, lat, lng);
+  }
+  if (hasExplicitZone(value)) {
+    return {
+      takenAtMs: value.toMillis(),
+      takenAtLocalMs: wallClockMs(value),
+      takenTzOffsetMinutes: value.tzoffsetMinutes ?? 0,
+    };
+  }
+  return resolveWallClock(wallClockMs(value), tags, lat, lng);
+}
+
+/**
+ * Resolves the capture instant and the photo's own UTC offset. Offsets come from, in order:
+ * the date value itself, OffsetTime* tags, GPSDateTime, then an offline lat/lng zone lookup.
+ * Sidecars pass `allowFileDate = false` since their file date is not the capture date.
+ */
+export function resolveCaptureTime(
+  tags: Tags,
+  mediaType: MediaType,
+  lat: number | null,
+  lng: number | null,
+  allowFileDate = true,
+): CaptureTime {
+  const value = pickCaptureValue(tags, allowFileDate);
+  if (value instanceof ExifDateTime) {
+    return resolveExifDateTime(value, tags, mediaType, lat, lng);
+  }
+  if (value instanceof ExifDate) {
+    return resolveWallClock(Date.UTC(value.year, value.month - 1, value.day, 12), tags, lat, lng);
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? EMPTY_CAPTURE_TIME : resolveCaptureInstant(value.getTime(), tags, lat, lng);
+  }
+  if (typeof value === 'string') {
+    const parsed = ExifDateTime.from(value);
+    if (parsed) {
+      return resolveExifDateTime(parsed, tags, mediaType, lat, lng);
+    }
+  }
+  return EMPTY_CAPTURE_TIME;
+}
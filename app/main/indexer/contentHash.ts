@@ -0,0 +1,32 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+
+const SAMPLE_BYTES = 64 * 1024;
+const FULL_HASH_MAX_BYTES = SAMPLE_BYTES * 3;
+
+// Fingerprint = sha1(size + head/middle/tail samples). Reading whole files would make
+// large videos dominate indexing time, while sampled chunks are enough to match copies.
+export async function computeContentHash(filePath: string, sizeBytes: number): Promise<string> {
+  const hash = createHash('sha1');
+  hash.update(`${sizeBytes}:`);
+
+  const handle = await fs.open(filePath, 'r');
+  try {
+    if (sizeBytes <= FULL_HASH_MAX_BYTES) {
+      const buffer = Buffer.alloc(sizeBytes);
+      const { bytesRead } = await handle.read(buffer, 0, sizeBytes, 0);
+      hash.update(buffer.subarray(0, bytesRead));
+      return hash.digest('hex');
+    }
+
+    const offsets = [0, Math.floor((sizeBytes - SAMPLE_BYTES) / 2), sizeBytes - SAMPLE_BYTES];
+    const buffer = Buffer.alloc(SAMPLE_BYTES);
+    for (const offset of offsets) {
+      const { bytesRead } = await handle.read(buffer, 0, SAMPLE_BYTES, offset);
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+    return hash.digest('hex');
+  } finally {
+    await handle.close();
+  }
+}
@@ -1,18 +1,58 @@
-import { ExifDate, ExifDateTime, ExifTool, type Tags } from 'exiftool-vendored';
+import { ExifTool, type Tags } from 'exiftool-vendored';
 
-import type { MediaType } from '@shared/types/photo';
+import type {
+  MediaType,
+  MetadataSource,
+  MetadataSourceField,
+  PhotoExifDetails,
+  PhotoMetadataSources,
+} from '@shared/types/photo';
 
-import { parseDurationMs } from './videoMeta';
+import { EMPTY_CAPTURE_TIME, resolveCaptureInstant, resolveCaptureTime, type CaptureTime } from './captureTime';
+import { getSidecarSource, readTakeoutSidecar, type TakeoutSidecarValues } from './sidecars';
+import { parseDurationMs, probeVideoMetadata, type ProbedVideoMetadata } from './videoMeta';
 
-export interface ExtractedMetadata {
+// Bump when new columns are extracted so unchanged files are re-read on the next scan.
+export const EXIF_METADATA_VERSION = 1;
+
+export const EMPTY_EXIF_DETAILS: PhotoExifDetails = {
+  cameraMake: null,
+  lensModel: null,
+  focalLengthMm: null,
+  focalLength35mm: null,
+  fNumber: null,
+  exposureTimeSec: null,
+  iso: null,
+  flashFired: null,
+  orientation: null,
+};
+
+export interface ExtractedMetadata extends PhotoExifDetails {
   lat: number | null;
   lng: number | null;
   alt: number | null;
   takenAtMs: number | null;
+  takenAtLocalMs: number | null;
+  takenTzOffsetMinutes: number | null;
   width: number | null;
   height: number | null;
   durationMs: number | null;
   cameraModel: string | null;
+  metadataSources: PhotoMetadataSources;
+  contentIdentifier: string | null;
+}
+
+/** Values one source offers for the fields sidecars can override. */
+interface MetadataLayer {
+  source: MetadataSource;
+  tags: Tags | null;
+  takenAtInstantMs: number | null;
+  lat: number | null;
+  lng: number | null;
+  alt: number | null;
+  cameraMake: string | null;
+  cameraModel: string | null;
+  lensModel: string | null;
 }
 
 function parseNumber(value: unknown): number | null {
@@ -26,36 +66,137 @@ function parseNumber(value: unknown): number | null {
   return null;
 }
 
-function parseDateMs(value: unknown): number | null {
-  if (!value) {
+function roundTo(value: number | null, digits: number): number | null {
+  if (value == null) {
     return null;
   }
-  if (value instanceof ExifDateTime || value instanceof ExifDate) {
-    const date = value.toDate();
-    return Number.isNaN(date.getTime()) ? null : date.getTime();
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function parseText(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
   }
-  if (value instanceof Date) {
-    return Number.isNaN(value.getTime()) ? null : value.getTime();
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function parsePositiveNumber(value: unknown): number | null {
+  const parsed = parseNumber(value);
+  return parsed != null && parsed > 0 ? parsed : null;
+}
+
+// ExposureTime is printed as "1/250" for fast shutters and "2" or "0.5" for slow ones.
+function parseExposureSec(value: unknown): number | null {
+  if (typeof value === 'string') {
+    const fraction = /^\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*$/.exec(value);
+    if (fraction) {
+      const numerator = Number.parseFloat(fraction[1]);
+      const denominator = Number.parseFloat(fraction[2]);
+      return denominator > 0 && numerator > 0 ? numerator / denominator : null;
+    }
   }
-  if (typeof value === 'number') {
-    return Number.isFinite(value) ? value : null;
+  return parsePositiveNumber(value);
+}
+
+function parseFlashFired(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value & 1;
   }
-  if (typeof value === 'string') {
-    const date = new Date(value);
-    return Number.isNaN(date.getTime()) ? null : date.getTime();
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return null;
   }
-  return null;
+  if (/no flash|did not fire|not fired|^off/i.test(value)) {
+    return 0;
+  }
+  return /fired|^on/i.test(value) ? 1 : null;
+}
+
+function pickExifDetails(tags: Tags): PhotoExifDetails {
+  const orientation = parseNumber(tags.Orientation);
+  const iso = parsePositiveNumber(tags.ISO);
+  return {
+    cameraMake: parseText(tags.Make),
+    lensModel: parseText(tags.LensModel) ?? parseText(tags.LensID),
+    focalLengthMm: roundTo(parsePositiveNumber(tags.FocalLength), 1),
+    focalLength35mm: roundTo(parsePositiveNumber(tags.FocalLengthIn35mmFormat), 1),
+    fNumber: roundTo(parsePositiveNumber(tags.FNumber), 1),
+    exposureTimeSec: parseExposureSec(tags.ExposureTime),
+    iso: iso == null ? null : Math.round(iso),
+    flashFired: parseFlashFired(tags.Flash),
+    orientation: orientation == null ? null : Math.trunc(orientation),
+  };
+}
+
+// Apple writes the same id into both halves of a Live Photo (MakerNotes in the still, Keys in the video).
+function pickContentIdentifier(tags: Tags): string | null {
+  const looseTags = tags as Record<string, unknown>;
+  return parseText(tags.ContentIdentifier) ?? parseText(looseTags.MediaGroupUUID);
+}
+
+function toTagLayer(source: MetadataSource, tags: Tags): MetadataLayer {
+  return {
+    source,
+    tags,
+    takenAtInstantMs: null,
+    lat: parseNumber(tags.GPSLatitude),
+    lng: parseNumber(tags.GPSLongitude),
+    alt: parseNumber(tags.GPSAltitude),
+    cameraMake: parseText(tags.Make),
+    cameraModel: parseText(tags.Model),
+    lensModel: parseText(tags.LensModel) ?? parseText(tags.LensID),
+  };
+}
+
+function toProbeLayer(probed: ProbedVideoMetadata): MetadataLayer {
+  return {
+    source: 'embedded',
+    tags: null,
+    takenAtInstantMs: probed.takenAtMs,
+    lat: probed.lat,
+    lng: probed.lng,
+    alt: probed.alt,
+    cameraMake: null,
+    cameraModel: null,
+    lensModel: null,
+  };
+}
+
+// ffprobe costs a process spawn, so it only runs when exiftool left a core video field empty.
+function needsVideoProbe(metadata: ExtractedMetadata): boolean {
+  return metadata.durationMs == null || metadata.width == null || metadata.metadataSources.takenAt == null;
+}
+
+function toTakeoutLayer(values: TakeoutSidecarValues): MetadataLayer {
+  return {
+    source: 'takeout',
+    tags: null,
+    takenAtInstantMs: values.takenAtMs,
+    lat: values.lat,
+    lng: values.lng,
+    alt: values.alt,
+    cameraMake: null,
+    cameraModel: null,
+    lensModel: null,
+  };
 }
 
-function pickTakenAtMs(tags: Tags): number | null {
-  return (
-    parseDateMs(tags.DateTimeOriginal) ??
-    parseDateMs(tags.CreateDate) ??
-    parseDateMs(tags.MediaCreateDate) ??
-    parseDateMs(tags.TrackCreateDate) ??
-    parseDateMs(tags.FileModifyDate) ??
-    null
-  );
+function resolveLayerCapture(
+  layer: MetadataLayer,
+  embeddedTags: Tags,
+  mediaType: MediaType,
+  lat: number | null,
+  lng: number | null,
+): CaptureTime | null {
+  let capture = EMPTY_CAPTURE_TIME;
+  if (layer.takenAtInstantMs != null) {
+    // Takeout only knows the instant; the embedded tags may still carry the offset.
+    capture = resolveCaptureInstant(layer.takenAtInstantMs, embeddedTags, lat, lng);
+  } else if (layer.tags) {
+    capture = resolveCaptureTime(layer.tags, mediaType, lat, lng, false);
+  }
+  return capture.takenAtMs == null ? null : capture;
 }
 
 function pickResolution(tags: Tags): { width: number | null; height: number | null } {
@@ -85,6 +226,8 @@ export class ExifMetadataExtractor {
       () =>
         new ExifTool({
           taskTimeoutMillis: 30_000,
+          // Zones are resolved in captureTime.ts so the fallback order stays under our control.
+          backfillTimezones: false,
         }),
     );
   }
@@ -93,36 +236,125 @@ export class ExifMetadataExtractor {
     return this.exiftools[Math.abs(workerHint) % this.exiftools.length];
   }
 
-  private toMetadata(tags: Tags, mediaType: MediaType, includeCameraModel: boolean): ExtractedMetadata {
-    const { width, height } = pickResolution(tags);
+  private async readSidecarLayers(tool: ExifTool, sidecarPaths: string[]): Promise<MetadataLayer[]> {
+    const layers: MetadataLayer[] = [];
+    for (const sidecarPath of sidecarPaths) {
+      const source = getSidecarSource(sidecarPath);
+      try {
+        if (source === 'xmp') {
+          layers.push(toTagLayer('xmp', await tool.read(sidecarPath)));
+        } else if (source === 'takeout') {
+          const values = await readTakeoutSidecar(sidecarPath);
+          if (values) {
+            layers.push(toTakeoutLayer(values));
+          }
+        }
+      } catch {
+        // A broken sidecar must not cost the media file its embedded metadata.
+      }
+    }
+    return layers;
+  }
+
+  /**
+   * Sidecars hold user corrections, so each field takes the first source that has it:
+   * XMP, then Takeout JSON, then the file's embedded tags.
+   */
+  private toMetadata(
+    tags: Tags,
+    mediaType: MediaType,
+    includeCameraModel: boolean,
+    sidecarLayers: MetadataLayer[] = [],
+    probed: ProbedVideoMetadata | null = null,
+  ): ExtractedMetadata {
+    const resolution = pickResolution(tags);
+    const layers = [...sidecarLayers, toTagLayer('embedded', tags), ...(probed ? [toProbeLayer(probed)] : [])];
+    const metadataSources: PhotoMetadataSources = {};
+    const pick = <T>(field: MetadataSourceField, read: (layer: MetadataLayer) => T | null): T | null => {
+      for (const layer of layers) {
+        const value = read(layer);
+        if (value != null) {
+          metadataSources[field] = layer.source;
+          return value;
+        }
+      }
+      return null;
+    };
+
+    const location = pick('location', (layer) =>
+      layer.lat != null && layer.lng != null ? { lat: layer.lat, lng: layer.lng } : null,
+    );
+    const lat = location?.lat ?? null;
+    const lng = location?.lng ?? null;
+    const capture =
+      pick('takenAt', (layer) => resolveLayerCapture(layer, tags, mediaType, lat, lng)) ??
+      // Nothing recorded a capture date; the file's modification time is the last resort.
+      resolveCaptureTime(tags, mediaType, lat, lng);
+    const camera = includeCameraModel
+      ? pick('camera', (layer) => (layer.cameraModel || layer.cameraMake ? layer : null))
+      : null;
     return {
-      lat: parseNumber(tags.GPSLatitude) ?? null,
-      lng: parseNumber(tags.GPSLongitude) ?? null,
-      alt: parseNumber(tags.GPSAltitude) ?? null,
-      takenAtMs: pickTakenAtMs(tags),
-      width,
-      height,
-      durationMs: mediaType === 'video' ? parseDurationMs(tags.Duration) : null,
-      cameraModel: includeCameraModel && typeof tags.Model === 'string' ? tags.Model : null,
+      lat,
+      lng,
+      alt: pick('altitude', (layer) => layer.alt),
+      ...capture,
+      width: resolution.width ?? probed?.width ?? null,
+      height: resolution.height ?? probed?.height ?? null,
+      durationMs: mediaType === 'video' ? (parseDurationMs(tags.Duration) ?? probed?.durationMs ?? null) : null,
+      cameraModel: camera?.cameraModel ?? null,
+      ...pickExifDetails(tags),
+      cameraMake: camera?.cameraMake ?? null,
+      lensModel: pick('lens', (layer) => layer.lensModel),
+      metadataSources,
+      contentIdentifier: pickContentIdentifier(tags),
     };
   }
 
-  async extractQuick(filePath: string, mediaType: MediaType, workerHint = 0): Promise<ExtractedMetadata> {
+  private async toMetadataWithProbe(
+    filePath: string,
+    tags: Tags,
+    mediaType: MediaType,
+    sidecarLayers: MetadataLayer[],
+  ): Promise<ExtractedMetadata> {
+    const metadata = this.toMetadata(tags, mediaType, true, sidecarLayers);
+    if (mediaType !== 'video' || !needsVideoProbe(metadata)) {
+      return metadata;
+    }
+    const probed = await probeVideoMetadata(filePath);
+    return probed ? this.toMetadata(tags, mediaType, true, sidecarLayers, probed) : metadata;
+  }
+
+  async extractQuick(
+    filePath: string,
+    mediaType: MediaType,
+    workerHint = 0,
+    sidecarPaths: string[] = [],
+  ): Promise<ExtractedMetadata> {
     const tool = this.pickTool(workerHint);
     const tags = await tool.read(filePath, { readArgs: ['-fast2'] });
-    return this.toMetadata(tags, mediaType, true);
+    return this.toMetadataWithProbe(filePath, tags, mediaType, await this.readSidecarLayers(tool, sidecarPaths));
   }
 
-  async extractFull(filePath: string, mediaType: MediaType, workerHint = 0): Promise<ExtractedMetadata> {
+  async extractFull(
+    filePath: string,
+    mediaType: MediaType,
+    workerHint = 0,
+    sidecarPaths: string[] = [],
+  ): Promise<ExtractedMetadata> {
     const tool = this.pickTool(workerHint);
     const tags = await tool.read(filePath, { readArgs: [] });
-    return this.toMetadata(tags, mediaType, true);
+    return this.toMetadataWithProbe(filePath, tags, mediaType, await this.readSidecarLayers(tool, sidecarPaths));
   }
 
-  async extract(filePath: string, mediaType: MediaType, workerHint = 0): Promise<ExtractedMetadata> {
+  async extract(
+    filePath: string,
+    mediaType: MediaType,
+    workerHint = 0,
+    sidecarPaths: string[] = [],
+  ): Promise<ExtractedMetadata> {
     const tool = this.exiftools[Math.abs(workerHint) % this.exiftools.length];
     const tags = await tool.read(filePath);
-    return this.toMetadata(tags, mediaType, true);
+    return this.toMetadataWithProbe(filePath, tags, mediaType, await this.readSidecarLayers(tool, sidecarPaths));
   }
 
   async shutdown(): Promise<void> {
@@ -0,0 +1,257 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import fg from 'fast-glob';
+
+import type { RootIgnoreRuleStat } from '@shared/types/ipc';
+import { toPosixPath } from '@shared/utils/path';
+
+export const IGNORE_FILE_NAME = '.photoglobeignore';
+export const IGNORE_FILE_GLOB = `**/${IGNORE_FILE_NAME}`;
+export const SETTINGS_RULE_SOURCE = 'settings';
+// Always skipped by fast-glob itself; these never show up in per-rule stats.
+export const BUILTIN_SCAN_IGNORE = ['**/$RECYCLE.BIN/**', '**/System Volume Information/**'];
+
+interface IgnoreRule {
+  source: string;
+  pattern: string;
+  baseDir: string;
+  negate: boolean;
+  dirOnly: boolean;
+  regex: RegExp;
+}
+
+export interface IgnoreFileSource {
+  relativePath: string;
+  content: string;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+function globToRegexSource(glob: string): string {
+  let output = '';
+  let index = 0;
+  while (index < glob.length) {
+    const char = glob[index];
+    if (char === '*') {
+      if (glob[index + 1] === '*') {
+        const atSegmentStart = index === 0 || glob[index - 1] === '/';
+        const atSegmentEnd = index + 2 === glob.length || glob[index + 2] === '/';
+        if (atSegmentStart && atSegmentEnd) {
+          if (index + 2 === glob.length) {
+            output += '.*';
+            index += 2;
+          } else {
+            output += '(?:.*/)?';
+            index += 3;
+          }
+          continue;
+        }
+      }
+      output += '[^/]*';
+      index += 1;
+      continue;
+    }
+    if (char === '?') {
+      output += '[^/]';
+      index += 1;
+      continue;
+    }
+    if (char === '[') {
+      const close = glob.indexOf(']', index + 2);
+      if (close > index) {
+        const body = glob.slice(index + 1, close).replace(/\\/g, '\\\\');
+        output += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+        index = close + 1;
+        continue;
+      }
+    }
+    if (char === '\\' && index + 1 < glob.length) {
+      output += escapeRegex(glob[index + 1]);
+      index += 2;
+      continue;
+    }
+    output += escapeRegex(char);
+    index += 1;
+  }
+  return output;
+}
+
+function compileRule(line: string, source: string, baseDir: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (pattern.length === 0 || pattern.startsWith('#')) {
+    return null;
+  }
+
+  const original = pattern;
+  let negate = false;
+  if (pattern.startsWith('!')) {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  let dirOnly = false;
+  if (pattern.endsWith('/')) {
+    dirOnly = true;
+    pattern = pattern.replace(/\/+$/, '');
+  }
+  if (pattern.length === 0) {
+    return null;
+  }
+
+  // gitignore: a slash anywhere but the end anchors the pattern to its base directory,
+  // otherwise it matches the name at any depth.
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\/+/, '');
+  const body = globToRegexSource(pattern);
+  const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`, 'i');
+
+  return { source, pattern: original, baseDir, negate, dirOnly, regex };
+}
+
+function compileLines(content: string, source: string, baseDir: string): IgnoreRule[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => compileRule(line, source, baseDir))
+    .filter((rule): rule is IgnoreRule => Boolean(rule));
+}
+
+function getRuleKey(rule: { source: string; pattern: string }): string {
+  return `${rule.source}\u0000${rule.pattern}`;
+}
+
+export class IgnoreRuleSet {
+  private readonly rules: IgnoreRule[];
+  private readonly directoryCache = new Map<string, IgnoreRule | null>();
+
+  constructor(
+    private readonly rootPath: string,
+    settingsPatterns: string[],
+    ignoreFiles: IgnoreFileSource[],
+  ) {
+    const settingsRules = settingsPatterns.flatMap((pattern) => compileLines(pattern, SETTINGS_RULE_SOURCE, ''));
+    // Deeper ignore files come last so they override their parents, like nested .gitignore files.
+    const fileRules = [...ignoreFiles]
+      .map((file) => ({ ...file, relativePath: toPosixPath(file.relativePath) }))
+      .sort((a, b) => a.relativePath.split('/').length - b.relativePath.split('/').length)
+      .flatMap((file) => {
+        const baseDir = path.posix.dirname(file.relativePath);
+        return compileLines(file.content, file.relativePath, baseDir === '.' ? '' : baseDir);
+      });
+    this.rules = [...settingsRules, ...fileRules];
+  }
+
+  get isEmpty(): boolean {
+    return this.rules.length === 0;
+  }
+
+  /** Returns the rule that excludes the path, or null when the path should be indexed. */
+  match(absolutePath: string, isDirectory = false): { source: string; pattern: string } | null {
+    if (this.rules.length === 0) {
+      return null;
+    }
+    const relativePath = toPosixPath(path.relative(this.rootPath, absolutePath));
+    if (relativePath.length === 0 || relativePath.startsWith('..')) {
+      return null;
+    }
+
+    // A file inside an excluded directory cannot be re-included, same as git.
+    const segments = relativePath.split('/');
+    for (let depth = 1; depth < segments.length; depth += 1) {
+      const directoryRule = this.matchDirectory(segments.slice(0, depth).join('/'));
+      if (directoryRule) {
+        return directoryRule;
+      }
+    }
+    return this.evaluate(relativePath, isDirectory);
+  }
+
+  /** Splits paths into kept ones and per-rule exclusion counts. */
+  partition(absolutePaths: string[]): { kept: string[]; stats: RootIgnoreRuleStat[] } {
+    const counts = new Map<string, RootIgnoreRuleStat>();
+    for (const rule of this.rules) {
+      if (rule.negate) {
+        continue;
+      }
+      const key = getRuleKey(rule);
+      if (!counts.has(key)) {
+        counts.set(key, { source: rule.source, pattern: rule.pattern, excludedCount: 0 });
+      }
+    }
+
+    const kept: string[] = [];
+    for (const absolutePath of absolutePaths) {
+      const rule = this.match(absolutePath);
+      if (!rule) {
+        kept.push(absolutePath);
+        continue;
+      }
+      const stat = counts.get(getRuleKey(rule));
+      if (stat) {
+        stat.excludedCount += 1;
+      }
+    }
+    return { kept, stats: Array.from(counts.values()) };
+  }
+
+  private matchDirectory(relativePath: string): IgnoreRule | null {
+    const cached = this.directoryCache.get(relativePath);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const rule = this.evaluate(relativePath, true);
+    this.directoryCache.set(relativePath, rule);
+    return rule;
+  }
+
+  private evaluate(relativePath: string, isDirectory: boolean): IgnoreRule | null {
+    let decided: IgnoreRule | null = null;
+    for (const rule of this.rules) {
+      if (rule.dirOnly && !isDirectory) {
+        continue;
+      }
+      let candidate = relativePath;
+      if (rule.baseDir) {
+        if (!relativePath.toLowerCase().startsWith(`${rule.baseDir.toLowerCase()}/`)) {
+          continue;
+        }
+        candidate = relativePath.slice(rule.baseDir.length + 1);
+      }
+      if (rule.regex.test(candidate)) {
+        decided = rule.negate ? null : rule;
+      }
+    }
+    return decided;
+  }
+}
+
+export async function readIgnoreFiles(rootPath: string, absolutePaths: string[]): Promise<IgnoreFileSource[]> {
+  const files = await Promise.all(
+    absolutePaths.map(async (absolutePath) => {
+      try {
+        const content = await fs.readFile(absolutePath, 'utf8');
+        return { relativePath: path.relative(rootPath, absolutePath), content };
+      } catch {
+        return null;
+      }
+    }),
+  );
+  return files.filter((file): file is IgnoreFileSource => Boolean(file));
+}
+
+export async function loadIgnoreRules(rootPath: string, settingsPatterns: string[]): Promise<IgnoreRuleSet> {
+  const ignoreFilePaths = await fg(IGNORE_FILE_GLOB, {
+    cwd: rootPath,
+    absolute: true,
+    onlyFiles: true,
+    caseSensitiveMatch: false,
+    dot: false,
+    followSymbolicLinks: false,
+    ignore: BUILTIN_SCAN_IGNORE,
+  });
+  return new IgnoreRuleSet(rootPath, settingsPatterns, await readIgnoreFiles(rootPath, ignoreFilePaths));
+}
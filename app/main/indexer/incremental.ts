@@ -1,18 +1,125 @@
+import path from 'node:path';
+
 import type { ExistingPhotoSnapshot } from '@main/db/repositories/photosRepo';
 import type { ScanFile } from '@shared/types/photo';
 import { normalizeFsPath } from '@shared/utils/path';
 
+import { EXIF_METADATA_VERSION } from './exifExtract';
+
+export interface PhotoRelocation {
+  fromPath: string;
+  file: ScanFile;
+  expectedContentHash: string | null;
+  previousSidecarSignature: string | null;
+}
+
 export interface IncrementalPlan {
   toProcess: ScanFile[];
   toRestore: string[];
   toDelete: string[];
+  toRelocate: PhotoRelocation[];
   unchangedCount: number;
 }
 
+function isStale(existingRow: ExistingPhotoSnapshot, file: ScanFile): boolean {
+  return (
+    existingRow.mtimeMs !== file.mtimeMs ||
+    existingRow.sizeBytes !== file.sizeBytes ||
+    existingRow.metadataVersion < EXIF_METADATA_VERSION ||
+    // A sidecar edit leaves the media file untouched but still changes its metadata.
+    existingRow.sidecarSignature !== file.sidecarSignature
+  );
+}
+
+function getRelocationKey(sizeBytes: number, mtimeMs: number): string {
+  return `${sizeBytes}:${Math.trunc(mtimeMs)}`;
+}
+
+function toRelocation(row: ExistingPhotoSnapshot, file: ScanFile): PhotoRelocation {
+  return {
+    fromPath: row.path,
+    file,
+    expectedContentHash: row.contentHash,
+    previousSidecarSignature: row.sidecarSignature,
+  };
+}
+
+/**
+ * Pairs vanished rows with new files sharing size+mtime. A key with several candidates on
+ * either side is only paired by identical file name; anything still ambiguous stays a
+ * delete+insert so a wrong pairing never swaps two photos' metadata.
+ */
+function pairRelocations(
+  newFiles: ScanFile[],
+  vanished: ExistingPhotoSnapshot[],
+): { relocations: PhotoRelocation[]; unmatchedFiles: ScanFile[]; unmatchedVanished: ExistingPhotoSnapshot[] } {
+  if (newFiles.length === 0 || vanished.length === 0) {
+    return { relocations: [], unmatchedFiles: newFiles, unmatchedVanished: vanished };
+  }
+
+  const vanishedByKey = new Map<string, ExistingPhotoSnapshot[]>();
+  for (const row of vanished) {
+    const key = getRelocationKey(row.sizeBytes, row.mtimeMs);
+    const bucket = vanishedByKey.get(key);
+    if (bucket) {
+      bucket.push(row);
+    } else {
+      vanishedByKey.set(key, [row]);
+    }
+  }
+
+  const filesByKey = new Map<string, ScanFile[]>();
+  for (const file of newFiles) {
+    const key = getRelocationKey(file.sizeBytes, file.mtimeMs);
+    if (!vanishedByKey.has(key)) {
+      continue;
+    }
+    const bucket = filesByKey.get(key);
+    if (bucket) {
+      bucket.push(file);
+    } else {
+      filesByKey.set(key, [file]);
+    }
+  }
+
+  const relocations: PhotoRelocation[] = [];
+  const matchedFiles = new Set<ScanFile>();
+  const matchedVanished = new Set<ExistingPhotoSnapshot>();
+
+  for (const [key, files] of filesByKey.entries()) {
+    const rows = vanishedByKey.get(key) ?? [];
+    if (files.length === 1 && rows.length === 1) {
+      relocations.push(toRelocation(rows[0], files[0]));
+      matchedFiles.add(files[0]);
+      matchedVanished.add(rows[0]);
+      continue;
+    }
+
+    for (const file of files) {
+      const baseName = path.basename(file.path).toLowerCase();
+      const sameName = rows.filter(
+        (row) => !matchedVanished.has(row) && path.basename(row.path).toLowerCase() === baseName,
+      );
+      if (sameName.length !== 1) {
+        continue;
+      }
+      relocations.push(toRelocation(sameName[0], file));
+      matchedFiles.add(file);
+      matchedVanished.add(sameName[0]);
+    }
+  }
+
+  return {
+    relocations,
+    unmatchedFiles: newFiles.filter((file) => !matchedFiles.has(file)),
+    unmatchedVanished: vanished.filter((row) => !matchedVanished.has(row)),
+  };
+}
+
 export function createIncrementalPlan(scanFiles: ScanFile[], existing: Map<string, ExistingPhotoSnapshot>): IncrementalPlan {
   const toProcess: ScanFile[] = [];
   const toRestore: string[] = [];
-  const toDelete: string[] = [];
+  const newFiles: ScanFile[] = [];
   let unchangedCount = 0;
   const seen = new Set<string>();
 
@@ -22,11 +129,11 @@ export function createIncrementalPlan(scanFiles: ScanFile[], existing: Map<strin
 
     const existingRow = existing.get(normalizedPath);
     if (!existingRow) {
-      toProcess.push(file);
+      newFiles.push(file);
       continue;
     }
 
-    if (existingRow.mtimeMs !== file.mtimeMs || existingRow.sizeBytes !== file.sizeBytes) {
+    if (isStale(existingRow, file)) {
       toProcess.push(file);
       continue;
     }
@@ -37,13 +144,18 @@ export function createIncrementalPlan(scanFiles: ScanFile[], existing: Map<strin
     }
   }
 
+  const vanished: ExistingPhotoSnapshot[] = [];
   for (const [existingPath, snapshot] of existing.entries()) {
     if (!seen.has(existingPath) && !snapshot.isDeleted) {
-      toDelete.push(existingPath);
+      vanished.push(snapshot);
     }
   }
 
-  return { toProcess, toRestore, toDelete, unchangedCount };
+  const { relocations, unmatchedFiles, unmatchedVanished } = pairRelocations(newFiles, vanished);
+  toProcess.push(...unmatchedFiles);
+  const toDelete = unmatchedVanished.map((row) => normalizeFsPath(row.path));
+
+  return { toProcess, toRestore, toDelete, toRelocate: relocations, unchangedCount };
 }
 
 export function createDeltaPlan(
@@ -53,18 +165,18 @@ export function createDeltaPlan(
 ): IncrementalPlan {
   const toProcess: ScanFile[] = [];
   const toRestore: string[] = [];
-  const toDelete: string[] = [];
+  const newFiles: ScanFile[] = [];
   let unchangedCount = 0;
 
   for (const file of scanFiles) {
     const normalizedPath = normalizeFsPath(file.path);
     const existingRow = existing.get(normalizedPath);
     if (!existingRow) {
-      toProcess.push(file);
+      newFiles.push(file);
       continue;
     }
 
-    if (existingRow.mtimeMs !== file.mtimeMs || existingRow.sizeBytes !== file.sizeBytes) {
+    if (isStale(existingRow, file)) {
       toProcess.push(file);
       continue;
     }
@@ -76,13 +188,18 @@ export function createDeltaPlan(
   }
 
   const removedUnique = Array.from(new Set(removedPaths.map((item) => normalizeFsPath(item))));
+  const vanished: ExistingPhotoSnapshot[] = [];
   for (const removedPath of removedUnique) {
     const existingRow = existing.get(removedPath);
     if (existingRow && !existingRow.isDeleted) {
-      toDelete.push(removedPath);
+      vanished.push(existingRow);
     }
   }
 
-  return { toProcess, toRestore, toDelete, unchangedCount };
+  const { relocations, unmatchedFiles, unmatchedVanished } = pairRelocations(newFiles, vanished);
+  toProcess.push(...unmatchedFiles);
+  const toDelete = unmatchedVanished.map((row) => normalizeFsPath(row.path));
+
+  return { toProcess, toRestore, toDelete, toRelocate: relocations, unchangedCount };
 }
 
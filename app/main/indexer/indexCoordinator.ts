@@ -1,31 +1,61 @@
+import fs from 'node:fs/promises';
 import os from 'node:os';
 import { randomUUID } from 'node:crypto';
 import { EventEmitter } from 'node:events';
 
-import type { PhotoMetadataPatchInput, PhotosRepository } from '@main/db/repositories/photosRepo';
+import type {
+  EnrichmentBacklogRow,
+  ExistingPhotoSnapshot,
+  PhotoEnrichmentState,
+  PhotoMetadataPatchInput,
+  PhotosRepository,
+  RelocatedPhoto,
+} from '@main/db/repositories/photosRepo';
+import type { EnrichmentTarget, IndexJobsRepository, PersistedIndexPlan } from '@main/db/repositories/indexJobsRepo';
 import type { RootsRepository } from '@main/db/repositories/rootsRepo';
 import type { SettingsRepository } from '@main/db/repositories/settingsRepo';
-import type { IndexStatus } from '@shared/types/ipc';
-import type { MediaType, PhotoUpsertInput, ScanFile } from '@shared/types/photo';
+import {
+  EMPTY_INDEX_PHASE_TIMINGS,
+  type IndexEnrichmentProgress,
+  type IndexErrorGroup,
+  type IndexJobPriority,
+  type IndexJobRunMode,
+  type IndexPhase,
+  type IndexPhaseTimings,
+  type IndexQueueSnapshot,
+  type IndexStatus,
+  type RootIgnoreRuleStat,
+} from '@shared/types/ipc';
+import type { PhotoUpsertInput, ScanFile } from '@shared/types/photo';
 import { sha1 } from '@shared/utils/hash';
 import { normalizeFsPath } from '@shared/utils/path';
 import { mergeRecentRoots } from '@shared/utils/recentRoots';
 
+import { computeContentHash } from './contentHash';
 import { createDeltaPlan, createIncrementalPlan, type IncrementalPlan } from './incremental';
-import { ExifMetadataExtractor } from './exifExtract';
+import { EMPTY_EXIF_DETAILS, EXIF_METADATA_VERSION, ExifMetadataExtractor } from './exifExtract';
+import { loadIgnoreRules, type IgnoreRuleSet } from './ignoreRules';
 import { scanMediaFiles, scanSpecificMediaFiles } from './scanner';
+import { findSidecarOwners, findSidecars, getSidecarSource } from './sidecars';
+import { assignStacks } from './stacking';
+import { ThroughputMeter } from './throughput';
 import { CancelledError, mapWithConcurrencyBatched } from './workerPool';
 
 interface IndexCoordinatorOptions {
   photosRepo: PhotosRepository;
   rootsRepo: RootsRepository;
   settingsRepo: SettingsRepository;
+  indexJobsRepo: IndexJobsRepository;
   onDataChanged?: () => void;
+  onPhotosRelocated?: (items: RelocatedPhoto[]) => void;
 }
 
 interface MutableJob {
   cancelRequested: boolean;
+  pauseRequested: boolean;
   runToken: number;
+  phaseStartedAtMs: number | null;
+  extractMeter: ThroughputMeter | null;
   status: IndexStatus;
 }
 
@@ -35,10 +65,10 @@ export interface IndexDeltaPayload {
   overflow: boolean;
 }
 
-interface EnrichmentTarget {
-  rootId: number;
-  path: string;
-  mediaType: MediaType;
+interface PendingRun {
+  jobId: string;
+  delta?: IndexDeltaPayload;
+  resumeFromPlan: boolean;
 }
 
 interface EnrichmentTask {
@@ -48,6 +78,27 @@ interface EnrichmentTask {
   targets: EnrichmentTarget[];
 }
 
+// Lower runs first: what the user asked for beats watcher catch-up, which beats the startup first scan.
+const PRIORITY_RANK: Record<IndexJobPriority, number> = { user: 0, watcher: 1, startup: 2 };
+const FINISHED_QUEUE_LIMIT = 20;
+const PHASE_TIMING_KEYS: Partial<Record<IndexPhase, keyof IndexPhaseTimings>> = {
+  scanning: 'scanMs',
+  extracting: 'extractMs',
+  saving: 'saveMs',
+};
+
+function isActivePhase(phase: IndexPhase): boolean {
+  return phase === 'idle' || phase === 'scanning' || phase === 'extracting' || phase === 'saving';
+}
+
+// An unmounted drive or renamed share looks like an empty folder to the walk, which would tombstone every photo.
+async function assertRootAvailable(rootPath: string): Promise<void> {
+  const stat = await fs.stat(rootPath).catch(() => null);
+  if (!stat?.isDirectory()) {
+    throw new Error(`Root folder not found: ${rootPath}`);
+  }
+}
+
 function parsePositiveInt(value: string | undefined): number | null {
   if (!value) {
     return null;
@@ -70,13 +121,51 @@ function dedupePaths(paths: string[]): string[] {
   );
 }
 
-function needsEnrichment(row: PhotoUpsertInput): boolean {
+// The later event wins for a path reported both ways.
+function mergeDeltas(earlier: IndexDeltaPayload | undefined, later: IndexDeltaPayload): IndexDeltaPayload {
+  const laterAdded = new Set(later.addedOrChangedPaths);
+  const laterRemoved = new Set(later.removedPaths);
+  return {
+    addedOrChangedPaths: dedupePaths([
+      ...(earlier?.addedOrChangedPaths ?? []).filter((pathItem) => !laterRemoved.has(pathItem)),
+      ...later.addedOrChangedPaths,
+    ]),
+    removedPaths: dedupePaths([
+      ...(earlier?.removedPaths ?? []).filter((pathItem) => !laterAdded.has(pathItem)),
+      ...later.removedPaths,
+    ]),
+    overflow: false,
+  };
+}
+
+async function tryComputeContentHash(filePath: string, sizeBytes: number): Promise<string | null> {
+  try {
+    return await computeContentHash(filePath, sizeBytes);
+  } catch {
+    return null;
+  }
+}
+
+type EnrichmentTags = Omit<EnrichmentBacklogRow, keyof PhotoEnrichmentState>;
+
+// Enrichment runs once per file and metadata version; a tag it did not find is taken to be absent.
+function needsEnrichment(row: EnrichmentTags, enrichedVersion: number | null): boolean {
+  if (enrichedVersion === EXIF_METADATA_VERSION) {
+    return false;
+  }
   if (row.lat == null || row.lng == null || row.takenAtMs == null || row.width == null || row.height == null) {
     return true;
   }
   if (!row.cameraModel || row.cameraModel.trim().length === 0) {
     return true;
   }
+  if (row.mediaType === 'photo' && row.lensModel == null) {
+    return true;
+  }
+  // -fast2 skips MakerNotes, where iPhone stills keep their Live Photo ContentIdentifier.
+  if (row.mediaType === 'photo' && row.cameraMake === 'Apple' && row.contentIdentifier == null) {
+    return true;
+  }
   if (row.mediaType === 'video' && row.durationMs == null) {
     return true;
   }
@@ -93,13 +182,19 @@ export class IndexCoordinator {
   private readonly enrichmentQueue: EnrichmentTask[] = [];
   private readonly enrichmentTokenByRoot = new Map<string, number>();
   private readonly indexRunTokenByRoot = new Map<string, number>();
+  private readonly ignoreRulesByRoot = new Map<string, { patternsKey: string; rules: IgnoreRuleSet }>();
+  private readonly pending: PendingRun[] = [];
+  private readonly runningRoots = new Set<string>();
+  private readonly rootConcurrency: number;
   private enrichmentRunning = 0;
 
   constructor(private readonly options: IndexCoordinatorOptions) {
     const cpuCount = Math.max(2, os.cpus().length);
     const envIndexConcurrency = parsePositiveInt(process.env.PHOTOGLOBE_INDEX_CONCURRENCY);
+    const envRootConcurrency = parsePositiveInt(process.env.PHOTOGLOBE_INDEX_ROOT_CONCURRENCY);
     const envExifPool = parsePositiveInt(process.env.PHOTOGLOBE_EXIF_POOL);
     this.indexConcurrency = Math.max(1, Math.min(16, envIndexConcurrency ?? Math.min(8, cpuCount)));
+    this.rootConcurrency = Math.max(1, Math.min(4, envRootConcurrency ?? 2));
     const exifPoolSize = Math.max(1, Math.min(12, envExifPool ?? Math.min(4, cpuCount)));
     this.exifExtractor = new ExifMetadataExtractor(exifPoolSize);
   }
@@ -113,30 +208,29 @@ export class IndexCoordinator {
     return () => this.events.off('progress', listener);
   }
 
+  onQueueChanged(listener: (snapshot: IndexQueueSnapshot) => void): () => void {
+    this.events.on('queue', listener);
+    return () => this.events.off('queue', listener);
+  }
+
   start(rootPath: string): string {
     return this.startFull(rootPath);
   }
 
-  startFull(rootPath: string): string {
-    const normalizedRoot = normalizeFsPath(rootPath);
-    this.bumpEnrichmentToken(normalizedRoot);
-    const runToken = this.bumpIndexRunToken(normalizedRoot);
-    return this.createAndRunJob(normalizedRoot, runToken, 'full');
+  startFull(rootPath: string, priority: IndexJobPriority = 'user'): string {
+    return this.enqueueJob(normalizeFsPath(rootPath), 'full', priority);
   }
 
-  startDelta(rootPath: string, delta: IndexDeltaPayload): string {
+  startFailedOnly(rootPath: string, priority: IndexJobPriority = 'user'): string {
+    return this.enqueueJob(normalizeFsPath(rootPath), 'failedOnly', priority);
+  }
+
+  startDelta(rootPath: string, delta: IndexDeltaPayload, priority: IndexJobPriority = 'watcher'): string {
     const normalizedRoot = normalizeFsPath(rootPath);
     if (delta.overflow) {
-      return this.startFull(normalizedRoot);
-    }
-    this.bumpEnrichmentToken(normalizedRoot);
-    const runToken = this.bumpIndexRunToken(normalizedRoot);
-    const normalizedDelta: IndexDeltaPayload = {
-      addedOrChangedPaths: dedupePaths(delta.addedOrChangedPaths),
-      removedPaths: dedupePaths(delta.removedPaths),
-      overflow: false,
-    };
-    return this.createAndRunJob(normalizedRoot, runToken, 'delta', normalizedDelta);
+      return this.startFull(normalizedRoot, priority);
+    }
+    return this.enqueueJob(normalizedRoot, 'delta', priority, mergeDeltas(undefined, delta));
   }
 
   enqueueEnrichment(rootPath: string, targets: EnrichmentTarget[], jobId: string): void {
@@ -159,52 +253,288 @@ export class IndexCoordinator {
   }
 
   cancel(jobId: string): boolean {
+    const pendingIndex = this.pending.findIndex((entry) => entry.jobId === jobId);
     const job = this.jobs.get(jobId);
-    if (!job) {
+    if (pendingIndex >= 0 && job) {
+      this.pending.splice(pendingIndex, 1);
+      // A resumed job waiting here still carries its paused plan.
+      this.options.indexJobsRepo.clearItems(jobId);
+      this.complete(job, 'cancelled');
+      this.emitQueue();
+      return true;
+    }
+    if (job && isActivePhase(job.status.phase)) {
+      job.cancelRequested = true;
+      return true;
+    }
+    // A paused job has no run loop to notice the flag, so its leftover plan is dropped here.
+    const persisted = job ? null : this.options.indexJobsRepo.get(jobId);
+    const phase = job?.status.phase ?? persisted?.status.phase;
+    if (phase !== 'paused') {
       return false;
     }
-    job.cancelRequested = true;
+    this.options.indexJobsRepo.clearItems(jobId);
+    const pausedJob = job ?? (persisted ? this.trackJob(persisted.status, 0) : null);
+    if (pausedJob) {
+      this.complete(pausedJob, 'cancelled');
+    }
     return true;
   }
 
+  /** Stops at the next batch boundary; the remaining plan stays in the database for `resume`. */
+  pause(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || !isActivePhase(job.status.phase)) {
+      return false;
+    }
+    job.pauseRequested = true;
+    return true;
+  }
+
+  resume(jobId: string): boolean {
+    const running = this.jobs.get(jobId);
+    if (running && running.status.phase !== 'paused') {
+      return false;
+    }
+    const persisted = this.options.indexJobsRepo.get(jobId);
+    if (!persisted) {
+      return false;
+    }
+    const { status } = persisted;
+    if (!(status.phase === 'paused' || status.phase === 'queued' || isActivePhase(status.phase))) {
+      return false;
+    }
+
+    // A watcher delta stopped before its plan was saved has lost its change list; a full pass covers it.
+    const mode = status.mode === 'delta' && !persisted.hasPlan ? 'full' : status.mode;
+    const job = this.trackJob(
+      {
+        ...status,
+        rootPath: normalizeFsPath(status.rootPath),
+        mode,
+        phase: 'queued',
+        message: undefined,
+        finishedAtMs: null,
+      },
+      0,
+    );
+    this.saveStatus(job);
+    this.pending.push({ jobId, resumeFromPlan: persisted.hasPlan });
+    this.emitQueue();
+    this.dispatchQueue();
+    return true;
+  }
+
+  /** Waiting jobs in the order they will start, plus running and recently finished ones. */
+  listQueue(): IndexQueueSnapshot {
+    const statuses = Array.from(this.jobs.values(), (job) => job.status);
+    const queued = this.pending
+      .map((entry) => this.jobs.get(entry.jobId)?.status)
+      .filter((status): status is IndexStatus => status != null)
+      .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]);
+    const finished = statuses
+      .filter((status) => status.phase !== 'queued' && !isActivePhase(status.phase))
+      .sort((a, b) => (b.finishedAtMs ?? b.startedAtMs) - (a.finishedAtMs ?? a.startedAtMs))
+      .slice(0, FINISHED_QUEUE_LIMIT);
+    return {
+      queued: queued.map((status) => ({ ...status })),
+      running: statuses.filter((status) => isActivePhase(status.phase)).map((status) => ({ ...status })),
+      finished: finished.map((status) => ({ ...status })),
+    };
+  }
+
+  /** Jobs still marked as running in the database, i.e. cut off by the last quit. */
+  listInterruptedJobs(): IndexStatus[] {
+    return this.options.indexJobsRepo
+      .listInterrupted()
+      .map((item) => item.status)
+      .filter((status) => !this.jobs.has(status.jobId));
+  }
+
+  listJobs(limit?: number): IndexStatus[] {
+    return this.options.indexJobsRepo
+      .listRecent(limit)
+      .map((status) => this.jobs.get(status.jobId)?.status ?? status);
+  }
+
   getStatus(jobId: string): IndexStatus | null {
-    return this.jobs.get(jobId)?.status ?? null;
+    return this.jobs.get(jobId)?.status ?? this.options.indexJobsRepo.get(jobId)?.status ?? null;
+  }
+
+  /**
+   * True while the root has a job waiting, running or paused, or metadata still being read. Their plans
+   * hold the root's current paths, so it cannot be relocated until they finish or are cancelled.
+   */
+  hasPendingWork(rootPath: string): boolean {
+    const key = normalizeFsPath(rootPath);
+    if (this.enrichmentQueue.some((task) => task.rootPath === key)) {
+      return true;
+    }
+    const statuses = [...Array.from(this.jobs.values(), (job) => job.status), ...this.listJobs(50)];
+    return statuses.some(
+      (status) =>
+        normalizeFsPath(status.rootPath) === key &&
+        (status.phase === 'queued' ||
+          status.phase === 'paused' ||
+          isActivePhase(status.phase) ||
+          status.enrichment?.state === 'running'),
+    );
+  }
+
+  listErrors(limit?: number): IndexErrorGroup[] {
+    return this.options.photosRepo.getErrorGroups(limit);
+  }
+
+  // For errors the user resolved outside the app; the next scan reports them again if they persist.
+  clearErrors(rootId: number, message: string): number {
+    const cleared = this.options.photosRepo.clearErrorsByMessage(rootId, message);
+    if (cleared > 0) {
+      this.options.onDataChanged?.();
+    }
+    return cleared;
   }
 
-  private createAndRunJob(
+  private enqueueJob(
     rootPath: string,
-    runToken: number,
-    mode: 'full' | 'delta',
+    mode: IndexJobRunMode,
+    priority: IndexJobPriority,
     delta?: IndexDeltaPayload,
   ): string {
+    const coalescedJobId = this.coalesce(rootPath, mode, priority, delta);
+    if (coalescedJobId) {
+      return coalescedJobId;
+    }
+
     const jobId = randomUUID();
     const status: IndexStatus = {
       jobId,
       rootPath,
-      phase: 'idle',
+      mode,
+      priority,
+      phase: 'queued',
       scanned: 0,
       queued: 0,
       processed: 0,
       indexed: 0,
       skipped: 0,
+      relocated: 0,
       errored: 0,
       percent: 0,
+      bytesProcessed: 0,
+      throughput: null,
+      phaseTimings: { ...EMPTY_INDEX_PHASE_TIMINGS },
+      enrichment: null,
       startedAtMs: Date.now(),
       finishedAtMs: null,
     };
-    this.jobs.set(jobId, { cancelRequested: false, runToken, status });
-    this.emitStatus(status);
-    void this.runJob(jobId, mode, delta);
+    const job = this.trackJob(status, 0);
+    this.options.indexJobsRepo.create(job.status);
+    this.pending.push({ jobId, delta, resumeFromPlan: false });
+    this.emitQueue();
+    this.dispatchQueue();
     return jobId;
   }
 
+  /**
+   * Folds a request into a job still waiting for the same root. A full pass covers any delta, so a
+   * full request upgrades a waiting delta and a delta request joins a waiting full pass unchanged.
+   */
+  private coalesce(
+    rootPath: string,
+    mode: IndexJobRunMode,
+    priority: IndexJobPriority,
+    delta: IndexDeltaPayload | undefined,
+  ): string | null {
+    for (const entry of this.pending) {
+      const job = this.jobs.get(entry.jobId);
+      if (!job || entry.resumeFromPlan || job.status.rootPath !== rootPath) {
+        continue;
+      }
+      if ((job.status.mode === 'failedOnly') !== (mode === 'failedOnly')) {
+        continue;
+      }
+      if (job.status.mode === 'delta' && mode === 'full') {
+        job.status.mode = 'full';
+        entry.delta = undefined;
+      } else if (job.status.mode === 'delta' && delta) {
+        entry.delta = mergeDeltas(entry.delta, delta);
+      }
+      if (PRIORITY_RANK[priority] < PRIORITY_RANK[job.status.priority]) {
+        job.status.priority = priority;
+      }
+      this.saveStatus(job);
+      this.emitStatus(job.status);
+      this.emitQueue();
+      return job.status.jobId;
+    }
+    return null;
+  }
+
+  /** Starts waiting jobs up to the root concurrency limit; one root never runs two jobs at once. */
+  private dispatchQueue(): void {
+    while (this.runningRoots.size < this.rootConcurrency) {
+      const next = this.takeNextPending();
+      if (!next) {
+        return;
+      }
+      const job = next.job;
+      const rootPath = job.status.rootPath;
+      this.runningRoots.add(rootPath);
+      this.bumpEnrichmentToken(rootPath);
+      job.runToken = this.bumpIndexRunToken(rootPath);
+      this.setPhase(job, 'idle');
+      this.emitQueue();
+      void this.runJob(job.status.jobId, next.entry.delta, next.entry.resumeFromPlan).finally(() => {
+        this.runningRoots.delete(rootPath);
+        this.emitQueue();
+        this.dispatchQueue();
+      });
+    }
+  }
+
+  private takeNextPending(): { entry: PendingRun; job: MutableJob } | null {
+    let bestIndex = -1;
+    let bestRank = Number.POSITIVE_INFINITY;
+    this.pending.forEach((entry, index) => {
+      const job = this.jobs.get(entry.jobId);
+      if (!job || this.runningRoots.has(job.status.rootPath)) {
+        return;
+      }
+      const rank = PRIORITY_RANK[job.status.priority];
+      if (rank < bestRank) {
+        bestRank = rank;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex < 0) {
+      return null;
+    }
+    const [entry] = this.pending.splice(bestIndex, 1);
+    const job = this.jobs.get(entry.jobId);
+    return job ? { entry, job } : null;
+  }
+
+  private trackJob(status: IndexStatus, runToken: number): MutableJob {
+    const job: MutableJob = {
+      cancelRequested: false,
+      pauseRequested: false,
+      runToken,
+      phaseStartedAtMs: null,
+      extractMeter: null,
+      status,
+    };
+    this.jobs.set(status.jobId, job);
+    this.emitStatus(status);
+    return job;
+  }
+
   private updateRecentRoots(rootPath: string): void {
     const settings = this.options.settingsRepo.getSettings();
     const merged = mergeRecentRoots(settings.recentRoots, rootPath);
     this.options.settingsRepo.setSettings({ recentRoots: merged });
   }
 
-  private async runJob(jobId: string, mode: 'full' | 'delta', delta?: IndexDeltaPayload): Promise<void> {
+  private async runJob(jobId: string, delta?: IndexDeltaPayload, resumeFromPlan = false): Promise<void> {
     const job = this.jobs.get(jobId);
     if (!job) {
       return;
@@ -214,20 +544,24 @@ export class IndexCoordinator {
       const root = this.options.rootsRepo.ensure(job.status.rootPath);
       this.updateRecentRoots(job.status.rootPath);
 
-      this.setPhase(job, 'scanning');
-      const existing = this.options.photosRepo.getExistingByRoot(root.id);
-      const { plan, scannedCount } = await this.buildPlan(mode, job.status.rootPath, delta, existing);
-      job.status.scanned = scannedCount;
-      job.status.queued = plan.toProcess.length;
-      job.status.skipped = plan.unchangedCount;
-      this.emitStatus(job.status);
+      const plan = resumeFromPlan
+        ? this.options.indexJobsRepo.loadPlan(jobId)
+        : await this.prepareJobPlan(job, root.id, delta);
+      if (resumeFromPlan) {
+        // Items in flight at the pause were counted but never committed; they run again.
+        job.status.processed = Math.max(0, job.status.queued - plan.toProcess.length);
+      }
 
       this.throwIfCancelled(job);
       this.setPhase(job, 'extracting');
 
-      const enrichmentTargets: EnrichmentTarget[] = [];
-      const enrichmentSeen = new Set<string>();
+      // Targets collected before a pause were saved with the plan.
+      const enrichmentTargets: EnrichmentTarget[] = [...plan.enrichment];
+      const enrichmentSeen = new Set(enrichmentTargets.map((target) => target.path));
+      const sidecarsByPath = new Map(plan.toProcess.map((file) => [file.path, file.sidecarPaths]));
       const nowMs = Date.now();
+      const meter = new ThroughputMeter(nowMs);
+      job.extractMeter = meter;
 
       if (plan.toProcess.length > 0) {
         await mapWithConcurrencyBatched(
@@ -236,34 +570,57 @@ export class IndexCoordinator {
           async (file, index) => this.extractFileQuick(root.id, file, index),
           {
             batchSize: this.batchSize,
-            isCancelled: () => job.cancelRequested,
-            onItemDone: () => {
+            isCancelled: () => job.cancelRequested || job.pauseRequested,
+            onItemDone: (index) => {
+              const { sizeBytes } = plan.toProcess[index];
+              meter.record(sizeBytes);
               job.status.processed += 1;
+              job.status.bytesProcessed += sizeBytes;
               job.status.percent = this.getExtractingPercent(job.status.processed, job.status.queued);
+              job.status.throughput = meter.snapshot(job.status.queued - job.status.processed);
               this.emitStatus(job.status);
             },
             onBatch: async (batch) => {
               this.options.photosRepo.upsertBatch(batch);
+              this.refreshStacks(root.id, batch.map((row) => row.path));
+              // The quick pass does not hash; a row re-read without a content change kept its stored hash.
+              const states = this.options.photosRepo.getEnrichmentStates(batch.map((row) => row.path));
+              const batchEnrichment: EnrichmentTarget[] = [];
               for (const row of batch) {
                 if (row.lastError) {
                   job.status.errored += 1;
                 } else {
                   job.status.indexed += 1;
                 }
-                if (needsEnrichment(row) && !enrichmentSeen.has(row.path)) {
+                const state = states.get(row.path);
+                const hasContentHash = state?.hasContentHash ?? false;
+                if (
+                  (!hasContentHash || needsEnrichment(row, state?.enrichedVersion ?? null)) &&
+                  !enrichmentSeen.has(row.path)
+                ) {
                   enrichmentSeen.add(row.path);
-                  enrichmentTargets.push({
+                  batchEnrichment.push({
                     rootId: row.rootId,
                     path: row.path,
                     mediaType: row.mediaType,
+                    sizeBytes: row.sizeBytes,
+                    sidecarPaths: sidecarsByPath.get(row.path) ?? [],
+                    hasContentHash,
                   });
                 }
               }
+              enrichmentTargets.push(...batchEnrichment);
+              this.options.indexJobsRepo.completeProcessed(
+                jobId,
+                batch.map((row) => row.path),
+                batchEnrichment,
+              );
+              this.saveStatus(job);
             },
           },
         );
       } else {
-        job.status.percent = 90;
+        job.status.percent = Math.max(job.status.percent, 90);
         this.emitStatus(job.status);
       }
 
@@ -276,10 +633,12 @@ export class IndexCoordinator {
       if (plan.toDelete.length > 0) {
         this.options.photosRepo.markDeletedByPaths(root.id, plan.toDelete, nowMs);
       }
+      this.refreshStacks(root.id, [...plan.toRestore, ...plan.toDelete]);
       job.status.percent = 99;
       this.emitStatus(job.status);
 
       this.options.rootsRepo.setLastScan(root.id, Date.now());
+      this.options.indexJobsRepo.clearItems(jobId);
       this.options.onDataChanged?.();
       this.complete(job, 'complete');
 
@@ -287,6 +646,11 @@ export class IndexCoordinator {
         this.enqueueEnrichment(job.status.rootPath, enrichmentTargets, job.status.jobId);
       }
     } catch (error) {
+      if (job.pauseRequested && !job.cancelRequested) {
+        this.markPaused(job);
+        return;
+      }
+      this.options.indexJobsRepo.clearItems(jobId);
       if (error instanceof CancelledError || job.cancelRequested) {
         this.complete(job, 'cancelled');
         return;
@@ -297,32 +661,91 @@ export class IndexCoordinator {
     }
   }
 
+  private async prepareJobPlan(
+    job: MutableJob,
+    rootId: number,
+    delta: IndexDeltaPayload | undefined,
+  ): Promise<PersistedIndexPlan> {
+    this.setPhase(job, 'scanning');
+    const existing = this.options.photosRepo.getExistingByRoot(rootId);
+    const { mode, rootPath } = job.status;
+    const { plan, scannedCount, ignoreStats } = await this.buildPlan(mode, rootPath, delta, existing);
+    job.status.scanned = scannedCount;
+    if (job.cancelRequested) {
+      throw new CancelledError();
+    }
+    if (ignoreStats) {
+      this.options.rootsRepo.setIgnoreStats(rootId, ignoreStats);
+    }
+    await this.applyRelocations(rootId, plan);
+    job.status.relocated = plan.toRelocate.length;
+    job.status.queued = plan.toProcess.length;
+    job.status.skipped = plan.unchangedCount;
+    // The walk itself cannot be resumed, so a pause requested during it waits until the plan is saved.
+    this.options.indexJobsRepo.savePlan(job.status.jobId, plan);
+    this.saveStatus(job);
+    this.emitStatus(job.status);
+    const enrichment = await this.getEnrichmentBacklog(rootId, plan);
+    return { toProcess: plan.toProcess, toRestore: plan.toRestore, toDelete: plan.toDelete, enrichment };
+  }
+
+  /**
+   * Unchanged files that still lack a content hash or enrichment, because a newer job for the root
+   * cancelled the enrichment queue or the app quit before it drained. The plan skips unchanged
+   * files, so without this they would not be hashed until they are modified.
+   */
+  private async getEnrichmentBacklog(rootId: number, plan: IncrementalPlan): Promise<EnrichmentTarget[]> {
+    const planned = new Set([...plan.toProcess.map((file) => file.path), ...plan.toDelete]);
+    const rows = this.options.photosRepo
+      .getEnrichmentBacklog(rootId, EXIF_METADATA_VERSION)
+      .filter((row) => !planned.has(row.path) && (!row.hasContentHash || needsEnrichment(row, row.enrichedVersion)));
+    if (rows.length === 0) {
+      return [];
+    }
+    const sidecarsByPath = await findSidecars(rows.map((row) => row.path));
+    return rows.map((row) => ({
+      rootId,
+      path: row.path,
+      mediaType: row.mediaType,
+      sizeBytes: row.sizeBytes,
+      sidecarPaths: sidecarsByPath.get(row.path) ?? [],
+      hasContentHash: row.hasContentHash,
+    }));
+  }
+
   private async buildPlan(
-    mode: 'full' | 'delta',
+    mode: IndexJobRunMode,
     rootPath: string,
     delta: IndexDeltaPayload | undefined,
-    existing: Map<string, { id: number; path: string; mtimeMs: number; sizeBytes: number; isDeleted: number }>,
-  ): Promise<{ plan: IncrementalPlan; scannedCount: number }> {
-    if (mode === 'full') {
-      const scannedFiles = await scanMediaFiles(rootPath);
-      return {
-        plan: createIncrementalPlan(scannedFiles, existing),
-        scannedCount: scannedFiles.length,
-      };
+    existing: Map<string, ExistingPhotoSnapshot>,
+  ): Promise<{ plan: IncrementalPlan; scannedCount: number; ignoreStats?: RootIgnoreRuleStat[] }> {
+    await assertRootAvailable(rootPath);
+    const ignorePatterns = this.getIgnorePatterns(rootPath);
+    if (mode === 'failedOnly') {
+      return this.buildFailedOnlyPlan(rootPath, ignorePatterns, existing);
     }
-
     const fallbackDelta = delta ?? { addedOrChangedPaths: [], removedPaths: [], overflow: true };
-    if (fallbackDelta.overflow) {
-      const scannedFiles = await scanMediaFiles(rootPath);
+    if (mode === 'full' || fallbackDelta.overflow) {
+      const { files, ignoreRules, ignoreStats } = await scanMediaFiles(rootPath, ignorePatterns);
+      this.ignoreRulesByRoot.set(rootPath, { patternsKey: JSON.stringify(ignorePatterns), rules: ignoreRules });
       return {
-        plan: createIncrementalPlan(scannedFiles, existing),
-        scannedCount: scannedFiles.length,
+        plan: createIncrementalPlan(files, existing),
+        scannedCount: files.length,
+        ignoreStats,
       };
     }
 
-    const scanTargets = dedupePaths(fallbackDelta.addedOrChangedPaths);
+    // The watcher reports sidecar edits by sidecar path; the media files they describe are re-read.
+    const changedPaths = dedupePaths(fallbackDelta.addedOrChangedPaths);
+    const changedSidecars = changedPaths.filter((pathItem) => getSidecarSource(pathItem) != null);
+    const scanTargets = dedupePaths([
+      ...changedPaths.filter((pathItem) => getSidecarSource(pathItem) == null),
+      ...(await findSidecarOwners(changedSidecars)),
+    ]);
     const removedTargets = dedupePaths(fallbackDelta.removedPaths);
-    const scannedFiles = await scanSpecificMediaFiles(scanTargets);
+    // Rules excluding a changed file make it "missing" below, so it is tombstoned like a removal.
+    const ignoreRules = await this.getIgnoreRules(rootPath, ignorePatterns);
+    const scannedFiles = await scanSpecificMediaFiles(scanTargets, ignoreRules);
     const scannedSet = new Set(scannedFiles.map((file) => normalizeFsPath(file.path)));
     const missingAsRemoved = scanTargets.filter((pathItem) => !scannedSet.has(pathItem));
     const plan = createDeltaPlan(scannedFiles, [...removedTargets, ...missingAsRemoved], existing);
@@ -332,14 +755,105 @@ export class IndexCoordinator {
     };
   }
 
+  private async buildFailedOnlyPlan(
+    rootPath: string,
+    ignorePatterns: string[],
+    existing: Map<string, ExistingPhotoSnapshot>,
+  ): Promise<{ plan: IncrementalPlan; scannedCount: number }> {
+    const failedPaths = Array.from(existing.entries())
+      .filter(([, row]) => row.isDeleted === 0 && row.hasError === 1)
+      .map(([pathItem]) => pathItem);
+    const ignoreRules = await this.getIgnoreRules(rootPath, ignorePatterns);
+    // Unchanged files are re-extracted too; the failure may have been a locked file or a missing tool.
+    const scannedFiles = await scanSpecificMediaFiles(failedPaths, ignoreRules);
+    const scannedSet = new Set(scannedFiles.map((file) => normalizeFsPath(file.path)));
+    return {
+      plan: {
+        toProcess: scannedFiles,
+        toRestore: [],
+        toDelete: failedPaths.filter((pathItem) => !scannedSet.has(pathItem)),
+        toRelocate: [],
+        unchangedCount: 0,
+      },
+      scannedCount: failedPaths.length,
+    };
+  }
+
+  private getIgnorePatterns(rootPath: string): string[] {
+    return this.options.settingsRepo.getSettings().rootIgnorePatterns[rootPath] ?? [];
+  }
+
+  private async getIgnoreRules(rootPath: string, ignorePatterns: string[]): Promise<IgnoreRuleSet> {
+    const patternsKey = JSON.stringify(ignorePatterns);
+    const cached = this.ignoreRulesByRoot.get(rootPath);
+    if (cached && cached.patternsKey === patternsKey) {
+      return cached.rules;
+    }
+    const rules = await loadIgnoreRules(rootPath, ignorePatterns);
+    this.ignoreRulesByRoot.set(rootPath, { patternsKey, rules });
+    return rules;
+  }
+
+  private async applyRelocations(rootId: number, plan: IncrementalPlan): Promise<void> {
+    if (plan.toRelocate.length === 0) {
+      return;
+    }
+
+    const verified: IncrementalPlan['toRelocate'] = [];
+    for (const relocation of plan.toRelocate) {
+      if (relocation.expectedContentHash) {
+        const actualHash = await tryComputeContentHash(relocation.file.path, relocation.file.sizeBytes);
+        if (actualHash !== relocation.expectedContentHash) {
+          plan.toProcess.push(relocation.file);
+          plan.toDelete.push(normalizeFsPath(relocation.fromPath));
+          continue;
+        }
+      }
+      verified.push(relocation);
+    }
+
+    const nowMs = Date.now();
+    const relocated = this.options.photosRepo.relocateBatch(
+      verified.map((relocation) => ({
+        rootId,
+        fromPath: relocation.fromPath,
+        toPath: relocation.file.path,
+        pathHash: sha1(relocation.file.path),
+        sizeBytes: relocation.file.sizeBytes,
+        mtimeMs: relocation.file.mtimeMs,
+        mime: relocation.file.mime,
+        lastIndexedAtMs: nowMs,
+      })),
+    );
+
+    const relocatedPaths = new Set(relocated.map((item) => item.toPath));
+    for (const relocation of verified) {
+      // A move that gained or lost a sidecar keeps the row but needs its metadata re-read.
+      if (
+        !relocatedPaths.has(relocation.file.path) ||
+        relocation.previousSidecarSignature !== relocation.file.sidecarSignature
+      ) {
+        plan.toProcess.push(relocation.file);
+      }
+    }
+    plan.toRelocate = verified.filter((relocation) => relocatedPaths.has(relocation.file.path));
+
+    if (relocated.length > 0) {
+      this.refreshStacks(rootId, relocated.flatMap((item) => [item.fromPath, item.toPath]));
+      this.options.onPhotosRelocated?.(relocated);
+    }
+  }
+
+  // Hashing reads three 64 KB samples per file, so it waits for the enrichment pass; the quick pass only reads tags.
   private async extractFileQuick(rootId: number, file: ScanFile, workerHint: number): Promise<PhotoUpsertInput> {
     const now = Date.now();
     try {
-      const metadata = await this.exifExtractor.extractQuick(file.path, file.mediaType, workerHint);
+      const metadata = await this.exifExtractor.extractQuick(file.path, file.mediaType, workerHint, file.sidecarPaths);
       return {
         rootId,
         path: file.path,
         pathHash: sha1(file.path),
+        contentHash: null,
         sizeBytes: file.sizeBytes,
         mtimeMs: file.mtimeMs,
         mediaType: file.mediaType,
@@ -348,12 +862,27 @@ export class IndexCoordinator {
         lng: metadata.lng,
         alt: metadata.alt,
         takenAtMs: metadata.takenAtMs,
+        takenAtLocalMs: metadata.takenAtLocalMs,
+        takenTzOffsetMinutes: metadata.takenTzOffsetMinutes,
         width: metadata.width,
         height: metadata.height,
         durationMs: metadata.durationMs,
         cameraModel: metadata.cameraModel,
+        cameraMake: metadata.cameraMake,
+        lensModel: metadata.lensModel,
+        focalLengthMm: metadata.focalLengthMm,
+        focalLength35mm: metadata.focalLength35mm,
+        fNumber: metadata.fNumber,
+        exposureTimeSec: metadata.exposureTimeSec,
+        iso: metadata.iso,
+        flashFired: metadata.flashFired,
+        orientation: metadata.orientation,
+        metadataSourcesJson: JSON.stringify(metadata.metadataSources),
+        sidecarSignature: file.sidecarSignature,
+        contentIdentifier: metadata.contentIdentifier,
         thumbPath: null,
         thumbUpdatedAtMs: null,
+        metadataVersion: EXIF_METADATA_VERSION,
         lastIndexedAtMs: now,
         lastError: null,
       };
@@ -363,6 +892,7 @@ export class IndexCoordinator {
         rootId,
         path: file.path,
         pathHash: sha1(file.path),
+        contentHash: null,
         sizeBytes: file.sizeBytes,
         mtimeMs: file.mtimeMs,
         mediaType: file.mediaType,
@@ -371,12 +901,19 @@ export class IndexCoordinator {
         lng: null,
         alt: null,
         takenAtMs: null,
+        takenAtLocalMs: null,
+        takenTzOffsetMinutes: null,
         width: null,
         height: null,
         durationMs: null,
         cameraModel: null,
+        ...EMPTY_EXIF_DETAILS,
+        metadataSourcesJson: null,
+        sidecarSignature: file.sidecarSignature,
+        contentIdentifier: null,
         thumbPath: null,
         thumbUpdatedAtMs: null,
+        metadataVersion: EXIF_METADATA_VERSION,
         lastIndexedAtMs: now,
         lastError: errorText,
       };
@@ -385,8 +922,14 @@ export class IndexCoordinator {
 
   private async extractEnrichment(target: EnrichmentTarget, workerHint: number): Promise<PhotoMetadataPatchInput> {
     const now = Date.now();
+    const contentHash = target.hasContentHash ? null : await tryComputeContentHash(target.path, target.sizeBytes);
     try {
-      const metadata = await this.exifExtractor.extractFull(target.path, target.mediaType, workerHint);
+      const metadata = await this.exifExtractor.extractFull(
+        target.path,
+        target.mediaType,
+        workerHint,
+        target.sidecarPaths,
+      );
       return {
         rootId: target.rootId,
         path: target.path,
@@ -394,10 +937,25 @@ export class IndexCoordinator {
         lng: metadata.lng,
         alt: metadata.alt,
         takenAtMs: metadata.takenAtMs,
+        takenAtLocalMs: metadata.takenAtLocalMs,
+        takenTzOffsetMinutes: metadata.takenTzOffsetMinutes,
         width: metadata.width,
         height: metadata.height,
         durationMs: metadata.durationMs,
         cameraModel: metadata.cameraModel,
+        cameraMake: metadata.cameraMake,
+        lensModel: metadata.lensModel,
+        focalLengthMm: metadata.focalLengthMm,
+        focalLength35mm: metadata.focalLength35mm,
+        fNumber: metadata.fNumber,
+        exposureTimeSec: metadata.exposureTimeSec,
+        iso: metadata.iso,
+        flashFired: metadata.flashFired,
+        orientation: metadata.orientation,
+        metadataSourcesJson: JSON.stringify(metadata.metadataSources),
+        contentIdentifier: metadata.contentIdentifier,
+        contentHash,
+        enrichedVersion: EXIF_METADATA_VERSION,
         lastIndexedAtMs: now,
         lastError: null,
       };
@@ -410,10 +968,17 @@ export class IndexCoordinator {
         lng: null,
         alt: null,
         takenAtMs: null,
+        takenAtLocalMs: null,
+        takenTzOffsetMinutes: null,
         width: null,
         height: null,
         durationMs: null,
         cameraModel: null,
+        ...EMPTY_EXIF_DETAILS,
+        metadataSourcesJson: null,
+        contentIdentifier: null,
+        contentHash,
+        enrichedVersion: null,
         lastIndexedAtMs: now,
         lastError: message,
       };
@@ -444,13 +1009,16 @@ export class IndexCoordinator {
 
   private async runEnrichmentTask(task: EnrichmentTask): Promise<void> {
     if (task.targets.length === 0 || this.isEnrichmentCancelled(task)) {
-      this.setJobMessage(task.jobId, undefined);
       return;
     }
 
+    const startedAtMs = Date.now();
+    const meter = new ThroughputMeter(startedAtMs);
+    const total = task.targets.length;
     let processed = 0;
-    this.setJobMessage(task.jobId, `enriching ${processed}/${task.targets.length}`);
+    this.setJobEnrichment(task.jobId, { state: 'running', processed, total, throughput: null });
 
+    let state: IndexEnrichmentProgress['state'] = 'complete';
     try {
       await mapWithConcurrencyBatched(
         task.targets,
@@ -459,38 +1027,64 @@ export class IndexCoordinator {
         {
           batchSize: this.batchSize,
           isCancelled: () => this.isEnrichmentCancelled(task),
-          onItemDone: () => {
+          onItemDone: (index) => {
             processed += 1;
-            this.setJobMessage(task.jobId, `enriching ${processed}/${task.targets.length}`);
+            meter.record(task.targets[index].sizeBytes);
+            this.setJobEnrichment(task.jobId, {
+              state: 'running',
+              processed,
+              total,
+              throughput: meter.snapshot(total - processed),
+            });
           },
           onBatch: async (batch) => {
             if (this.isEnrichmentCancelled(task)) {
               throw new CancelledError('Enrichment cancelled');
             }
             this.options.photosRepo.patchMetadataBatch(batch);
+            this.refreshStacks(task.targets[0].rootId, batch.map((row) => row.path));
           },
         },
       );
-      if (!this.isEnrichmentCancelled(task)) {
+      if (this.isEnrichmentCancelled(task)) {
+        state = 'cancelled';
+      } else {
         this.options.onDataChanged?.();
       }
     } catch (error) {
-      if (!(error instanceof CancelledError)) {
-        this.setJobMessage(task.jobId, 'enrichment failed');
-      }
+      state = error instanceof CancelledError ? 'cancelled' : 'error';
     } finally {
-      if (!this.isEnrichmentCancelled(task)) {
-        this.setJobMessage(task.jobId, undefined);
-      }
+      this.setJobEnrichment(
+        task.jobId,
+        { state, processed, total, throughput: meter.average() },
+        Date.now() - startedAtMs,
+      );
+    }
+  }
+
+  // Only the neighbourhood of the changed files is restacked, so a batch costs the same in any size of root.
+  private refreshStacks(rootId: number, paths: string[]): void {
+    if (paths.length === 0) {
+      return;
     }
+    const photosRepo = this.options.photosRepo;
+    photosRepo.applyStackAssignments(assignStacks(photosRepo.getStackCandidatesAround(rootId, paths)));
   }
 
-  private setJobMessage(jobId: string, message: string | undefined): void {
+  /** Passing `elapsedMs` marks the end of the run: the time is added to the job and the result persisted. */
+  private setJobEnrichment(jobId: string, enrichment: IndexEnrichmentProgress, elapsedMs?: number): void {
     const job = this.jobs.get(jobId);
     if (!job) {
       return;
     }
-    job.status.message = message;
+    job.status.enrichment = enrichment;
+    if (elapsedMs != null) {
+      job.status.phaseTimings = {
+        ...job.status.phaseTimings,
+        enrichMs: job.status.phaseTimings.enrichMs + elapsedMs,
+      };
+      this.saveStatus(job);
+    }
     this.emitStatus(job.status);
   }
 
@@ -517,7 +1111,7 @@ export class IndexCoordinator {
   }
 
   private throwIfCancelled(job: MutableJob): void {
-    if (job.cancelRequested) {
+    if (job.cancelRequested || job.pauseRequested) {
       throw new CancelledError();
     }
   }
@@ -530,19 +1124,64 @@ export class IndexCoordinator {
   }
 
   private setPhase(job: MutableJob, phase: IndexStatus['phase']): void {
+    this.closePhaseTiming(job);
     job.status.phase = phase;
+    job.phaseStartedAtMs = Date.now();
+    this.saveStatus(job);
+    this.emitStatus(job.status);
+  }
+
+  private closePhaseTiming(job: MutableJob): void {
+    const key = PHASE_TIMING_KEYS[job.status.phase];
+    if (key && job.phaseStartedAtMs != null) {
+      job.status.phaseTimings = {
+        ...job.status.phaseTimings,
+        [key]: job.status.phaseTimings[key] + (Date.now() - job.phaseStartedAtMs),
+      };
+    }
+    job.phaseStartedAtMs = null;
+  }
+
+  // The rolling rate means nothing once the job stops; history keeps the run's average instead.
+  private settleThroughput(job: MutableJob): void {
+    if (job.extractMeter) {
+      job.status.throughput = job.extractMeter.average() ?? job.status.throughput;
+      job.extractMeter = null;
+    } else if (job.status.throughput) {
+      job.status.throughput = { ...job.status.throughput, etaMs: null };
+    }
+  }
+
+  private markPaused(job: MutableJob): void {
+    this.closePhaseTiming(job);
+    this.settleThroughput(job);
+    job.pauseRequested = false;
+    job.status.phase = 'paused';
+    job.status.message = undefined;
+    this.saveStatus(job);
     this.emitStatus(job.status);
   }
 
   private complete(job: MutableJob, phase: IndexStatus['phase'], message?: string): void {
+    this.closePhaseTiming(job);
+    this.settleThroughput(job);
     job.status.phase = phase;
     job.status.percent = phase === 'complete' ? 100 : job.status.percent;
     job.status.finishedAtMs = Date.now();
     job.status.message = message;
+    this.saveStatus(job);
     this.emitStatus(job.status);
   }
 
+  private saveStatus(job: MutableJob): void {
+    this.options.indexJobsRepo.saveStatus(job.status);
+  }
+
   private emitStatus(status: IndexStatus): void {
     this.events.emit('progress', { ...status });
   }
+
+  private emitQueue(): void {
+    this.events.emit('queue', this.listQueue());
+  }
 }
@@ -5,10 +5,26 @@ import path from 'node:path';
 import fg from 'fast-glob';
 import { lookup as lookupMime } from 'mime-types';
 
+import type { RootIgnoreRuleStat } from '@shared/types/ipc';
 import type { ScanFile } from '@shared/types/photo';
-import { detectMediaTypeFromPath, getMediaGlobPattern } from '@shared/utils/mediaExtensions';
+import { detectMediaTypeFromPath, getMediaGlobPattern, getMediaMimeOverride } from '@shared/utils/mediaExtensions';
 import { normalizeFsPath } from '@shared/utils/path';
 
+import {
+  BUILTIN_SCAN_IGNORE,
+  IGNORE_FILE_GLOB,
+  IGNORE_FILE_NAME,
+  IgnoreRuleSet,
+  readIgnoreFiles,
+} from './ignoreRules';
+import { findSidecars, getSidecarSignature, getSidecarSource, pairSidecars, SIDECAR_GLOB } from './sidecars';
+
+export interface MediaScanResult {
+  files: ScanFile[];
+  ignoreRules: IgnoreRuleSet;
+  ignoreStats: RootIgnoreRuleStat[];
+}
+
 function parsePositiveInt(value: string | undefined): number | null {
   if (!value) {
     return null;
@@ -24,27 +40,45 @@ const DEFAULT_SCAN_STAT_CONCURRENCY = Math.max(4, Math.min(32, os.cpus().length
 const ENV_SCAN_STAT_CONCURRENCY = parsePositiveInt(process.env.PHOTOGLOBE_SCAN_CONCURRENCY);
 const SCAN_STAT_CONCURRENCY = Math.max(1, Math.min(128, ENV_SCAN_STAT_CONCURRENCY ?? DEFAULT_SCAN_STAT_CONCURRENCY));
 
-async function statMediaPath(absolutePath: string): Promise<ScanFile | null> {
+async function statSidecars(sidecarPaths: string[]): Promise<{ paths: string[]; signature: string | null }> {
+  const stats = await Promise.all(
+    sidecarPaths.map(async (sidecarPath) => {
+      try {
+        const stat = await fs.stat(sidecarPath);
+        return { path: sidecarPath, sizeBytes: stat.size, mtimeMs: stat.mtimeMs };
+      } catch {
+        return null;
+      }
+    }),
+  );
+  const present = stats.filter((item): item is NonNullable<typeof item> => Boolean(item));
+  return { paths: present.map((item) => item.path), signature: getSidecarSignature(present) };
+}
+
+async function statMediaPath(absolutePath: string, sidecarPaths: string[]): Promise<ScanFile | null> {
   try {
     const stat = await fs.stat(absolutePath);
     const mediaType = detectMediaTypeFromPath(absolutePath);
     if (!mediaType) {
       return null;
     }
-    const mime = lookupMime(absolutePath);
+    const mime = getMediaMimeOverride(absolutePath) ?? lookupMime(absolutePath);
+    const sidecars = await statSidecars(sidecarPaths);
     return {
       path: normalizeFsPath(absolutePath),
       sizeBytes: stat.size,
       mtimeMs: Math.trunc(stat.mtimeMs),
       mediaType,
       mime: typeof mime === 'string' ? mime : null,
+      sidecarPaths: sidecars.paths,
+      sidecarSignature: sidecars.signature,
     };
   } catch {
     return null;
   }
 }
 
-async function statPathsWithConcurrency(paths: string[]): Promise<ScanFile[]> {
+async function statPathsWithConcurrency(paths: string[], sidecarsByPath: Map<string, string[]>): Promise<ScanFile[]> {
   const files = new Array<ScanFile | null>(paths.length).fill(null);
   let cursor = 0;
 
@@ -56,7 +90,7 @@ async function statPathsWithConcurrency(paths: string[]): Promise<ScanFile[]> {
         return;
       }
 
-      files[index] = await statMediaPath(paths[index]);
+      files[index] = await statMediaPath(paths[index], sidecarsByPath.get(paths[index]) ?? []);
     }
   });
 
@@ -64,8 +98,9 @@ async function statPathsWithConcurrency(paths: string[]): Promise<ScanFile[]> {
   return files.filter((file): file is ScanFile => Boolean(file));
 }
 
-export async function scanMediaFiles(rootPath: string): Promise<ScanFile[]> {
-  const matches = await fg(getMediaGlobPattern(), {
+export async function scanMediaFiles(rootPath: string, ignorePatterns: string[] = []): Promise<MediaScanResult> {
+  // Ignore files and sidecars are collected in the same walk so they cost no extra directory traversal.
+  const matches = await fg([getMediaGlobPattern(), IGNORE_FILE_GLOB, SIDECAR_GLOB], {
     cwd: rootPath,
     absolute: true,
     onlyFiles: true,
@@ -73,16 +108,36 @@ export async function scanMediaFiles(rootPath: string): Promise<ScanFile[]> {
     caseSensitiveMatch: false,
     dot: false,
     followSymbolicLinks: false,
-    ignore: ['**/$RECYCLE.BIN/**', '**/System Volume Information/**'],
+    ignore: BUILTIN_SCAN_IGNORE,
   });
 
-  return statPathsWithConcurrency(matches.map((item) => normalizeFsPath(item)));
+  const ignoreFilePaths: string[] = [];
+  const sidecarPaths: string[] = [];
+  const mediaPaths: string[] = [];
+  for (const item of matches) {
+    if (path.basename(item).toLowerCase() === IGNORE_FILE_NAME) {
+      ignoreFilePaths.push(item);
+    } else if (getSidecarSource(item)) {
+      sidecarPaths.push(normalizeFsPath(item));
+    } else {
+      mediaPaths.push(normalizeFsPath(item));
+    }
+  }
+
+  const ignoreRules = new IgnoreRuleSet(rootPath, ignorePatterns, await readIgnoreFiles(rootPath, ignoreFilePaths));
+  const { kept, stats } = ignoreRules.partition(mediaPaths);
+  return {
+    files: await statPathsWithConcurrency(kept, pairSidecars(kept, sidecarPaths)),
+    ignoreRules,
+    ignoreStats: stats,
+  };
 }
 
-export async function scanSpecificMediaFiles(filePaths: string[]): Promise<ScanFile[]> {
+export async function scanSpecificMediaFiles(filePaths: string[], ignoreRules?: IgnoreRuleSet): Promise<ScanFile[]> {
   const uniquePaths = Array.from(new Set(filePaths.map((item) => normalizeFsPath(path.resolve(item)))));
   if (uniquePaths.length === 0) {
     return [];
   }
-  return statPathsWithConcurrency(uniquePaths);
+  const kept = ignoreRules ? ignoreRules.partition(uniquePaths).kept : uniquePaths;
+  return statPathsWithConcurrency(kept, await findSidecars(kept));
 }
@@ -0,0 +1,188 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import type { MetadataSource } from '@shared/types/photo';
+import { detectMediaTypeFromPath } from '@shared/utils/mediaExtensions';
+import { normalizeFsPath } from '@shared/utils/path';
+
+export const SIDECAR_GLOB = '**/*.{xmp,json}';
+
+export type SidecarSource = Exclude<MetadataSource, 'embedded'>;
+
+export interface TakeoutSidecarValues {
+  takenAtMs: number | null;
+  lat: number | null;
+  lng: number | null;
+  alt: number | null;
+}
+
+// Takeout cuts sidecar names to this many characters before ".json".
+const TAKEOUT_NAME_LIMIT = 46;
+const TAKEOUT_SUFFIXES = ['', '.supplemental-metadata'];
+const EDITED_SUFFIX = '-edited';
+
+export function getSidecarSource(filePath: string): SidecarSource | null {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.xmp') {
+    return 'xmp';
+  }
+  if (extension === '.json') {
+    return 'takeout';
+  }
+  return null;
+}
+
+function getTakeoutCandidateNames(mediaName: string): string[] {
+  const extension = path.extname(mediaName);
+  const stem = mediaName.slice(0, mediaName.length - extension.length);
+  const baseNames = [mediaName];
+  // Edited exports share the original's sidecar.
+  if (stem.toLowerCase().endsWith(EDITED_SUFFIX)) {
+    baseNames.push(`${stem.slice(0, -EDITED_SUFFIX.length)}${extension}`);
+  }
+
+  const names: string[] = [];
+  for (const baseName of baseNames) {
+    // "IMG_1234(1).jpg" pairs with "IMG_1234.jpg(1).json".
+    const duplicate = /^(.*)\((\d+)\)(\.[^.]+)$/.exec(baseName);
+    for (const suffix of TAKEOUT_SUFFIXES) {
+      const full = duplicate ? `${duplicate[1]}${duplicate[3]}${suffix}` : `${baseName}${suffix}`;
+      const counter = duplicate ? `(${duplicate[2]})` : '';
+      names.push(`${full.slice(0, TAKEOUT_NAME_LIMIT)}${counter}.json`);
+    }
+  }
+  return names;
+}
+
+/** Sidecar file names a media file may pair with, in precedence order. Lower-cased. */
+export function getSidecarCandidateNames(mediaPath: string): Array<{ source: SidecarSource; name: string }> {
+  const mediaName = path.basename(mediaPath);
+  const stem = mediaName.slice(0, mediaName.length - path.extname(mediaName).length);
+  const candidates: Array<{ source: SidecarSource; name: string }> = [
+    // Lightroom replaces the extension; darktable and others append to it.
+    { source: 'xmp', name: `${stem}.xmp` },
+    { source: 'xmp', name: `${mediaName}.xmp` },
+    ...getTakeoutCandidateNames(mediaName).map((name) => ({ source: 'takeout' as const, name })),
+  ];
+  return candidates.map((item) => ({ ...item, name: item.name.toLowerCase() }));
+}
+
+function pickSidecars(mediaPath: string, entriesByName: Map<string, string>): string[] {
+  const picked = new Map<SidecarSource, string>();
+  for (const candidate of getSidecarCandidateNames(mediaPath)) {
+    const match = entriesByName.get(candidate.name);
+    if (match && !picked.has(candidate.source)) {
+      picked.set(candidate.source, match);
+    }
+  }
+  return Array.from(picked.values());
+}
+
+function groupByDirectory(paths: string[]): Map<string, Map<string, string>> {
+  const byDirectory = new Map<string, Map<string, string>>();
+  for (const item of paths) {
+    const directory = path.dirname(item);
+    const entries = byDirectory.get(directory) ?? new Map<string, string>();
+    entries.set(path.basename(item).toLowerCase(), item);
+    byDirectory.set(directory, entries);
+  }
+  return byDirectory;
+}
+
+/** Pairs scanned media with sidecars found in the same walk. Media without sidecars are omitted. */
+export function pairSidecars(mediaPaths: string[], sidecarPaths: string[]): Map<string, string[]> {
+  const sidecarsByDirectory = groupByDirectory(sidecarPaths);
+  const paired = new Map<string, string[]>();
+  for (const mediaPath of mediaPaths) {
+    const entries = sidecarsByDirectory.get(path.dirname(mediaPath));
+    const sidecars = entries ? pickSidecars(mediaPath, entries) : [];
+    if (sidecars.length > 0) {
+      paired.set(mediaPath, sidecars);
+    }
+  }
+  return paired;
+}
+
+async function listDirectory(directory: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    return entries.filter((entry) => entry.isFile()).map((entry) => normalizeFsPath(path.join(directory, entry.name)));
+  } catch {
+    return [];
+  }
+}
+
+/** Looks up sidecars for individual media files, e.g. watcher deltas. */
+export async function findSidecars(mediaPaths: string[]): Promise<Map<string, string[]>> {
+  const directories = Array.from(new Set(mediaPaths.map((item) => path.dirname(item))));
+  const sidecarPaths = (await Promise.all(directories.map(listDirectory)))
+    .flat()
+    .filter((item) => getSidecarSource(item) != null);
+  return pairSidecars(mediaPaths, sidecarPaths);
+}
+
+/**
+ * Returns the media files a sidecar belongs to. Matching is by name only, so a deleted
+ * sidecar still maps back to the media file that has to lose its values.
+ */
+export async function findSidecarOwners(sidecarPaths: string[]): Promise<string[]> {
+  const owners = new Set<string>();
+  for (const [directory, sidecarsByName] of groupByDirectory(sidecarPaths).entries()) {
+    for (const entry of await listDirectory(directory)) {
+      if (!detectMediaTypeFromPath(entry)) {
+        continue;
+      }
+      if (getSidecarCandidateNames(entry).some((candidate) => sidecarsByName.has(candidate.name))) {
+        owners.add(entry);
+      }
+    }
+  }
+  return Array.from(owners);
+}
+
+export function getSidecarSignature(stats: Array<{ path: string; sizeBytes: number; mtimeMs: number }>): string | null {
+  if (stats.length === 0) {
+    return null;
+  }
+  return stats
+    .map((item) => `${path.basename(item.path)}:${item.sizeBytes}:${Math.trunc(item.mtimeMs)}`)
+    .sort()
+    .join('|');
+}
+
+function parseCoordinate(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function pickTakeoutGeo(json: Record<string, unknown>): Pick<TakeoutSidecarValues, 'lat' | 'lng' | 'alt'> {
+  for (const key of ['geoData', 'geoDataExif']) {
+    const geo = json[key] as Record<string, unknown> | undefined;
+    const lat = parseCoordinate(geo?.latitude);
+    const lng = parseCoordinate(geo?.longitude);
+    // Takeout writes 0,0 when it has no location.
+    if (lat != null && lng != null && (lat !== 0 || lng !== 0)) {
+      return { lat, lng, alt: parseCoordinate(geo?.altitude) };
+    }
+  }
+  return { lat: null, lng: null, alt: null };
+}
+
+export async function readTakeoutSidecar(filePath: string): Promise<TakeoutSidecarValues | null> {
+  let json: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, 'utf8')) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return null;
+    }
+    json = parsed as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+
+  const takenTime = json.photoTakenTime as { timestamp?: unknown } | undefined;
+  const seconds = Number(takenTime?.timestamp);
+  return {
+    takenAtMs: Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null,
+    ...pickTakeoutGeo(json),
+  };
+}
@@ -0,0 +1,117 @@
+import path from 'node:path';
+
+import type { StackAssignment, StackCandidate } from '@main/db/repositories/photosRepo';
+import { isRawPhotoPath } from '@shared/utils/mediaExtensions';
+
+// A Live Photo's video starts up to ~1.5s before the still; RAW+JPEG pairs share the instant.
+const STACK_MAX_TIME_GAP_MS = 3_000;
+
+class DisjointSet {
+  private readonly parent = new Map<number, number>();
+
+  find(id: number): number {
+    let root = id;
+    let next = this.parent.get(root);
+    while (next !== undefined && next !== root) {
+      root = next;
+      next = this.parent.get(root);
+    }
+    this.parent.set(id, root);
+    return root;
+  }
+
+  union(a: number, b: number): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) {
+      this.parent.set(Math.max(rootA, rootB), Math.min(rootA, rootB));
+    }
+  }
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string | null): T[][] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = getKey(item);
+    if (key == null) {
+      continue;
+    }
+    const bucket = groups.get(key);
+    if (bucket) {
+      bucket.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+  return Array.from(groups.values()).filter((group) => group.length > 1);
+}
+
+function getStemKey(filePath: string): string {
+  const extension = path.extname(filePath);
+  return path.join(path.dirname(filePath), path.basename(filePath, extension)).toLowerCase();
+}
+
+// Undated files (scans, exports) often reuse names like IMG_0001, so a stem match alone never stacks them.
+function isTimeCompatible(a: StackCandidate, b: StackCandidate): boolean {
+  return a.takenAtMs != null && b.takenAtMs != null && Math.abs(a.takenAtMs - b.takenAtMs) <= STACK_MAX_TIME_GAP_MS;
+}
+
+// The rendered still represents the stack: it thumbnails fastest and is what the camera showed.
+function getPrimaryRank(candidate: StackCandidate): number {
+  if (candidate.mediaType === 'video') {
+    return 2;
+  }
+  return isRawPhotoPath(candidate.path) ? 1 : 0;
+}
+
+/**
+ * Groups Live Photo (HEIC+MOV) and RAW+JPEG pairs. Members share a ContentIdentifier, or sit in
+ * the same folder with the same base name, a different extension and known capture times within
+ * a few seconds. The stack id is the lowest member id. Only rows whose assignment changed are returned.
+ */
+export function assignStacks(candidates: StackCandidate[]): StackAssignment[] {
+  const sets = new DisjointSet();
+
+  for (const group of groupBy(candidates, (item) => item.contentIdentifier)) {
+    for (const member of group.slice(1)) {
+      sets.union(group[0].id, member.id);
+    }
+  }
+
+  for (const group of groupBy(candidates, (item) => getStemKey(item.path))) {
+    for (let i = 0; i < group.length; i += 1) {
+      for (let j = i + 1; j < group.length; j += 1) {
+        const a = group[i];
+        const b = group[j];
+        if (path.extname(a.path).toLowerCase() !== path.extname(b.path).toLowerCase() && isTimeCompatible(a, b)) {
+          sets.union(a.id, b.id);
+        }
+      }
+    }
+  }
+
+  const members = new Map<number, StackCandidate[]>();
+  for (const candidate of candidates) {
+    const root = sets.find(candidate.id);
+    const bucket = members.get(root);
+    if (bucket) {
+      bucket.push(candidate);
+    } else {
+      members.set(root, [candidate]);
+    }
+  }
+
+  const changed: StackAssignment[] = [];
+  for (const stack of members.values()) {
+    const isStack = stack.length > 1;
+    const stackId = isStack ? Math.min(...stack.map((item) => item.id)) : null;
+    const primary = [...stack].sort((a, b) => getPrimaryRank(a) - getPrimaryRank(b) || a.id - b.id)[0];
+    for (const item of stack) {
+      const isStackPrimary = !isStack || item === primary ? 1 : 0;
+      if (item.stackId !== stackId || item.isStackPrimary !== isStackPrimary) {
+        changed.push({ id: item.id, stackId, isStackPrimary });
+      }
+    }
+  }
+  return changed;
+}
@@ -0,0 +1,66 @@
+import type { IndexThroughput } from '@shared/types/ipc';
+
+// Long enough to smooth over a slow RAW or video probe, short enough that a stall shows within seconds.
+const WINDOW_MS = 15_000;
+
+interface ThroughputSample {
+  atMs: number;
+  bytes: number;
+}
+
+function roundRate(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Files/sec and bytes/sec over a rolling window of completed items, plus whole-run averages. */
+export class ThroughputMeter {
+  private readonly samples: ThroughputSample[] = [];
+  private windowBytes = 0;
+  private totalFiles = 0;
+  private totalBytes = 0;
+  private lastAtMs: number;
+
+  constructor(private readonly startedAtMs = Date.now()) {
+    this.lastAtMs = startedAtMs;
+  }
+
+  record(bytes: number, atMs = Date.now()): void {
+    this.samples.push({ atMs, bytes });
+    this.windowBytes += bytes;
+    this.totalFiles += 1;
+    this.totalBytes += bytes;
+    this.lastAtMs = atMs;
+    this.prune(atMs);
+  }
+
+  snapshot(remainingFiles: number, nowMs = Date.now()): IndexThroughput {
+    this.prune(nowMs);
+    const windowStartMs = Math.max(this.startedAtMs, nowMs - WINDOW_MS);
+    const elapsedSec = Math.max(1, nowMs - windowStartMs) / 1_000;
+    const filesPerSec = this.samples.length / elapsedSec;
+    return {
+      filesPerSec: roundRate(filesPerSec),
+      bytesPerSec: Math.round(this.windowBytes / elapsedSec),
+      etaMs: filesPerSec > 0 ? Math.round((Math.max(0, remainingFiles) / filesPerSec) * 1_000) : null,
+    };
+  }
+
+  /** Measured up to the last completed item, so time spent in later phases does not dilute it. */
+  average(): IndexThroughput | null {
+    if (this.totalFiles === 0) {
+      return null;
+    }
+    const elapsedSec = Math.max(1, this.lastAtMs - this.startedAtMs) / 1_000;
+    return {
+      filesPerSec: roundRate(this.totalFiles / elapsedSec),
+      bytesPerSec: Math.round(this.totalBytes / elapsedSec),
+      etaMs: null,
+    };
+  }
+
+  private prune(nowMs: number): void {
+    while (this.samples.length > 0 && this.samples[0].atMs < nowMs - WINDOW_MS) {
+      this.windowBytes -= this.samples.shift()?.bytes ?? 0;
+    }
+  }
+}
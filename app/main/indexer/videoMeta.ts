@@ -1,3 +1,27 @@
+import { resolveFfmpegInputPath } from '@main/thumbs/ffmpegPathAlias';
+import { runFfprobeToBuffer } from '@main/thumbs/ffmpegRunner';
+
+const FFPROBE_TIMEOUT_MS = 8_000;
+// QuickTime and MP4 count from 1904 and write zero dates as-is; anything this early is unset.
+const MIN_VALID_CREATION_MS = Date.UTC(1971, 0, 1);
+const LOCATION_TAG_KEYS = ['com.apple.quicktime.location.iso6709', 'location', 'location-eng'];
+const CREATION_TAG_KEYS = ['com.apple.quicktime.creationdate', 'creation_time', 'date'];
+
+export interface ProbedVideoMetadata {
+  durationMs: number | null;
+  width: number | null;
+  height: number | null;
+  takenAtMs: number | null;
+  lat: number | null;
+  lng: number | null;
+  alt: number | null;
+}
+
+interface FfprobeOutput {
+  format?: { duration?: string; tags?: Record<string, string> };
+  streams?: Array<{ width?: number; height?: number; duration?: string; tags?: Record<string, string> }>;
+}
+
 function parseDurationText(value: string): number | null {
   const directSeconds = Number.parseFloat(value);
   if (Number.isFinite(directSeconds)) {
@@ -42,3 +66,77 @@ export function parseDurationMs(value: unknown): number | null {
   return null;
 }
 
+/** Parses ISO 6709 strings such as "+37.5090+127.0620+030.000/" (the MP4 ©xyz atom). */
+export function parseIso6709(value: string): { lat: number; lng: number; alt: number | null } | null {
+  const match = /^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)?(?:CRS[^/]*)?\/?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const lat = Number.parseFloat(match[1]);
+  const lng = Number.parseFloat(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180 || (lat === 0 && lng === 0)) {
+    return null;
+  }
+  return { lat, lng, alt: match[3] ? Number.parseFloat(match[3]) : null };
+}
+
+function toLowerCaseKeys(tags: Record<string, string> | undefined): Map<string, string> {
+  return new Map(Object.entries(tags ?? {}).map(([key, value]) => [key.toLowerCase(), String(value)]));
+}
+
+function pickTag(tagMaps: Map<string, string>[], keys: string[]): string | null {
+  for (const key of keys) {
+    for (const tags of tagMaps) {
+      const value = tags.get(key)?.trim();
+      if (value) {
+        return value;
+      }
+    }
+  }
+  return null;
+}
+
+function parseCreationMs(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  // Apple writes "+0900"; Date.parse only accepts "+09:00".
+  const parsed = Date.parse(value.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+  return Number.isFinite(parsed) && parsed >= MIN_VALID_CREATION_MS ? parsed : null;
+}
+
+function parsePositiveInt(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null;
+}
+
+/**
+ * Reads container metadata with ffprobe. Used when exiftool has little to say about a clip,
+ * which is common for MKV, WebM, AVI and AVCHD streams. Returns null when ffprobe is unavailable.
+ */
+export async function probeVideoMetadata(filePath: string): Promise<ProbedVideoMetadata | null> {
+  let probe: FfprobeOutput;
+  try {
+    const inputPath = await resolveFfmpegInputPath(filePath);
+    const output = await runFfprobeToBuffer(
+      ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', '-select_streams', 'v:0', inputPath],
+      { timeoutMs: FFPROBE_TIMEOUT_MS },
+    );
+    probe = JSON.parse(output.toString('utf8')) as FfprobeOutput;
+  } catch {
+    return null;
+  }
+
+  const stream = probe.streams?.[0];
+  const tagMaps = [toLowerCaseKeys(probe.format?.tags), toLowerCaseKeys(stream?.tags)];
+  const locationText = pickTag(tagMaps, LOCATION_TAG_KEYS);
+  const location = locationText ? parseIso6709(locationText) : null;
+  return {
+    durationMs: parseDurationMs(probe.format?.duration ?? stream?.duration),
+    width: parsePositiveInt(stream?.width),
+    height: parsePositiveInt(stream?.height),
+    takenAtMs: parseCreationMs(pickTag(tagMaps, CREATION_TAG_KEYS)),
+    lat: location?.lat ?? null,
+    lng: location?.lng ?? null,
+    alt: location?.alt ?? null,
+  };
+}
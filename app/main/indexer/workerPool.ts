@@ -1,6 +1,6 @@
 export interface MapPoolOptions {
   isCancelled: () => boolean;
-  onItemDone?: () => void;
+  onItemDone?: (index: number) => void;
 }
 
 export interface BatchedMapPoolOptions<R> extends MapPoolOptions {
@@ -37,7 +37,7 @@ export async function mapWithConcurrency<T, R>(
       }
 
       results[current] = await worker(items[current], current);
-      options.onItemDone?.();
+      options.onItemDone?.(current);
     }
   }
 
@@ -94,7 +94,7 @@ export async function mapWithConcurrencyBatched<T, R>(
 
       const result = await worker(items[current], current);
       pending.push(result);
-      options.onItemDone?.();
+      options.onItemDone?.(current);
       scheduleFlush(false);
     }
   }
@@ -4,12 +4,41 @@ export const IPC_CHANNELS = {
   APP_GET_WINDOW_STATE: 'app.getWindowState',
   INDEX_START: 'index.start',
   INDEX_CANCEL: 'index.cancel',
+  INDEX_PAUSE: 'index.pause',
+  INDEX_RESUME: 'index.resume',
+  INDEX_LIST_JOBS: 'index.listJobs',
+  INDEX_LIST_QUEUE: 'index.listQueue',
+  INDEX_QUEUE_CHANGED: 'index.onQueueChanged',
   INDEX_STATUS: 'index.status',
   INDEX_PROGRESS: 'index.onProgress',
+  INDEX_LIST_ERRORS: 'index.listErrors',
+  INDEX_CLEAR_ERRORS: 'index.clearErrors',
   GEO_GET_CLUSTERS: 'geo.getClusters',
   GEO_GET_POINTS: 'geo.getPoints',
   GEO_GET_CLUSTER_MEMBERS: 'geo.getClusterMembers',
   GEO_GET_TRIPS: 'geo.getTrips',
+  CLOCK_OFFSETS_LIST_CAMERAS: 'clockOffsets.listCameras',
+  CLOCK_OFFSETS_LIST: 'clockOffsets.list',
+  CLOCK_OFFSETS_PREVIEW: 'clockOffsets.preview',
+  CLOCK_OFFSETS_SAVE: 'clockOffsets.save',
+  CLOCK_OFFSETS_REMOVE: 'clockOffsets.remove',
+  PLACES_LIST: 'places.list',
+  PLACES_UPDATED: 'places.updated',
+  SEARCH_COUNT: 'search.count',
+  MAINTENANCE_GET_STATUS: 'maintenance.getStatus',
+  MAINTENANCE_RUN: 'maintenance.run',
+  DATABASE_GET_STATUS: 'database.getStatus',
+  DATABASE_BACKUP_NOW: 'database.backupNow',
+  DATABASE_CHECK_INTEGRITY: 'database.checkIntegrity',
+  DATABASE_RESTORE: 'database.restore',
+  GEOTAG_SELECT_TRACK_FILES: 'geotag.selectTrackFiles',
+  GEOTAG_PREVIEW: 'geotag.preview',
+  GEOTAG_APPLY: 'geotag.apply',
+  GEOTAG_CLEAR: 'geotag.clear',
+  LOCATION_SET: 'location.set',
+  LOCATION_REVERT: 'location.revert',
+  LOCATION_RESTORE: 'location.restore',
+  METADATA_WRITE: 'metadata.write',
   MEDIA_GET_THUMBNAIL: 'media.getThumbnail',
   MEDIA_REQUEST_PREVIEW_STRIP: 'media.requestPreviewStrip',
   MEDIA_CANCEL_PREVIEW_STRIP: 'media.cancelPreviewStrip',
@@ -20,6 +49,11 @@ export const IPC_CHANNELS = {
   MEDIA_GET_HOVER_PREVIEW: 'media.getHoverPreview',
   MEDIA_GET_DAILY_COUNTS: 'media.getDailyCounts',
   MEDIA_GET_TIMELINE_EXTENT: 'media.getTimelineExtent',
+  MEDIA_GET_DUPLICATE_GROUPS: 'media.getDuplicateGroups',
+  MEDIA_GET_CACHE_STATS: 'media.getCacheStats',
+  MEDIA_FIND_SIMILAR: 'media.findSimilar',
+  MEDIA_GET_SIMILAR_GROUPS: 'media.getSimilarGroups',
+  MEDIA_HASH_PENDING: 'media.hashPending',
   MEDIA_GET_SOURCE: 'media.getSource',
   MEDIA_OPEN_SOURCE: 'media.openSource',
   SETTINGS_GET: 'settings.get',
@@ -29,12 +63,16 @@ export const IPC_CHANNELS = {
   SETTINGS_REMOVE_ROOT: 'settings.removeRoot',
   SETTINGS_SET_ACTIVE_ROOTS: 'settings.setActiveRoots',
   SETTINGS_LIST_ROOTS: 'settings.listRoots',
+  SETTINGS_FIND_MISSING_ROOTS: 'settings.findMissingRoots',
+  SETTINGS_RELOCATE_ROOT: 'settings.relocateRoot',
   METRICS_TRACK: 'metrics.track',
   METRICS_GET_SESSION_SUMMARY: 'metrics.getSessionSummary',
   METRICS_LIST_RECENT_SESSIONS: 'metrics.listRecentSessions',
   METRICS_EXPORT_RECENT_SESSIONS: 'metrics.exportRecentSessions',
   METRICS_RESET_CURRENT_SESSION: 'metrics.resetCurrentSession',
   CITIES_ENSURE_CATALOG: 'cities.ensureCatalog',
+  CITIES_SELECT_IMPORT_FILES: 'cities.selectImportFiles',
+  CITIES_IMPORT_FROM_FILE: 'cities.importFromFile',
   CITIES_GET_CONTINENTS: 'cities.getContinents',
   CITIES_GET_COUNTRIES: 'cities.getCountries',
   CITIES_GET_CITIES: 'cities.getCities',
@@ -1,14 +1,25 @@
 import type { BrowserWindow, IpcMain } from 'electron';
 
+import type { ClockOffsetService } from '@main/clock/clockOffsetService';
 import type { ClusterService } from '@main/cluster/clusterService';
 import type { CityCatalogService } from '@main/cities/catalogService';
+import type { GeotagService } from '@main/geotag/geotagService';
+import type { LocationEditService } from '@main/geotag/locationEditService';
 import type { IndexCoordinator } from '@main/indexer/indexCoordinator';
+import type { DatabaseBackupService } from '@main/maintenance/databaseBackupService';
+import type { MaintenanceService } from '@main/maintenance/maintenanceService';
+import type { PlaceService } from '@main/places/placeService';
+import type { RootRelocationService } from '@main/roots/rootRelocationService';
+import type { SearchService } from '@main/search/searchService';
+import type { SimilarityService } from '@main/similar/similarityService';
+import type { ThumbnailCacheBudget } from '@main/thumbs/cacheBudget';
 import type { ThumbnailService } from '@main/thumbs/thumbService';
 import type { TripService } from '@main/trips/tripService';
 import type { FileWatcherService } from '@main/watcher/fileWatcher';
 import type { SettingsRepository } from '@main/db/repositories/settingsRepo';
 import type { RootsRepository } from '@main/db/repositories/rootsRepo';
 import type { MetricsService } from '@main/metrics/metricsService';
+import type { MetadataWriteService } from '@main/writeback/metadataWriteService';
 
 export interface IpcContext {
   ipcMain: IpcMain;
@@ -16,10 +27,21 @@ export interface IpcContext {
   indexCoordinator: IndexCoordinator;
   clusterService: ClusterService;
   tripService: TripService;
+  clockOffsetService: ClockOffsetService;
+  placeService: PlaceService;
+  searchService: SearchService;
+  geotagService: GeotagService;
+  locationEditService: LocationEditService;
+  metadataWriteService: MetadataWriteService;
   thumbnailService: ThumbnailService;
+  thumbnailCacheBudget: ThumbnailCacheBudget;
+  similarityService: SimilarityService;
+  maintenanceService: MaintenanceService;
+  databaseBackupService: DatabaseBackupService;
   cityCatalogService: CityCatalogService;
   settingsRepo: SettingsRepository;
   rootsRepo: RootsRepository;
+  rootRelocationService: RootRelocationService;
   fileWatcher: FileWatcherService;
   metricsService: MetricsService;
 }
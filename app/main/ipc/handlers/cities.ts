@@ -1,5 +1,12 @@
+import * as electronModule from 'electron';
+import type { OpenDialogOptions } from 'electron';
+
 import { IPC_CHANNELS } from '@main/ipc/channels';
 import type { IpcContext } from '@main/ipc/context';
+import { normalizeFsPath } from '@shared/utils/path';
+
+const electron = (electronModule as typeof electronModule & { default?: typeof electronModule }).default ?? electronModule;
+const { dialog } = electron;
 
 export function registerCitiesHandlers(context: IpcContext): void {
   const { ipcMain, cityCatalogService, getMainWindow } = context;
@@ -14,6 +21,24 @@ export function registerCitiesHandlers(context: IpcContext): void {
 
   ipcMain.handle(IPC_CHANNELS.CITIES_ENSURE_CATALOG, async () => cityCatalogService.ensureCatalog());
 
+  ipcMain.handle(IPC_CHANNELS.CITIES_SELECT_IMPORT_FILES, async () => {
+    const options: OpenDialogOptions = {
+      properties: ['openFile', 'multiSelections'],
+      title: 'Select countryInfo.txt and a GeoNames city dump',
+      filters: [{ name: 'GeoNames dumps', extensions: ['zip', 'txt'] }],
+    };
+    const owner = getMainWindow();
+    const result = owner ? await dialog.showOpenDialog(owner, options) : await dialog.showOpenDialog(options);
+    if (result.canceled) {
+      return { paths: [] };
+    }
+    return { paths: result.filePaths.map((filePath) => normalizeFsPath(filePath)) };
+  });
+
+  ipcMain.handle(IPC_CHANNELS.CITIES_IMPORT_FROM_FILE, async (_event, payload: { paths: string[] }) =>
+    cityCatalogService.importFromFiles(payload.paths),
+  );
+
   ipcMain.handle(IPC_CHANNELS.CITIES_GET_CONTINENTS, async () => cityCatalogService.getContinents());
 
   ipcMain.handle(IPC_CHANNELS.CITIES_GET_COUNTRIES, async (_event, payload: { continentCode: string }) =>
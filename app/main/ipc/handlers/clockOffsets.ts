@@ -0,0 +1,25 @@
+import { IPC_CHANNELS } from '@main/ipc/channels';
+import type { IpcContext } from '@main/ipc/context';
+import type { ClockOffsetDraft, ClockOffsetPreviewOptions } from '@shared/types/ipc';
+
+export function registerClockOffsetHandlers({ ipcMain, clockOffsetService }: IpcContext): void {
+  ipcMain.handle(IPC_CHANNELS.CLOCK_OFFSETS_LIST_CAMERAS, async () => {
+    return clockOffsetService.listCameras();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.CLOCK_OFFSETS_LIST, async () => {
+    return clockOffsetService.list();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.CLOCK_OFFSETS_PREVIEW, async (_event, payload: ClockOffsetPreviewOptions) => {
+    return clockOffsetService.preview(payload);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.CLOCK_OFFSETS_SAVE, async (_event, payload: ClockOffsetDraft) => {
+    return clockOffsetService.save(payload);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.CLOCK_OFFSETS_REMOVE, async (_event, payload: { id: number }) => {
+    return clockOffsetService.remove(payload.id);
+  });
+}
@@ -0,0 +1,21 @@
+import { IPC_CHANNELS } from '@main/ipc/channels';
+import type { IpcContext } from '@main/ipc/context';
+import type { DatabaseCheckMode } from '@shared/types/ipc';
+
+export function registerDatabaseHandlers({ ipcMain, databaseBackupService }: IpcContext): void {
+  ipcMain.handle(IPC_CHANNELS.DATABASE_GET_STATUS, async () => {
+    return databaseBackupService.getStatus();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.DATABASE_BACKUP_NOW, async () => {
+    return databaseBackupService.backupNow('regular');
+  });
+
+  ipcMain.handle(IPC_CHANNELS.DATABASE_CHECK_INTEGRITY, async (_event, payload: { mode: DatabaseCheckMode }) => {
+    return databaseBackupService.checkIntegrity(payload?.mode === 'full' ? 'full' : 'quick');
+  });
+
+  ipcMain.handle(IPC_CHANNELS.DATABASE_RESTORE, async (_event, payload: { name: string }) => {
+    return databaseBackupService.restore(payload.name);
+  });
+}
@@ -0,0 +1,56 @@
+import * as electronModule from 'electron';
+import type { OpenDialogOptions } from 'electron';
+
+import { TRACK_FILE_EXTENSIONS } from '@main/geotag/trackParser';
+import { IPC_CHANNELS } from '@main/ipc/channels';
+import type { IpcContext } from '@main/ipc/context';
+import type { GeotagOptions, LocationEditSnapshot, ManualLocationPayload } from '@shared/types/ipc';
+import { normalizeFsPath } from '@shared/utils/path';
+
+const electron = (electronModule as typeof electronModule & { default?: typeof electronModule }).default ?? electronModule;
+const { dialog } = electron;
+
+export function registerGeotagHandlers({
+  ipcMain,
+  getMainWindow,
+  geotagService,
+  locationEditService,
+}: IpcContext): void {
+  ipcMain.handle(IPC_CHANNELS.GEOTAG_SELECT_TRACK_FILES, async () => {
+    const options: OpenDialogOptions = {
+      properties: ['openFile', 'multiSelections'],
+      title: 'Select GPS track files',
+      filters: [{ name: 'GPS tracks', extensions: TRACK_FILE_EXTENSIONS }],
+    };
+    const owner = getMainWindow();
+    const result = owner ? await dialog.showOpenDialog(owner, options) : await dialog.showOpenDialog(options);
+    if (result.canceled) {
+      return { paths: [] };
+    }
+    return { paths: result.filePaths.map((filePath) => normalizeFsPath(filePath)) };
+  });
+
+  ipcMain.handle(IPC_CHANNELS.GEOTAG_PREVIEW, async (_event, payload: GeotagOptions) => {
+    return geotagService.preview(payload);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.GEOTAG_APPLY, async (_event, payload: GeotagOptions & { photoIds?: number[] }) => {
+    return geotagService.apply(payload);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.GEOTAG_CLEAR, async (_event, payload: { photoIds: number[] }) => {
+    return { cleared: geotagService.clear(payload.photoIds) };
+  });
+
+  ipcMain.handle(IPC_CHANNELS.LOCATION_SET, async (_event, payload: ManualLocationPayload) => {
+    return locationEditService.setManual(payload);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.LOCATION_REVERT, async (_event, payload: { photoIds: number[] }) => {
+    return locationEditService.revertToOriginal(payload.photoIds);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.LOCATION_RESTORE, async (_event, payload: { snapshots: LocationEditSnapshot[] }) => {
+    return { restored: locationEditService.restore(payload.snapshots) };
+  });
+}
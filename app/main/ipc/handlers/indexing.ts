@@ -1,11 +1,15 @@
 import { IPC_CHANNELS } from '@main/ipc/channels';
 import type { IpcContext } from '@main/ipc/context';
+import type { IndexJobMode } from '@shared/types/ipc';
 
 export function registerIndexingHandlers(context: IpcContext): void {
   const { ipcMain, indexCoordinator, getMainWindow } = context;
 
-  ipcMain.handle(IPC_CHANNELS.INDEX_START, async (_event, payload: { rootPath: string }) => {
-    const jobId = indexCoordinator.start(payload.rootPath);
+  ipcMain.handle(IPC_CHANNELS.INDEX_START, async (_event, payload: { rootPath: string; mode?: IndexJobMode }) => {
+    const jobId =
+      payload.mode === 'failedOnly'
+        ? indexCoordinator.startFailedOnly(payload.rootPath)
+        : indexCoordinator.start(payload.rootPath);
     return { jobId };
   });
 
@@ -13,10 +17,34 @@ export function registerIndexingHandlers(context: IpcContext): void {
     return { ok: indexCoordinator.cancel(payload.jobId) };
   });
 
+  ipcMain.handle(IPC_CHANNELS.INDEX_PAUSE, async (_event, payload: { jobId: string }) => {
+    return { ok: indexCoordinator.pause(payload.jobId) };
+  });
+
+  ipcMain.handle(IPC_CHANNELS.INDEX_RESUME, async (_event, payload: { jobId: string }) => {
+    return { ok: indexCoordinator.resume(payload.jobId) };
+  });
+
+  ipcMain.handle(IPC_CHANNELS.INDEX_LIST_JOBS, async (_event, payload?: { limit?: number }) => {
+    return indexCoordinator.listJobs(payload?.limit);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.INDEX_LIST_QUEUE, async () => {
+    return indexCoordinator.listQueue();
+  });
+
   ipcMain.handle(IPC_CHANNELS.INDEX_STATUS, async (_event, jobId: string) => {
     return indexCoordinator.getStatus(jobId);
   });
 
+  ipcMain.handle(IPC_CHANNELS.INDEX_LIST_ERRORS, async (_event, payload?: { limit?: number }) => {
+    return indexCoordinator.listErrors(payload?.limit);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.INDEX_CLEAR_ERRORS, async (_event, payload: { rootId: number; message: string }) => {
+    return { cleared: indexCoordinator.clearErrors(payload.rootId, payload.message) };
+  });
+
   indexCoordinator.onProgress((status) => {
     const mainWindow = getMainWindow();
     if (!mainWindow || mainWindow.isDestroyed()) {
@@ -24,5 +52,13 @@ export function registerIndexingHandlers(context: IpcContext): void {
     }
     mainWindow.webContents.send(IPC_CHANNELS.INDEX_PROGRESS, status);
   });
+
+  indexCoordinator.onQueueChanged((snapshot) => {
+    const mainWindow = getMainWindow();
+    if (!mainWindow || mainWindow.isDestroyed()) {
+      return;
+    }
+    mainWindow.webContents.send(IPC_CHANNELS.INDEX_QUEUE_CHANGED, snapshot);
+  });
 }
 
@@ -0,0 +1,12 @@
+import { IPC_CHANNELS } from '@main/ipc/channels';
+import type { IpcContext } from '@main/ipc/context';
+
+export function registerMaintenanceHandlers({ ipcMain, maintenanceService }: IpcContext): void {
+  ipcMain.handle(IPC_CHANNELS.MAINTENANCE_GET_STATUS, async () => {
+    return maintenanceService.getStatus();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.MAINTENANCE_RUN, async () => {
+    return maintenanceService.run('manual');
+  });
+}
@@ -0,0 +1,9 @@
+import { IPC_CHANNELS } from '@main/ipc/channels';
+import type { IpcContext } from '@main/ipc/context';
+import type { MetadataWriteOptions } from '@shared/types/ipc';
+
+export function registerMetadataHandlers({ ipcMain, metadataWriteService }: IpcContext): void {
+  ipcMain.handle(IPC_CHANNELS.METADATA_WRITE, async (_event, payload: MetadataWriteOptions) => {
+    return metadataWriteService.write(payload);
+  });
+}
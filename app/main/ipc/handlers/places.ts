@@ -0,0 +1,17 @@
+import { IPC_CHANNELS } from '@main/ipc/channels';
+import type { IpcContext } from '@main/ipc/context';
+import type { Filters } from '@shared/types/settings';
+
+export function registerPlacesHandlers({ ipcMain, placeService, getMainWindow }: IpcContext): void {
+  placeService.onUpdated(() => {
+    const mainWindow = getMainWindow();
+    if (!mainWindow || mainWindow.isDestroyed()) {
+      return;
+    }
+    mainWindow.webContents.send(IPC_CHANNELS.PLACES_UPDATED);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.PLACES_LIST, async (_event, payload: { filters: Filters }) => {
+    return placeService.list(payload.filters);
+  });
+}
@@ -0,0 +1,9 @@
+import { IPC_CHANNELS } from '@main/ipc/channels';
+import type { IpcContext } from '@main/ipc/context';
+import type { Filters } from '@shared/types/settings';
+
+export function registerSearchHandlers({ ipcMain, searchService }: IpcContext): void {
+  ipcMain.handle(IPC_CHANNELS.SEARCH_COUNT, async (_event, payload: { filters: Filters }) => {
+    return searchService.count(payload.filters);
+  });
+}
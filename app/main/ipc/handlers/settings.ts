@@ -1,6 +1,6 @@
 import { IPC_CHANNELS } from '@main/ipc/channels';
 import type { IpcContext } from '@main/ipc/context';
-import type { RootListItem } from '@shared/types/ipc';
+import type { RootIgnoreRuleStat, RootListItem } from '@shared/types/ipc';
 import type { AppSettings } from '@shared/types/settings';
 import { normalizeFsPath } from '@shared/utils/path';
 import { mergeRecentRoots } from '@shared/utils/recentRoots';
@@ -41,6 +41,18 @@ async function syncWatcher(next: AppSettings, context: IpcContext): Promise<void
   await context.fileWatcher.sync(rootRows.map((row) => row.path));
 }
 
+function parseIgnoreStats(value: string | null): RootIgnoreRuleStat[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? (parsed as RootIgnoreRuleStat[]) : [];
+  } catch {
+    return [];
+  }
+}
+
 function toRootListItems(context: IpcContext): RootListItem[] {
   const rows = context.rootsRepo.listRecent(1_000);
   return rows.map((row) => ({
@@ -48,6 +60,7 @@ function toRootListItems(context: IpcContext): RootListItem[] {
     path: row.path,
     lastScanAtMs: row.lastScanAtMs,
     updatedAtMs: row.updatedAtMs,
+    ignoreRuleStats: parseIgnoreStats(row.ignoreStatsJson),
   }));
 }
 
@@ -72,11 +85,14 @@ function applySettingsPatch(patch: Partial<AppSettings>, context: IpcContext): A
 async function persistSettingsWithSync(patch: Partial<AppSettings>, context: IpcContext): Promise<AppSettings> {
   const next = applySettingsPatch(patch, context);
   await syncWatcher(next, context);
+  if (patch.thumbnailCache) {
+    context.thumbnailCacheBudget.evictSoon();
+  }
   return next;
 }
 
 export function registerSettingsHandlers(context: IpcContext): void {
-  const { ipcMain, settingsRepo, rootsRepo, clusterService, tripService } = context;
+  const { ipcMain, settingsRepo, rootsRepo, clusterService, tripService, rootRelocationService } = context;
 
   ipcMain.handle(IPC_CHANNELS.SETTINGS_GET, async () => ensureActiveRoots(context));
 
@@ -115,7 +131,9 @@ export function registerSettingsHandlers(context: IpcContext): void {
     const current = settingsRepo.getSettings();
     const recentRoots = current.recentRoots.filter((item) => item !== root.path);
     const activeRootIds = current.activeRootIds.filter((id) => id !== root.id);
-    return persistSettingsWithSync({ recentRoots, activeRootIds }, context);
+    const rootIgnorePatterns = { ...current.rootIgnorePatterns };
+    delete rootIgnorePatterns[root.path];
+    return persistSettingsWithSync({ recentRoots, activeRootIds, rootIgnorePatterns }, context);
   });
 
   ipcMain.handle(IPC_CHANNELS.SETTINGS_SET_ACTIVE_ROOTS, async (_event, payload: { rootIds: number[] }) => {
@@ -123,4 +141,12 @@ export function registerSettingsHandlers(context: IpcContext): void {
   });
 
   ipcMain.handle(IPC_CHANNELS.SETTINGS_LIST_ROOTS, async () => toRootListItems(context));
+
+  ipcMain.handle(IPC_CHANNELS.SETTINGS_FIND_MISSING_ROOTS, async () => rootRelocationService.findMissingRoots());
+
+  ipcMain.handle(IPC_CHANNELS.SETTINGS_RELOCATE_ROOT, async (_event, payload: { rootId: number; path: string }) => {
+    const relocation = await rootRelocationService.relocate(payload.rootId, payload.path);
+    await syncWatcher(relocation.settings, context);
+    return relocation;
+  });
 }
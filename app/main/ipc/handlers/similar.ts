@@ -0,0 +1,22 @@
+import { IPC_CHANNELS } from '@main/ipc/channels';
+import type { IpcContext } from '@main/ipc/context';
+
+export function registerSimilarHandlers({ ipcMain, similarityService }: IpcContext): void {
+  ipcMain.handle(
+    IPC_CHANNELS.MEDIA_FIND_SIMILAR,
+    async (_event, payload: { photoId: number; maxDistance?: number; limit?: number }) => {
+      return similarityService.findSimilar(payload);
+    },
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.MEDIA_GET_SIMILAR_GROUPS,
+    async (_event, payload: { maxDistance?: number; limit?: number }) => {
+      return similarityService.getSimilarGroups(payload ?? {});
+    },
+  );
+
+  ipcMain.handle(IPC_CHANNELS.MEDIA_HASH_PENDING, async (_event, payload: { limit?: number }) => {
+    return similarityService.hashPending(payload ?? {});
+  });
+}
@@ -5,7 +5,7 @@ import type { IpcContext } from '@main/ipc/context';
 import type { PreviewStripProgressPayload, PreviewStripRequestPayload, ThumbnailPriority } from '@shared/types/ipc';
 import type { Filters } from '@shared/types/settings';
 
-export function registerThumbnailHandlers({ ipcMain, thumbnailService }: IpcContext): void {
+export function registerThumbnailHandlers({ ipcMain, thumbnailService, thumbnailCacheBudget }: IpcContext): void {
   ipcMain.handle(
     IPC_CHANNELS.MEDIA_GET_THUMBNAIL,
     async (_event, payload: { photoId: number; size: 64 | 128 | 256 | 512; priority?: ThumbnailPriority }) => {
@@ -70,6 +70,14 @@ export function registerThumbnailHandlers({ ipcMain, thumbnailService }: IpcCont
     return thumbnailService.getTimelineExtent(payload.filters);
   });
 
+  ipcMain.handle(IPC_CHANNELS.MEDIA_GET_DUPLICATE_GROUPS, async (_event, payload: { limit?: number }) => {
+    return thumbnailService.getDuplicateGroups(payload?.limit);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.MEDIA_GET_CACHE_STATS, async () => {
+    return thumbnailCacheBudget.getStats();
+  });
+
   ipcMain.handle(IPC_CHANNELS.MEDIA_GET_SOURCE, async (_event, payload: { photoId: number }) => {
     return thumbnailService.getSource(payload.photoId);
   });
@@ -1,11 +1,19 @@
 import type { IpcContext } from './context';
+import { registerClockOffsetHandlers } from './handlers/clockOffsets';
 import { registerClusterHandlers } from './handlers/clusters';
 import { registerCitiesHandlers } from './handlers/cities';
+import { registerDatabaseHandlers } from './handlers/database';
+import { registerGeotagHandlers } from './handlers/geotag';
 import { registerIndexingHandlers } from './handlers/indexing';
+import { registerMaintenanceHandlers } from './handlers/maintenance';
+import { registerMetadataHandlers } from './handlers/metadata';
 import { registerMetricsHandlers } from './handlers/metrics';
+import { registerPlacesHandlers } from './handlers/places';
 import { registerPointsHandlers } from './handlers/points';
+import { registerSearchHandlers } from './handlers/search';
 import { registerSelectFolderHandler } from './handlers/selectFolder';
 import { registerSettingsHandlers } from './handlers/settings';
+import { registerSimilarHandlers } from './handlers/similar';
 import { registerThumbnailHandlers } from './handlers/thumbnail';
 import { registerWindowControlHandlers } from './handlers/windowControls';
 
@@ -16,7 +24,15 @@ export function registerIpcHandlers(context: IpcContext): void {
   registerClusterHandlers(context);
   registerPointsHandlers(context);
   registerCitiesHandlers(context);
+  registerClockOffsetHandlers(context);
+  registerPlacesHandlers(context);
+  registerSearchHandlers(context);
+  registerGeotagHandlers(context);
+  registerMetadataHandlers(context);
   registerThumbnailHandlers(context);
+  registerSimilarHandlers(context);
+  registerMaintenanceHandlers(context);
+  registerDatabaseHandlers(context);
   registerSettingsHandlers(context);
   registerMetricsHandlers(context);
 }
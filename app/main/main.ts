@@ -7,20 +7,36 @@ import * as electronModule from 'electron';
 import type { BrowserWindow as BrowserWindowType } from 'electron';
 import { lookup as lookupMime } from 'mime-types';
 
+import { ClockOffsetService } from '@main/clock/clockOffsetService';
 import { ClusterService } from '@main/cluster/clusterService';
 import { CityCatalogService } from '@main/cities/catalogService';
 import { createDbClient } from '@main/db/client';
+import { ClockOffsetsRepository } from '@main/db/repositories/clockOffsetsRepo';
+import { IndexJobsRepository } from '@main/db/repositories/indexJobsRepo';
+import { LocationOverridesRepository } from '@main/db/repositories/locationOverridesRepo';
 import { PhotosRepository } from '@main/db/repositories/photosRepo';
 import { RootsRepository } from '@main/db/repositories/rootsRepo';
 import { SettingsRepository } from '@main/db/repositories/settingsRepo';
+import { ThumbnailCacheRepository } from '@main/db/repositories/thumbnailCacheRepo';
+import { GeotagService } from '@main/geotag/geotagService';
+import { LocationEditService } from '@main/geotag/locationEditService';
 import { IndexCoordinator } from '@main/indexer/indexCoordinator';
 import type { IpcContext } from '@main/ipc/context';
 import { registerIpcHandlers } from '@main/ipc/registerHandlers';
+import { DatabaseBackupService } from '@main/maintenance/databaseBackupService';
+import { MaintenanceService } from '@main/maintenance/maintenanceService';
 import { MetricsService } from '@main/metrics/metricsService';
+import { PlaceService } from '@main/places/placeService';
+import { RootRelocationService } from '@main/roots/rootRelocationService';
+import { SearchService } from '@main/search/searchService';
+import { SimilarityService } from '@main/similar/similarityService';
+import { ThumbnailCacheBudget } from '@main/thumbs/cacheBudget';
 import { ThumbnailService } from '@main/thumbs/thumbService';
 import { TripService } from '@main/trips/tripService';
 import { FileWatcherService } from '@main/watcher/fileWatcher';
 import { createMainWindow } from '@main/window';
+import { MetadataWriteService } from '@main/writeback/metadataWriteService';
+import { getMediaMimeOverride } from '@shared/utils/mediaExtensions';
 import { normalizeFsPath } from '@shared/utils/path';
 
 const electron = (electronModule as typeof electronModule & { default?: typeof electronModule }).default ?? electronModule;
@@ -70,6 +86,9 @@ if (SOFTWARE_RENDERING_MODE) {
 
 app.setName('PhotoGlobeViewer');
 
+// Leaves time for the restore reply to reach the window before it closes.
+const RESTORE_RELAUNCH_DELAY_MS = 500;
+
 let mainWindow: BrowserWindowType | null = null;
 let isCleaningUp = false;
 let protocolRegistered = false;
@@ -80,23 +99,101 @@ const dbClient = createDbClient(path.join(appDataRoot, 'db'));
 const photosRepo = new PhotosRepository(dbClient.db);
 const rootsRepo = new RootsRepository(dbClient.db);
 const settingsRepo = new SettingsRepository(dbClient.db);
+const indexJobsRepo = new IndexJobsRepository(dbClient.db);
+const locationOverridesRepo = new LocationOverridesRepository(dbClient.db);
+const clockOffsetsRepo = new ClockOffsetsRepository(dbClient.db);
+const thumbnailCacheRepo = new ThumbnailCacheRepository(dbClient.db);
 const clusterService = new ClusterService(photosRepo);
-const tripService = new TripService(photosRepo);
-const thumbnailService = new ThumbnailService(photosRepo, appDataRoot);
 const cityCatalogService = new CityCatalogService(path.join(appDataRoot, 'cities'), path.join(appDataRoot, 'logs'));
+// Place filters and trip labels read the stored places, so a finished lookup pass drops those caches too.
+const placeService = new PlaceService(photosRepo, cityCatalogService, () => {
+  clusterService.invalidate();
+  tripService.invalidate();
+});
+const tripService = new TripService(photosRepo, placeService);
+const searchService = new SearchService(photosRepo, placeService, () => {
+  clusterService.invalidate();
+  tripService.invalidate();
+});
+// The budget never evicts what the thumbnail service still holds in memory.
+const thumbnailCacheBudget = new ThumbnailCacheBudget(
+  thumbnailCacheRepo,
+  settingsRepo,
+  path.join(appDataRoot, 'thumbs'),
+  (): Set<string> => thumbnailService.getPinnedCachePaths(),
+);
+const thumbnailService = new ThumbnailService(
+  photosRepo,
+  locationOverridesRepo,
+  appDataRoot,
+  placeService,
+  thumbnailCacheBudget,
+);
+const similarityService = new SimilarityService(photosRepo, thumbnailService, isIndexing);
 const metricsService = new MetricsService(appDataRoot);
+
+function isIndexing(): boolean {
+  const queue = indexCoordinator.listQueue();
+  return queue.running.length > 0 || queue.queued.length > 0;
+}
+
+function invalidateLocationCaches(): void {
+  clusterService.invalidate();
+  tripService.invalidate();
+  placeService.schedule();
+}
+
+const clockOffsetService = new ClockOffsetService(photosRepo, clockOffsetsRepo, invalidateLocationCaches);
+const geotagService = new GeotagService(photosRepo, locationOverridesRepo, invalidateLocationCaches);
+const locationEditService = new LocationEditService(locationOverridesRepo, invalidateLocationCaches);
+const metadataWriteService = new MetadataWriteService(
+  photosRepo,
+  locationOverridesRepo,
+  path.join(appDataRoot, 'metadata-writes'),
+  invalidateLocationCaches,
+);
 const indexCoordinator = new IndexCoordinator({
   photosRepo,
   rootsRepo,
   settingsRepo,
+  indexJobsRepo,
   onDataChanged: () => {
-    clusterService.invalidate();
-    tripService.invalidate();
+    invalidateLocationCaches();
+    similarityService.schedule();
+  },
+  onPhotosRelocated: (items) => {
+    void thumbnailService.relocateCachedMedia(items).catch(() => {});
   },
 });
+const rootRelocationService = new RootRelocationService(
+  dbClient.db,
+  rootsRepo,
+  photosRepo,
+  settingsRepo,
+  indexCoordinator,
+  thumbnailService,
+  invalidateLocationCaches,
+);
+const maintenanceService = new MaintenanceService(
+  photosRepo,
+  settingsRepo,
+  thumbnailService,
+  appDataRoot,
+  path.join(appDataRoot, 'maintenance', 'last-run.json'),
+  isIndexing,
+);
+// Restores are applied while opening the database, so scheduling one restarts the app.
+const databaseBackupService = new DatabaseBackupService(dbClient, settingsRepo, () => {
+  setTimeout(() => {
+    app.relaunch({
+      args: process.argv.slice(1),
+    });
+    app.quit();
+  }, RESTORE_RELAUNCH_DELAY_MS);
+});
 const fileWatcher = new FileWatcherService((payload) => {
   if (payload.overflow) {
-    indexCoordinator.startFull(payload.rootPath);
+    indexCoordinator.startFull(payload.rootPath, 'watcher');
     return;
   }
   indexCoordinator.startDelta(payload.rootPath, {
@@ -104,11 +201,7 @@ const fileWatcher = new FileWatcherService((payload) => {
     removedPaths: payload.removedPaths,
     overflow: payload.overflow,
   });
-});
-
-function isTerminalPhase(phase: 'idle' | 'scanning' | 'extracting' | 'saving' | 'complete' | 'cancelled' | 'error'): boolean {
-  return phase === 'complete' || phase === 'cancelled' || phase === 'error';
-}
+}, (rootPath) => settingsRepo.getSettings().rootIgnorePatterns[rootPath] ?? []);
 
 function arraysEqual(a: number[], b: number[]): boolean {
   if (a.length !== b.length) {
@@ -122,33 +215,6 @@ function arraysEqual(a: number[], b: number[]): boolean {
   return true;
 }
 
-async function waitForJobTerminal(jobId: string): Promise<void> {
-  const initial = indexCoordinator.getStatus(jobId);
-  if (initial && isTerminalPhase(initial.phase)) {
-    return;
-  }
-
-  await new Promise<void>((resolve) => {
-    const unsubscribe = indexCoordinator.onProgress((status) => {
-      if (status.jobId !== jobId) {
-        return;
-      }
-      if (!isTerminalPhase(status.phase)) {
-        return;
-      }
-      unsubscribe();
-      resolve();
-    });
-  });
-}
-
-async function startSequentialIndexing(rootPaths: string[]): Promise<void> {
-  for (const rootPath of rootPaths) {
-    const jobId = indexCoordinator.startFull(rootPath);
-    await waitForJobTerminal(jobId);
-  }
-}
-
 function isPathInside(rootPath: string, filePath: string): boolean {
   if (filePath === rootPath) {
     return true;
@@ -214,7 +280,7 @@ function registerAppProtocol(): void {
       }
 
       const headers = new Headers(upstream.headers);
-      const mime = lookupMime(requestedPath);
+      const mime = getMediaMimeOverride(requestedPath) ?? lookupMime(requestedPath);
       if (typeof mime === 'string') {
         headers.set('content-type', mime);
       }
@@ -275,14 +341,31 @@ async function bootstrap(): Promise<void> {
     indexCoordinator,
     clusterService,
     tripService,
+    clockOffsetService,
+    placeService,
+    searchService,
+    geotagService,
+    locationEditService,
+    metadataWriteService,
     thumbnailService,
+    thumbnailCacheBudget,
+    similarityService,
+    maintenanceService,
+    databaseBackupService,
     cityCatalogService,
     settingsRepo,
     rootsRepo,
+    rootRelocationService,
     fileWatcher,
     metricsService,
   };
   registerIpcHandlers(context);
+  searchService.start();
+  placeService.start();
+  similarityService.start();
+  void maintenanceService.start();
+  thumbnailCacheBudget.start();
+  databaseBackupService.start();
 
   const roots = rootsRepo.listRecent(1_000);
   const validRootIds = new Set(roots.map((root) => root.id));
@@ -294,13 +377,20 @@ async function bootstrap(): Promise<void> {
     : settingsRepo.setSettings({ activeRootIds });
   const activeRootRows = rootsRepo.listByIds(normalizedSettings.activeRootIds);
   const activeRootPaths = activeRootRows.map((row) => row.path);
-  const firstScanRootPaths = activeRootRows.filter((row) => row.lastScanAtMs == null).map((row) => row.path);
+  const interruptedJobs = indexCoordinator.listInterruptedJobs();
+  const interruptedRootPaths = new Set(interruptedJobs.map((job) => job.rootPath));
+  const firstScanRootPaths = activeRootRows
+    .filter((row) => row.lastScanAtMs == null && !interruptedRootPaths.has(row.path))
+    .map((row) => row.path);
 
   if (normalizedSettings.watchEnabled) {
     await fileWatcher.sync(activeRootPaths);
   }
-  if (firstScanRootPaths.length > 0) {
-    void startSequentialIndexing(firstScanRootPaths);
+  for (const job of interruptedJobs) {
+    indexCoordinator.resume(job.jobId);
+  }
+  for (const rootPath of firstScanRootPaths) {
+    indexCoordinator.startFull(rootPath, 'startup');
   }
 }
 
@@ -311,6 +401,11 @@ async function cleanup(): Promise<void> {
   isCleaningUp = true;
   await fileWatcher.stop();
   await indexCoordinator.dispose();
+  placeService.dispose();
+  similarityService.dispose();
+  maintenanceService.dispose();
+  thumbnailCacheBudget.dispose();
+  databaseBackupService.dispose();
   cityCatalogService.close();
   dbClient.close();
 }
@@ -0,0 +1,90 @@
+import type { Dirent } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export interface CacheReferences {
+  // Current-version thumbnail file names (see getThumbnailFileName).
+  thumbnailNames: Set<string>;
+  // Keys of hover previews and placeholders (see getSourceCacheKey).
+  sourceKeys: Set<string>;
+}
+
+export interface CacheSweepResult {
+  deletedFiles: number;
+  reclaimedBytes: number;
+  failedFiles: number;
+  deletedPaths: string[];
+}
+
+const YIELD_EVERY_FILES = 500;
+const SIZE_DIRECTORY_PATTERN = /^\d+$/;
+
+async function listDirectory(directory: string): Promise<Dirent[]> {
+  try {
+    return await fs.readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Deletes files under `thumbs/` that no live photo maps to: thumbnails of removed photos or of an
+ * older cache version, and hover previews or placeholders of removed photos. Directories it does
+ * not recognise are left alone, as is anything written after `startedAtMs` (generated mid-sweep).
+ */
+export async function sweepThumbnailCache(
+  thumbsRoot: string,
+  references: CacheReferences,
+  startedAtMs: number,
+): Promise<CacheSweepResult> {
+  const result: CacheSweepResult = { deletedFiles: 0, reclaimedBytes: 0, failedFiles: 0, deletedPaths: [] };
+  let visited = 0;
+
+  const sweepDirectory = async (directory: string, isReferenced: (fileName: string) => boolean) => {
+    for (const entry of await listDirectory(directory)) {
+      if (!entry.isFile() || isReferenced(entry.name)) {
+        continue;
+      }
+      const filePath = path.join(directory, entry.name);
+      try {
+        const stat = await fs.stat(filePath);
+        if (stat.mtimeMs >= startedAtMs) {
+          continue;
+        }
+        await fs.unlink(filePath);
+        result.deletedFiles += 1;
+        result.reclaimedBytes += stat.size;
+        result.deletedPaths.push(filePath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          result.failedFiles += 1;
+        }
+      }
+      visited += 1;
+      if (visited % YIELD_EVERY_FILES === 0) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    }
+  };
+
+  const bySourceKey = (fileName: string) => references.sourceKeys.has(path.parse(fileName).name);
+  for (const entry of await listDirectory(thumbsRoot)) {
+    if (!entry.isDirectory()) {
+      continue;
+    }
+    const directory = path.join(thumbsRoot, entry.name);
+    if (SIZE_DIRECTORY_PATTERN.test(entry.name)) {
+      await sweepDirectory(directory, (fileName) => references.thumbnailNames.has(fileName));
+    } else if (entry.name === 'hover' || entry.name === 'placeholder') {
+      for (const sizeEntry of await listDirectory(directory)) {
+        if (sizeEntry.isDirectory() && SIZE_DIRECTORY_PATTERN.test(sizeEntry.name)) {
+          await sweepDirectory(path.join(directory, sizeEntry.name), bySourceKey);
+        }
+      }
+    }
+  }
+  return result;
+}
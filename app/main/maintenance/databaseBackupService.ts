@@ -0,0 +1,220 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import Database from 'better-sqlite3';
+
+import { formatBackupName, getBackupDir, isBackupName, listBackups, writePendingRestore } from '@main/db/backupFiles';
+import type { DbClient } from '@main/db/client';
+import { checkDatabaseFile, runIntegrityCheck } from '@main/db/integrity';
+import type { SettingsRepository } from '@main/db/repositories/settingsRepo';
+import type {
+  DatabaseBackupItem,
+  DatabaseBackupKind,
+  DatabaseCheckMode,
+  DatabaseIntegrityResult,
+  DatabaseStatus,
+} from '@shared/types/ipc';
+
+const HOUR_MS = 60 * 60 * 1000;
+const STARTUP_DELAY_MS = 2 * 60 * 1000;
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Online backups of the index database through SQLite's backup API, kept to the newest few, plus
+ * integrity checks and restoring a backup. A restore replaces the file on the next launch, because
+ * every repository holds prepared statements on the open connection.
+ */
+export class DatabaseBackupService {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextCheckAtMs: number | null = null;
+  private inFlight: Promise<DatabaseBackupItem> | null = null;
+  // The backup a restore is waiting on, kept out of rotation until the app restarts.
+  private restoringName: string | null = null;
+  private lastCheck: DatabaseIntegrityResult | null = null;
+  private lastBackupError: string | null = null;
+  private disposed = false;
+  private readonly backupDir: string;
+
+  constructor(
+    private readonly dbClient: DbClient,
+    private readonly settingsRepo: SettingsRepository,
+    private readonly onRestoreScheduled: () => void,
+  ) {
+    this.backupDir = getBackupDir(dbClient.baseDir);
+  }
+
+  start(): void {
+    this.scheduleCheck(STARTUP_DELAY_MS);
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async getStatus(): Promise<DatabaseStatus> {
+    const settings = this.settingsRepo.getSettings().backup;
+    const backups = listBackups(this.backupDir);
+    const lastBackupAtMs = backups[0]?.createdAtMs ?? null;
+    let nextBackupAtMs: number | null = null;
+    if (settings.autoBackupEnabled) {
+      const dueAtMs = lastBackupAtMs != null ? lastBackupAtMs + settings.intervalHours * HOUR_MS : 0;
+      nextBackupAtMs = Math.max(dueAtMs, this.nextCheckAtMs ?? Date.now());
+    }
+    const sizeBytes = await fs
+      .stat(this.dbClient.dbPath)
+      .then((stat) => stat.size)
+      .catch(() => 0);
+    return {
+      dbPath: this.dbClient.dbPath,
+      sizeBytes,
+      backups,
+      backingUp: this.inFlight !== null,
+      lastBackupAtMs,
+      nextBackupAtMs,
+      lastBackupError: this.lastBackupError,
+      lastCheck: this.lastCheck,
+      recovery: this.dbClient.recovery,
+    };
+  }
+
+  /**
+   * A regular request joins a backup already running. A pre-restore copy waits for it and then
+   * always takes its own, so a restore can be undone.
+   */
+  backupNow(kind: DatabaseBackupKind = 'regular'): Promise<DatabaseBackupItem> {
+    if (this.inFlight && kind === 'regular') {
+      return this.inFlight;
+    }
+    const previous = this.inFlight?.catch(() => undefined) ?? Promise.resolve();
+    const current: Promise<DatabaseBackupItem> = previous
+      .then(() => this.backupInternal(kind))
+      .then(
+        (item) => {
+          this.lastBackupError = null;
+          return item;
+        },
+        (error: unknown) => {
+          this.lastBackupError = error instanceof Error ? error.message : String(error);
+          throw error;
+        },
+      )
+      .finally(() => {
+        if (this.inFlight === current) {
+          this.inFlight = null;
+        }
+      });
+    this.inFlight = current;
+    return current;
+  }
+
+  /** Checks the open database. This blocks the main process until done, so only one check ever runs. */
+  checkIntegrity(mode: DatabaseCheckMode): DatabaseIntegrityResult {
+    this.lastCheck = runIntegrityCheck(this.dbClient.db, mode);
+    return this.lastCheck;
+  }
+
+  /**
+   * Verifies the backup, backs up the current database so the restore can be undone, and leaves a
+   * request that createDbClient carries out after the app restarts.
+   */
+  async restore(name: string): Promise<{ scheduled: boolean }> {
+    if (!isBackupName(name) || !listBackups(this.backupDir).some((item) => item.name === name)) {
+      throw new Error(`Backup not found: ${name}`);
+    }
+    const check = checkDatabaseFile(path.join(this.backupDir, name), 'quick');
+    if (!check.ok) {
+      throw new Error(`Backup ${name} failed its integrity check: ${check.messages.slice(0, 3).join('; ')}`);
+    }
+    this.restoringName = name;
+    try {
+      await this.backupNow('pre-restore');
+    } catch (error) {
+      this.restoringName = null;
+      throw error;
+    }
+    writePendingRestore(this.dbClient.baseDir, name);
+    this.onRestoreScheduled();
+    return { scheduled: true };
+  }
+
+  private async backupInternal(kind: DatabaseBackupKind): Promise<DatabaseBackupItem> {
+    await fs.mkdir(this.backupDir, { recursive: true });
+    const createdAtMs = Date.now();
+    const name = formatBackupName(createdAtMs, kind);
+    const targetPath = path.join(this.backupDir, name);
+    // Written under another name first, so an interrupted backup is never listed or restored.
+    const partialPath = `${targetPath}.partial`;
+    try {
+      await this.dbClient.db.backup(partialPath);
+      this.finalizeBackupFile(partialPath);
+      await fs.rename(partialPath, targetPath);
+    } catch (error) {
+      await fs.rm(partialPath, { force: true });
+      throw error;
+    }
+    // Only regular backups rotate; a pre-restore copy is made once per restore and is the way back from it.
+    if (kind === 'regular') {
+      await this.rotate();
+    }
+    const stat = await fs.stat(targetPath);
+    return { name, kind, createdAtMs, sizeBytes: stat.size };
+  }
+
+  /**
+   * Switches the copy out of WAL mode so it is a single self-contained file, and checks it: a copy
+   * of a damaged database must not push a good backup out of the rotation.
+   */
+  private finalizeBackupFile(filePath: string): void {
+    const db = new Database(filePath, { fileMustExist: true });
+    try {
+      db.pragma('journal_mode = DELETE');
+      const check = runIntegrityCheck(db, 'quick');
+      if (!check.ok) {
+        throw new Error(`Backup failed its integrity check: ${check.messages.slice(0, 3).join('; ')}`);
+      }
+    } finally {
+      db.close();
+    }
+  }
+
+  private async rotate(): Promise<void> {
+    const { keepCount } = this.settingsRepo.getSettings().backup;
+    const rotating = listBackups(this.backupDir).filter(
+      (item) => item.kind === 'regular' && item.name !== this.restoringName,
+    );
+    for (const item of rotating.slice(keepCount)) {
+      await fs.rm(path.join(this.backupDir, item.name), { force: true });
+    }
+  }
+
+  private scheduleCheck(delayMs: number): void {
+    if (this.disposed) {
+      return;
+    }
+    this.nextCheckAtMs = Date.now() + delayMs;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.backupIfDue().finally(() => this.scheduleCheck(CHECK_INTERVAL_MS));
+    }, delayMs);
+  }
+
+  private async backupIfDue(): Promise<void> {
+    const settings = this.settingsRepo.getSettings().backup;
+    if (!settings.autoBackupEnabled || this.inFlight) {
+      return;
+    }
+    const lastBackupAtMs = listBackups(this.backupDir)[0]?.createdAtMs ?? null;
+    if (lastBackupAtMs != null && Date.now() - lastBackupAtMs < settings.intervalHours * HOUR_MS) {
+      return;
+    }
+    try {
+      await this.backupNow('regular');
+    } catch (error) {
+      console.error(`[backup] ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import type { PhotosRepository } from '@main/db/repositories/photosRepo';
+import type { SettingsRepository } from '@main/db/repositories/settingsRepo';
+import { getSourceCacheKey, getThumbnailFileName } from '@main/thumbs/cachePath';
+import type { ThumbnailService } from '@main/thumbs/thumbService';
+import type { MaintenanceReport, MaintenanceStatus, MaintenanceTrigger } from '@shared/types/ipc';
+
+import type { CacheReferences } from './cacheSweep';
+import { sweepThumbnailCache } from './cacheSweep';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Leaves startup to indexing and thumbnails before the first scheduled check.
+const STARTUP_DELAY_MS = 5 * 60 * 1000;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Purges soft-deleted photo rows past their retention and deletes thumbnail cache files no live
+ * photo uses. Runs on demand and, when enabled in settings, every few days while nothing is indexing.
+ */
+export class MaintenanceService {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextCheckAtMs: number | null = null;
+  private inFlight: Promise<MaintenanceReport> | null = null;
+  private lastReport: MaintenanceReport | null = null;
+  private disposed = false;
+
+  constructor(
+    private readonly photosRepo: PhotosRepository,
+    private readonly settingsRepo: SettingsRepository,
+    private readonly thumbnailService: ThumbnailService,
+    private readonly cacheRoot: string,
+    private readonly reportPath: string,
+    private readonly isIndexing: () => boolean,
+  ) {}
+
+  /** Loads the last run's report and starts the schedule. */
+  async start(): Promise<void> {
+    try {
+      this.lastReport = JSON.parse(await fs.readFile(this.reportPath, 'utf8')) as MaintenanceReport;
+    } catch {
+      this.lastReport = null;
+    }
+    this.scheduleCheck(STARTUP_DELAY_MS);
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus(): MaintenanceStatus {
+    const settings = this.settingsRepo.getSettings().maintenance;
+    let nextRunAtMs: number | null = null;
+    if (settings.autoRunEnabled) {
+      const dueAtMs = this.lastReport ? this.lastReport.finishedAtMs + settings.intervalDays * DAY_MS : 0;
+      nextRunAtMs = Math.max(dueAtMs, this.nextCheckAtMs ?? Date.now());
+    }
+    return { running: this.inFlight !== null, lastReport: this.lastReport, nextRunAtMs };
+  }
+
+  run(trigger: MaintenanceTrigger = 'manual'): Promise<MaintenanceReport> {
+    if (this.inFlight) {
+      return this.inFlight;
+    }
+    // Purging while a scan holds its own view of the root's rows could lose a restored file.
+    if (this.isIndexing()) {
+      return Promise.reject(new Error('Maintenance cannot run while indexing is in progress.'));
+    }
+    this.inFlight = this.runInternal(trigger).finally(() => {
+      this.inFlight = null;
+    });
+    return this.inFlight;
+  }
+
+  private async runInternal(trigger: MaintenanceTrigger): Promise<MaintenanceReport> {
+    const startedAtMs = Date.now();
+    const { tombstoneRetentionDays } = this.settingsRepo.getSettings().maintenance;
+
+    const purgedIds = this.photosRepo.purgeDeleted(startedAtMs - tombstoneRetentionDays * DAY_MS);
+    this.thumbnailService.forgetPhotos(purgedIds);
+    const prunedSearchRows = this.photosRepo.pruneSearchDocuments();
+
+    const references: CacheReferences = { thumbnailNames: new Set(), sourceKeys: new Set() };
+    for (const row of this.photosRepo.getCachedMediaRows()) {
+      references.thumbnailNames.add(getThumbnailFileName(row.path, row.mediaType));
+      references.sourceKeys.add(getSourceCacheKey(row.path));
+    }
+    const sweep = await sweepThumbnailCache(path.join(this.cacheRoot, 'thumbs'), references, startedAtMs);
+    this.thumbnailService.forgetCacheFiles(sweep.deletedPaths);
+
+    const report: MaintenanceReport = {
+      trigger,
+      startedAtMs,
+      finishedAtMs: Date.now(),
+      tombstoneRetentionDays,
+      purgedRows: purgedIds.length,
+      prunedSearchRows,
+      deletedCacheFiles: sweep.deletedFiles,
+      reclaimedBytes: sweep.reclaimedBytes,
+      failedCacheFiles: sweep.failedFiles,
+    };
+    this.lastReport = report;
+    await fs.mkdir(path.dirname(this.reportPath), { recursive: true });
+    await fs.writeFile(this.reportPath, JSON.stringify(report, null, 2), 'utf8');
+    return report;
+  }
+
+  private scheduleCheck(delayMs: number): void {
+    if (this.disposed) {
+      return;
+    }
+    this.nextCheckAtMs = Date.now() + delayMs;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.runIfDue().finally(() => this.scheduleCheck(CHECK_INTERVAL_MS));
+    }, delayMs);
+  }
+
+  private async runIfDue(): Promise<void> {
+    const settings = this.settingsRepo.getSettings().maintenance;
+    if (!settings.autoRunEnabled || this.inFlight || this.isIndexing()) {
+      return;
+    }
+    if (this.lastReport && Date.now() - this.lastReport.finishedAtMs < settings.intervalDays * DAY_MS) {
+      return;
+    }
+    try {
+      await this.run('scheduled');
+    } catch (error) {
+      console.error(`[maintenance] ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
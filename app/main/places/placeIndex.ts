@@ -0,0 +1,88 @@
+import type { PlaceCandidate } from '@main/cities/catalogService';
+
+export interface NearestPlace {
+  cityId: string;
+  countryCode: string;
+  distanceKm: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.2;
+const LAT_CELLS = 180;
+const LNG_CELLS = 360;
+
+function toRadians(value: number): number {
+  return (value * Math.PI) / 180;
+}
+
+function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const sinLat = Math.sin(dLat / 2);
+  const sinLng = Math.sin(dLng / 2);
+  const h = sinLat * sinLat + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * sinLng * sinLng;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function latCell(lat: number): number {
+  return Math.min(LAT_CELLS - 1, Math.max(0, Math.floor(lat + 90)));
+}
+
+function lngCell(lng: number): number {
+  const wrapped = ((Math.floor(lng + 180) % LNG_CELLS) + LNG_CELLS) % LNG_CELLS;
+  return wrapped;
+}
+
+/** Catalog places bucketed into one-degree cells for nearest-city lookups. */
+export class PlaceIndex {
+  private readonly cells = new Map<number, number[]>();
+
+  constructor(private readonly places: PlaceCandidate[]) {
+    places.forEach((place, index) => {
+      const key = latCell(place.lat) * LNG_CELLS + lngCell(place.lng);
+      const bucket = this.cells.get(key);
+      if (bucket) {
+        bucket.push(index);
+      } else {
+        this.cells.set(key, [index]);
+      }
+    });
+  }
+
+  get size(): number {
+    return this.places.length;
+  }
+
+  /** Closest place within `maxKm`, looking across the antimeridian and over the poles' last row. */
+  nearest(lat: number, lng: number, maxKm: number): NearestPlace | null {
+    const latSpan = Math.ceil(maxKm / KM_PER_DEGREE_LAT);
+    // Cells narrow towards the poles; past the span's outer latitude, scan the whole row.
+    const outerLat = Math.min(89.9, Math.abs(lat) + latSpan);
+    const lngSpan = Math.min(LNG_CELLS / 2, Math.ceil(maxKm / (KM_PER_DEGREE_LAT * Math.cos(toRadians(outerLat)))));
+    const centerLat = latCell(lat);
+    const centerLng = lngCell(lng);
+
+    let best: NearestPlace | null = null;
+    for (let row = Math.max(0, centerLat - latSpan); row <= Math.min(LAT_CELLS - 1, centerLat + latSpan); row += 1) {
+      for (let offset = -lngSpan; offset <= lngSpan; offset += 1) {
+        if (lngSpan === LNG_CELLS / 2 && offset === lngSpan) {
+          // -180 and +180 are the same column.
+          continue;
+        }
+        const column = (((centerLng + offset) % LNG_CELLS) + LNG_CELLS) % LNG_CELLS;
+        const bucket = this.cells.get(row * LNG_CELLS + column);
+        if (!bucket) {
+          continue;
+        }
+        for (const index of bucket) {
+          const place = this.places[index];
+          const distanceKm = haversineKm(lat, lng, place.lat, place.lng);
+          if (distanceKm <= maxKm && (!best || distanceKm < best.distanceKm)) {
+            best = { cityId: place.cityId, countryCode: place.countryCode, distanceKm };
+          }
+        }
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,238 @@
+import type { CityCatalogService } from '@main/cities/catalogService';
+import type { PlaceAssignment, PlaceSubject, PhotosRepository } from '@main/db/repositories/photosRepo';
+import type { CityCatalogStatus, PlaceCountryCount, PlaceLabel, PlacesSummary } from '@shared/types/ipc';
+import type { Filters } from '@shared/types/settings';
+
+import type { NearestPlace } from './placeIndex';
+import { PlaceIndex } from './placeIndex';
+
+// Same cut as GeoNames' cities1000 extract: hamlets would make every hike its own "city".
+const MIN_CITY_POPULATION = 1_000;
+// Farther than this from any such city (open sea, wilderness) a photo gets no place at all.
+const MAX_PLACE_DISTANCE_KM = 100;
+const RESOLVE_BATCH_SIZE = 2_000;
+const RESOLVE_DELAY_MS = 500;
+const LABEL_CHUNK_SIZE = 500;
+
+/** What a place contributes to a photo's search document, so typing a city or country finds it. */
+export function toPlaceSearchText(label: PlaceLabel): string {
+  return `${label.cityName} ${label.countryName}`;
+}
+
+/**
+ * Offline reverse geocoding against the city catalog. Places are stored per photo and refreshed
+ * in the background whenever positions change; lookups never leave the machine.
+ */
+export class PlaceService {
+  private readonly listeners = new Set<() => void>();
+  private readonly labelCache = new Map<string, PlaceLabel | null>();
+  private index: PlaceIndex | null = null;
+  private indexUpdatedAtMs: number | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private rerun = false;
+
+  constructor(
+    private readonly photosRepo: PhotosRepository,
+    private readonly catalogService: CityCatalogService,
+    private readonly onPlacesChanged?: () => void,
+  ) {}
+
+  /** Follows catalog rebuilds and resolves whatever is pending from earlier sessions. */
+  start(): void {
+    this.catalogService.onProgress((status) => this.handleCatalogStatus(status));
+  }
+
+  onUpdated(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Queues a background pass over photos whose position changed since their place was looked up. */
+  schedule(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.resolvePending().catch((error: unknown) => {
+        console.error(`[places] ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }, RESOLVE_DELAY_MS);
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Countries and cities of the photos under `filters`, ignoring its own place filters. */
+  list(filters: Filters): PlacesSummary {
+    const rows = this.photosRepo.getPlaceCounts({ ...filters, countryCodes: undefined, cityIds: undefined });
+    const labels = this.describe(rows.map((row) => row.cityId));
+    const fallbackCountryNames = this.catalogService.getCountryNames(
+      rows.filter((row) => !labels.has(row.cityId)).map((row) => row.countryCode),
+    );
+
+    const byCountry = new Map<string, PlaceCountryCount>();
+    for (const row of rows) {
+      const label = labels.get(row.cityId);
+      let country = byCountry.get(row.countryCode);
+      if (!country) {
+        country = {
+          countryCode: row.countryCode,
+          countryName: label?.countryName ?? fallbackCountryNames.get(row.countryCode) ?? row.countryCode,
+          photoCount: 0,
+          cities: [],
+        };
+        byCountry.set(row.countryCode, country);
+      }
+      country.photoCount += row.count;
+      country.cities.push({ cityId: row.cityId, name: label?.cityName ?? row.cityId, photoCount: row.count });
+    }
+
+    const countries = Array.from(byCountry.values()).sort(
+      (a, b) => b.photoCount - a.photoCount || a.countryName.localeCompare(b.countryName),
+    );
+    for (const country of countries) {
+      country.cities.sort((a, b) => b.photoCount - a.photoCount || a.name.localeCompare(b.name));
+    }
+    return {
+      countries,
+      pendingCount: this.photosRepo.countPendingPlaces(),
+      catalogReady: this.catalogService.getStatus().phase === 'ready',
+    };
+  }
+
+  /** Catalog names for city ids; ids the current catalog does not know are left out. */
+  describe(cityIds: string[]): Map<string, PlaceLabel> {
+    const unique = Array.from(new Set(cityIds));
+    const missing = unique.filter((id) => !this.labelCache.has(id));
+    for (let start = 0; start < missing.length; start += LABEL_CHUNK_SIZE) {
+      const chunk = missing.slice(start, start + LABEL_CHUNK_SIZE);
+      const found = new Map(this.catalogService.getByIds(chunk).map((city) => [city.id, city]));
+      for (const id of chunk) {
+        const city = found.get(id);
+        const label = city
+          ? { cityId: id, cityName: city.name, countryCode: city.countryCode, countryName: city.countryName }
+          : null;
+        this.labelCache.set(id, label);
+      }
+    }
+
+    const labels = new Map<string, PlaceLabel>();
+    for (const id of unique) {
+      const label = this.labelCache.get(id);
+      if (label) {
+        labels.set(id, label);
+      }
+    }
+    return labels;
+  }
+
+  getLabel(cityId: string | null): PlaceLabel | null {
+    return cityId ? (this.describe([cityId]).get(cityId) ?? null) : null;
+  }
+
+  private handleCatalogStatus(status: CityCatalogStatus): void {
+    if (status.phase !== 'ready') {
+      return;
+    }
+    if (this.index && (status.updatedAtMs ?? null) !== this.indexUpdatedAtMs) {
+      // A rebuilt catalog may have moved, added or dropped cities: look every photo up again.
+      this.index = null;
+      this.labelCache.clear();
+      this.photosRepo.resetPlaces();
+    }
+    this.schedule();
+  }
+
+  private getIndex(): PlaceIndex | null {
+    if (this.index) {
+      return this.index;
+    }
+    const status = this.catalogService.getStatus();
+    if (status.phase !== 'ready') {
+      return null;
+    }
+    const candidates = this.catalogService.listPlaceCandidates(MIN_CITY_POPULATION);
+    if (candidates.length === 0) {
+      return null;
+    }
+    this.index = new PlaceIndex(candidates);
+    this.indexUpdatedAtMs = status.updatedAtMs ?? null;
+    return this.index;
+  }
+
+  private async resolvePending(): Promise<void> {
+    if (this.running) {
+      this.rerun = true;
+      return;
+    }
+    this.running = true;
+    let updated = 0;
+    try {
+      do {
+        this.rerun = false;
+        const index = this.getIndex();
+        if (!index) {
+          break;
+        }
+        let lastId = 0;
+        for (;;) {
+          const subjects = this.photosRepo.getStalePlaceSubjects(lastId, RESOLVE_BATCH_SIZE);
+          if (subjects.length === 0) {
+            break;
+          }
+          lastId = subjects[subjects.length - 1].id;
+          const nearest = subjects.map((subject) => this.findNearest(index, subject));
+          // Names go into the search index with the place, so typing a city or country finds its photos.
+          const labels = this.describe(nearest.flatMap((place) => (place ? [place.cityId] : [])));
+          this.photosRepo.setPlaces(subjects.map((subject, i) => this.assign(subject, nearest[i], labels)));
+          updated += subjects.length;
+          // Let IPC and other jobs through between batches on large libraries.
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+      } while (this.rerun);
+    } finally {
+      this.running = false;
+    }
+
+    if (updated > 0) {
+      this.onPlacesChanged?.();
+      for (const listener of this.listeners) {
+        listener();
+      }
+    }
+  }
+
+  private findNearest(index: PlaceIndex, subject: PlaceSubject): NearestPlace | null {
+    if (subject.lat == null || subject.lng == null) {
+      return null;
+    }
+    return index.nearest(subject.lat, subject.lng, MAX_PLACE_DISTANCE_KM);
+  }
+
+  private assign(
+    subject: PlaceSubject,
+    nearest: NearestPlace | null,
+    labels: Map<string, PlaceLabel>,
+  ): PlaceAssignment {
+    if (subject.lat == null || subject.lng == null) {
+      return { id: subject.id, cityId: null, countryCode: null, lat: null, lng: null, searchText: '' };
+    }
+    const label = nearest ? labels.get(nearest.cityId) : undefined;
+    return {
+      id: subject.id,
+      cityId: nearest?.cityId ?? null,
+      countryCode: nearest?.countryCode ?? null,
+      lat: subject.lat,
+      lng: subject.lng,
+      searchText: label ? toPlaceSearchText(label) : '',
+    };
+  }
+}
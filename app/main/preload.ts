@@ -15,12 +15,23 @@ const api: ElectronApi = {
   index: {
     start: (payload) => ipcRenderer.invoke(IPC_CHANNELS.INDEX_START, payload),
     cancel: (payload) => ipcRenderer.invoke(IPC_CHANNELS.INDEX_CANCEL, payload),
+    pause: (payload) => ipcRenderer.invoke(IPC_CHANNELS.INDEX_PAUSE, payload),
+    resume: (payload) => ipcRenderer.invoke(IPC_CHANNELS.INDEX_RESUME, payload),
+    listJobs: (payload) => ipcRenderer.invoke(IPC_CHANNELS.INDEX_LIST_JOBS, payload),
     status: (jobId) => ipcRenderer.invoke(IPC_CHANNELS.INDEX_STATUS, jobId),
     onProgress: (listener) => {
       const wrapped = (_event: unknown, progress: Parameters<typeof listener>[0]) => listener(progress);
       ipcRenderer.on(IPC_CHANNELS.INDEX_PROGRESS, wrapped);
       return () => ipcRenderer.off(IPC_CHANNELS.INDEX_PROGRESS, wrapped);
     },
+    listErrors: (payload) => ipcRenderer.invoke(IPC_CHANNELS.INDEX_LIST_ERRORS, payload),
+    clearErrors: (payload) => ipcRenderer.invoke(IPC_CHANNELS.INDEX_CLEAR_ERRORS, payload),
+    listQueue: () => ipcRenderer.invoke(IPC_CHANNELS.INDEX_LIST_QUEUE),
+    onQueueChanged: (listener) => {
+      const wrapped = (_event: unknown, queue: Parameters<typeof listener>[0]) => listener(queue);
+      ipcRenderer.on(IPC_CHANNELS.INDEX_QUEUE_CHANGED, wrapped);
+      return () => ipcRenderer.off(IPC_CHANNELS.INDEX_QUEUE_CHANGED, wrapped);
+    },
   },
   geo: {
     getClusters: (payload) => ipcRenderer.invoke(IPC_CHANNELS.GEO_GET_CLUSTERS, payload),
@@ -28,6 +39,48 @@ const api: ElectronApi = {
     getClusterMembers: (payload) => ipcRenderer.invoke(IPC_CHANNELS.GEO_GET_CLUSTER_MEMBERS, payload),
     getTrips: (payload) => ipcRenderer.invoke(IPC_CHANNELS.GEO_GET_TRIPS, payload),
   },
+  clockOffsets: {
+    listCameras: () => ipcRenderer.invoke(IPC_CHANNELS.CLOCK_OFFSETS_LIST_CAMERAS),
+    list: () => ipcRenderer.invoke(IPC_CHANNELS.CLOCK_OFFSETS_LIST),
+    preview: (payload) => ipcRenderer.invoke(IPC_CHANNELS.CLOCK_OFFSETS_PREVIEW, payload),
+    save: (payload) => ipcRenderer.invoke(IPC_CHANNELS.CLOCK_OFFSETS_SAVE, payload),
+    remove: (payload) => ipcRenderer.invoke(IPC_CHANNELS.CLOCK_OFFSETS_REMOVE, payload),
+  },
+  places: {
+    list: (payload) => ipcRenderer.invoke(IPC_CHANNELS.PLACES_LIST, payload),
+    onUpdated: (listener) => {
+      const wrapped = () => listener();
+      ipcRenderer.on(IPC_CHANNELS.PLACES_UPDATED, wrapped);
+      return () => ipcRenderer.off(IPC_CHANNELS.PLACES_UPDATED, wrapped);
+    },
+  },
+  search: {
+    count: (payload) => ipcRenderer.invoke(IPC_CHANNELS.SEARCH_COUNT, payload),
+  },
+  maintenance: {
+    getStatus: () => ipcRenderer.invoke(IPC_CHANNELS.MAINTENANCE_GET_STATUS),
+    run: () => ipcRenderer.invoke(IPC_CHANNELS.MAINTENANCE_RUN),
+  },
+  database: {
+    getStatus: () => ipcRenderer.invoke(IPC_CHANNELS.DATABASE_GET_STATUS),
+    backupNow: () => ipcRenderer.invoke(IPC_CHANNELS.DATABASE_BACKUP_NOW),
+    checkIntegrity: (payload) => ipcRenderer.invoke(IPC_CHANNELS.DATABASE_CHECK_INTEGRITY, payload),
+    restore: (payload) => ipcRenderer.invoke(IPC_CHANNELS.DATABASE_RESTORE, payload),
+  },
+  geotag: {
+    selectTrackFiles: () => ipcRenderer.invoke(IPC_CHANNELS.GEOTAG_SELECT_TRACK_FILES),
+    preview: (payload) => ipcRenderer.invoke(IPC_CHANNELS.GEOTAG_PREVIEW, payload),
+    apply: (payload) => ipcRenderer.invoke(IPC_CHANNELS.GEOTAG_APPLY, payload),
+    clear: (payload) => ipcRenderer.invoke(IPC_CHANNELS.GEOTAG_CLEAR, payload),
+  },
+  location: {
+    set: (payload) => ipcRenderer.invoke(IPC_CHANNELS.LOCATION_SET, payload),
+    revert: (payload) => ipcRenderer.invoke(IPC_CHANNELS.LOCATION_REVERT, payload),
+    restore: (payload) => ipcRenderer.invoke(IPC_CHANNELS.LOCATION_RESTORE, payload),
+  },
+  metadata: {
+    write: (payload) => ipcRenderer.invoke(IPC_CHANNELS.METADATA_WRITE, payload),
+  },
   media: {
     getThumbnail: (payload) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_GET_THUMBNAIL, payload),
     requestPreviewStrip: (payload) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_REQUEST_PREVIEW_STRIP, payload),
@@ -43,6 +96,11 @@ const api: ElectronApi = {
     getHoverPreview: (payload) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_GET_HOVER_PREVIEW, payload),
     getDailyCounts: (payload) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_GET_DAILY_COUNTS, payload),
     getTimelineExtent: (payload) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_GET_TIMELINE_EXTENT, payload),
+    getDuplicateGroups: (payload) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_GET_DUPLICATE_GROUPS, payload),
+    getCacheStats: () => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_GET_CACHE_STATS),
+    findSimilar: (payload) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_FIND_SIMILAR, payload),
+    getSimilarGroups: (payload) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_GET_SIMILAR_GROUPS, payload),
+    hashPending: (payload) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_HASH_PENDING, payload),
     getSource: (payload) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_GET_SOURCE, payload),
     openSource: (payload) => ipcRenderer.invoke(IPC_CHANNELS.MEDIA_OPEN_SOURCE, payload),
   },
@@ -54,6 +112,8 @@ const api: ElectronApi = {
     removeRoot: (payload) => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_REMOVE_ROOT, payload),
     setActiveRoots: (payload) => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_SET_ACTIVE_ROOTS, payload),
     listRoots: () => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_LIST_ROOTS),
+    findMissingRoots: () => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_FIND_MISSING_ROOTS),
+    relocateRoot: (payload) => ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_RELOCATE_ROOT, payload),
   },
   metrics: {
     track: (payload) => ipcRenderer.invoke(IPC_CHANNELS.METRICS_TRACK, payload),
@@ -64,6 +124,8 @@ const api: ElectronApi = {
   },
   cities: {
     ensureCatalog: () => ipcRenderer.invoke(IPC_CHANNELS.CITIES_ENSURE_CATALOG),
+    selectImportFiles: () => ipcRenderer.invoke(IPC_CHANNELS.CITIES_SELECT_IMPORT_FILES),
+    importFromFile: (payload) => ipcRenderer.invoke(IPC_CHANNELS.CITIES_IMPORT_FROM_FILE, payload),
     getContinents: () => ipcRenderer.invoke(IPC_CHANNELS.CITIES_GET_CONTINENTS),
     getCountries: (payload) => ipcRenderer.invoke(IPC_CHANNELS.CITIES_GET_COUNTRIES, payload),
     getCities: (payload) => ipcRenderer.invoke(IPC_CHANNELS.CITIES_GET_CITIES, payload),
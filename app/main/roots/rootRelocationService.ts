@@ -0,0 +1,183 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type Database from 'better-sqlite3';
+
+import type { PhotosRepository, RootSampleFile } from '@main/db/repositories/photosRepo';
+import type { RootsRepository } from '@main/db/repositories/rootsRepo';
+import type { SettingsRepository } from '@main/db/repositories/settingsRepo';
+import type { IndexCoordinator } from '@main/indexer/indexCoordinator';
+import type { ThumbnailService } from '@main/thumbs/thumbService';
+import type { MissingRootItem, RootRelocationCandidate, RootRelocationResult } from '@shared/types/ipc';
+import type { AppSettings } from '@shared/types/settings';
+import { normalizeFsPath } from '@shared/utils/path';
+
+const SAMPLE_SIZE = 24;
+// Some files may have been edited or removed since the last scan; most of the sample must still match.
+const MIN_MATCH_RATIO = 0.8;
+const DRIVE_LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+// Where removable drives and network shares mount; `*` stands for any one folder (usually the user name).
+const MOUNT_PARENTS: string[][] = [['Volumes'], ['media', '*'], ['media'], ['run', 'media', '*'], ['mnt']];
+
+function isSameOrInside(parentPath: string, childPath: string): boolean {
+  const relativePath = path.relative(parentPath, childPath);
+  return relativePath === '' || (!relativePath.startsWith('..') && !path.isAbsolute(relativePath));
+}
+
+async function isDirectory(dirPath: string): Promise<boolean> {
+  const stat = await fs.stat(dirPath).catch(() => null);
+  return stat?.isDirectory() ?? false;
+}
+
+async function listSubdirectories(dirPath: string): Promise<string[]> {
+  const entries = await fs.readdir(dirPath, { withFileTypes: true }).catch(() => []);
+  return entries.filter((entry) => entry.isDirectory()).map((entry) => path.join(dirPath, entry.name));
+}
+
+/** The same folder on every other drive letter, e.g. `e:\photos` for `d:\photos`. */
+function driveLetterCandidates(rootPath: string): string[] {
+  const match = /^([a-z]):(.*)$/i.exec(rootPath);
+  if (!match) {
+    return [];
+  }
+  const [, letter, rest] = match;
+  return Array.from(DRIVE_LETTERS)
+    .filter((item) => item !== letter.toLowerCase())
+    .map((item) => `${item}:${rest}`);
+}
+
+/** The same path below every other mounted volume, e.g. `/Volumes/Backup 2/photos` for `/Volumes/Backup/photos`. */
+async function mountCandidates(rootPath: string): Promise<string[]> {
+  const segments = rootPath.split(path.sep).filter((segment) => segment.length > 0);
+  const candidates: string[] = [];
+  for (const parent of MOUNT_PARENTS) {
+    if (segments.length <= parent.length) {
+      continue;
+    }
+    if (!parent.every((segment, index) => segment === '*' || segment === segments[index])) {
+      continue;
+    }
+    let mountParents: string[] = [path.sep];
+    for (const segment of parent) {
+      mountParents =
+        segment === '*'
+          ? (await Promise.all(mountParents.map(listSubdirectories))).flat()
+          : mountParents.map((item) => path.join(item, segment));
+    }
+    const rest = segments.slice(parent.length + 1);
+    const mounts = (await Promise.all(mountParents.map(listSubdirectories))).flat();
+    candidates.push(...mounts.map((mount) => path.join(mount, ...rest)));
+  }
+  return candidates;
+}
+
+/**
+ * Moves a root whose files now live under another path: a drive that mounts under a new letter or
+ * volume name, or a renamed share. Photo ids stay, so locations, stacks and thumbnails are kept.
+ */
+export class RootRelocationService {
+  constructor(
+    private readonly db: Database.Database,
+    private readonly rootsRepo: RootsRepository,
+    private readonly photosRepo: PhotosRepository,
+    private readonly settingsRepo: SettingsRepository,
+    private readonly indexCoordinator: IndexCoordinator,
+    private readonly thumbnailService: ThumbnailService,
+    private readonly onDataChanged?: () => void,
+  ) {}
+
+  /** Roots whose folder is gone, each with the folders elsewhere that hold the same files. */
+  async findMissingRoots(): Promise<MissingRootItem[]> {
+    const missing: MissingRootItem[] = [];
+    const roots = this.rootsRepo.listAll();
+    for (const root of roots) {
+      if (await isDirectory(root.path)) {
+        continue;
+      }
+      const sample = this.photosRepo.getRootSample(root.id, SAMPLE_SIZE);
+      const otherRoots = roots.filter((item) => item.id !== root.id).map((item) => item.path);
+      const candidates: RootRelocationCandidate[] = [];
+      for (const candidatePath of await this.listCandidatePaths(root.path)) {
+        if (otherRoots.some((item) => isSameOrInside(item, candidatePath) || isSameOrInside(candidatePath, item))) {
+          continue;
+        }
+        if (!(await isDirectory(candidatePath))) {
+          continue;
+        }
+        const matched = await this.countMatches(root.path, candidatePath, sample);
+        if (sample.length > 0 && matched >= Math.ceil(sample.length * MIN_MATCH_RATIO)) {
+          candidates.push({ path: candidatePath, sampled: sample.length, matched });
+        }
+      }
+      missing.push({ rootId: root.id, path: root.path, candidates });
+    }
+    return missing;
+  }
+
+  async relocate(rootId: number, targetPath: string): Promise<RootRelocationResult> {
+    const root = this.rootsRepo.findById(rootId);
+    if (!root) {
+      throw new Error(`Root not found: ${rootId}`);
+    }
+    const toPath = normalizeFsPath(path.resolve(targetPath));
+    if (toPath === root.path) {
+      throw new Error('The root is already at this folder');
+    }
+    if (!(await isDirectory(toPath))) {
+      throw new Error(`Folder not found: ${toPath}`);
+    }
+    const overlapping = this.rootsRepo
+      .listAll()
+      .find((item) => item.id !== root.id && (isSameOrInside(item.path, toPath) || isSameOrInside(toPath, item.path)));
+    if (overlapping) {
+      throw new Error(`The folder overlaps another root: ${overlapping.path}`);
+    }
+    if (this.indexCoordinator.hasPendingWork(root.path)) {
+      throw new Error('Finish or cancel indexing of this root before relocating it');
+    }
+    const sample = this.photosRepo.getRootSample(root.id, SAMPLE_SIZE);
+    if (sample.length > 0 && (await this.countMatches(root.path, toPath, sample)) === 0) {
+      throw new Error('None of the sampled photos were found in the new folder');
+    }
+
+    const relocated = this.db.transaction(() => {
+      this.rootsRepo.updatePath(root.id, toPath);
+      return this.photosRepo.relocateRoot(root.id, root.path, toPath);
+    })();
+    const settings = this.relocateSettings(root.path, toPath);
+    this.onDataChanged?.();
+    // Cache files are named after the source path; they move in the background and regenerate if lost.
+    void this.thumbnailService.relocateCachedMedia(relocated).catch((error: unknown) => {
+      console.error(`[roots] thumbnail relocation failed: ${error instanceof Error ? error.message : String(error)}`);
+    });
+    return { rootId: root.id, fromPath: root.path, toPath, relocatedCount: relocated.length, settings };
+  }
+
+  private relocateSettings(fromPath: string, toPath: string): AppSettings {
+    const current = this.settingsRepo.getSettings();
+    const rootIgnorePatterns = { ...current.rootIgnorePatterns };
+    if (rootIgnorePatterns[fromPath]) {
+      rootIgnorePatterns[toPath] = rootIgnorePatterns[fromPath];
+      delete rootIgnorePatterns[fromPath];
+    }
+    return this.settingsRepo.setSettings({
+      recentRoots: Array.from(new Set(current.recentRoots.map((item) => (item === fromPath ? toPath : item)))),
+      rootIgnorePatterns,
+    });
+  }
+
+  private async listCandidatePaths(rootPath: string): Promise<string[]> {
+    const candidates = process.platform === 'win32' ? driveLetterCandidates(rootPath) : await mountCandidates(rootPath);
+    return Array.from(new Set(candidates.map(normalizeFsPath))).filter((item) => item !== rootPath);
+  }
+
+  private async countMatches(fromRoot: string, toRoot: string, sample: RootSampleFile[]): Promise<number> {
+    let matched = 0;
+    for (const file of sample) {
+      const stat = await fs.stat(path.join(toRoot, path.relative(fromRoot, file.path))).catch(() => null);
+      if (stat?.isFile() && stat.size === file.sizeBytes) {
+        matched += 1;
+      }
+    }
+    return matched;
+  }
+}
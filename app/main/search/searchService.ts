@@ -0,0 +1,60 @@
+import type { PhotosRepository, SearchBackfillItem } from '@main/db/repositories/photosRepo';
+import { toPlaceSearchText, type PlaceService } from '@main/places/placeService';
+import type { SearchCount } from '@shared/types/ipc';
+import type { Filters } from '@shared/types/settings';
+
+const BACKFILL_BATCH_SIZE = 2_000;
+
+/**
+ * Text search over the `photo_search` FTS index. The repository keeps documents current as files
+ * are indexed; this fills in libraries indexed before search existed and answers the live counts.
+ */
+export class SearchService {
+  constructor(
+    private readonly photosRepo: PhotosRepository,
+    private readonly placeService: PlaceService,
+    private readonly onIndexChanged?: () => void,
+  ) {}
+
+  start(): void {
+    this.backfill().catch((error: unknown) => {
+      console.error(`[search] ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+
+  count(filters: Filters): SearchCount {
+    return this.photosRepo.countMatches(filters);
+  }
+
+  private async backfill(): Promise<void> {
+    let changed = this.photosRepo.pruneSearchDocuments();
+    for (;;) {
+      const added = this.photosRepo.indexMissingSearchDocuments(BACKFILL_BATCH_SIZE);
+      if (added.length === 0) {
+        break;
+      }
+      this.addPlaceNames(added);
+      changed += added.length;
+      // Let IPC and other jobs through between batches on large libraries.
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    if (changed > 0) {
+      this.onIndexChanged?.();
+    }
+  }
+
+  // Photos placed before search existed keep their place; only its names are missing from the document.
+  private addPlaceNames(items: SearchBackfillItem[]): void {
+    const cityIds = items.flatMap((item) => (item.placeCityId ? [item.placeCityId] : []));
+    if (cityIds.length === 0) {
+      return;
+    }
+    const labels = this.placeService.describe(cityIds);
+    this.photosRepo.setSearchPlaces(
+      items.flatMap((item) => {
+        const label = item.placeCityId ? labels.get(item.placeCityId) : undefined;
+        return label ? [{ id: item.id, searchText: toPlaceSearchText(label) }] : [];
+      }),
+    );
+  }
+}
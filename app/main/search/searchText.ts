@@ -0,0 +1,48 @@
+import path from 'node:path';
+
+export interface SearchSource {
+  path: string;
+  rootPath: string | null;
+  cameraMake: string | null;
+  cameraModel: string | null;
+  lensModel: string | null;
+}
+
+export interface SearchDocument {
+  fileName: string;
+  folders: string;
+  camera: string;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]/u;
+
+/** Columns of a photo's `photo_search` row, except the place names written by the place lookup. */
+export function buildSearchDocument(source: SearchSource): SearchDocument {
+  const directory = path.dirname(source.path);
+  const segments: string[] = [];
+  if (source.rootPath && (directory === source.rootPath || directory.startsWith(`${source.rootPath}${path.sep}`))) {
+    // Folders under the root plus the root's own name; the drive and parent folders match everything.
+    segments.push(path.basename(source.rootPath), ...path.relative(source.rootPath, directory).split(path.sep));
+  } else {
+    segments.push(...directory.split(/[\\/]/));
+  }
+  return {
+    fileName: path.basename(source.path),
+    folders: segments.filter((segment) => segment.length > 0).join(' '),
+    camera: [source.cameraMake, source.cameraModel, source.lensModel].filter(Boolean).join(' '),
+  };
+}
+
+/**
+ * FTS5 query for free text typed into the search box: every word must match as a prefix, in any
+ * column. Words are quoted so FTS syntax characters are searched for literally. Null when the
+ * text has nothing searchable.
+ */
+export function toFtsQuery(text: string): string | null {
+  const terms = text
+    .split(/\s+/)
+    .map((word) => word.replace(/"/g, ''))
+    .filter((word) => WORD_PATTERN.test(word))
+    .map((word) => `"${word}"*`);
+  return terms.length > 0 ? terms.join(' ') : null;
+}
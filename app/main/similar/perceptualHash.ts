@@ -0,0 +1,61 @@
+import sharp from 'sharp';
+
+export interface ParsedHash {
+  hi: number;
+  lo: number;
+}
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * 64-bit difference hash: the image shrunk to 9x8 grey pixels, one bit per horizontal neighbour
+ * pair (set when the left pixel is brighter). Robust to scaling, re-compression and small edits.
+ */
+export async function computeDifferenceHash(imagePath: string): Promise<string> {
+  const pixels = await sharp(imagePath)
+    .greyscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+  let hi = 0;
+  let lo = 0;
+  for (let y = 0; y < HASH_HEIGHT; y += 1) {
+    for (let x = 0; x < HASH_WIDTH - 1; x += 1) {
+      const bit = pixels[y * HASH_WIDTH + x] > pixels[y * HASH_WIDTH + x + 1] ? 1 : 0;
+      if (y < HASH_HEIGHT / 2) {
+        hi = ((hi << 1) | bit) >>> 0;
+      } else {
+        lo = ((lo << 1) | bit) >>> 0;
+      }
+    }
+  }
+  return `${hi.toString(16).padStart(8, '0')}${lo.toString(16).padStart(8, '0')}`;
+}
+
+export function parseHash(hex: string): ParsedHash | null {
+  if (!/^[0-9a-f]{16}$/i.test(hex)) {
+    return null;
+  }
+  return { hi: Number.parseInt(hex.slice(0, 8), 16), lo: Number.parseInt(hex.slice(8), 16) };
+}
+
+function popcount32(value: number): number {
+  let x = value - ((value >>> 1) & 0x55555555);
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  return Math.imul((x + (x >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
+
+export function hammingDistance(a: ParsedHash, b: ParsedHash): number {
+  return popcount32((a.hi ^ b.hi) >>> 0) + popcount32((a.lo ^ b.lo) >>> 0);
+}
+
+/** Bits `start` to `start + length` (from the most significant end, length at most 32) as a number. */
+export function hashBits(hash: ParsedHash, start: number, length: number): number {
+  let value = 0;
+  for (let bit = start; bit < start + length; bit += 1) {
+    const word = bit < 32 ? hash.hi : hash.lo;
+    value = value * 2 + ((word >>> (31 - (bit % 32))) & 1);
+  }
+  return value;
+}
@@ -0,0 +1,289 @@
+import type { PhotosRepository } from '@main/db/repositories/photosRepo';
+import type { ThumbnailService } from '@main/thumbs/thumbService';
+import type {
+  PerceptualHashProgress,
+  SimilarGroupItem,
+  SimilarGroupsResult,
+  SimilarMemberItem,
+} from '@shared/types/ipc';
+
+import type { ParsedHash } from './perceptualHash';
+import { computeDifferenceHash, hammingDistance, hashBits, parseHash } from './perceptualHash';
+
+// Up to about 10 differing bits, dHashes of the same scene still match; past that, unrelated photos creep in.
+const DEFAULT_FIND_DISTANCE = 10;
+const MAX_FIND_DISTANCE = 24;
+const DEFAULT_FIND_LIMIT = 50;
+const MAX_FIND_LIMIT = 500;
+// Groups chain pairs together, so they use a tighter default than single lookups.
+const DEFAULT_GROUP_DISTANCE = 6;
+const MAX_GROUP_DISTANCE = 8;
+const DEFAULT_GROUP_LIMIT = 100;
+const MAX_GROUP_LIMIT = 500;
+const DEFAULT_HASH_BATCH = 100;
+const MAX_HASH_BATCH = 1_000;
+const HASH_CONCURRENCY = 4;
+// Background hashing leaves startup and scans to thumbnails the user is looking at.
+const BACKGROUND_DELAY_MS = 30_000;
+const BACKGROUND_RETRY_MS = 60_000;
+// Grouping lets IPC through after this many hash comparisons, so a large bucket cannot stall the app.
+const COMPARISONS_PER_YIELD = 50_000;
+
+interface HashedPhoto {
+  id: number;
+  hash: ParsedHash;
+}
+
+function clampInt(value: number | undefined, fallback: number, min: number, max: number): number {
+  const parsed = typeof value === 'number' && Number.isFinite(value) ? Math.trunc(value) : fallback;
+  return Math.max(min, Math.min(max, parsed));
+}
+
+class UnionFind {
+  private readonly parent: Int32Array;
+
+  constructor(size: number) {
+    this.parent = new Int32Array(size).map((_, index) => index);
+  }
+
+  find(index: number): number {
+    let root = index;
+    while (this.parent[root] !== root) {
+      root = this.parent[root];
+    }
+    let current = index;
+    while (this.parent[current] !== root) {
+      const next = this.parent[current];
+      this.parent[current] = root;
+      current = next;
+    }
+    return root;
+  }
+
+  union(a: number, b: number): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) {
+      // Keep the lower index (lower photo id) as the root so group ids are stable.
+      this.parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+    }
+  }
+}
+
+/**
+ * Visually similar photos (bursts, re-edited exports) by perceptual hash. Hashes come from the
+ * 64px thumbnails ThumbnailService already caches; hashing runs in the background while nothing
+ * is indexing, and in batches the renderer asks for.
+ */
+export class SimilarityService {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private hashQueue: Promise<unknown> = Promise.resolve();
+  private disposed = false;
+
+  constructor(
+    private readonly photosRepo: PhotosRepository,
+    private readonly thumbnailService: ThumbnailService,
+    private readonly isIndexing: () => boolean,
+  ) {}
+
+  /** Starts hashing photos that have no hash yet once startup has settled. */
+  start(): void {
+    this.schedule();
+  }
+
+  /** Queues a background pass over photos without a hash, e.g. after a scan added some. */
+  schedule(delayMs = BACKGROUND_DELAY_MS): void {
+    if (this.timer || this.disposed) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.hashInBackground().catch((error: unknown) => {
+        console.error(`[similar] ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }, delayMs);
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  findSimilar(payload: { photoId: number; maxDistance?: number; limit?: number }): SimilarMemberItem[] {
+    const maxDistance = clampInt(payload.maxDistance, DEFAULT_FIND_DISTANCE, 0, MAX_FIND_DISTANCE);
+    const limit = clampInt(payload.limit, DEFAULT_FIND_LIMIT, 1, MAX_FIND_LIMIT);
+    const photos = this.loadHashes();
+    const target = photos.find((photo) => photo.id === payload.photoId);
+    if (!target) {
+      return [];
+    }
+
+    const matches: Array<{ id: number; distance: number }> = [];
+    for (const photo of photos) {
+      if (photo.id === target.id) {
+        continue;
+      }
+      const distance = hammingDistance(target.hash, photo.hash);
+      if (distance <= maxDistance) {
+        matches.push({ id: photo.id, distance });
+      }
+    }
+    matches.sort((a, b) => a.distance - b.distance || a.id - b.id);
+    const kept = matches.slice(0, limit);
+    const distanceById = new Map(kept.map((match) => [match.id, match.distance]));
+    return this.photosRepo
+      .getSimilarMembers(kept.map((match) => match.id))
+      .map((member) => ({ ...member, distance: distanceById.get(member.photoId) ?? 0 }));
+  }
+
+  async getSimilarGroups(payload: { maxDistance?: number; limit?: number }): Promise<SimilarGroupsResult> {
+    const maxDistance = clampInt(payload.maxDistance, DEFAULT_GROUP_DISTANCE, 0, MAX_GROUP_DISTANCE);
+    const limit = clampInt(payload.limit, DEFAULT_GROUP_LIMIT, 1, MAX_GROUP_LIMIT);
+    const photos = this.loadHashes();
+    const sets = new UnionFind(photos.length);
+
+    // Split the 64 bits into maxDistance + 1 chunks: two hashes within maxDistance bits agree
+    // exactly on at least one chunk, so only photos sharing a chunk value need comparing.
+    const chunkCount = maxDistance + 1;
+    let comparisons = 0;
+    for (let chunk = 0; chunk < chunkCount; chunk += 1) {
+      const start = Math.floor((chunk * 64) / chunkCount);
+      const length = Math.floor(((chunk + 1) * 64) / chunkCount) - start;
+      const buckets = new Map<number, number[]>();
+      photos.forEach((photo, index) => {
+        const key = hashBits(photo.hash, start, length);
+        const bucket = buckets.get(key);
+        if (bucket) {
+          bucket.push(index);
+        } else {
+          buckets.set(key, [index]);
+        }
+      });
+      for (const bucket of buckets.values()) {
+        for (let i = 0; i < bucket.length; i += 1) {
+          for (let j = i + 1; j < bucket.length; j += 1) {
+            if (hammingDistance(photos[bucket[i]].hash, photos[bucket[j]].hash) <= maxDistance) {
+              sets.union(bucket[i], bucket[j]);
+            }
+            comparisons += 1;
+            if (comparisons % COMPARISONS_PER_YIELD === 0) {
+              await new Promise((resolve) => setImmediate(resolve));
+            }
+          }
+        }
+      }
+      // Let IPC through between passes on large libraries.
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    const membersByRoot = new Map<number, number[]>();
+    photos.forEach((_, index) => {
+      const root = sets.find(index);
+      const members = membersByRoot.get(root);
+      if (members) {
+        members.push(index);
+      } else {
+        membersByRoot.set(root, [index]);
+      }
+    });
+    const components = Array.from(membersByRoot.entries())
+      .filter(([, members]) => members.length > 1)
+      .sort((a, b) => b[1].length - a[1].length || a[0] - b[0])
+      .slice(0, limit);
+
+    const memberRows = new Map(
+      this.photosRepo
+        .getSimilarMembers(components.flatMap(([, members]) => members.map((index) => photos[index].id)))
+        .map((row) => [row.photoId, row]),
+    );
+    const groups: SimilarGroupItem[] = components.map(([root, members]) => {
+      const first = photos[root];
+      const rows = members
+        .map((index) => {
+          const row = memberRows.get(photos[index].id);
+          return row ? { ...row, distance: hammingDistance(first.hash, photos[index].hash) } : null;
+        })
+        .filter((row): row is SimilarMemberItem => Boolean(row))
+        .sort((a, b) => (a.takenAtMs ?? Infinity) - (b.takenAtMs ?? Infinity) || a.photoId - b.photoId);
+      return { groupId: first.id, count: rows.length, members: rows };
+    });
+
+    return {
+      groups,
+      hashedCount: photos.length,
+      pendingCount: this.photosRepo.countPerceptualHashPending(),
+    };
+  }
+
+  /**
+   * Hashes up to `limit` photos that have none, generating their 64px thumbnail if needed. Batches
+   * from the background pass and the renderer take turns so no photo is hashed twice.
+   */
+  hashPending(payload: { limit?: number }): Promise<PerceptualHashProgress> {
+    const batch = this.hashQueue.then(() => this.hashBatch(payload));
+    this.hashQueue = batch.catch(() => undefined);
+    return batch;
+  }
+
+  private async hashInBackground(): Promise<void> {
+    let lastPending = Number.POSITIVE_INFINITY;
+    while (!this.disposed) {
+      if (this.isIndexing()) {
+        // Scans need the thumbnail workers more; come back once they are done.
+        this.schedule(BACKGROUND_RETRY_MS);
+        return;
+      }
+      const progress = await this.hashPending({ limit: DEFAULT_HASH_BATCH });
+      // Failures are recorded and skipped, so pending shrinks with every batch; stop rather than spin if not.
+      if (progress.hashed + progress.failed === 0 || progress.pending >= lastPending) {
+        return;
+      }
+      lastPending = progress.pending;
+    }
+  }
+
+  private async hashBatch(payload: { limit?: number }): Promise<PerceptualHashProgress> {
+    const limit = clampInt(payload.limit, DEFAULT_HASH_BATCH, 1, MAX_HASH_BATCH);
+    const queue = this.photosRepo.getPerceptualHashTargets(limit);
+    let hashed = 0;
+    let failed = 0;
+
+    const worker = async () => {
+      for (let photoId = queue.shift(); photoId !== undefined; photoId = queue.shift()) {
+        try {
+          const thumbnail = await this.thumbnailService.getThumbnail(photoId, 64, 'low');
+          if (this.thumbnailService.isPlaceholderPath(thumbnail.path)) {
+            // Without a real thumbnail there is nothing to hash until the file changes.
+            this.photosRepo.setPerceptualHashFailed(photoId);
+            failed += 1;
+            continue;
+          }
+          this.photosRepo.setPerceptualHash(photoId, await computeDifferenceHash(thumbnail.path));
+          hashed += 1;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`[similar] perceptual hash failed for photo ${photoId}: ${message}`);
+          this.photosRepo.setPerceptualHashFailed(photoId);
+          failed += 1;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: HASH_CONCURRENCY }, () => worker()));
+
+    return { hashed, failed, pending: this.photosRepo.countPerceptualHashPending() };
+  }
+
+  private loadHashes(): HashedPhoto[] {
+    const photos: HashedPhoto[] = [];
+    for (const row of this.photosRepo.getPerceptualHashes()) {
+      const hash = parseHash(row.hash);
+      if (hash) {
+        photos.push({ id: row.id, hash });
+      }
+    }
+    return photos;
+  }
+}
@@ -0,0 +1,305 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import type { SettingsRepository } from '@main/db/repositories/settingsRepo';
+import type { ThumbnailCacheEntry, ThumbnailCacheRepository } from '@main/db/repositories/thumbnailCacheRepo';
+import type { ThumbnailCacheStats } from '@shared/types/ipc';
+import { THUMBNAIL_CACHE_CLASSES, type ThumbnailCacheClass } from '@shared/types/settings';
+
+const MB = 1024 * 1024;
+const FLUSH_DELAY_MS = 5_000;
+const EVICTION_INTERVAL_MS = 10 * 60 * 1000;
+const EVICTION_SOON_DELAY_MS = 2_000;
+// Anything used this recently may still be on screen, so it is never evicted.
+const PIN_WINDOW_MS = 10 * 60 * 1000;
+// Evicting down to a bit under the budget keeps every new thumbnail from triggering another pass.
+const EVICTION_TARGET_RATIO = 0.9;
+const EVICTION_BATCH_SIZE = 200;
+const SCAN_BATCH_SIZE = 500;
+const SIZE_CLASSES = new Set<string>(['64', '128', '256', '512']);
+
+interface PendingAccess {
+  cacheClass: ThumbnailCacheClass;
+  lastAccessMs: number;
+  // The file was (re)written, so its size has to be read again.
+  written: boolean;
+}
+
+/** Cache class of a file under `thumbs/`: its size directory, or `hover` for `hover/<width>/`. */
+export function getCacheClass(thumbsRoot: string, filePath: string): ThumbnailCacheClass | null {
+  const parts = path.relative(thumbsRoot, filePath).split(path.sep);
+  if (parts.length === 2 && SIZE_CLASSES.has(parts[0])) {
+    return parts[0] as ThumbnailCacheClass;
+  }
+  if (parts.length === 3 && parts[0] === 'hover') {
+    return 'hover';
+  }
+  return null;
+}
+
+/**
+ * Disk budget for the thumbnail cache. Records which cached files are used and when, and evicts
+ * the least recently used ones of a class once it is over its budget. Files the thumbnail service
+ * still holds in memory, or that were used within the last few minutes, are never evicted.
+ */
+export class ThumbnailCacheBudget {
+  private readonly pending = new Map<string, PendingAccess>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private evictionTimer: ReturnType<typeof setTimeout> | null = null;
+  private evicting = false;
+  private scanning = false;
+  private disposed = false;
+  private evictedFiles = 0;
+  private evictedBytes = 0;
+  private lastEvictionAtMs: number | null = null;
+
+  constructor(
+    private readonly cacheRepo: ThumbnailCacheRepository,
+    private readonly settingsRepo: SettingsRepository,
+    private readonly thumbsRoot: string,
+    private readonly getPinnedPaths: () => Set<string>,
+  ) {}
+
+  /** Counts cached files that are not tracked yet, then evicts on a timer. */
+  start(): void {
+    this.scanning = true;
+    this.scanUntracked()
+      .catch((error: unknown) => {
+        console.error(`[thumbs] cache scan failed: ${error instanceof Error ? error.message : String(error)}`);
+      })
+      .finally(() => {
+        this.scanning = false;
+        this.evictSoon();
+      });
+    this.scheduleEviction(EVICTION_INTERVAL_MS);
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.evictionTimer) {
+      clearTimeout(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+  }
+
+  recordAccess(filePath: string, written: boolean): void {
+    const cacheClass = getCacheClass(this.thumbsRoot, filePath);
+    if (!cacheClass) {
+      return;
+    }
+    const previous = this.pending.get(filePath);
+    this.pending.set(filePath, {
+      cacheClass,
+      lastAccessMs: Date.now(),
+      written: written || Boolean(previous?.written),
+    });
+    if (!this.flushTimer && !this.disposed) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush().catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`[thumbs] cache usage flush failed: ${message}`);
+        });
+      }, FLUSH_DELAY_MS);
+    }
+  }
+
+  recordMove(fromPath: string, toPath: string): void {
+    const access = this.pending.get(fromPath);
+    if (access) {
+      this.pending.delete(fromPath);
+      this.pending.set(toPath, access);
+    }
+    this.cacheRepo.rename(fromPath, toPath);
+  }
+
+  recordDeleted(filePaths: string[]): void {
+    for (const filePath of filePaths) {
+      this.pending.delete(filePath);
+    }
+    this.cacheRepo.deleteMany(filePaths);
+  }
+
+  /** Runs an eviction pass shortly, e.g. after a budget was lowered. */
+  evictSoon(): void {
+    this.scheduleEviction(EVICTION_SOON_DELAY_MS);
+  }
+
+  getStats(): ThumbnailCacheStats {
+    const budgetsMb = this.settingsRepo.getSettings().thumbnailCache.budgetsMb;
+    const usage = new Map(this.cacheRepo.getUsage().map((row) => [row.cacheClass, row]));
+    const classes = THUMBNAIL_CACHE_CLASSES.map((cacheClass) => ({
+      cacheClass,
+      fileCount: usage.get(cacheClass)?.fileCount ?? 0,
+      usedBytes: usage.get(cacheClass)?.usedBytes ?? 0,
+      budgetBytes: budgetsMb[cacheClass] > 0 ? budgetsMb[cacheClass] * MB : null,
+    }));
+    return {
+      classes,
+      totalBytes: classes.reduce((acc, item) => acc + item.usedBytes, 0),
+      evictedFiles: this.evictedFiles,
+      evictedBytes: this.evictedBytes,
+      lastEvictionAtMs: this.lastEvictionAtMs,
+      scanning: this.scanning,
+    };
+  }
+
+  private async flush(): Promise<void> {
+    const accesses = Array.from(this.pending.entries());
+    this.pending.clear();
+    const touched: Array<{ path: string; lastAccessMs: number }> = [];
+    const written: ThumbnailCacheEntry[] = [];
+    for (const [filePath, access] of accesses) {
+      if (!access.written && this.cacheRepo.has(filePath)) {
+        touched.push({ path: filePath, lastAccessMs: access.lastAccessMs });
+        continue;
+      }
+      try {
+        const stat = await fs.stat(filePath);
+        written.push({
+          path: filePath,
+          cacheClass: access.cacheClass,
+          sizeBytes: stat.size,
+          lastAccessMs: access.lastAccessMs,
+        });
+      } catch {
+        // Gone again before it could be counted.
+      }
+    }
+    if (this.disposed) {
+      return;
+    }
+    this.cacheRepo.touchMany(touched);
+    this.cacheRepo.upsertMany(written);
+    if (written.length > 0) {
+      await this.evict();
+    }
+  }
+
+  private scheduleEviction(delayMs: number): void {
+    if (this.disposed) {
+      return;
+    }
+    if (this.evictionTimer) {
+      clearTimeout(this.evictionTimer);
+    }
+    this.evictionTimer = setTimeout(() => {
+      this.evictionTimer = null;
+      void this.evict().finally(() => this.scheduleEviction(EVICTION_INTERVAL_MS));
+    }, delayMs);
+  }
+
+  private async evict(): Promise<void> {
+    if (this.evicting || this.disposed) {
+      return;
+    }
+    this.evicting = true;
+    try {
+      const budgetsMb = this.settingsRepo.getSettings().thumbnailCache.budgetsMb;
+      const usage = new Map(this.cacheRepo.getUsage().map((row) => [row.cacheClass, row.usedBytes]));
+      const accessedBeforeMs = Date.now() - PIN_WINDOW_MS;
+      for (const cacheClass of THUMBNAIL_CACHE_CLASSES) {
+        const budgetBytes = budgetsMb[cacheClass] * MB;
+        let usedBytes = usage.get(cacheClass) ?? 0;
+        if (budgetBytes <= 0 || usedBytes <= budgetBytes) {
+          continue;
+        }
+        const targetBytes = budgetBytes * EVICTION_TARGET_RATIO;
+        const pinned = new Set([...this.getPinnedPaths(), ...this.pending.keys()]);
+        let cursor: ThumbnailCacheEntry | null = null;
+        while (usedBytes > targetBytes && !this.disposed) {
+          const candidates = this.cacheRepo.getEvictionCandidates(
+            cacheClass,
+            accessedBeforeMs,
+            cursor,
+            EVICTION_BATCH_SIZE,
+          );
+          if (candidates.length === 0) {
+            break;
+          }
+          cursor = candidates[candidates.length - 1];
+          const removed: string[] = [];
+          for (const candidate of candidates) {
+            if (usedBytes <= targetBytes) {
+              break;
+            }
+            if (pinned.has(candidate.path)) {
+              continue;
+            }
+            try {
+              await fs.unlink(candidate.path);
+              this.evictedFiles += 1;
+              this.evictedBytes += candidate.sizeBytes;
+            } catch (error) {
+              if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                continue;
+              }
+            }
+            removed.push(candidate.path);
+            usedBytes -= candidate.sizeBytes;
+          }
+          this.cacheRepo.deleteMany(removed);
+          if (removed.length > 0) {
+            this.lastEvictionAtMs = Date.now();
+          }
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+      }
+    } catch (error) {
+      console.error(`[thumbs] cache eviction failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.evicting = false;
+    }
+  }
+
+  /**
+   * Adds files on disk without a row: everything cached before tracking existed, or written just
+   * before a crash. Their modification time stands in for last use.
+   */
+  private async scanUntracked(): Promise<void> {
+    const directories: Array<{ directory: string; cacheClass: ThumbnailCacheClass }> = [];
+    for (const cacheClass of THUMBNAIL_CACHE_CLASSES) {
+      if (cacheClass !== 'hover') {
+        directories.push({ directory: path.join(this.thumbsRoot, cacheClass), cacheClass });
+        continue;
+      }
+      const hoverRoot = path.join(this.thumbsRoot, 'hover');
+      const widths = await fs.readdir(hoverRoot, { withFileTypes: true }).catch(() => []);
+      for (const width of widths) {
+        if (width.isDirectory()) {
+          directories.push({ directory: path.join(hoverRoot, width.name), cacheClass });
+        }
+      }
+    }
+
+    for (const { directory, cacheClass } of directories) {
+      const files = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+      let batch: ThumbnailCacheEntry[] = [];
+      for (const [index, file] of files.entries()) {
+        if (this.disposed) {
+          return;
+        }
+        if (index % SCAN_BATCH_SIZE === SCAN_BATCH_SIZE - 1) {
+          this.cacheRepo.upsertMany(batch);
+          batch = [];
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+        const filePath = path.join(directory, file.name);
+        if (!file.isFile() || this.cacheRepo.has(filePath)) {
+          continue;
+        }
+        try {
+          const stat = await fs.stat(filePath);
+          batch.push({ path: filePath, cacheClass, sizeBytes: stat.size, lastAccessMs: Math.trunc(stat.mtimeMs) });
+        } catch {
+          // Removed while scanning.
+        }
+      }
+      this.cacheRepo.upsertMany(batch);
+    }
+  }
+}
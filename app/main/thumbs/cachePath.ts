@@ -6,25 +6,32 @@ import { sha1 } from '@shared/utils/hash';
 const PHOTO_THUMB_CACHE_VERSION = 'p2';
 const VIDEO_THUMB_CACHE_VERSION = 'v4';
 
+/** File name a source's thumbnails are cached under in every `thumbs/<size>/` directory. */
+export function getThumbnailFileName(sourcePath: string, mediaType: 'photo' | 'video' = 'photo'): string {
+  const version = mediaType === 'video' ? VIDEO_THUMB_CACHE_VERSION : PHOTO_THUMB_CACHE_VERSION;
+  return `${sha1(`${version}:${sourcePath}`)}.jpg`;
+}
+
+/** Unversioned key that hover previews and placeholders are cached under. */
+export function getSourceCacheKey(sourcePath: string): string {
+  return sha1(sourcePath);
+}
+
 export function getThumbnailPath(
   cacheRoot: string,
   sourcePath: string,
   size: number,
   mediaType: 'photo' | 'video' = 'photo',
 ): string {
-  const version = mediaType === 'video' ? VIDEO_THUMB_CACHE_VERSION : PHOTO_THUMB_CACHE_VERSION;
-  const hash = sha1(`${version}:${sourcePath}`);
-  return path.join(cacheRoot, 'thumbs', String(size), `${hash}.jpg`);
+  return path.join(cacheRoot, 'thumbs', String(size), getThumbnailFileName(sourcePath, mediaType));
 }
 
 export function getHoverPreviewPath(cacheRoot: string, sourcePath: string, width: number): string {
-  const hash = sha1(sourcePath);
-  return path.join(cacheRoot, 'thumbs', 'hover', String(width), `${hash}.mp4`);
+  return path.join(cacheRoot, 'thumbs', 'hover', String(width), `${getSourceCacheKey(sourcePath)}.mp4`);
 }
 
 export function getPlaceholderPath(cacheRoot: string, sourcePath: string, size: number): string {
-  const hash = sha1(sourcePath);
-  return path.join(cacheRoot, 'thumbs', 'placeholder', String(size), `${hash}.jpg`);
+  return path.join(cacheRoot, 'thumbs', 'placeholder', String(size), `${getSourceCacheKey(sourcePath)}.jpg`);
 }
 
 export function ensureThumbnailDir(filePath: string): void {
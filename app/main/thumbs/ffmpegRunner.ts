@@ -1,7 +1,9 @@
 import fs from 'node:fs';
+import path from 'node:path';
 import { spawn } from 'node:child_process';
 
 import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import ffprobeInstaller from '@ffprobe-installer/ffprobe';
 import ffmpegStatic from 'ffmpeg-static';
 
 const DEFAULT_FFMPEG_TIMEOUT_MS = Math.max(
@@ -25,6 +27,31 @@ function getFfmpegCandidates(): string[] {
   return [...new Set(candidates)];
 }
 
+// The ffmpeg packages do not ship ffprobe; after the bundled one, look next to each ffmpeg binary and on PATH.
+function getFfprobeCandidates(): string[] {
+  const candidates: string[] = [];
+  const envPath = process.env.PHOTOGLOBE_FFPROBE_PATH?.trim();
+  if (envPath) {
+    candidates.push(envPath);
+  }
+  const bundledPath = ffprobeInstaller?.path;
+  if (typeof bundledPath === 'string' && bundledPath.length > 0 && fs.existsSync(bundledPath)) {
+    candidates.push(bundledPath);
+  }
+  const binaryName = process.platform === 'win32' ? 'ffprobe.exe' : 'ffprobe';
+  for (const ffmpegPath of getFfmpegCandidates()) {
+    if (!path.isAbsolute(ffmpegPath)) {
+      continue;
+    }
+    const siblingPath = path.join(path.dirname(ffmpegPath), binaryName);
+    if (fs.existsSync(siblingPath)) {
+      candidates.push(siblingPath);
+    }
+  }
+  candidates.push('ffprobe');
+  return [...new Set(candidates)];
+}
+
 function runSingleFfmpegCore(
   command: string,
   args: string[],
@@ -180,3 +207,42 @@ export async function runFfmpegPipeInputToFile(
 
   throw new Error(`FFmpeg failed for all candidates. ${errors.slice(-4).join(' | ')}`);
 }
+
+// Set once no ffprobe candidate could be spawned, so later probes fail fast instead of spawning again per file.
+let ffprobeMissing = false;
+
+function isSpawnNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | null)?.code === 'ENOENT';
+}
+
+export async function runFfprobeToBuffer(args: string[], options: FfmpegRunOptions = {}): Promise<Buffer> {
+  if (ffprobeMissing) {
+    throw new Error('FFprobe is not installed');
+  }
+  const errors: string[] = [];
+  let allMissing = true;
+
+  for (const command of getFfprobeCandidates()) {
+    try {
+      const output = await runSingleFfmpegCore(command, args, {
+        captureStdout: true,
+        timeoutMs: options.timeoutMs,
+      });
+      if (output && output.length > 0) {
+        return output;
+      }
+      allMissing = false;
+      errors.push(`${command}: ffprobe output was empty`);
+    } catch (error) {
+      allMissing &&= isSpawnNotFound(error);
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`${command}: ${message}`);
+    }
+  }
+
+  if (allMissing) {
+    ffprobeMissing = true;
+    console.error(`[ffprobe] no ffprobe binary found; video metadata is skipped. ${errors.slice(-4).join(' | ')}`);
+  }
+  throw new Error(`FFprobe failed for all candidates. ${errors.slice(-4).join(' | ')}`);
+}
@@ -2,10 +2,13 @@ import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
 
-import { PhotosRepository } from '@main/db/repositories/photosRepo';
+import type { LocationOverridesRepository } from '@main/db/repositories/locationOverridesRepo';
+import { PhotosRepository, type RelocatedPhoto } from '@main/db/repositories/photosRepo';
+import type { PlaceService } from '@main/places/placeService';
 import sharp from 'sharp';
 import type {
   DateMediaCountItem,
+  DuplicateGroupItem,
   HoverPreviewInfo,
   MediaSourceInfo,
   PreviewStripProgressPayload,
@@ -13,13 +16,27 @@ import type {
   ThumbnailPriority,
   TimelineExtentInfo,
 } from '@shared/types/ipc';
+import type { PhotoMetadataSources } from '@shared/types/photo';
 import type { Filters } from '@shared/types/settings';
 
+import type { ThumbnailCacheBudget } from './cacheBudget';
 import { ensureThumbnailDir, getHoverPreviewPath, getPlaceholderPath, getThumbnailPath } from './cachePath';
 import { createImageThumbnail } from './imageThumb';
 import { createVideoHoverPreview } from './videoHoverPreview';
 import { createVideoThumbnail } from './videoThumb';
 
+function parseMetadataSources(value: string | null): PhotoMetadataSources {
+  if (!value) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as PhotoMetadataSources) : {};
+  } catch {
+    return {};
+  }
+}
+
 interface ThumbnailResult {
   path: string;
   cacheHit: boolean;
@@ -55,6 +72,8 @@ interface PreviewStripState {
   emit: (progress: PreviewStripProgressPayload) => void;
 }
 
+const THUMB_SIZES = [64, 128, 256, 512] as const;
+const HOVER_WIDTHS = [240, 320, 480] as const;
 const BASE_HIGH_CONCURRENCY = 1;
 const BASE_BACKGROUND_CONCURRENCY = 1;
 const BURST_WINDOW_MS = 1_600;
@@ -93,7 +112,10 @@ export class ThumbnailService {
 
   constructor(
     private readonly photosRepo: PhotosRepository,
+    private readonly locationOverridesRepo: LocationOverridesRepository,
     private readonly cacheRoot: string,
+    private readonly placeService?: PlaceService,
+    private readonly cacheBudget?: ThumbnailCacheBudget,
   ) {
     // Keep thumbnail generation responsive under load by limiting per-image libvips threads.
     const sharpThreads = Math.max(1, Math.min(4, Math.floor(os.cpus().length / 2)));
@@ -238,6 +260,60 @@ export class ThumbnailService {
     return { ok: true };
   }
 
+  async relocateCachedMedia(items: RelocatedPhoto[]): Promise<void> {
+    for (const item of items) {
+      for (const size of THUMB_SIZES) {
+        this.memoryCache.delete(`${item.id}:${size}`);
+        this.failureByKey.delete(`${item.id}:${size}`);
+        const fromPath = getThumbnailPath(this.cacheRoot, item.fromPath, size, item.mediaType);
+        const toPath = getThumbnailPath(this.cacheRoot, item.toPath, size, item.mediaType);
+        const moved = await this.moveCacheFile(fromPath, toPath);
+        if (moved && item.thumbPath && path.normalize(item.thumbPath) === path.normalize(fromPath)) {
+          this.photosRepo.updateThumbnail(item.id, toPath);
+        }
+      }
+      for (const width of HOVER_WIDTHS) {
+        this.hoverMemoryCache.delete(`hover:${item.id}:${width}`);
+        if (item.mediaType === 'video') {
+          await this.moveCacheFile(
+            getHoverPreviewPath(this.cacheRoot, item.fromPath, width),
+            getHoverPreviewPath(this.cacheRoot, item.toPath, width),
+          );
+        }
+      }
+    }
+  }
+
+  /** Drops remembered results for purged photos, whose ids SQLite may hand out again. */
+  forgetPhotos(photoIds: number[]): void {
+    for (const id of photoIds) {
+      for (const size of THUMB_SIZES) {
+        this.memoryCache.delete(`${id}:${size}`);
+        this.failureByKey.delete(`${id}:${size}`);
+      }
+      for (const width of HOVER_WIDTHS) {
+        this.hoverMemoryCache.delete(`hover:${id}:${width}`);
+      }
+    }
+  }
+
+  /** Tells the disk budget about cache files deleted elsewhere (maintenance cleanup). */
+  forgetCacheFiles(filePaths: string[]): void {
+    this.cacheBudget?.recordDeleted(filePaths);
+  }
+
+  /** Cache files in use by the in-memory caches, which the disk budget must not evict. */
+  getPinnedCachePaths(): Set<string> {
+    const paths = new Set<string>();
+    for (const value of this.memoryCache.values()) {
+      paths.add(value.path);
+    }
+    for (const value of this.hoverMemoryCache.values()) {
+      paths.add(value.path);
+    }
+    return paths;
+  }
+
   countPrefetchTargets(filters: Filters): { total: number } {
     return {
       total: this.photosRepo.countPrefetchTargets(filters),
@@ -258,6 +334,10 @@ export class ThumbnailService {
     return this.photosRepo.getDailyCounts(filters, limit);
   }
 
+  getDuplicateGroups(limit?: number): DuplicateGroupItem[] {
+    return this.photosRepo.getDuplicateGroups(limit);
+  }
+
   getSource(photoId: number): MediaSourceInfo {
     const photo = this.photosRepo.getById(photoId);
     if (!photo) {
@@ -268,6 +348,11 @@ export class ThumbnailService {
       path: photo.path,
       mediaType: photo.mediaType,
       mime: photo.mime,
+      metadataSources: parseMetadataSources(photo.metadataSourcesJson),
+      stackMembers: photo.stackId == null ? [] : this.photosRepo.getStackMembers(photo.stackId),
+      locationOverride: this.locationOverridesRepo.get(photoId),
+      clockOffsetMs: photo.takenAtOffsetMs,
+      place: this.placeService?.getLabel(photo.placeCityId) ?? null,
     };
   }
 
@@ -326,7 +411,7 @@ export class ThumbnailService {
     try {
       await createVideoHoverPreview(photo.path, targetPath, width);
       const result: HoverPreviewInfo = { path: targetPath, cacheHit: false, kind: 'video' };
-      this.touchHoverCache(cacheKey, result);
+      this.touchHoverCache(cacheKey, result, true);
       return result;
     } catch {
       const thumb = await this.getThumbnail(photoId, 256);
@@ -400,7 +485,7 @@ export class ThumbnailService {
       }
       const result = { path: targetPath, cacheHit: false };
       this.failureByKey.delete(cacheKey);
-      this.touchCache(cacheKey, result);
+      this.touchCache(cacheKey, result, true);
       return result;
     } catch (error) {
       const recoveredPath = await this.findFallbackThumbPath(photo.path, size, photo.thumbPath);
@@ -430,7 +515,19 @@ export class ThumbnailService {
     }
   }
 
-  private touchCache(key: string, value: ThumbnailResult): void {
+  private async moveCacheFile(fromPath: string, toPath: string): Promise<boolean> {
+    try {
+      ensureThumbnailDir(toPath);
+      await fs.rename(fromPath, toPath);
+      this.cacheBudget?.recordMove(fromPath, toPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private touchCache(key: string, value: ThumbnailResult, written = false): void {
+    this.cacheBudget?.recordAccess(value.path, written);
     if (this.memoryCache.has(key)) {
       this.memoryCache.delete(key);
     }
@@ -444,7 +541,8 @@ export class ThumbnailService {
     }
   }
 
-  private touchHoverCache(key: string, value: HoverPreviewInfo): void {
+  private touchHoverCache(key: string, value: HoverPreviewInfo, written = false): void {
+    this.cacheBudget?.recordAccess(value.path, written);
     if (this.hoverMemoryCache.has(key)) {
       this.hoverMemoryCache.delete(key);
     }
@@ -757,7 +855,8 @@ export class ThumbnailService {
     return Number.isFinite(parsed) ? parsed : null;
   }
 
-  private isPlaceholderPath(filePath: string): boolean {
+  /** True for the generic PHOTO/VIDEO tiles handed out when a real thumbnail could not be made. */
+  isPlaceholderPath(filePath: string): boolean {
     return /[\\/]placeholder[\\/]/i.test(path.normalize(filePath));
   }
 
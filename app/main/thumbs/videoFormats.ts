@@ -0,0 +1,26 @@
+import path from 'node:path';
+
+export interface VideoInputProfile {
+  // Placed before `-i`.
+  inputArgs: string[];
+  // Prepended to the video filter chain, including the trailing comma.
+  filterPrefix: string;
+}
+
+const DEFAULT_PROFILE: VideoInputProfile = { inputArgs: [], filterPrefix: '' };
+
+// Transport streams and older containers often lack presentation timestamps, which breaks seeking.
+const GENERATE_PTS_EXTENSIONS = new Set(['.mts', '.m2ts', '.avi', '.3gp']);
+// AVCHD camcorders record interlaced 1080i; combing is obvious once scaled down.
+const INTERLACED_EXTENSIONS = new Set(['.mts', '.m2ts']);
+
+export function getVideoInputProfile(filePath: string): VideoInputProfile {
+  const extension = path.extname(filePath).toLowerCase();
+  if (!GENERATE_PTS_EXTENSIONS.has(extension) && !INTERLACED_EXTENSIONS.has(extension)) {
+    return DEFAULT_PROFILE;
+  }
+  return {
+    inputArgs: GENERATE_PTS_EXTENSIONS.has(extension) ? ['-fflags', '+genpts'] : [],
+    filterPrefix: INTERLACED_EXTENSIONS.has(extension) ? 'yadif=deint=interlaced,' : '',
+  };
+}
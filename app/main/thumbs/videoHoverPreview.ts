@@ -1,11 +1,13 @@
 import { resolveFfmpegInputPath } from './ffmpegPathAlias';
 import { runFfmpegWithFallback } from './ffmpegRunner';
+import { getVideoInputProfile } from './videoFormats';
 
 const HOVER_FFMPEG_TIMEOUT_MS = 5000;
 
 export async function createVideoHoverPreview(sourcePath: string, targetPath: string, width: number): Promise<void> {
   const aliasSourcePath = await resolveFfmpegInputPath(sourcePath);
-  const vf = `scale=${width}:-2:flags=fast_bilinear,fps=10,format=yuv420p`;
+  const inputProfile = getVideoInputProfile(sourcePath);
+  const vf = `${inputProfile.filterPrefix}scale=${width}:-2:flags=fast_bilinear,fps=10,format=yuv420p`;
   const commonArgs = [
     '-y',
     '-v',
@@ -14,6 +16,7 @@ export async function createVideoHoverPreview(sourcePath: string, targetPath: st
     '0.35',
     '-t',
     '1.8',
+    ...inputProfile.inputArgs,
     '-i',
     aliasSourcePath,
     '-an',
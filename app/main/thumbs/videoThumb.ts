@@ -6,6 +6,7 @@ import sharp from 'sharp';
 import { createThumbnailFromEmbeddedPreview } from './embeddedPreview';
 import { resolveFfmpegInputPath } from './ffmpegPathAlias';
 import { runFfmpegWithFallback } from './ffmpegRunner';
+import { getVideoInputProfile } from './videoFormats';
 
 const THUMBNAIL_FFMPEG_TIMEOUT_MS = 3500;
 
@@ -40,7 +41,8 @@ export async function createVideoThumbnail(sourcePath: string, targetPath: strin
   const targetBaseName = path.parse(targetPath).name;
   const tempJpg = path.join(path.dirname(targetPath), `${targetBaseName}.video.jpg`);
   const seekSeconds = size <= 64 ? '0.18' : size <= 128 ? '0.35' : '1';
-  const scaleFilter = size <= 256 ? `scale=${size}:-2:flags=lanczos` : 'scale=iw:ih';
+  const inputProfile = getVideoInputProfile(sourcePath);
+  const scaleFilter = `${inputProfile.filterPrefix}${size <= 256 ? `scale=${size}:-2:flags=lanczos` : 'scale=iw:ih'}`;
   const { quality, effort } = getVideoEncodeProfile(size);
   const qScale = getFfmpegQscale(size);
 
@@ -52,6 +54,7 @@ export async function createVideoThumbnail(sourcePath: string, targetPath: strin
         'error',
         '-ss',
         seekSeconds,
+        ...inputProfile.inputArgs,
         '-i',
         aliasSourcePath,
         '-an',
@@ -70,6 +73,7 @@ export async function createVideoThumbnail(sourcePath: string, targetPath: strin
         '-y',
         '-v',
         'error',
+        ...inputProfile.inputArgs,
         '-i',
         aliasSourcePath,
         '-an',
@@ -90,6 +94,7 @@ export async function createVideoThumbnail(sourcePath: string, targetPath: strin
         'error',
         '-ss',
         '0',
+        ...inputProfile.inputArgs,
         '-i',
         aliasSourcePath,
         '-an',
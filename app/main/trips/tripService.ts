@@ -1,7 +1,8 @@
 import QuickLRU from 'quick-lru';
 
 import type { PhotosRepository } from '@main/db/repositories/photosRepo';
-import type { TripPoint, TripSegment } from '@shared/types/ipc';
+import type { PlaceService } from '@main/places/placeService';
+import type { TripPlace, TripPoint, TripSegment } from '@shared/types/ipc';
 import type { Filters } from '@shared/types/settings';
 
 interface GetTripsPayload {
@@ -21,9 +22,10 @@ interface SampledSegment {
 }
 
 const EARTH_RADIUS_KM = 6371;
-const DEFAULT_SPLIT_HOURS = 24;
-const DEFAULT_SPLIT_KM = 150;
+export const DEFAULT_SPLIT_HOURS = 24;
+export const DEFAULT_SPLIT_KM = 150;
 const DEFAULT_MAX_POINTS = 50_000;
+const TRIP_PLACE_LIMIT = 3;
 
 function toRadians(value: number): number {
   return (value * Math.PI) / 180;
@@ -48,20 +50,43 @@ function calculateDistanceKm(points: TripPoint[]): number {
   return distanceKm;
 }
 
-function summarizeSegment(segment: SampledSegment, colorIndex: number, index: number): TripSegment {
+function countPlaces(points: TripPoint[], placeByPhotoId: Map<number, string>): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const point of points) {
+    const cityId = placeByPhotoId.get(point.photoId);
+    if (cityId) {
+      counts.set(cityId, (counts.get(cityId) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TRIP_PLACE_LIMIT);
+}
+
+function summarizeSegment(
+  segment: SampledSegment,
+  colorIndex: number,
+  index: number,
+  places: TripPlace[],
+): TripSegment {
   const { sampledPoints, fullPoints } = segment;
   const distanceKm = calculateDistanceKm(fullPoints);
   const startAtMs = fullPoints[0]?.takenAtMs ?? 0;
   const endAtMs = fullPoints[fullPoints.length - 1]?.takenAtMs ?? startAtMs;
+  const startLocalMs = fullPoints[0]?.takenAtLocalMs ?? startAtMs;
+  const endLocalMs = fullPoints[fullPoints.length - 1]?.takenAtLocalMs ?? startLocalMs;
   return {
     tripId: `trip-${index + 1}-${startAtMs}`,
     colorIndex,
     startAtMs,
     endAtMs,
+    startLocalMs,
+    endLocalMs,
     distanceKm,
     durationMs: Math.max(0, endAtMs - startAtMs),
     pointCount: fullPoints.length,
     points: sampledPoints,
+    places,
   };
 }
 
@@ -92,6 +117,30 @@ function sampleSegmentPoints(points: TripPoint[], targetCount: number): TripPoin
   return sampled;
 }
 
+/** Splits time-ordered points wherever the gap in time or distance exceeds the limits. */
+export function splitIntoSegments(points: TripPoint[], splitMs: number, splitKm: number): TripPoint[][] {
+  if (points.length === 0) {
+    return [];
+  }
+  const segments: TripPoint[][] = [];
+  let current: TripPoint[] = [points[0]];
+  for (let index = 1; index < points.length; index += 1) {
+    const prev = current[current.length - 1];
+    const next = points[index];
+    const timeGapMs = next.takenAtMs - prev.takenAtMs;
+    const distanceKm = haversineKm(prev, next);
+
+    if (timeGapMs > splitMs || distanceKm > splitKm) {
+      segments.push(current);
+      current = [next];
+    } else {
+      current.push(next);
+    }
+  }
+  segments.push(current);
+  return segments;
+}
+
 function getFilterKey(filters: Filters, splitHours: number, splitKm: number, maxPoints: number): string {
   return JSON.stringify({
     dateFromMs: filters.dateFromMs ?? null,
@@ -101,10 +150,26 @@ function getFilterKey(filters: Filters, splitHours: number, splitKm: number, max
     mediaTypes: [...(filters.mediaTypes ?? [])].sort(),
     hasGps: filters.hasGps ?? null,
     cameraModelQuery: filters.cameraModelQuery ?? null,
+    textQuery: filters.textQuery ?? null,
     minWidthPx: filters.minWidthPx ?? null,
     minHeightPx: filters.minHeightPx ?? null,
     durationFromMs: filters.durationFromMs ?? null,
     durationToMs: filters.durationToMs ?? null,
+    collapseDuplicates: filters.collapseDuplicates ?? false,
+    cameraMakeQuery: filters.cameraMakeQuery ?? null,
+    lensModelQuery: filters.lensModelQuery ?? null,
+    focalLengthFromMm: filters.focalLengthFromMm ?? null,
+    focalLengthToMm: filters.focalLengthToMm ?? null,
+    focalLengthUse35mm: filters.focalLengthUse35mm ?? false,
+    apertureFrom: filters.apertureFrom ?? null,
+    apertureTo: filters.apertureTo ?? null,
+    exposureFromSec: filters.exposureFromSec ?? null,
+    exposureToSec: filters.exposureToSec ?? null,
+    isoFrom: filters.isoFrom ?? null,
+    isoTo: filters.isoTo ?? null,
+    flashFired: filters.flashFired ?? null,
+    countryCodes: [...(filters.countryCodes ?? [])].sort(),
+    cityIds: [...(filters.cityIds ?? [])].sort(),
     splitHours,
     splitKm,
     maxPoints,
@@ -114,7 +179,10 @@ function getFilterKey(filters: Filters, splitHours: number, splitKm: number, max
 export class TripService {
   private readonly cache = new QuickLRU<string, TripSegment[]>({ maxSize: 24 });
 
-  constructor(private readonly photosRepo: PhotosRepository) {}
+  constructor(
+    private readonly photosRepo: PhotosRepository,
+    private readonly placeService?: PlaceService,
+  ) {}
 
   invalidate(): void {
     this.cache.clear();
@@ -143,26 +211,9 @@ export class TripService {
       return [];
     }
 
-    const splitMs = splitHours * 3_600_000;
-    const segments: MutableSegment[] = [];
-    let current: MutableSegment = { points: [points[0]] };
-
-    for (let index = 1; index < points.length; index += 1) {
-      const prev = current.points[current.points.length - 1];
-      const next = points[index];
-      const timeGapMs = next.takenAtMs - prev.takenAtMs;
-      const distanceKm = haversineKm(prev, next);
-
-      if (timeGapMs > splitMs || distanceKm > splitKm) {
-        segments.push(current);
-        current = { points: [next] };
-      } else {
-        current.points.push(next);
-      }
-    }
-    if (current.points.length > 0) {
-      segments.push(current);
-    }
+    const segments: MutableSegment[] = splitIntoSegments(points, splitHours * 3_600_000, splitKm).map(
+      (segmentPoints) => ({ points: segmentPoints }),
+    );
 
     const totalPoints = segments.reduce((sum, segment) => sum + segment.points.length, 0);
     let sampledSegments: SampledSegment[] = segments.map((segment) => ({
@@ -196,8 +247,23 @@ export class TripService {
       }));
     }
 
-    const result = sampledSegments.map((segment, index) => summarizeSegment(segment, index, index));
+    const placeCounts = this.placeService
+      ? this.getPlaceCounts(payload.filters, segments)
+      : segments.map(() => [] as Array<[string, number]>);
+    const labels = this.placeService?.describe(placeCounts.flat().map(([cityId]) => cityId)) ?? new Map();
+    const result = sampledSegments.map((segment, index) => {
+      const places = placeCounts[index].flatMap(([cityId, photoCount]): TripPlace[] => {
+        const label = labels.get(cityId);
+        return label ? [{ ...label, photoCount }] : [];
+      });
+      return summarizeSegment(segment, index, index, places);
+    });
     this.cache.set(cacheKey, result);
     return result;
   }
+
+  private getPlaceCounts(filters: Filters, segments: MutableSegment[]): Array<Array<[string, number]>> {
+    const placeByPhotoId = this.photosRepo.getTripPlaceIds(filters);
+    return segments.map((segment) => countPlaces(segment.points, placeByPhotoId));
+  }
 }
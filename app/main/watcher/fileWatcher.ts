@@ -3,11 +3,16 @@ import path from 'node:path';
 import chokidar, { type FSWatcher } from 'chokidar';
 import debounce from 'lodash.debounce';
 
-import { getMediaGlobPattern } from '@shared/utils/mediaExtensions';
+import { IGNORE_FILE_NAME, IgnoreRuleSet, loadIgnoreRules } from '@main/indexer/ignoreRules';
+import { getSidecarSource } from '@main/indexer/sidecars';
+import { detectMediaTypeFromPath } from '@shared/utils/mediaExtensions';
 import { normalizeFsPath } from '@shared/utils/path';
 
-const WATCH_GLOB = getMediaGlobPattern();
+const BUILTIN_IGNORED_DIRS = new Set(['$recycle.bin', 'system volume information']);
 const OVERFLOW_THRESHOLD = 1200;
+// chokidar reports a move as unlink + add, but the add waits for awaitWriteFinish.
+// Hold lone removals a little longer so both halves land in the same delta.
+const RENAME_PAIR_WINDOW_MS = 4000;
 
 export interface WatcherDeltaPayload {
   rootPath: string;
@@ -21,8 +26,13 @@ export class FileWatcherService {
   private readonly triggers = new Map<string, ReturnType<typeof debounce>>();
   private readonly pendingAddedOrChanged = new Map<string, Set<string>>();
   private readonly pendingRemoved = new Map<string, Set<string>>();
+  private readonly holdRemovalsUntilMs = new Map<string, number>();
+  private readonly ignoreRules = new Map<string, { patternsKey: string; rules: IgnoreRuleSet }>();
 
-  constructor(private readonly onChange: (payload: WatcherDeltaPayload) => void) {}
+  constructor(
+    private readonly onChange: (payload: WatcherDeltaPayload) => void,
+    private readonly getIgnorePatterns: (rootPath: string) => string[] = () => [],
+  ) {}
 
   async sync(rootPaths: string[]): Promise<void> {
     const normalized = Array.from(
@@ -46,6 +56,8 @@ export class FileWatcherService {
       this.triggers.delete(rootPath);
       this.pendingAddedOrChanged.delete(rootPath);
       this.pendingRemoved.delete(rootPath);
+      this.holdRemovalsUntilMs.delete(rootPath);
+      this.ignoreRules.delete(rootPath);
       this.watchers.delete(rootPath);
       pendingClose.push(watcher.close());
     }
@@ -53,15 +65,25 @@ export class FileWatcherService {
 
     for (const rootPath of normalized) {
       if (this.watchers.has(rootPath)) {
+        const current = this.ignoreRules.get(rootPath);
+        if (current && current.patternsKey !== JSON.stringify(this.getIgnorePatterns(rootPath))) {
+          await this.reloadIgnoreRules(rootPath, true);
+        }
         continue;
       }
 
+      await this.reloadIgnoreRules(rootPath, false);
+
       this.pendingAddedOrChanged.set(rootPath, new Set());
       this.pendingRemoved.set(rootPath, new Set());
 
       const trigger = debounce(() => {
         const added = Array.from(this.pendingAddedOrChanged.get(rootPath) ?? []);
         const removed = Array.from(this.pendingRemoved.get(rootPath) ?? []);
+        if (added.length === 0 && removed.length > 0 && Date.now() < (this.holdRemovalsUntilMs.get(rootPath) ?? 0)) {
+          trigger();
+          return;
+        }
         this.pendingAddedOrChanged.set(rootPath, new Set());
         this.pendingRemoved.set(rootPath, new Set());
 
@@ -78,8 +100,24 @@ export class FileWatcherService {
       }, 1500);
 
       const toAbsolutePath = (filePath: string) => normalizeFsPath(path.resolve(rootPath, filePath));
+      // Sidecar paths are passed through as changes; the coordinator maps them to their media files.
+      const enqueueSidecar = (absolutePath: string) => {
+        this.pendingAddedOrChanged.get(rootPath)?.add(absolutePath);
+        trigger();
+      };
       const enqueueAddedOrChanged = (filePath: string) => {
         const absolutePath = toAbsolutePath(filePath);
+        if (path.basename(absolutePath).toLowerCase() === IGNORE_FILE_NAME) {
+          void this.reloadIgnoreRules(rootPath, true);
+          return;
+        }
+        if (getSidecarSource(absolutePath)) {
+          enqueueSidecar(absolutePath);
+          return;
+        }
+        if (!detectMediaTypeFromPath(absolutePath) || this.ignoreRules.get(rootPath)?.rules.match(absolutePath)) {
+          return;
+        }
         const addedSet = this.pendingAddedOrChanged.get(rootPath);
         const removedSet = this.pendingRemoved.get(rootPath);
         addedSet?.add(absolutePath);
@@ -88,15 +126,30 @@ export class FileWatcherService {
       };
       const enqueueRemoved = (filePath: string) => {
         const absolutePath = toAbsolutePath(filePath);
+        if (path.basename(absolutePath).toLowerCase() === IGNORE_FILE_NAME) {
+          void this.reloadIgnoreRules(rootPath, true);
+          return;
+        }
+        // A deleted sidecar still changes its media file's metadata.
+        if (getSidecarSource(absolutePath)) {
+          enqueueSidecar(absolutePath);
+          return;
+        }
+        if (!detectMediaTypeFromPath(absolutePath)) {
+          return;
+        }
         const addedSet = this.pendingAddedOrChanged.get(rootPath);
         const removedSet = this.pendingRemoved.get(rootPath);
         removedSet?.add(absolutePath);
         addedSet?.delete(absolutePath);
+        this.holdRemovalsUntilMs.set(rootPath, Date.now() + RENAME_PAIR_WINDOW_MS);
         trigger();
       };
 
-      const watcher = chokidar.watch(WATCH_GLOB, {
+      // chokidar v4 has no glob support, so the root is watched whole and filtered here.
+      const watcher = chokidar.watch('.', {
         cwd: rootPath,
+        ignored: (filePath, stats) => this.isIgnoredPath(rootPath, filePath, stats?.isDirectory() ?? false),
         ignoreInitial: true,
         persistent: true,
         awaitWriteFinish: {
@@ -113,6 +166,35 @@ export class FileWatcherService {
     }
   }
 
+  private isIgnoredPath(rootPath: string, filePath: string, isDirectory: boolean): boolean {
+    const absolutePath = normalizeFsPath(path.resolve(rootPath, filePath));
+    const baseName = path.basename(absolutePath).toLowerCase();
+    if (absolutePath === rootPath) {
+      return false;
+    }
+    // Mirrors the scanner: dot entries other than ignore files are never indexed.
+    if (BUILTIN_IGNORED_DIRS.has(baseName) || (baseName.startsWith('.') && baseName !== IGNORE_FILE_NAME)) {
+      return true;
+    }
+    return Boolean(this.ignoreRules.get(rootPath)?.rules.match(absolutePath, isDirectory));
+  }
+
+  // Changed rules only take effect through a rescan, so existing watchers request one.
+  private async reloadIgnoreRules(rootPath: string, rescan: boolean): Promise<void> {
+    const patterns = this.getIgnorePatterns(rootPath);
+    let rules: IgnoreRuleSet;
+    try {
+      rules = await loadIgnoreRules(rootPath, patterns);
+    } catch {
+      rules = new IgnoreRuleSet(rootPath, patterns, []);
+    }
+    this.ignoreRules.set(rootPath, { patternsKey: JSON.stringify(patterns), rules });
+
+    if (rescan && this.watchers.has(rootPath)) {
+      this.onChange({ rootPath, addedOrChangedPaths: [], removedPaths: [], overflow: true });
+    }
+  }
+
   async start(rootPath: string): Promise<void> {
     await this.sync([rootPath]);
   }
@@ -125,6 +207,8 @@ export class FileWatcherService {
     this.triggers.clear();
     this.pendingAddedOrChanged.clear();
     this.pendingRemoved.clear();
+    this.holdRemovalsUntilMs.clear();
+    this.ignoreRules.clear();
 
     for (const watcher of this.watchers.values()) {
       pendingClose.push(watcher.close());
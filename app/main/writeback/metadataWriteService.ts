@@ -0,0 +1,311 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { exiftool, type WriteTags } from 'exiftool-vendored';
+
+import type { LocationOverridesRepository } from '@main/db/repositories/locationOverridesRepo';
+import type { PhotosRepository } from '@main/db/repositories/photosRepo';
+import { computeContentHash } from '@main/indexer/contentHash';
+import { scanSpecificMediaFiles } from '@main/indexer/scanner';
+import { findSidecarOwners, findSidecars, getSidecarSource } from '@main/indexer/sidecars';
+import type {
+  MetadataWriteField,
+  MetadataWriteFileResult,
+  MetadataWriteOptions,
+  MetadataWriteReport,
+  MetadataWriteTarget,
+} from '@shared/types/ipc';
+import type { LocationOverride, MetadataSource, PhotoMetadataSources, PhotoRecord } from '@shared/types/photo';
+import { normalizeFsPath } from '@shared/utils/path';
+
+// exiftool keeps its own "<file>_original" copy unless told otherwise; backups go to the report folder instead.
+const WRITE_ARGS = ['-overwrite_original'];
+
+function parseMetadataSources(value: string | null): PhotoMetadataSources {
+  if (!value) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as PhotoMetadataSources) : {};
+  } catch {
+    return {};
+  }
+}
+
+function toLocationTags(override: LocationOverride, photo: PhotoRecord, target: MetadataWriteTarget): WriteTags {
+  const tags: WriteTags = {};
+  if (target === 'sidecar') {
+    // XMP stores signed coordinates; the reference tags only exist in EXIF.
+    tags.GPSLatitude = override.lat;
+    tags.GPSLongitude = override.lng;
+  } else if (photo.mediaType === 'video') {
+    tags.GPSCoordinates =
+      override.alt == null ? `${override.lat}, ${override.lng}` : `${override.lat}, ${override.lng}, ${override.alt}`;
+    return tags;
+  } else {
+    tags.GPSLatitude = Math.abs(override.lat);
+    tags.GPSLatitudeRef = override.lat < 0 ? 'S' : 'N';
+    tags.GPSLongitude = Math.abs(override.lng);
+    tags.GPSLongitudeRef = override.lng < 0 ? 'W' : 'E';
+  }
+  if (override.alt != null) {
+    tags.GPSAltitude = Math.abs(override.alt);
+    tags.GPSAltitudeRef = override.alt < 0 ? 1 : 0;
+  }
+  return tags;
+}
+
+interface CorrectedCaptureTime {
+  takenAtMs: number;
+  // Wall-clock time where the photo was taken, encoded as if it were UTC.
+  takenAtLocalMs: number;
+}
+
+/** The capture time with the camera clock offset applied, or null when no offset is in effect. */
+function getCorrectedCaptureTime(photo: PhotoRecord): CorrectedCaptureTime | null {
+  if (photo.takenAtMs == null || photo.takenAtOffsetMs === 0) {
+    return null;
+  }
+  return {
+    takenAtMs: photo.takenAtMs + photo.takenAtOffsetMs,
+    takenAtLocalMs: (photo.takenAtLocalMs ?? photo.takenAtMs) + photo.takenAtOffsetMs,
+  };
+}
+
+/** "YYYY:MM:DD HH:mm:ss", the EXIF date format, of a time read as UTC. */
+function formatExifDateTime(timeMs: number): string {
+  const iso = new Date(timeMs).toISOString();
+  return `${iso.slice(0, 10).replace(/-/g, ':')} ${iso.slice(11, 19)}`;
+}
+
+function formatUtcOffset(minutes: number): string {
+  const absolute = Math.abs(minutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  return `${minutes < 0 ? '-' : '+'}${hours}:${String(absolute % 60).padStart(2, '0')}`;
+}
+
+function toCaptureTimeTags(time: CorrectedCaptureTime, photo: PhotoRecord, target: MetadataWriteTarget): WriteTags {
+  const offset = photo.takenTzOffsetMinutes == null ? null : formatUtcOffset(photo.takenTzOffsetMinutes);
+  if (target === 'sidecar') {
+    // XMP dates carry their own offset; OffsetTime* only exists in EXIF.
+    return { DateTimeOriginal: `${formatExifDateTime(time.takenAtLocalMs)}${offset ?? ''}` };
+  }
+  if (photo.mediaType === 'video') {
+    // QuickTime dates are UTC.
+    return { CreateDate: formatExifDateTime(time.takenAtMs) };
+  }
+  const tags: WriteTags = { DateTimeOriginal: formatExifDateTime(time.takenAtLocalMs) };
+  if (offset != null) {
+    tags.OffsetTimeOriginal = offset;
+  }
+  return tags;
+}
+
+// Sidecars are read before embedded tags, so a sidecar value keeps winning over one written in place.
+function isShadowed(target: MetadataWriteTarget, source: MetadataSource | undefined): boolean {
+  return target === 'original' && source != null && source !== 'embedded';
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function formatStamp(timeMs: number): string {
+  return new Date(timeMs).toISOString().replace(/[:.]/g, '-');
+}
+
+/**
+ * Copies corrections made in the app into the files themselves, either in place or as XMP sidecars:
+ * location overrides and camera clock offsets. The library keeps no ratings, so there are none to write.
+ * Overrides stay in the database afterwards; the indexed row is refreshed so the next scan sees no change.
+ */
+export class MetadataWriteService {
+  private running = false;
+
+  constructor(
+    private readonly photosRepo: PhotosRepository,
+    private readonly overridesRepo: LocationOverridesRepository,
+    private readonly writeRoot: string,
+    private readonly onDataChanged?: () => void,
+  ) {}
+
+  async write(options: MetadataWriteOptions): Promise<MetadataWriteReport> {
+    if (this.running) {
+      throw new Error('A metadata write is already in progress.');
+    }
+    const target: MetadataWriteTarget = options.target === 'original' ? 'original' : 'sidecar';
+    const photoIds = Array.from(new Set(options.photoIds.filter((id) => Number.isInteger(id) && id > 0)));
+    const startedAtMs = Date.now();
+    const runDirectory = path.join(this.writeRoot, formatStamp(startedAtMs));
+
+    this.running = true;
+    const results: MetadataWriteFileResult[] = [];
+    try {
+      await fs.mkdir(runDirectory, { recursive: true });
+      for (const photoId of photoIds) {
+        results.push(await this.writeOne(photoId, target, options.keepBackup, runDirectory));
+      }
+    } finally {
+      this.running = false;
+    }
+
+    const report: MetadataWriteReport = {
+      target,
+      startedAtMs,
+      finishedAtMs: Date.now(),
+      written: results.filter((item) => item.status === 'written').length,
+      skipped: results.filter((item) => item.status === 'skipped').length,
+      errored: results.filter((item) => item.status === 'error').length,
+      reportPath: normalizeFsPath(path.join(runDirectory, 'report.json')),
+      results,
+    };
+    await fs.writeFile(report.reportPath, JSON.stringify(report, null, 2), 'utf8');
+    if (report.written > 0) {
+      this.onDataChanged?.();
+    }
+    return report;
+  }
+
+  private async writeOne(
+    photoId: number,
+    target: MetadataWriteTarget,
+    keepBackup: boolean,
+    runDirectory: string,
+  ): Promise<MetadataWriteFileResult> {
+    const photo = this.photosRepo.getById(photoId);
+    const result: MetadataWriteFileResult = {
+      photoId,
+      path: photo?.path ?? '',
+      status: 'skipped',
+      fields: [],
+      writtenPath: null,
+      backupPath: null,
+    };
+    if (!photo || photo.isDeleted) {
+      return { ...result, skipReason: 'notInLibrary' };
+    }
+    const override = this.overridesRepo.get(photoId);
+    let captureTime = getCorrectedCaptureTime(photo);
+    if (!override && !captureTime) {
+      return { ...result, skipReason: 'noCorrection' };
+    }
+
+    try {
+      const writtenPath = target === 'sidecar' ? await this.resolveSidecarPath(photo.path) : photo.path;
+      if (captureTime && target === 'sidecar' && (await this.isSharedSidecar(writtenPath, photo.path))) {
+        // The other file of the pair would read the corrected time too while its own clock rule still applies.
+        captureTime = null;
+        result.sharedSidecar = true;
+        if (!override) {
+          return { ...result, skipReason: 'sharedSidecar' };
+        }
+      }
+      if (keepBackup && (await pathExists(writtenPath))) {
+        const backupPath = normalizeFsPath(
+          path.join(runDirectory, 'originals', `${photoId}-${path.basename(writtenPath)}`),
+        );
+        await fs.mkdir(path.dirname(backupPath), { recursive: true });
+        await fs.copyFile(writtenPath, backupPath);
+        result.backupPath = backupPath;
+      }
+
+      const tags: WriteTags = {
+        ...(override ? toLocationTags(override, photo, target) : {}),
+        ...(captureTime ? toCaptureTimeTags(captureTime, photo, target) : {}),
+      };
+      await exiftool.write(writtenPath, tags, { writeArgs: WRITE_ARGS });
+      const fields: MetadataWriteField[] = [];
+      if (override) {
+        fields.push('location');
+      }
+      if (captureTime) {
+        fields.push('captureTime');
+      }
+      result.status = 'written';
+      result.fields = fields;
+      result.writtenPath = normalizeFsPath(writtenPath);
+
+      const sources = parseMetadataSources(photo.metadataSourcesJson);
+      const applyLocation = override != null && !isShadowed(target, sources.location);
+      const applyCaptureTime = captureTime != null && !isShadowed(target, sources.takenAt);
+      result.sidecarTakesPrecedence =
+        (override != null && !applyLocation) || (captureTime != null && !applyCaptureTime);
+      await this.refreshIndexedRow(
+        photo,
+        target,
+        sources,
+        applyLocation ? override : null,
+        applyCaptureTime ? captureTime : null,
+      );
+    } catch (error) {
+      // A failure after exiftool succeeded leaves the file written; only the indexed row is stale.
+      if (result.status !== 'written') {
+        result.status = 'error';
+      }
+      result.message = error instanceof Error ? error.message : String(error);
+    }
+    return result;
+  }
+
+  /**
+   * Reuses the XMP file the photo is already paired with, since that is the one the indexer reads, or
+   * creates "<file>.xmp" next to it. A paired "<stem>.xmp" is shared by RAW+JPEG pairs, so a location
+   * written there applies to both files.
+   */
+  private async resolveSidecarPath(mediaPath: string): Promise<string> {
+    const paired = (await findSidecars([mediaPath])).get(mediaPath) ?? [];
+    return paired.find((item) => getSidecarSource(item) === 'xmp') ?? `${mediaPath}.xmp`;
+  }
+
+  private async isSharedSidecar(sidecarPath: string, mediaPath: string): Promise<boolean> {
+    const owners = await findSidecarOwners([sidecarPath]);
+    return owners.some((owner) => owner !== normalizeFsPath(mediaPath));
+  }
+
+  private async refreshIndexedRow(
+    photo: PhotoRecord,
+    target: MetadataWriteTarget,
+    sources: PhotoMetadataSources,
+    location: LocationOverride | null,
+    captureTime: CorrectedCaptureTime | null,
+  ): Promise<void> {
+    const [scanned] = await scanSpecificMediaFiles([photo.path]);
+    if (!scanned) {
+      throw new Error('File could not be read back after writing.');
+    }
+    const contentHash =
+      target === 'original' ? await computeContentHash(scanned.path, scanned.sizeBytes) : photo.contentHash;
+    const writtenSource = target === 'sidecar' ? 'xmp' : 'embedded';
+    const nextSources: PhotoMetadataSources = { ...sources };
+    if (location) {
+      nextSources.location = writtenSource;
+      if (location.alt != null) {
+        nextSources.altitude = writtenSource;
+      }
+    }
+    if (captureTime) {
+      nextSources.takenAt = writtenSource;
+    }
+    this.photosRepo.recordMetadataWrite({
+      id: photo.id,
+      sizeBytes: scanned.sizeBytes,
+      mtimeMs: scanned.mtimeMs,
+      sidecarSignature: scanned.sidecarSignature,
+      contentHash,
+      lat: location ? location.lat : photo.lat,
+      lng: location ? location.lng : photo.lng,
+      alt: location && location.alt != null ? location.alt : photo.alt,
+      takenAtMs: captureTime ? captureTime.takenAtMs : photo.takenAtMs,
+      takenAtLocalMs: captureTime ? captureTime.takenAtLocalMs : photo.takenAtLocalMs,
+      takenAtOffsetMs: captureTime ? 0 : photo.takenAtOffsetMs,
+      clockOffsetWrittenAtMs: captureTime ? Date.now() : null,
+      metadataSourcesJson: JSON.stringify(nextSources),
+    });
+  }
+}
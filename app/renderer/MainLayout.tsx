@@ -1,14 +1,39 @@
 import { useCallback, useEffect, useMemo, useRef, useState, type KeyboardEvent as ReactKeyboardEvent } from 'react';
 import { useTranslation } from 'react-i18next';
 
-import type { CityItem, DateMediaCountItem, RootListItem, SessionMetricsSummary, TripSegment } from '@shared/types/ipc';
-import type { UiThemePreset } from '@shared/types/settings';
+import type {
+  CityItem,
+  DateMediaCountItem,
+  DuplicateGroupItem,
+  IndexErrorGroup,
+  RootListItem,
+  SessionMetricsSummary,
+  TripSegment,
+} from '@shared/types/ipc';
+import type {
+  BackupSettings,
+  GeotagSettings,
+  MaintenanceSettings,
+  ThumbnailCacheSettings,
+  UiThemePreset,
+} from '@shared/types/settings';
 
 import { trackUxEvent } from './application/metrics/uxMetrics';
 import { useBackgroundWarmup } from './application/usecases/useBackgroundWarmup';
 import { useCityCatalogUseCase } from './application/usecases/useCityCatalogUseCase';
+import { useClockOffsetUseCase } from './application/usecases/useClockOffsetUseCase';
+import { useDatabaseUseCase } from './application/usecases/useDatabaseUseCase';
+import { useGeotagUseCase } from './application/usecases/useGeotagUseCase';
+import { useLocationEditUseCase } from './application/usecases/useLocationEditUseCase';
+import { useMaintenanceUseCase } from './application/usecases/useMaintenanceUseCase';
+import { useMetadataWriteUseCase } from './application/usecases/useMetadataWriteUseCase';
+import { usePlacesUseCase } from './application/usecases/usePlacesUseCase';
+import { useSearchCountUseCase } from './application/usecases/useSearchCountUseCase';
 import { usePreviewUseCase } from './application/usecases/usePreviewUseCase';
+import { useRootRelocationUseCase } from './application/usecases/useRootRelocationUseCase';
 import { useSettingsUseCase } from './application/usecases/useSettingsUseCase';
+import { useSimilarPhotosUseCase } from './application/usecases/useSimilarPhotosUseCase';
+import { useThumbnailCacheUseCase } from './application/usecases/useThumbnailCacheUseCase';
 import { CITY_PAGE_SIZE, getFlyToCameraOptions, isValidCoordinatePair } from './domain/city/cityRules';
 import { toEpochMs, toFilters } from './domain/filter/filterDraft';
 import { GlobeView } from './globe/GlobeView';
@@ -16,15 +41,25 @@ import { useGlobeData } from './globe/useGlobeData';
 import { windowPhotoGlobeGateway } from './infrastructure/windowPhotoGlobeGateway';
 import { useAppStore } from './store/useAppStore';
 import { CityPanel } from './ui/CityPanel';
+import { ClockOffsetPanel } from './ui/ClockOffsetPanel';
+import { DatabasePanel } from './ui/DatabasePanel';
 import { DateStatsPanel } from './ui/DateStatsPanel';
+import { DuplicatesPanel } from './ui/DuplicatesPanel';
 import { Filters as FiltersPanel } from './ui/Filters';
+import { GeotagPanel } from './ui/GeotagPanel';
 import { HoverPreview } from './ui/HoverPreview';
 import { JourneyCoach } from './ui/JourneyCoach';
+import { LocationEditPanel } from './ui/LocationEditPanel';
+import { MaintenancePanel } from './ui/MaintenancePanel';
+import { MetadataWritePanel } from './ui/MetadataWritePanel';
 import { MetricsPanel } from './ui/MetricsPanel';
+import { PlacesPanel } from './ui/PlacesPanel';
 import { PreviewPanel } from './ui/PreviewPanel';
 import { ProgressPanel } from './ui/ProgressPanel';
 import { RootLibraryPanel } from './ui/RootLibraryPanel';
 import { Sidebar } from './ui/Sidebar';
+import { SimilarPhotosPanel } from './ui/SimilarPhotosPanel';
+import { ThumbnailCachePanel } from './ui/ThumbnailCachePanel';
 import { TimelineBar } from './ui/TimelineBar';
 import { TripCardsPanel } from './ui/TripCardsPanel';
 
@@ -47,7 +82,7 @@ function pickBestTripForRange(segments: TripSegment[], fromMs: number, toMs: num
   let bestByOverlap: TripSegment | null = null;
   let bestOverlap = 0;
   for (const segment of segments) {
-    const value = overlapMs(fromMs, toMs, segment.startAtMs, segment.endAtMs);
+    const value = overlapMs(fromMs, toMs, segment.startLocalMs, segment.endLocalMs);
     if (value > bestOverlap) {
       bestOverlap = value;
       bestByOverlap = segment;
@@ -61,7 +96,7 @@ function pickBestTripForRange(segments: TripSegment[], fromMs: number, toMs: num
   let nearest: TripSegment | null = null;
   let nearestDistance = Number.POSITIVE_INFINITY;
   for (const segment of segments) {
-    const segmentMid = segment.startAtMs + Math.max(0, segment.endAtMs - segment.startAtMs) / 2;
+    const segmentMid = segment.startLocalMs + Math.max(0, segment.endLocalMs - segment.startLocalMs) / 2;
     const distance = Math.abs(segmentMid - rangeMid);
     if (distance < nearestDistance) {
       nearestDistance = distance;
@@ -80,8 +115,7 @@ export function MainLayout() {
   const rootPath = useAppStore((state) => state.rootPath);
   const setRootPath = useAppStore((state) => state.setRootPath);
   const indexStatus = useAppStore((state) => state.indexStatus);
-  const activeIndexJobId = useAppStore((state) => state.activeIndexJobId);
-  const indexQueueRunning = useAppStore((state) => state.indexQueueRunning);
+  const indexQueue = useAppStore((state) => state.indexQueue);
   const indexJobHistory = useAppStore((state) => state.indexJobHistory);
   const filtersDraft = useAppStore((state) => state.filtersDraft);
   const setFiltersDraft = useAppStore((state) => state.setFiltersDraft);
@@ -120,6 +154,9 @@ export function MainLayout() {
   const [metricsBusy, setMetricsBusy] = useState(false);
   const [dateCountRows, setDateCountRows] = useState<DateMediaCountItem[]>([]);
   const [dateCountsLoading, setDateCountsLoading] = useState(false);
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroupItem[]>([]);
+  const [duplicatesLoading, setDuplicatesLoading] = useState(false);
+  const [indexErrorGroups, setIndexErrorGroups] = useState<IndexErrorGroup[]>([]);
   const flyToSeqRef = useRef(0);
   const trackedFirstDataRef = useRef(false);
   const trackedTimelineOpenRef = useRef(false);
@@ -128,6 +165,7 @@ export function MainLayout() {
 
   const filters = useMemo(() => toFilters(filtersDraft), [filtersDraft]);
   const { items, isLoading, refresh, viewState } = useGlobeData(filters, apiReady, windowPhotoGlobeGateway);
+  const searchCount = useSearchCountUseCase({ apiReady, filters });
   const uiTheme: UiThemePreset = settings.uiThemePreset;
   const featureFlags = settings.featureFlags;
   const metricsPanelEnabled = featureFlags.metricsPanelV1;
@@ -139,7 +177,10 @@ export function MainLayout() {
     handleSelectFolder,
     handleStartIndexing,
     handleCancelIndexing,
+    handlePauseIndexing,
+    handleResumeIndexing,
     handleRetryIndexing,
+    handleRetryFailedIndexing,
     handleLanguageChange,
     handleWatchChange,
     handleSetActiveRoots,
@@ -157,6 +198,74 @@ export function MainLayout() {
     [setSettings],
   );
 
+  const clockOffsets = useClockOffsetUseCase({
+    apiReady,
+    onTimesChanged: () => refresh(),
+    gateway: windowPhotoGlobeGateway,
+  });
+
+  const similarPhotos = useSimilarPhotosUseCase({ apiReady, gateway: windowPhotoGlobeGateway });
+  const refreshSimilarGroups = similarPhotos.refresh;
+
+  const geotag = useGeotagUseCase({
+    apiReady,
+    settings: settings.geotag,
+    rootIds: settings.activeRootIds,
+    onLocationsChanged: () => refresh(),
+    gateway: windowPhotoGlobeGateway,
+  });
+
+  const handleGeotagSettingsChange = useCallback(
+    (next: GeotagSettings) => {
+      void persistSettingsPatch({ geotag: next });
+    },
+    [persistSettingsPatch],
+  );
+
+  const maintenance = useMaintenanceUseCase({ apiReady, gateway: windowPhotoGlobeGateway });
+  const reloadMaintenance = maintenance.reload;
+
+  const handleMaintenanceSettingsChange = useCallback(
+    async (next: MaintenanceSettings) => {
+      await persistSettingsPatch({ maintenance: next });
+      await reloadMaintenance();
+    },
+    [persistSettingsPatch, reloadMaintenance],
+  );
+
+  const thumbnailCache = useThumbnailCacheUseCase({ apiReady, gateway: windowPhotoGlobeGateway });
+  const reloadThumbnailCache = thumbnailCache.reload;
+
+  const handleThumbnailCacheSettingsChange = useCallback(
+    async (next: ThumbnailCacheSettings) => {
+      await persistSettingsPatch({ thumbnailCache: next });
+      await reloadThumbnailCache();
+    },
+    [persistSettingsPatch, reloadThumbnailCache],
+  );
+
+  const database = useDatabaseUseCase({ apiReady, gateway: windowPhotoGlobeGateway });
+  const reloadDatabase = database.reload;
+  const restoreDatabase = database.handleRestore;
+
+  const handleBackupSettingsChange = useCallback(
+    async (next: BackupSettings) => {
+      await persistSettingsPatch({ backup: next });
+      await reloadDatabase();
+    },
+    [persistSettingsPatch, reloadDatabase],
+  );
+
+  const handleDatabaseRestore = useCallback(
+    (name: string) => {
+      if (!window.confirm(t('database.restoreConfirm'))) {
+        return;
+      }
+      void restoreDatabase(name);
+    },
+    [restoreDatabase, t],
+  );
+
   const handleThemePresetChange = useCallback(
     (theme: UiThemePreset) => {
       void persistSettingsPatch({ uiThemePreset: theme });
@@ -219,6 +328,40 @@ export function MainLayout() {
     }
   }, [refreshMetricsPanel]);
 
+  const refreshDuplicateGroups = useCallback(async () => {
+    if (!apiReady) {
+      return;
+    }
+    setDuplicatesLoading(true);
+    try {
+      const groups = await windowPhotoGlobeGateway.mediaGetDuplicateGroups({ limit: 200 });
+      setDuplicateGroups(groups);
+    } catch {
+      setDuplicateGroups([]);
+    } finally {
+      setDuplicatesLoading(false);
+    }
+  }, [apiReady]);
+
+  const refreshIndexErrorGroups = useCallback(async () => {
+    if (!apiReady) {
+      return;
+    }
+    try {
+      setIndexErrorGroups(await windowPhotoGlobeGateway.indexListErrors({ limit: 200 }));
+    } catch {
+      setIndexErrorGroups([]);
+    }
+  }, [apiReady]);
+
+  const handleClearIndexErrors = useCallback(
+    async (group: IndexErrorGroup) => {
+      await windowPhotoGlobeGateway.indexClearErrors({ rootId: group.rootId, message: group.message });
+      await refreshIndexErrorGroups();
+    },
+    [refreshIndexErrorGroups],
+  );
+
   const handleJourneyCoachComplete = useCallback(async () => {
     const nextOnboarding = {
       version: 1 as const,
@@ -253,7 +396,8 @@ export function MainLayout() {
     }
   }, [forceJourneyCoachVisible, journeyCoachEnabled]);
 
-  const isWarmupPaused = Boolean(activeIndexJobId || indexQueueRunning || isLoading);
+  const hasIndexWork = indexQueue.running.length > 0 || indexQueue.queued.length > 0;
+  const isWarmupPaused = hasIndexWork || isLoading;
   useBackgroundWarmup({
     apiReady,
     filters,
@@ -300,6 +444,27 @@ export function MainLayout() {
     void refreshMetricsPanel();
   }, [refreshMetricsPanel]);
 
+  useEffect(() => {
+    if (activeTab !== 'system' || indexStatus?.phase === 'extracting') {
+      return;
+    }
+    void refreshDuplicateGroups();
+    void refreshSimilarGroups();
+    void refreshIndexErrorGroups();
+    void reloadMaintenance();
+    void reloadThumbnailCache();
+    void reloadDatabase();
+  }, [
+    activeTab,
+    indexStatus?.phase,
+    refreshDuplicateGroups,
+    refreshIndexErrorGroups,
+    refreshSimilarGroups,
+    reloadDatabase,
+    reloadMaintenance,
+    reloadThumbnailCache,
+  ]);
+
   useEffect(() => {
     if (!apiReady || !metricsPanelEnabled) {
       return;
@@ -347,6 +512,7 @@ export function MainLayout() {
     preview,
     previewItems,
     handlePreviewItemSelect,
+    handleStackMemberSelect,
     handleOpenPreview,
     handlePointClick,
     handleClusterClick,
@@ -360,6 +526,69 @@ export function MainLayout() {
     gateway: windowPhotoGlobeGateway,
   });
 
+  const locationEdit = useLocationEditUseCase({
+    apiReady,
+    fallbackPhotoId: preview?.photoId ?? null,
+    onLocationsChanged: () => refresh(),
+    gateway: windowPhotoGlobeGateway,
+  });
+  const { assignLocation, selectMany } = locationEdit;
+  const locationCheckedIds = useMemo(() => new Set(locationEdit.selectedIds), [locationEdit.selectedIds]);
+
+  const metadataWrite = useMetadataWriteUseCase({
+    apiReady,
+    photoIds: locationEdit.targetIds,
+    onWritten: () => refresh(),
+    gateway: windowPhotoGlobeGateway,
+  });
+
+  const places = usePlacesUseCase({
+    apiReady,
+    active: activeTab === 'calendar',
+    filters,
+    gateway: windowPhotoGlobeGateway,
+  });
+
+  const handleTogglePlaceCountry = useCallback(
+    (countryCode: string) => {
+      setFiltersDraft((prev) => ({
+        ...prev,
+        countryCodes: prev.countryCodes.includes(countryCode)
+          ? prev.countryCodes.filter((code) => code !== countryCode)
+          : [...prev.countryCodes, countryCode],
+      }));
+    },
+    [setFiltersDraft],
+  );
+
+  const handleTogglePlaceCity = useCallback(
+    (cityId: string) => {
+      setFiltersDraft((prev) => ({
+        ...prev,
+        cityIds: prev.cityIds.includes(cityId) ? prev.cityIds.filter((id) => id !== cityId) : [...prev.cityIds, cityId],
+      }));
+    },
+    [setFiltersDraft],
+  );
+
+  const handlePickLocation = useCallback(
+    (lat: number, lng: number) => {
+      void assignLocation(lat, lng, null);
+    },
+    [assignLocation],
+  );
+
+  const handleAssignCityLocation = useCallback(
+    (city: CityItem) => {
+      void assignLocation(city.lat, city.lng, city.name);
+    },
+    [assignLocation],
+  );
+
+  const handleSelectAllPreviewItems = useCallback(() => {
+    selectMany(previewItems.map((item) => item.photoId));
+  }, [previewItems, selectMany]);
+
   const cityCatalog = useCityCatalogUseCase({
     active: activeTab === 'cities',
     userFavoriteCityIds: settings.favoriteCityIds,
@@ -386,6 +615,7 @@ export function MainLayout() {
     userFavoriteSet,
     getCatalogStatusText,
     ensureCatalog,
+    importCatalogFromFiles,
     loadContinents,
     loadCities,
     handleToggleFavorite,
@@ -456,8 +686,10 @@ export function MainLayout() {
 
   const isActiveIndexPhase =
     indexStatus?.phase === 'scanning' || indexStatus?.phase === 'extracting' || indexStatus?.phase === 'saving';
-  const canCancelIndexing = Boolean(activeIndexJobId && isActiveIndexPhase);
-  const canStartIndexing = !indexQueueRunning && !activeIndexJobId && settings.activeRootIds.length > 0;
+  const pausedIndexJobId = indexStatus?.phase === 'paused' ? indexStatus.jobId : undefined;
+  const hasUserIndexWork = [...indexQueue.running, ...indexQueue.queued].some((item) => item.priority === 'user');
+  const canCancelIndexing = hasIndexWork || Boolean(pausedIndexJobId);
+  const canStartIndexing = !hasUserIndexWork && settings.activeRootIds.length > 0;
   const canRetryIndexing = canStartIndexing;
 
   const handleToggleActiveRoot = useCallback(
@@ -480,6 +712,53 @@ export function MainLayout() {
     [handleRemoveRoot, t],
   );
 
+  const rootRelocation = useRootRelocationUseCase({ apiReady, gateway: windowPhotoGlobeGateway });
+  const reloadMissingRoots = rootRelocation.reload;
+  const relocateRoot = rootRelocation.handleRelocate;
+
+  useEffect(() => {
+    void reloadMissingRoots();
+  }, [reloadMissingRoots, rootOptions]);
+
+  const handleRootRelocate = useCallback(
+    async (rootId: number, targetPath: string) => {
+      const root = rootOptions.find((item) => item.id === rootId);
+      if (!root || !window.confirm(t('roots.relocateConfirm', { from: root.path, to: targetPath }))) {
+        return;
+      }
+      const result = await relocateRoot(rootId, targetPath);
+      if (!result) {
+        return;
+      }
+      setSettings(result.settings);
+      if (rootPath === result.fromPath) {
+        setRootPath(result.toPath);
+      }
+      setRootOptions(await windowPhotoGlobeGateway.settingsListRoots());
+      refresh();
+    },
+    [refresh, relocateRoot, rootOptions, rootPath, setRootPath, setSettings, t],
+  );
+
+  const handleRootRelocatePick = useCallback(
+    async (rootId: number) => {
+      const selected = await windowPhotoGlobeGateway.appSelectFolder();
+      if (selected.path) {
+        await handleRootRelocate(rootId, selected.path);
+      }
+    },
+    [handleRootRelocate],
+  );
+
+  const handleSaveRootIgnorePatterns = useCallback(
+    (targetRootPath: string, patterns: string[]) => {
+      void persistSettingsPatch({
+        rootIgnorePatterns: { ...settings.rootIgnorePatterns, [targetRootPath]: patterns },
+      });
+    },
+    [persistSettingsPatch, settings.rootIgnorePatterns],
+  );
+
   const timelineExtentRequestKey = useMemo(
     () =>
       JSON.stringify({
@@ -487,20 +766,52 @@ export function MainLayout() {
         mediaTypes: filters.mediaTypes ?? [],
         hasGps: filters.hasGps ?? null,
         cameraModelQuery: filters.cameraModelQuery ?? null,
+        textQuery: filters.textQuery ?? null,
         minWidthPx: filters.minWidthPx ?? null,
         minHeightPx: filters.minHeightPx ?? null,
         durationFromMs: filters.durationFromMs ?? null,
         durationToMs: filters.durationToMs ?? null,
+        collapseDuplicates: filters.collapseDuplicates ?? false,
+        cameraMakeQuery: filters.cameraMakeQuery ?? null,
+        lensModelQuery: filters.lensModelQuery ?? null,
+        focalLengthFromMm: filters.focalLengthFromMm ?? null,
+        focalLengthToMm: filters.focalLengthToMm ?? null,
+        focalLengthUse35mm: filters.focalLengthUse35mm ?? false,
+        apertureFrom: filters.apertureFrom ?? null,
+        apertureTo: filters.apertureTo ?? null,
+        exposureFromSec: filters.exposureFromSec ?? null,
+        exposureToSec: filters.exposureToSec ?? null,
+        isoFrom: filters.isoFrom ?? null,
+        isoTo: filters.isoTo ?? null,
+        flashFired: filters.flashFired ?? null,
+        countryCodes: filters.countryCodes ?? [],
+        cityIds: filters.cityIds ?? [],
       }),
     [
+      filters.apertureFrom,
+      filters.apertureTo,
+      filters.cameraMakeQuery,
       filters.cameraModelQuery,
+      filters.cityIds,
+      filters.collapseDuplicates,
+      filters.countryCodes,
       filters.durationFromMs,
       filters.durationToMs,
+      filters.exposureFromSec,
+      filters.exposureToSec,
+      filters.flashFired,
+      filters.focalLengthFromMm,
+      filters.focalLengthToMm,
+      filters.focalLengthUse35mm,
       filters.hasGps,
+      filters.isoFrom,
+      filters.isoTo,
+      filters.lensModelQuery,
       filters.mediaTypes,
       filters.minHeightPx,
       filters.minWidthPx,
       filters.rootIds,
+      filters.textQuery,
     ],
   );
 
@@ -510,20 +821,52 @@ export function MainLayout() {
       mediaTypes: filters.mediaTypes,
       hasGps: filters.hasGps,
       cameraModelQuery: filters.cameraModelQuery,
+      textQuery: filters.textQuery,
       minWidthPx: filters.minWidthPx,
       minHeightPx: filters.minHeightPx,
       durationFromMs: filters.durationFromMs,
       durationToMs: filters.durationToMs,
+      collapseDuplicates: filters.collapseDuplicates,
+      cameraMakeQuery: filters.cameraMakeQuery,
+      lensModelQuery: filters.lensModelQuery,
+      focalLengthFromMm: filters.focalLengthFromMm,
+      focalLengthToMm: filters.focalLengthToMm,
+      focalLengthUse35mm: filters.focalLengthUse35mm,
+      apertureFrom: filters.apertureFrom,
+      apertureTo: filters.apertureTo,
+      exposureFromSec: filters.exposureFromSec,
+      exposureToSec: filters.exposureToSec,
+      isoFrom: filters.isoFrom,
+      isoTo: filters.isoTo,
+      flashFired: filters.flashFired,
+      countryCodes: filters.countryCodes,
+      cityIds: filters.cityIds,
     }),
     [
+      filters.apertureFrom,
+      filters.apertureTo,
+      filters.cameraMakeQuery,
       filters.cameraModelQuery,
+      filters.cityIds,
+      filters.collapseDuplicates,
+      filters.countryCodes,
       filters.durationFromMs,
       filters.durationToMs,
+      filters.exposureFromSec,
+      filters.exposureToSec,
+      filters.flashFired,
+      filters.focalLengthFromMm,
+      filters.focalLengthToMm,
+      filters.focalLengthUse35mm,
       filters.hasGps,
+      filters.isoFrom,
+      filters.isoTo,
+      filters.lensModelQuery,
       filters.mediaTypes,
       filters.minHeightPx,
       filters.minWidthPx,
       filters.rootIds,
+      filters.textQuery,
     ],
   );
 
@@ -679,7 +1022,7 @@ export function MainLayout() {
     return () => {
       cancelled = true;
     };
-  }, [apiReady, filters, setTripSegments, shouldLoadTrips]);
+  }, [apiReady, filters, places.revision, setTripSegments, shouldLoadTrips]);
 
   const timelineFromMs = useMemo(() => toEpochMs(filtersDraft.dateFrom, false), [filtersDraft.dateFrom]);
   const timelineToMs = useMemo(() => toEpochMs(filtersDraft.dateTo, true), [filtersDraft.dateTo]);
@@ -709,8 +1052,8 @@ export function MainLayout() {
       setHighlightedTripId(segment.tripId);
       setFiltersDraft((prev) => ({
         ...prev,
-        dateFrom: toDateInput(segment.startAtMs),
-        dateTo: toDateInput(segment.endAtMs),
+        dateFrom: toDateInput(segment.startLocalMs),
+        dateTo: toDateInput(segment.endLocalMs),
       }));
     },
     [setFiltersDraft, setShowTrips, setTimelinePlaying, tripSegments],
@@ -724,8 +1067,8 @@ export function MainLayout() {
       setHighlightedTripId(trip.tripId);
       setFiltersDraft((prev) => ({
         ...prev,
-        dateFrom: toDateInput(trip.startAtMs),
-        dateTo: toDateInput(trip.endAtMs),
+        dateFrom: toDateInput(trip.startLocalMs),
+        dateTo: toDateInput(trip.endLocalMs),
       }));
       const focusPoint = trip.points[Math.floor(trip.points.length / 2)] ?? trip.points[0];
       if (focusPoint) {
@@ -779,6 +1122,7 @@ export function MainLayout() {
           onPointClick={handlePointClick}
           onPointHover={handlePointHover}
           onViewChange={refresh}
+          onPickLocation={locationEdit.pickActive ? handlePickLocation : null}
           flyToRequest={flyToRequest}
         />
       </main>
@@ -805,33 +1149,183 @@ export function MainLayout() {
           }
         }}
         onLanguageChange={handleLanguageChange}
-        filtersSlot={<FiltersPanel value={filtersDraft} roots={activeRootOptions} onChange={setFiltersDraft} />}
-        previewSlot={
-          <PreviewPanel
-            preview={preview}
-            previews={previewItems}
-            isLoading={previewLoading}
-            onSelectPreview={handlePreviewItemSelect}
-            onOpenPreview={handleOpenPreview}
+        filtersSlot={
+          <FiltersPanel
+            value={filtersDraft}
+            roots={activeRootOptions}
+            searchCount={searchCount.count}
+            searchCounting={searchCount.counting}
+            onChange={setFiltersDraft}
           />
         }
-        calendarSlot={<DateStatsPanel rows={dateCountRows} loading={dateCountsLoading} />}
+        previewSlot={
+          <>
+            <PreviewPanel
+              preview={preview}
+              previews={previewItems}
+              isLoading={previewLoading}
+              onSelectPreview={handlePreviewItemSelect}
+              onOpenPreview={handleOpenPreview}
+              onSelectStackMember={handleStackMemberSelect}
+              checkedIds={locationCheckedIds}
+              onToggleChecked={locationEdit.toggleSelected}
+              sourceRevision={locationEdit.revision + metadataWrite.revision + clockOffsets.revision + places.revision}
+            />
+            <LocationEditPanel
+              targetCount={locationEdit.targetIds.length}
+              selectionCount={locationEdit.selectedIds.length}
+              stripCount={previewItems.length}
+              pickActive={locationEdit.pickActive}
+              canUndo={locationEdit.canUndo}
+              busy={locationEdit.busy}
+              errorMessage={locationEdit.errorMessage}
+              onTogglePick={() => locationEdit.setPickActive(!locationEdit.pickActive)}
+              onSelectAll={handleSelectAllPreviewItems}
+              onClearSelection={locationEdit.clearSelection}
+              onRevert={() => void locationEdit.revertToOriginal()}
+              onUndo={() => void locationEdit.undo()}
+            />
+            <MetadataWritePanel
+              targetCount={locationEdit.targetIds.length}
+              target={metadataWrite.target}
+              keepBackup={metadataWrite.keepBackup}
+              report={metadataWrite.report}
+              busy={metadataWrite.busy || locationEdit.busy}
+              errorMessage={metadataWrite.errorMessage}
+              onTargetChange={metadataWrite.setTarget}
+              onKeepBackupChange={metadataWrite.setKeepBackup}
+              onWrite={() => void metadataWrite.writeToFiles()}
+              onDismissReport={metadataWrite.dismissReport}
+            />
+          </>
+        }
+        calendarSlot={
+          <>
+            <DateStatsPanel rows={dateCountRows} loading={dateCountsLoading} />
+            <PlacesPanel
+              summary={places.summary}
+              selectedCountryCodes={filtersDraft.countryCodes}
+              selectedCityIds={filtersDraft.cityIds}
+              busy={places.busy}
+              errorMessage={places.errorMessage}
+              onReload={() => void places.reload()}
+              onToggleCountry={handleTogglePlaceCountry}
+              onToggleCity={handleTogglePlaceCity}
+            />
+          </>
+        }
         systemSlot={
           <div className="system-actions">
             <RootLibraryPanel
               roots={rootOptions}
               activeRootIds={settings.activeRootIds}
+              ignorePatterns={settings.rootIgnorePatterns}
               onAddRoot={() => void handleSelectFolder()}
               onToggleActive={handleToggleActiveRoot}
               onRemoveRoot={handleRootRemove}
+              onSaveIgnorePatterns={handleSaveRootIgnorePatterns}
+              missingRoots={rootRelocation.missingRoots}
+              relocatingRootId={rootRelocation.relocatingRootId}
+              relocationError={rootRelocation.errorMessage}
+              onRelocate={(rootId, targetPath) => void handleRootRelocate(rootId, targetPath)}
+              onPickRelocation={(rootId) => void handleRootRelocatePick(rootId)}
             />
             <ProgressPanel
               status={indexStatus}
               history={indexJobHistory}
+              queue={indexQueue}
               canCancel={canCancelIndexing}
               canRetry={canRetryIndexing}
-              onCancel={() => void handleCancelIndexing()}
+              canPause={isActiveIndexPhase}
+              onCancel={() => void handleCancelIndexing(hasIndexWork ? undefined : pausedIndexJobId)}
               onRetry={() => void handleRetryIndexing()}
+              onPause={() => indexStatus && void handlePauseIndexing(indexStatus.jobId)}
+              onResume={(jobId) => void handleResumeIndexing(jobId)}
+              onCancelJob={(jobId) => void handleCancelIndexing(jobId)}
+              errorGroups={indexErrorGroups}
+              onRetryFailed={() => void handleRetryFailedIndexing(indexErrorGroups.map((group) => group.rootPath))}
+              onClearErrors={(group) => void handleClearIndexErrors(group)}
+              onOpenErrorFile={(photoId) => void handleOpenPreview(photoId)}
+            />
+            <DuplicatesPanel
+              groups={duplicateGroups}
+              loading={duplicatesLoading}
+              onRefresh={() => void refreshDuplicateGroups()}
+              onOpenSource={(photoId) => void handleOpenPreview(photoId)}
+            />
+            <SimilarPhotosPanel
+              groups={similarPhotos.groups}
+              hashedCount={similarPhotos.hashedCount}
+              pendingCount={similarPhotos.pendingCount}
+              maxDistance={similarPhotos.maxDistance}
+              lookup={similarPhotos.lookup}
+              thumbPaths={similarPhotos.thumbPaths}
+              currentPhotoId={preview?.photoId ?? null}
+              loading={similarPhotos.loading}
+              hashing={similarPhotos.hashing}
+              errorMessage={similarPhotos.errorMessage}
+              onMaxDistanceChange={similarPhotos.setMaxDistance}
+              onRefresh={() => void similarPhotos.refresh()}
+              onStartHashing={() => void similarPhotos.startHashing()}
+              onStopHashing={similarPhotos.stopHashing}
+              onFindSimilar={(photoId) => void similarPhotos.findSimilar(photoId)}
+              onClearLookup={similarPhotos.clearLookup}
+              onOpenPhoto={(photoId) => void handleOpenPreview(photoId)}
+            />
+            <ClockOffsetPanel
+              cameras={clockOffsets.cameras}
+              rules={clockOffsets.rules}
+              roots={rootOptions}
+              preview={clockOffsets.preview}
+              lastUpdated={clockOffsets.lastUpdated}
+              busy={clockOffsets.busy}
+              errorMessage={clockOffsets.errorMessage}
+              onReload={() => void clockOffsets.reload()}
+              onDraftChange={clockOffsets.clearPreview}
+              onPreview={(draft) => void clockOffsets.handlePreview(draft)}
+              onSave={clockOffsets.handleSave}
+              onRemove={(id) => void clockOffsets.handleRemove(id)}
+            />
+            <GeotagPanel
+              settings={settings.geotag}
+              trackPaths={geotag.trackPaths}
+              preview={geotag.preview}
+              lastAppliedCount={geotag.lastApplied?.applied ?? null}
+              busy={geotag.busy}
+              errorMessage={geotag.errorMessage}
+              onSaveSettings={handleGeotagSettingsChange}
+              onSelectTracks={() => void geotag.handleSelectTracks()}
+              onClearTracks={geotag.handleClearTracks}
+              onPreview={() => void geotag.handlePreview()}
+              onApply={() => void geotag.handleApply()}
+              onUndoApply={() => void geotag.handleUndoApply()}
+            />
+            <MaintenancePanel
+              settings={settings.maintenance}
+              status={maintenance.status}
+              busy={maintenance.busy}
+              errorMessage={maintenance.errorMessage}
+              onSaveSettings={(next) => void handleMaintenanceSettingsChange(next)}
+              onRun={() => void maintenance.handleRun()}
+            />
+            <ThumbnailCachePanel
+              settings={settings.thumbnailCache}
+              stats={thumbnailCache.stats}
+              errorMessage={thumbnailCache.errorMessage}
+              onSaveSettings={(next) => void handleThumbnailCacheSettingsChange(next)}
+              onRefresh={() => void reloadThumbnailCache()}
+            />
+            <DatabasePanel
+              settings={settings.backup}
+              status={database.status}
+              busy={database.busy}
+              busyAction={database.busyAction}
+              restoreScheduled={database.restoreScheduled}
+              errorMessage={database.errorMessage}
+              onSaveSettings={(next) => void handleBackupSettingsChange(next)}
+              onBackupNow={() => void database.handleBackupNow()}
+              onCheckIntegrity={(mode) => void database.handleCheckIntegrity(mode)}
+              onRestore={handleDatabaseRestore}
             />
             <div className="action-buttons-grid">
               <button type="button" onClick={handleSelectFolder}>{t('sidebar.selectFolder')}</button>
@@ -975,12 +1469,15 @@ export function MainLayout() {
             isFavorite={isFavorite}
             isDefaultFavorite={isDefaultFavorite}
             onRetryCatalog={() => void ensureCatalog(t)}
+            onImportCatalog={() => void importCatalogFromFiles(t)}
             onSelectContinent={setSelectedContinentCode}
             onSelectCountry={setSelectedCountryCode}
             onQueryChange={setQuery}
             onLoadMore={() => void loadCities({ reset: false, nextOffset: offset + CITY_PAGE_SIZE })}
             onToggleFavorite={(cityId) => void handleToggleFavorite(cityId)}
             onFlyTo={handleFlyToFromCity}
+            locationTargetCount={locationEdit.targetIds.length}
+            onAssignLocation={handleAssignCityLocation}
           />
         }
       />
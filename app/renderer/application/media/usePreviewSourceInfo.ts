@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+
+import type { PreviewState } from '@renderer/domain/preview/previewModels';
+import type { PhotoGlobeGateway } from '@renderer/infrastructure/photoGlobeGateway';
+import { windowPhotoGlobeGateway } from '@renderer/infrastructure/windowPhotoGlobeGateway';
+import type { MediaSourceInfo } from '@shared/types/ipc';
+
+export function usePreviewSourceInfo(
+  preview: PreviewState | null,
+  gateway: PhotoGlobeGateway = windowPhotoGlobeGateway,
+  // Changes whenever the photo's stored details may have been edited, forcing a refetch.
+  revision = 0,
+): MediaSourceInfo | null {
+  const [sourceInfo, setSourceInfo] = useState<MediaSourceInfo | null>(null);
+  const photoId = preview?.photoId ?? null;
+
+  useEffect(() => {
+    setSourceInfo(null);
+    if (photoId == null) return;
+
+    let cancelled = false;
+    gateway
+      .mediaGetSource({ photoId })
+      .then((source) => {
+        if (!cancelled) setSourceInfo(source);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [gateway, photoId, revision]);
+
+  return sourceInfo;
+}
@@ -17,6 +17,8 @@ export function useAppBootstrap(gateway: PhotoGlobeGateway = windowPhotoGlobeGat
   const setRootPath = useAppStore((state) => state.setRootPath);
   const setIsFullscreen = useAppStore((state) => state.setIsFullscreen);
   const updateIndexProgress = useAppStore((state) => state.updateIndexProgress);
+  const setIndexJobHistory = useAppStore((state) => state.setIndexJobHistory);
+  const setIndexQueue = useAppStore((state) => state.setIndexQueue);
   const trackedTerminalJobIdsRef = useRef<Set<string>>(new Set());
   const trackedAppOpenedRef = useRef(false);
 
@@ -63,6 +65,45 @@ export function useAppBootstrap(gateway: PhotoGlobeGateway = windowPhotoGlobeGat
     });
   }, [apiReady, gateway, updateIndexProgress]);
 
+  useEffect(() => {
+    if (!apiReady) return;
+    let cancelled = false;
+    void gateway
+      .indexListJobs({ limit: 20 })
+      .then((jobs) => {
+        if (!cancelled) {
+          setIndexJobHistory(jobs);
+        }
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [apiReady, gateway, setIndexJobHistory]);
+
+  useEffect(() => {
+    if (!apiReady) return;
+    let cancelled = false;
+    let pushed = false;
+    const unsubscribe = gateway.indexOnQueueChanged((queue) => {
+      pushed = true;
+      setIndexQueue(queue);
+    });
+    void gateway
+      .indexListQueue()
+      .then((queue) => {
+        // A snapshot pushed while this request was in flight is newer.
+        if (!cancelled && !pushed) {
+          setIndexQueue(queue);
+        }
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [apiReady, gateway, setIndexQueue]);
+
   useEffect(() => {
     if (!apiReady) return;
     let cancelled = false;
@@ -95,22 +95,46 @@ export function useCityCatalogUseCase({
     );
   }, [gateway, setContinents, setSelectedContinentCode]);
 
-  const ensureCatalog = useCallback(
-    async (t: (key: string) => string) => {
+  const runCatalogTask = useCallback(
+    async (t: (key: string) => string, task: () => Promise<CityCatalogStatus>) => {
       setLoadingCatalog(true);
       setErrorMessage(null);
       try {
-        const status = await gateway.citiesEnsureCatalog();
+        const status = await task();
         setCatalogStatus(status);
-        if (status.phase === 'ready') await loadContinents();
-        else if (status.phase === 'error') setErrorMessage(status.message ?? t('cities.catalogError'));
+        if (status.phase === 'ready') {
+          await loadContinents();
+          if (status.error) setErrorMessage(status.error);
+        } else if (status.phase === 'error') {
+          setErrorMessage(status.message ?? t('cities.catalogError'));
+        }
       } catch (error) {
         setErrorMessage(error instanceof Error ? error.message : String(error));
       } finally {
         setLoadingCatalog(false);
       }
     },
-    [gateway, loadContinents, setCatalogStatus, setErrorMessage, setLoadingCatalog],
+    [loadContinents, setCatalogStatus, setErrorMessage, setLoadingCatalog],
+  );
+
+  const ensureCatalog = useCallback(
+    (t: (key: string) => string) => runCatalogTask(t, () => gateway.citiesEnsureCatalog()),
+    [gateway, runCatalogTask],
+  );
+
+  const importCatalogFromFiles = useCallback(
+    async (t: (key: string) => string) => {
+      let paths: string[];
+      try {
+        ({ paths } = await gateway.citiesSelectImportFiles());
+      } catch (error) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+        return;
+      }
+      if (paths.length === 0) return;
+      await runCatalogTask(t, () => gateway.citiesImportFromFile({ paths }));
+    },
+    [gateway, runCatalogTask, setErrorMessage],
   );
 
   const loadCountries = useCallback(
@@ -209,7 +233,7 @@ export function useCityCatalogUseCase({
         setCatalogStatus(progress);
         if (progress.phase === 'error') setErrorMessage(progress.message ?? t('cities.catalogError'));
         if (progress.phase === 'ready') {
-          setErrorMessage(null);
+          setErrorMessage(progress.error ?? null);
           void loadContinents();
         }
       });
@@ -252,6 +276,7 @@ export function useCityCatalogUseCase({
     userFavoriteSet,
     getCatalogStatusText,
     ensureCatalog,
+    importCatalogFromFiles,
     loadContinents,
     loadCities,
     loadCountries,
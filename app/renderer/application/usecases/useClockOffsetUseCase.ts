@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import type { CameraModelSummary, ClockOffsetDraft, ClockOffsetPreview } from '@shared/types/ipc';
+import type { CameraClockOffset } from '@shared/types/photo';
+
+import type { PhotoGlobeGateway } from '@renderer/infrastructure/photoGlobeGateway';
+import { windowPhotoGlobeGateway } from '@renderer/infrastructure/windowPhotoGlobeGateway';
+
+interface UseClockOffsetUseCaseParams {
+  apiReady: boolean;
+  onTimesChanged: () => void;
+  gateway?: PhotoGlobeGateway;
+}
+
+export function useClockOffsetUseCase({
+  apiReady,
+  onTimesChanged,
+  gateway = windowPhotoGlobeGateway,
+}: UseClockOffsetUseCaseParams) {
+  const [cameras, setCameras] = useState<CameraModelSummary[]>([]);
+  const [rules, setRules] = useState<CameraClockOffset[]>([]);
+  const [preview, setPreview] = useState<ClockOffsetPreview | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Bumped after a rule change so the preview card reloads the photo's correction.
+  const [revision, setRevision] = useState(0);
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setBusy(true);
+    setErrorMessage(null);
+    try {
+      await task();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const reload = useCallback(async () => {
+    if (!apiReady) {
+      return;
+    }
+    await run(async () => {
+      const [nextCameras, nextRules] = await Promise.all([gateway.clockOffsetsListCameras(), gateway.clockOffsetsList()]);
+      setCameras(nextCameras);
+      setRules(nextRules);
+    });
+  }, [apiReady, gateway, run]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const clearPreview = useCallback(() => {
+    setPreview(null);
+    setLastUpdated(null);
+  }, []);
+
+  const handlePreview = useCallback(
+    async (draft: ClockOffsetDraft) => {
+      if (!apiReady) {
+        return;
+      }
+      await run(async () => {
+        setPreview(await gateway.clockOffsetsPreview({ draft }));
+      });
+    },
+    [apiReady, gateway, run],
+  );
+
+  const afterChange = useCallback(
+    async (updated: number) => {
+      setPreview(null);
+      setLastUpdated(updated);
+      setRules(await gateway.clockOffsetsList());
+      if (updated > 0) {
+        setRevision((value) => value + 1);
+        onTimesChanged();
+      }
+    },
+    [gateway, onTimesChanged],
+  );
+
+  const handleSave = useCallback(
+    async (draft: ClockOffsetDraft): Promise<boolean> => {
+      if (!apiReady) {
+        return false;
+      }
+      let saved = false;
+      await run(async () => {
+        const result = await gateway.clockOffsetsSave(draft);
+        saved = true;
+        await afterChange(result.updated);
+      });
+      return saved;
+    },
+    [afterChange, apiReady, gateway, run],
+  );
+
+  const handleRemove = useCallback(
+    async (id: number) => {
+      if (!apiReady) {
+        return;
+      }
+      await run(async () => {
+        const result = await gateway.clockOffsetsRemove({ id });
+        await afterChange(result.updated);
+      });
+    },
+    [afterChange, apiReady, gateway, run],
+  );
+
+  return {
+    cameras,
+    rules,
+    preview,
+    lastUpdated,
+    busy,
+    errorMessage,
+    revision,
+    reload,
+    clearPreview,
+    handlePreview,
+    handleSave,
+    handleRemove,
+  };
+}
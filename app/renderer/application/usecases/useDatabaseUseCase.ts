@@ -0,0 +1,81 @@
+import { useCallback, useState } from 'react';
+
+import type { DatabaseCheckMode, DatabaseStatus } from '@shared/types/ipc';
+
+import type { PhotoGlobeGateway } from '@renderer/infrastructure/photoGlobeGateway';
+import { windowPhotoGlobeGateway } from '@renderer/infrastructure/windowPhotoGlobeGateway';
+
+interface UseDatabaseUseCaseParams {
+  apiReady: boolean;
+  gateway?: PhotoGlobeGateway;
+}
+
+export type DatabaseAction = 'backup' | 'check' | 'restore';
+
+export function useDatabaseUseCase({ apiReady, gateway = windowPhotoGlobeGateway }: UseDatabaseUseCaseParams) {
+  const [status, setStatus] = useState<DatabaseStatus | null>(null);
+  const [busyAction, setBusyAction] = useState<DatabaseAction | null>(null);
+  const [restoreScheduled, setRestoreScheduled] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!apiReady) {
+      return;
+    }
+    try {
+      setStatus(await gateway.databaseGetStatus());
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    }
+  }, [apiReady, gateway]);
+
+  const runAction = useCallback(
+    async (action: DatabaseAction, task: () => Promise<unknown>) => {
+      if (!apiReady) {
+        return;
+      }
+      setBusyAction(action);
+      setErrorMessage(null);
+      try {
+        await task();
+      } catch (error) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setBusyAction(null);
+      }
+      await reload();
+    },
+    [apiReady, reload],
+  );
+
+  const handleBackupNow = useCallback(
+    () => runAction('backup', () => gateway.databaseBackupNow()),
+    [gateway, runAction],
+  );
+
+  const handleCheckIntegrity = useCallback(
+    (mode: DatabaseCheckMode) => runAction('check', () => gateway.databaseCheckIntegrity({ mode })),
+    [gateway, runAction],
+  );
+
+  const handleRestore = useCallback(
+    (name: string) =>
+      runAction('restore', async () => {
+        const result = await gateway.databaseRestore({ name });
+        setRestoreScheduled(result.scheduled);
+      }),
+    [gateway, runAction],
+  );
+
+  return {
+    status,
+    busyAction,
+    busy: busyAction !== null || Boolean(status?.backingUp) || restoreScheduled,
+    restoreScheduled,
+    errorMessage,
+    reload,
+    handleBackupNow,
+    handleCheckIntegrity,
+    handleRestore,
+  };
+}
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import type { GeotagPreview } from '@shared/types/ipc';
+import type { GeotagSettings } from '@shared/types/settings';
+
+import type { PhotoGlobeGateway } from '@renderer/infrastructure/photoGlobeGateway';
+import { windowPhotoGlobeGateway } from '@renderer/infrastructure/windowPhotoGlobeGateway';
+
+interface UseGeotagUseCaseParams {
+  apiReady: boolean;
+  settings: GeotagSettings;
+  rootIds: number[];
+  onLocationsChanged: () => void;
+  gateway?: PhotoGlobeGateway;
+}
+
+export interface GeotagApplyResult {
+  applied: number;
+  photoIds: number[];
+}
+
+export function useGeotagUseCase({
+  apiReady,
+  settings,
+  rootIds,
+  onLocationsChanged,
+  gateway = windowPhotoGlobeGateway,
+}: UseGeotagUseCaseParams) {
+  const [trackPaths, setTrackPaths] = useState<string[]>([]);
+  const [preview, setPreview] = useState<GeotagPreview | null>(null);
+  const [lastApplied, setLastApplied] = useState<GeotagApplyResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const buildOptions = useCallback(
+    (paths: string[]) => ({
+      trackPaths: paths,
+      clockOffsetSeconds: settings.clockOffsetSeconds,
+      maxGapSeconds: settings.maxGapSeconds,
+      rootIds: rootIds.length > 0 ? rootIds : undefined,
+    }),
+    [rootIds, settings.clockOffsetSeconds, settings.maxGapSeconds],
+  );
+
+  // A preview is only valid for the offset and gap it was computed with.
+  useEffect(() => {
+    setPreview(null);
+  }, [buildOptions]);
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setBusy(true);
+    setErrorMessage(null);
+    try {
+      await task();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const handleSelectTracks = useCallback(async () => {
+    if (!apiReady) {
+      return;
+    }
+    const result = await gateway.geotagSelectTrackFiles();
+    if (result.paths.length > 0) {
+      setTrackPaths(result.paths);
+      setPreview(null);
+    }
+  }, [apiReady, gateway]);
+
+  const handleClearTracks = useCallback(() => {
+    setTrackPaths([]);
+    setPreview(null);
+    setErrorMessage(null);
+  }, []);
+
+  const handlePreview = useCallback(async () => {
+    if (!apiReady || trackPaths.length === 0) {
+      return;
+    }
+    await run(async () => {
+      setPreview(await gateway.geotagPreview(buildOptions(trackPaths)));
+    });
+  }, [apiReady, buildOptions, gateway, run, trackPaths]);
+
+  const handleApply = useCallback(async () => {
+    if (!apiReady || !preview || preview.matchedCount === 0) {
+      return;
+    }
+    await run(async () => {
+      const result = await gateway.geotagApply(buildOptions(trackPaths));
+      setLastApplied(result);
+      setPreview(null);
+      onLocationsChanged();
+    });
+  }, [apiReady, buildOptions, gateway, onLocationsChanged, preview, run, trackPaths]);
+
+  const handleUndoApply = useCallback(async () => {
+    if (!apiReady || !lastApplied || lastApplied.photoIds.length === 0) {
+      return;
+    }
+    await run(async () => {
+      await gateway.geotagClear({ photoIds: lastApplied.photoIds });
+      setLastApplied(null);
+      onLocationsChanged();
+    });
+  }, [apiReady, gateway, lastApplied, onLocationsChanged, run]);
+
+  return {
+    trackPaths,
+    preview,
+    lastApplied,
+    busy,
+    errorMessage,
+    handleSelectTracks,
+    handleClearTracks,
+    handlePreview,
+    handleApply,
+    handleUndoApply,
+  };
+}
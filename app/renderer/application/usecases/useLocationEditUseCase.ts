@@ -0,0 +1,126 @@
+import { useCallback, useMemo, useState } from 'react';
+
+import type { LocationEditSnapshot } from '@shared/types/ipc';
+
+import type { PhotoGlobeGateway } from '@renderer/infrastructure/photoGlobeGateway';
+import { windowPhotoGlobeGateway } from '@renderer/infrastructure/windowPhotoGlobeGateway';
+
+const UNDO_LIMIT = 20;
+
+interface UseLocationEditUseCaseParams {
+  apiReady: boolean;
+  // The photo shown in the preview card; edited when nothing is multi-selected.
+  fallbackPhotoId: number | null;
+  onLocationsChanged: () => void;
+  gateway?: PhotoGlobeGateway;
+}
+
+export function useLocationEditUseCase({
+  apiReady,
+  fallbackPhotoId,
+  onLocationsChanged,
+  gateway = windowPhotoGlobeGateway,
+}: UseLocationEditUseCaseParams) {
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [pickActive, setPickActive] = useState(false);
+  const [undoStack, setUndoStack] = useState<LocationEditSnapshot[][]>([]);
+  const [busy, setBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Bumped after every write so views showing a photo's location source can refetch it.
+  const [revision, setRevision] = useState(0);
+
+  const targetIds = useMemo(() => {
+    if (selectedIds.length > 0) {
+      return selectedIds;
+    }
+    return fallbackPhotoId == null ? [] : [fallbackPhotoId];
+  }, [fallbackPhotoId, selectedIds]);
+
+  const toggleSelected = useCallback((photoId: number) => {
+    setSelectedIds((current) =>
+      current.includes(photoId) ? current.filter((id) => id !== photoId) : [...current, photoId],
+    );
+  }, []);
+
+  const selectMany = useCallback((photoIds: number[]) => {
+    setSelectedIds(Array.from(new Set(photoIds)));
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds([]);
+    setPickActive(false);
+  }, []);
+
+  const run = useCallback(
+    async (task: () => Promise<LocationEditSnapshot[] | null>) => {
+      if (!apiReady) {
+        return;
+      }
+      setBusy(true);
+      setErrorMessage(null);
+      try {
+        const previous = await task();
+        if (previous && previous.length > 0) {
+          setUndoStack((current) => [...current, previous].slice(-UNDO_LIMIT));
+        }
+        setRevision((value) => value + 1);
+        onLocationsChanged();
+      } catch (error) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [apiReady, onLocationsChanged],
+  );
+
+  const assignLocation = useCallback(
+    async (lat: number, lng: number, label?: string | null) => {
+      if (targetIds.length === 0) {
+        return;
+      }
+      setPickActive(false);
+      await run(async () => {
+        const result = await gateway.locationSet({ photoIds: targetIds, lat, lng, label });
+        return result.changed > 0 ? result.previous : null;
+      });
+    },
+    [gateway, run, targetIds],
+  );
+
+  const revertToOriginal = useCallback(async () => {
+    if (targetIds.length === 0) {
+      return;
+    }
+    await run(async () => (await gateway.locationRevert({ photoIds: targetIds })).previous);
+  }, [gateway, run, targetIds]);
+
+  const undo = useCallback(async () => {
+    const snapshots = undoStack[undoStack.length - 1];
+    if (!snapshots) {
+      return;
+    }
+    setUndoStack((current) => current.slice(0, -1));
+    await run(async () => {
+      await gateway.locationRestore({ snapshots });
+      return null;
+    });
+  }, [gateway, run, undoStack]);
+
+  return {
+    selectedIds,
+    targetIds,
+    pickActive,
+    canUndo: undoStack.length > 0,
+    busy,
+    errorMessage,
+    revision,
+    setPickActive,
+    toggleSelected,
+    selectMany,
+    clearSelection,
+    assignLocation,
+    revertToOriginal,
+    undo,
+  };
+}
@@ -0,0 +1,52 @@
+import { useCallback, useState } from 'react';
+
+import type { MaintenanceStatus } from '@shared/types/ipc';
+
+import type { PhotoGlobeGateway } from '@renderer/infrastructure/photoGlobeGateway';
+import { windowPhotoGlobeGateway } from '@renderer/infrastructure/windowPhotoGlobeGateway';
+
+interface UseMaintenanceUseCaseParams {
+  apiReady: boolean;
+  gateway?: PhotoGlobeGateway;
+}
+
+export function useMaintenanceUseCase({ apiReady, gateway = windowPhotoGlobeGateway }: UseMaintenanceUseCaseParams) {
+  const [status, setStatus] = useState<MaintenanceStatus | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!apiReady) {
+      return;
+    }
+    try {
+      setStatus(await gateway.maintenanceGetStatus());
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    }
+  }, [apiReady, gateway]);
+
+  const handleRun = useCallback(async () => {
+    if (!apiReady) {
+      return;
+    }
+    setBusy(true);
+    setErrorMessage(null);
+    try {
+      await gateway.maintenanceRun();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+    await reload();
+  }, [apiReady, gateway, reload]);
+
+  return {
+    status,
+    busy: busy || Boolean(status?.running),
+    errorMessage,
+    reload,
+    handleRun,
+  };
+}
@@ -0,0 +1,66 @@
+import { useCallback, useState } from 'react';
+
+import type { MetadataWriteReport, MetadataWriteTarget } from '@shared/types/ipc';
+
+import type { PhotoGlobeGateway } from '@renderer/infrastructure/photoGlobeGateway';
+import { windowPhotoGlobeGateway } from '@renderer/infrastructure/windowPhotoGlobeGateway';
+
+interface UseMetadataWriteUseCaseParams {
+  apiReady: boolean;
+  photoIds: number[];
+  onWritten: () => void;
+  gateway?: PhotoGlobeGateway;
+}
+
+export function useMetadataWriteUseCase({
+  apiReady,
+  photoIds,
+  onWritten,
+  gateway = windowPhotoGlobeGateway,
+}: UseMetadataWriteUseCaseParams) {
+  // Sidecars are the safe default: originals stay byte-identical.
+  const [target, setTarget] = useState<MetadataWriteTarget>('sidecar');
+  const [keepBackup, setKeepBackup] = useState(true);
+  const [report, setReport] = useState<MetadataWriteReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Bumped after a write so the preview card reloads where each field now comes from.
+  const [revision, setRevision] = useState(0);
+
+  const writeToFiles = useCallback(async () => {
+    if (!apiReady || photoIds.length === 0) {
+      return;
+    }
+    setBusy(true);
+    setErrorMessage(null);
+    try {
+      const next = await gateway.metadataWrite({ photoIds, target, keepBackup });
+      setReport(next);
+      if (next.written > 0) {
+        setRevision((value) => value + 1);
+        onWritten();
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  }, [apiReady, gateway, keepBackup, onWritten, photoIds, target]);
+
+  const dismissReport = useCallback(() => {
+    setReport(null);
+  }, []);
+
+  return {
+    target,
+    keepBackup,
+    report,
+    busy,
+    errorMessage,
+    revision,
+    setTarget,
+    setKeepBackup,
+    writeToFiles,
+    dismissReport,
+  };
+}
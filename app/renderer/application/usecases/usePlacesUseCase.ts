@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import type { PlacesSummary } from '@shared/types/ipc';
+import type { Filters } from '@shared/types/settings';
+
+import type { PhotoGlobeGateway } from '@renderer/infrastructure/photoGlobeGateway';
+import { windowPhotoGlobeGateway } from '@renderer/infrastructure/windowPhotoGlobeGateway';
+
+interface UsePlacesUseCaseParams {
+  apiReady: boolean;
+  active: boolean;
+  filters: Filters;
+  gateway?: PhotoGlobeGateway;
+}
+
+export function usePlacesUseCase({
+  apiReady,
+  active,
+  filters,
+  gateway = windowPhotoGlobeGateway,
+}: UsePlacesUseCaseParams) {
+  const [summary, setSummary] = useState<PlacesSummary | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Bumped whenever the main process finishes a lookup pass, so trips and previews pick up new names.
+  const [revision, setRevision] = useState(0);
+
+  // The list ignores its own place filters; picking a place must not hide the others.
+  const listKey = JSON.stringify({ ...filters, countryCodes: undefined, cityIds: undefined });
+
+  useEffect(() => {
+    if (!apiReady) {
+      return;
+    }
+    return gateway.placesOnUpdated(() => setRevision((value) => value + 1));
+  }, [apiReady, gateway]);
+
+  const reload = useCallback(async () => {
+    if (!apiReady) {
+      return;
+    }
+    setBusy(true);
+    setErrorMessage(null);
+    try {
+      setSummary(await gateway.placesList({ filters: JSON.parse(listKey) as Filters }));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setBusy(false);
+    }
+  }, [apiReady, gateway, listKey]);
+
+  useEffect(() => {
+    if (active) {
+      void reload();
+    }
+  }, [active, reload, revision]);
+
+  return {
+    summary,
+    busy,
+    errorMessage,
+    revision,
+    reload,
+  };
+}
@@ -240,6 +240,13 @@ export function usePreviewUseCase({
     [loadPreview, previewItems],
   );
 
+  const handleStackMemberSelect = useCallback(
+    async (photoId: number, mediaType: MediaType) => {
+      await loadPreview(photoId, mediaType, thumbCacheRef.current.get(photoId) ?? null);
+    },
+    [loadPreview],
+  );
+
   const handleOpenPreview = useCallback(
     async (photoId: number) => {
       try {
@@ -438,6 +445,7 @@ export function usePreviewUseCase({
     preview,
     previewItems,
     handlePreviewItemSelect,
+    handleStackMemberSelect,
     handleOpenPreview,
     handlePointClick,
     handleClusterClick,
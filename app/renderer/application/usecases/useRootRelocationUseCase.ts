@@ -0,0 +1,60 @@
+import { useCallback, useState } from 'react';
+
+import type { MissingRootItem, RootRelocationResult } from '@shared/types/ipc';
+
+import type { PhotoGlobeGateway } from '@renderer/infrastructure/photoGlobeGateway';
+import { windowPhotoGlobeGateway } from '@renderer/infrastructure/windowPhotoGlobeGateway';
+
+interface UseRootRelocationUseCaseParams {
+  apiReady: boolean;
+  gateway?: PhotoGlobeGateway;
+}
+
+export function useRootRelocationUseCase({
+  apiReady,
+  gateway = windowPhotoGlobeGateway,
+}: UseRootRelocationUseCaseParams) {
+  const [missingRoots, setMissingRoots] = useState<MissingRootItem[]>([]);
+  const [relocatingRootId, setRelocatingRootId] = useState<number | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!apiReady) {
+      return;
+    }
+    try {
+      setMissingRoots(await gateway.settingsFindMissingRoots());
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    }
+  }, [apiReady, gateway]);
+
+  const handleRelocate = useCallback(
+    async (rootId: number, path: string): Promise<RootRelocationResult | null> => {
+      if (!apiReady) {
+        return null;
+      }
+      setRelocatingRootId(rootId);
+      setErrorMessage(null);
+      try {
+        const result = await gateway.settingsRelocateRoot({ rootId, path });
+        setMissingRoots((current) => current.filter((item) => item.rootId !== rootId));
+        return result;
+      } catch (error) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+        return null;
+      } finally {
+        setRelocatingRootId(null);
+      }
+    },
+    [apiReady, gateway],
+  );
+
+  return {
+    missingRoots,
+    relocatingRootId,
+    errorMessage,
+    reload,
+    handleRelocate,
+  };
+}
@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react';
+
+import type { SearchCount } from '@shared/types/ipc';
+import type { Filters } from '@shared/types/settings';
+
+import type { PhotoGlobeGateway } from '@renderer/infrastructure/photoGlobeGateway';
+import { windowPhotoGlobeGateway } from '@renderer/infrastructure/windowPhotoGlobeGateway';
+
+const COUNT_DEBOUNCE_MS = 150;
+
+interface UseSearchCountUseCaseParams {
+  apiReady: boolean;
+  filters: Filters;
+  gateway?: PhotoGlobeGateway;
+}
+
+/** Match counts for the search box, refreshed as the user types; null while no text is entered. */
+export function useSearchCountUseCase({
+  apiReady,
+  filters,
+  gateway = windowPhotoGlobeGateway,
+}: UseSearchCountUseCaseParams) {
+  const [count, setCount] = useState<SearchCount | null>(null);
+  const [counting, setCounting] = useState(false);
+  const requestSeqRef = useRef(0);
+
+  // The count answers "what does this search find", so it ignores whether GPS is required.
+  const countKey = filters.textQuery ? JSON.stringify({ ...filters, hasGps: undefined }) : null;
+
+  useEffect(() => {
+    const seq = requestSeqRef.current + 1;
+    requestSeqRef.current = seq;
+    if (!apiReady || !countKey) {
+      setCount(null);
+      setCounting(false);
+      return;
+    }
+    setCounting(true);
+    const timer = window.setTimeout(() => {
+      gateway
+        .searchCount({ filters: JSON.parse(countKey) as Filters })
+        .then((next) => {
+          if (requestSeqRef.current === seq) setCount(next);
+        })
+        .catch(() => {
+          if (requestSeqRef.current === seq) setCount(null);
+        })
+        .finally(() => {
+          if (requestSeqRef.current === seq) setCounting(false);
+        });
+    }, COUNT_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [apiReady, countKey, gateway]);
+
+  return { count, counting };
+}
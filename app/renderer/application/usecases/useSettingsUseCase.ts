@@ -1,5 +1,6 @@
-import { useCallback, useRef } from 'react';
+import { useCallback } from 'react';
 
+import type { IndexJobMode } from '@shared/types/ipc';
 import type { AppLanguage, AppSettings } from '@shared/types/settings';
 
 import { useAppStore } from '@renderer/store/useAppStore';
@@ -8,26 +9,12 @@ import { trackUxEvent } from '@renderer/application/metrics/uxMetrics';
 import type { PhotoGlobeGateway } from '@renderer/infrastructure/photoGlobeGateway';
 import { windowPhotoGlobeGateway } from '@renderer/infrastructure/windowPhotoGlobeGateway';
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => window.setTimeout(resolve, ms));
-}
-
-function isTerminalPhase(phase: 'idle' | 'scanning' | 'extracting' | 'saving' | 'complete' | 'cancelled' | 'error'): boolean {
-  return phase === 'complete' || phase === 'cancelled' || phase === 'error';
-}
-
 export function useSettingsUseCase(gateway: PhotoGlobeGateway = windowPhotoGlobeGateway) {
   const rootPath = useAppStore((state) => state.rootPath);
-  const activeIndexJobId = useAppStore((state) => state.activeIndexJobId);
-  const indexQueueRunning = useAppStore((state) => state.indexQueueRunning);
+  const indexQueue = useAppStore((state) => state.indexQueue);
   const setSettings = useAppStore((state) => state.setSettings);
   const setRootPath = useAppStore((state) => state.setRootPath);
   const setIsFullscreen = useAppStore((state) => state.setIsFullscreen);
-  const setActiveIndexJobId = useAppStore((state) => state.setActiveIndexJobId);
-  const setIndexQueueRunning = useAppStore((state) => state.setIndexQueueRunning);
-
-  const queueRunTokenRef = useRef(0);
-  const cancelQueueRef = useRef(false);
 
   const persistSettings = useCallback(
     (next: AppSettings) => {
@@ -46,75 +33,70 @@ export function useSettingsUseCase(gateway: PhotoGlobeGateway = windowPhotoGlobe
     return result.path;
   }, [gateway, persistSettings, setRootPath]);
 
-  const waitForJobTerminal = useCallback(
-    async (jobId: string, runToken: number): Promise<void> => {
-      while (runToken === queueRunTokenRef.current) {
-        const status = await gateway.indexStatus(jobId);
-        if (status && isTerminalPhase(status.phase)) {
-          return;
-        }
-        await sleep(350);
+  // The main process schedules the jobs; a root that already has one waiting is merged into it.
+  const enqueueIndexing = useCallback(
+    async (rootPaths: string[], mode: IndexJobMode) => {
+      const startedJobIds: string[] = [];
+      for (const queuedRootPath of rootPaths) {
+        const started = await gateway.indexStart({ rootPath: queuedRootPath, mode });
+        void trackUxEvent(gateway, 'index_started', {
+          jobId: started.jobId,
+          rootPath: queuedRootPath,
+          mode,
+        });
+        startedJobIds.push(started.jobId);
       }
+      if (rootPaths.length > 0) {
+        setRootPath(rootPaths[0]);
+      }
+      return startedJobIds;
     },
-    [gateway],
+    [gateway, setRootPath],
   );
 
   const handleStartIndexing = useCallback(async () => {
-    if (indexQueueRunning) {
-      return [] as string[];
-    }
-
     const [roots, latestSettings] = await Promise.all([gateway.settingsListRoots(), gateway.settingsGet()]);
     persistSettings(latestSettings);
     const activeRoots = roots.filter((root) => latestSettings.activeRootIds.includes(root.id));
     if (activeRoots.length === 0) {
       return [] as string[];
     }
+    return enqueueIndexing(activeRoots.map((root) => root.path), 'full');
+  }, [enqueueIndexing, gateway, persistSettings]);
 
-    const nextToken = queueRunTokenRef.current + 1;
-    queueRunTokenRef.current = nextToken;
-    cancelQueueRef.current = false;
-    setIndexQueueRunning(true);
-
-    const startedJobIds: string[] = [];
-    try {
-      for (const root of activeRoots) {
-        if (cancelQueueRef.current || queueRunTokenRef.current !== nextToken) {
-          break;
-        }
-        setRootPath(root.path);
-        const started = await gateway.indexStart({ rootPath: root.path });
-        void trackUxEvent(gateway, 'index_started', {
-          jobId: started.jobId,
-          rootPath: root.path,
-        });
-        startedJobIds.push(started.jobId);
-        setActiveIndexJobId(started.jobId);
-        await waitForJobTerminal(started.jobId, nextToken);
-      }
-    } finally {
-      if (queueRunTokenRef.current === nextToken) {
-        setIndexQueueRunning(false);
-        cancelQueueRef.current = false;
-      }
-    }
-    return startedJobIds;
-  }, [
-    gateway,
-    indexQueueRunning,
-    persistSettings,
-    setActiveIndexJobId,
-    setIndexQueueRunning,
-    setRootPath,
-    waitForJobTerminal,
-  ]);
-
-  const handleCancelIndexing = useCallback(async () => {
-    cancelQueueRef.current = true;
-    if (!activeIndexJobId) return false;
-    const result = await gateway.indexCancel({ jobId: activeIndexJobId });
-    return result.ok;
-  }, [activeIndexJobId, gateway]);
+  const handleRetryFailedIndexing = useCallback(
+    async (rootPaths: string[]) => {
+      return enqueueIndexing(Array.from(new Set(rootPaths)), 'failedOnly');
+    },
+    [enqueueIndexing],
+  );
+
+  // Without an id, everything running or waiting is cancelled. Paused jobs are no longer queued, so they go by id.
+  const handleCancelIndexing = useCallback(
+    async (jobId?: string) => {
+      const targetJobIds = jobId ? [jobId] : [...indexQueue.running, ...indexQueue.queued].map((item) => item.jobId);
+      if (targetJobIds.length === 0) return false;
+      const results = await Promise.all(targetJobIds.map((targetJobId) => gateway.indexCancel({ jobId: targetJobId })));
+      return results.some((result) => result.ok);
+    },
+    [gateway, indexQueue],
+  );
+
+  const handlePauseIndexing = useCallback(
+    async (jobId: string) => {
+      const result = await gateway.indexPause({ jobId });
+      return result.ok;
+    },
+    [gateway],
+  );
+
+  const handleResumeIndexing = useCallback(
+    async (jobId: string) => {
+      const result = await gateway.indexResume({ jobId });
+      return result.ok;
+    },
+    [gateway],
+  );
 
   const handleRetryIndexing = useCallback(async () => {
     return handleStartIndexing();
@@ -175,7 +157,10 @@ export function useSettingsUseCase(gateway: PhotoGlobeGateway = windowPhotoGlobe
     handleSelectFolder,
     handleStartIndexing,
     handleCancelIndexing,
+    handlePauseIndexing,
+    handleResumeIndexing,
     handleRetryIndexing,
+    handleRetryFailedIndexing,
     handleLanguageChange,
     handleWatchChange,
     handleSetActiveRoots,
@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { SimilarGroupItem, SimilarMemberItem } from '@shared/types/ipc';
+
+import type { PhotoGlobeGateway } from '@renderer/infrastructure/photoGlobeGateway';
+import { windowPhotoGlobeGateway } from '@renderer/infrastructure/windowPhotoGlobeGateway';
+
+const HASH_BATCH_SIZE = 100;
+const GROUP_LIMIT = 200;
+export const SIMILAR_DISTANCE_OPTIONS = [4, 6, 8] as const;
+
+interface UseSimilarPhotosUseCaseParams {
+  apiReady: boolean;
+  gateway?: PhotoGlobeGateway;
+}
+
+export interface SimilarLookup {
+  photoId: number;
+  members: SimilarMemberItem[];
+}
+
+export function useSimilarPhotosUseCase({ apiReady, gateway = windowPhotoGlobeGateway }: UseSimilarPhotosUseCaseParams) {
+  const [groups, setGroups] = useState<SimilarGroupItem[]>([]);
+  const [hashedCount, setHashedCount] = useState(0);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [maxDistance, setMaxDistance] = useState<number>(6);
+  const [lookup, setLookup] = useState<SimilarLookup | null>(null);
+  const [thumbPaths, setThumbPaths] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [hashing, setHashing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const stopHashingRef = useRef(false);
+
+  const loadThumbnails = useCallback(
+    async (members: SimilarMemberItem[]) => {
+      const loaded: Record<number, string> = {};
+      await Promise.all(
+        members.map(async (member) => {
+          try {
+            const thumb = await gateway.mediaGetThumbnail({ photoId: member.photoId, size: 64, priority: 'low' });
+            loaded[member.photoId] = thumb.path;
+          } catch {
+            // A missing thumbnail only hides the picture; the file name is still listed.
+          }
+        }),
+      );
+      setThumbPaths((current) => ({ ...current, ...loaded }));
+    },
+    [gateway],
+  );
+
+  const refresh = useCallback(async () => {
+    if (!apiReady) {
+      return;
+    }
+    setLoading(true);
+    setErrorMessage(null);
+    try {
+      const result = await gateway.mediaGetSimilarGroups({ maxDistance, limit: GROUP_LIMIT });
+      setGroups(result.groups);
+      setHashedCount(result.hashedCount);
+      setPendingCount(result.pendingCount);
+      void loadThumbnails(result.groups.flatMap((group) => group.members));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [apiReady, gateway, loadThumbnails, maxDistance]);
+
+  // Hashes in batches until nothing is left, no batch makes progress or the user stops, then regroups.
+  const startHashing = useCallback(async () => {
+    if (!apiReady || hashing) {
+      return;
+    }
+    stopHashingRef.current = false;
+    setHashing(true);
+    setErrorMessage(null);
+    try {
+      let lastPending = Number.POSITIVE_INFINITY;
+      while (!stopHashingRef.current) {
+        const progress = await gateway.mediaHashPending({ limit: HASH_BATCH_SIZE });
+        setPendingCount(progress.pending);
+        setHashedCount((value) => value + progress.hashed);
+        if (progress.hashed + progress.failed === 0 || progress.pending >= lastPending) {
+          break;
+        }
+        lastPending = progress.pending;
+      }
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setHashing(false);
+    }
+    await refresh();
+  }, [apiReady, gateway, hashing, refresh]);
+
+  const stopHashing = useCallback(() => {
+    stopHashingRef.current = true;
+  }, []);
+
+  const findSimilar = useCallback(
+    async (photoId: number) => {
+      if (!apiReady) {
+        return;
+      }
+      setErrorMessage(null);
+      try {
+        const members = await gateway.mediaFindSimilar({ photoId });
+        setLookup({ photoId, members });
+        void loadThumbnails(members);
+      } catch (error) {
+        setErrorMessage(error instanceof Error ? error.message : String(error));
+      }
+    },
+    [apiReady, gateway, loadThumbnails],
+  );
+
+  const clearLookup = useCallback(() => {
+    setLookup(null);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      stopHashingRef.current = true;
+    };
+  }, []);
+
+  return {
+    groups,
+    hashedCount,
+    pendingCount,
+    maxDistance,
+    lookup,
+    thumbPaths,
+    loading,
+    hashing,
+    errorMessage,
+    setMaxDistance,
+    refresh,
+    startHashing,
+    stopHashing,
+    findSimilar,
+    clearLookup,
+  };
+}
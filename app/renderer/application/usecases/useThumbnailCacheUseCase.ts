@@ -0,0 +1,37 @@
+import { useCallback, useState } from 'react';
+
+import type { ThumbnailCacheStats } from '@shared/types/ipc';
+
+import type { PhotoGlobeGateway } from '@renderer/infrastructure/photoGlobeGateway';
+import { windowPhotoGlobeGateway } from '@renderer/infrastructure/windowPhotoGlobeGateway';
+
+interface UseThumbnailCacheUseCaseParams {
+  apiReady: boolean;
+  gateway?: PhotoGlobeGateway;
+}
+
+export function useThumbnailCacheUseCase({
+  apiReady,
+  gateway = windowPhotoGlobeGateway,
+}: UseThumbnailCacheUseCaseParams) {
+  const [stats, setStats] = useState<ThumbnailCacheStats | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!apiReady) {
+      return;
+    }
+    try {
+      setStats(await gateway.mediaGetCacheStats());
+      setErrorMessage(null);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : String(error));
+    }
+  }, [apiReady, gateway]);
+
+  return {
+    stats,
+    errorMessage,
+    reload,
+  };
+}
@@ -0,0 +1,52 @@
+const HOUR_MS = 3_600_000;
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+
+function pad2(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/** "+9:00", "-0:30", "+1:00:15". */
+export function formatClockOffset(offsetMs: number): string {
+  const sign = offsetMs < 0 ? '-' : '+';
+  const totalSeconds = Math.round(Math.abs(offsetMs) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return seconds > 0 ? `${sign}${hours}:${pad2(minutes)}:${pad2(seconds)}` : `${sign}${hours}:${pad2(minutes)}`;
+}
+
+/** Accepts "[+-]H[:MM[:SS]]"; returns null for anything else. */
+export function parseClockOffset(value: string): number | null {
+  const match = /^([+-])?\s*(\d{1,4})(?::(\d{1,2}))?(?::(\d{1,2}))?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[3] ?? 0);
+  const seconds = Number(match[4] ?? 0);
+  if (minutes >= 60 || seconds >= 60) {
+    return null;
+  }
+  const magnitude = Number(match[2]) * HOUR_MS + minutes * MINUTE_MS + seconds * 1000;
+  return match[1] === '-' ? -magnitude : magnitude;
+}
+
+// Wall-clock times are stored as if they were UTC, so <input type="date"> values map through UTC.
+export function toDateInputValue(localMs: number | null): string {
+  return localMs == null ? '' : new Date(localMs).toISOString().slice(0, 10);
+}
+
+export function fromDateInputValue(value: string, endOfDay: boolean): number | null {
+  if (!value) {
+    return null;
+  }
+  const startMs = Date.parse(`${value}T00:00:00Z`);
+  if (!Number.isFinite(startMs)) {
+    return null;
+  }
+  return endOfDay ? startMs + DAY_MS - 1 : startMs;
+}
+
+export function formatWallClock(localMs: number): string {
+  return new Date(localMs).toLocaleString(undefined, { timeZone: 'UTC' });
+}
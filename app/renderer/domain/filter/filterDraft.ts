@@ -1,38 +1,74 @@
 import type { Filters } from '@shared/types/settings';
 
+export type FlashFilter = 'any' | 'fired' | 'notFired';
+
 export interface FilterDraft {
   dateFrom: string;
   dateTo: string;
   rootIds: number[];
+  // Picked from the places list; GeoNames country codes and city ids.
+  countryCodes: string[];
+  cityIds: string[];
   includePhoto: boolean;
   includeVideo: boolean;
   hasGps: boolean;
+  textQuery: string;
   cameraModelQuery: string;
+  cameraMakeQuery: string;
+  lensModelQuery: string;
+  focalLengthFromMm: string;
+  focalLengthToMm: string;
+  focalLengthUse35mm: boolean;
+  apertureFrom: string;
+  apertureTo: string;
+  exposureFrom: string;
+  exposureTo: string;
+  isoFrom: string;
+  isoTo: string;
+  flash: FlashFilter;
   minWidthPx: string;
   minHeightPx: string;
   durationFromSec: string;
   durationToSec: string;
   includeUndated: boolean;
+  collapseDuplicates: boolean;
 }
 
 export const DEFAULT_FILTER_DRAFT: FilterDraft = {
   dateFrom: '',
   dateTo: '',
   rootIds: [],
+  countryCodes: [],
+  cityIds: [],
   includePhoto: true,
   includeVideo: true,
   hasGps: true,
+  textQuery: '',
   cameraModelQuery: '',
+  cameraMakeQuery: '',
+  lensModelQuery: '',
+  focalLengthFromMm: '',
+  focalLengthToMm: '',
+  focalLengthUse35mm: false,
+  apertureFrom: '',
+  apertureTo: '',
+  exposureFrom: '',
+  exposureTo: '',
+  isoFrom: '',
+  isoTo: '',
+  flash: 'any',
   minWidthPx: '',
   minHeightPx: '',
   durationFromSec: '',
   durationToSec: '',
   includeUndated: false,
+  collapseDuplicates: false,
 };
 
+// Date filters match the capture wall clock, which the main process stores encoded as UTC.
 export function toEpochMs(dateText: string, endOfDay = false): number | null {
   if (!dateText) return null;
-  const suffix = endOfDay ? 'T23:59:59.999' : 'T00:00:00.000';
+  const suffix = endOfDay ? 'T23:59:59.999Z' : 'T00:00:00.000Z';
   const value = new Date(`${dateText}${suffix}`).getTime();
   return Number.isNaN(value) ? null : value;
 }
@@ -58,6 +94,29 @@ function parsePositiveInt(input: string): number | null {
   return normalized > 0 ? normalized : null;
 }
 
+function parsePositiveNumber(input: string): number | null {
+  const value = parseNumber(input);
+  return value !== null && value > 0 ? value : null;
+}
+
+// Shutter speeds are typed the way cameras print them: "1/250" or "2".
+function toExposureSec(input: string): number | null {
+  const fraction = /^\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*$/.exec(input);
+  if (fraction) {
+    const numerator = Number.parseFloat(fraction[1]);
+    const denominator = Number.parseFloat(fraction[2]);
+    return numerator > 0 && denominator > 0 ? numerator / denominator : null;
+  }
+  return parsePositiveNumber(input);
+}
+
+function toOrderedRange(from: number | null, to: number | null): [number | undefined, number | undefined] {
+  if (typeof from === 'number' && typeof to === 'number' && from > to) {
+    return [to, from];
+  }
+  return [from ?? undefined, to ?? undefined];
+}
+
 function toDurationMs(input: string): number | null {
   const seconds = parseNumber(input);
   if (seconds === null || seconds < 0) {
@@ -71,7 +130,25 @@ export function toFilters(draft: FilterDraft): Filters {
     new Set(draft.rootIds.filter((id) => Number.isInteger(id) && id > 0)),
   ).sort((a, b) => a - b);
 
+  const countryCodes = Array.from(new Set(draft.countryCodes)).sort();
+  const cityIds = Array.from(new Set(draft.cityIds)).sort();
+  const textQuery = draft.textQuery.trim();
   const cameraModelQuery = draft.cameraModelQuery.trim();
+  const cameraMakeQuery = draft.cameraMakeQuery.trim();
+  const lensModelQuery = draft.lensModelQuery.trim();
+  const [focalLengthFromMm, focalLengthToMm] = toOrderedRange(
+    parsePositiveNumber(draft.focalLengthFromMm),
+    parsePositiveNumber(draft.focalLengthToMm),
+  );
+  const [apertureFrom, apertureTo] = toOrderedRange(
+    parsePositiveNumber(draft.apertureFrom),
+    parsePositiveNumber(draft.apertureTo),
+  );
+  const [exposureFromSec, exposureToSec] = toOrderedRange(
+    toExposureSec(draft.exposureFrom),
+    toExposureSec(draft.exposureTo),
+  );
+  const [isoFrom, isoTo] = toOrderedRange(parsePositiveInt(draft.isoFrom), parsePositiveInt(draft.isoTo));
   const minWidthPx = parsePositiveInt(draft.minWidthPx);
   const minHeightPx = parsePositiveInt(draft.minHeightPx);
   const durationFromCandidate = toDurationMs(draft.durationFromSec);
@@ -112,14 +189,30 @@ export function toFilters(draft: FilterDraft): Filters {
   return {
     hasGps: draft.hasGps,
     rootIds: rootIds.length > 0 ? rootIds : undefined,
+    countryCodes: countryCodes.length > 0 ? countryCodes : undefined,
+    cityIds: cityIds.length > 0 ? cityIds : undefined,
     mediaTypes,
     dateFromMs: dateFromMs ?? undefined,
     dateToMs: dateToMs ?? undefined,
+    textQuery: textQuery.length > 0 ? textQuery : undefined,
     cameraModelQuery: cameraModelQuery.length > 0 ? cameraModelQuery : undefined,
+    cameraMakeQuery: cameraMakeQuery.length > 0 ? cameraMakeQuery : undefined,
+    lensModelQuery: lensModelQuery.length > 0 ? lensModelQuery : undefined,
+    focalLengthFromMm,
+    focalLengthToMm,
+    focalLengthUse35mm: draft.focalLengthUse35mm,
+    apertureFrom,
+    apertureTo,
+    exposureFromSec,
+    exposureToSec,
+    isoFrom,
+    isoTo,
+    flashFired: draft.flash === 'any' ? undefined : draft.flash === 'fired',
     minWidthPx: minWidthPx ?? undefined,
     minHeightPx: minHeightPx ?? undefined,
     durationFromMs: durationFromMs ?? undefined,
     durationToMs: durationToMs ?? undefined,
     includeUndated: draft.includeUndated,
+    collapseDuplicates: draft.collapseDuplicates,
   };
 }
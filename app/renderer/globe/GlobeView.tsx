@@ -5,6 +5,7 @@ import {
   ArcGisMapServerImageryProvider,
   Cartesian2,
   Cartesian3,
+  Cartographic,
   Color,
   EasingFunction,
   HeightReference,
@@ -30,6 +31,7 @@ import { clampLat, clampLng } from "@shared/utils/geo";
 import { buildPointData } from "./layers";
 
 export interface GlobeViewState {
+  // [west, south, east, north]; west > east when the view crosses the antimeridian.
   bbox: [number, number, number, number];
   zoom: number;
 }
@@ -42,6 +44,8 @@ interface GlobeViewProps {
   onPointClick: (point: PointNode) => void;
   onPointHover: (point: PointNode | null) => void;
   onViewChange: (view: GlobeViewState) => void;
+  // While set, a left click reports the clicked spot instead of picking clusters or points.
+  onPickLocation?: ((lat: number, lng: number) => void) | null;
   flyToRequest?: {
     lat: number;
     lng: number;
@@ -110,14 +114,8 @@ function estimateView(viewer: CesiumViewer): GlobeViewState {
     return WORLD_VIEW;
   }
 
-  if (east < west) {
-    return {
-      bbox: [-180, south, 180, north],
-      zoom: spanToZoom(360),
-    };
-  }
-
-  const span = Math.max(0.0001, east - west);
+  // A view across the antimeridian keeps west > east; the main process splits the query at ±180°.
+  const span = Math.max(0.0001, east < west ? east + 360 - west : east - west);
   const zoom = spanToZoom(span);
   return { bbox: [west, south, east, north], zoom };
 }
@@ -181,6 +179,7 @@ export function GlobeView({
   onPointClick,
   onPointHover,
   onViewChange,
+  onPickLocation = null,
   flyToRequest,
 }: GlobeViewProps) {
   const containerRef = useRef<HTMLDivElement | null>(null);
@@ -192,6 +191,7 @@ export function GlobeView({
   const onPointClickRef = useRef(onPointClick);
   const onPointHoverRef = useRef(onPointHover);
   const onViewChangeRef = useRef(onViewChange);
+  const onPickLocationRef = useRef(onPickLocation);
 
   const pointData = useMemo(() => buildPointData(items), [items]);
 
@@ -200,7 +200,8 @@ export function GlobeView({
     onPointClickRef.current = onPointClick;
     onPointHoverRef.current = onPointHover;
     onViewChangeRef.current = onViewChange;
-  }, [onClusterClick, onPointClick, onPointHover, onViewChange]);
+    onPickLocationRef.current = onPickLocation;
+  }, [onClusterClick, onPointClick, onPointHover, onViewChange, onPickLocation]);
 
   useEffect(() => {
     if (!containerRef.current || viewerRef.current) {
@@ -358,6 +359,16 @@ export function GlobeView({
     );
 
     pickHandler.setInputAction((movement: { position: Cartesian2 }) => {
+      const pickLocation = onPickLocationRef.current;
+      if (pickLocation) {
+        const cartesian = viewer.camera.pickEllipsoid(movement.position, viewer.scene.globe.ellipsoid);
+        if (cartesian) {
+          const cartographic = Cartographic.fromCartesian(cartesian);
+          pickLocation(CesiumMath.toDegrees(cartographic.latitude), CesiumMath.toDegrees(cartographic.longitude));
+        }
+        return;
+      }
+
       const pickedMeta = resolvePickMeta(
         viewer,
         movement.position,
@@ -705,6 +716,11 @@ export function GlobeView({
     });
   }, [flyToRequest]);
 
-  return <div className="globe-canvas" ref={containerRef} />;
+  return (
+    <div
+      className={onPickLocation ? "globe-canvas is-picking-location" : "globe-canvas"}
+      ref={containerRef}
+    />
+  );
 }
 
@@ -48,10 +48,26 @@ function buildRequestKey(view: GlobeViewState, filters: Filters): string {
     mediaTypes: filters.mediaTypes ?? [],
     hasGps: filters.hasGps ?? null,
     cameraModelQuery: filters.cameraModelQuery ?? null,
+    textQuery: filters.textQuery ?? null,
     minWidthPx: filters.minWidthPx ?? null,
     minHeightPx: filters.minHeightPx ?? null,
     durationFromMs: filters.durationFromMs ?? null,
     durationToMs: filters.durationToMs ?? null,
+    collapseDuplicates: filters.collapseDuplicates ?? false,
+    cameraMakeQuery: filters.cameraMakeQuery ?? null,
+    lensModelQuery: filters.lensModelQuery ?? null,
+    focalLengthFromMm: filters.focalLengthFromMm ?? null,
+    focalLengthToMm: filters.focalLengthToMm ?? null,
+    focalLengthUse35mm: filters.focalLengthUse35mm ?? false,
+    apertureFrom: filters.apertureFrom ?? null,
+    apertureTo: filters.apertureTo ?? null,
+    exposureFromSec: filters.exposureFromSec ?? null,
+    exposureToSec: filters.exposureToSec ?? null,
+    isoFrom: filters.isoFrom ?? null,
+    isoTo: filters.isoTo ?? null,
+    flashFired: filters.flashFired ?? null,
+    countryCodes: filters.countryCodes ?? [],
+    cityIds: filters.cityIds ?? [],
   });
 }
 
@@ -145,23 +161,55 @@ export function useGlobeData(
         mediaTypes: filters.mediaTypes ?? [],
         hasGps: filters.hasGps ?? null,
         cameraModelQuery: filters.cameraModelQuery ?? null,
+        textQuery: filters.textQuery ?? null,
         minWidthPx: filters.minWidthPx ?? null,
         minHeightPx: filters.minHeightPx ?? null,
         durationFromMs: filters.durationFromMs ?? null,
         durationToMs: filters.durationToMs ?? null,
+        collapseDuplicates: filters.collapseDuplicates ?? false,
+        cameraMakeQuery: filters.cameraMakeQuery ?? null,
+        lensModelQuery: filters.lensModelQuery ?? null,
+        focalLengthFromMm: filters.focalLengthFromMm ?? null,
+        focalLengthToMm: filters.focalLengthToMm ?? null,
+        focalLengthUse35mm: filters.focalLengthUse35mm ?? false,
+        apertureFrom: filters.apertureFrom ?? null,
+        apertureTo: filters.apertureTo ?? null,
+        exposureFromSec: filters.exposureFromSec ?? null,
+        exposureToSec: filters.exposureToSec ?? null,
+        isoFrom: filters.isoFrom ?? null,
+        isoTo: filters.isoTo ?? null,
+        flashFired: filters.flashFired ?? null,
+        countryCodes: filters.countryCodes ?? [],
+        cityIds: filters.cityIds ?? [],
       }),
     [
+      filters.apertureFrom,
+      filters.apertureTo,
+      filters.cameraMakeQuery,
       filters.cameraModelQuery,
+      filters.cityIds,
+      filters.collapseDuplicates,
+      filters.countryCodes,
       filters.dateFromMs,
       filters.dateToMs,
       filters.durationFromMs,
       filters.durationToMs,
+      filters.exposureFromSec,
+      filters.exposureToSec,
+      filters.flashFired,
+      filters.focalLengthFromMm,
+      filters.focalLengthToMm,
+      filters.focalLengthUse35mm,
       filters.hasGps,
       filters.includeUndated,
+      filters.isoFrom,
+      filters.isoTo,
+      filters.lensModelQuery,
       filters.mediaTypes,
       filters.minHeightPx,
       filters.minWidthPx,
       filters.rootIds,
+      filters.textQuery,
     ],
   );
 
@@ -1,24 +1,55 @@
 import type { ClusterItem, PointNode } from '@shared/types/cluster';
 import type {
+  CameraModelSummary,
   CityCatalogStatus,
   CityItem,
+  ClockOffsetDraft,
+  ClockOffsetPreview,
+  ClockOffsetPreviewOptions,
+  ClockOffsetSaveResult,
   ContinentItem,
   CountryItem,
+  DatabaseBackupItem,
+  DatabaseCheckMode,
+  DatabaseIntegrityResult,
+  DatabaseStatus,
   DateMediaCountItem,
+  DuplicateGroupItem,
+  GeotagOptions,
+  GeotagPreview,
   HoverPreviewInfo,
+  IndexErrorGroup,
+  IndexJobMode,
+  IndexQueueSnapshot,
   IndexStatus,
+  LocationEditResult,
+  LocationEditSnapshot,
+  MaintenanceReport,
+  MaintenanceStatus,
+  ManualLocationPayload,
   MediaSourceInfo,
+  MetadataWriteOptions,
+  MetadataWriteReport,
+  MissingRootItem,
+  PerceptualHashProgress,
+  PlacesSummary,
   OpenSourceResult,
   PreviewStripProgressPayload,
   PreviewStripRequestPayload,
   RootListItem,
+  RootRelocationResult,
+  SearchCount,
   SessionMetricsSummary,
+  SimilarGroupsResult,
+  SimilarMemberItem,
   TimelineExtentInfo,
   TripSegment,
+  ThumbnailCacheStats,
   ThumbnailPriority,
   UxEventName,
   UxEventProps,
 } from '@shared/types/ipc';
+import type { CameraClockOffset } from '@shared/types/photo';
 import type { AppLanguage, AppSettings, Filters } from '@shared/types/settings';
 
 export interface PhotoGlobeGateway {
@@ -29,15 +60,45 @@ export interface PhotoGlobeGateway {
   appToggleFullscreen: () => Promise<{ isFullScreen: boolean }>;
   appGetWindowState: () => Promise<{ isFullScreen: boolean; isMaximized: boolean }>;
 
-  indexStart: (payload: { rootPath: string }) => Promise<{ jobId: string }>;
+  indexStart: (payload: { rootPath: string; mode?: IndexJobMode }) => Promise<{ jobId: string }>;
   indexCancel: (payload: { jobId: string }) => Promise<{ ok: boolean }>;
+  indexPause: (payload: { jobId: string }) => Promise<{ ok: boolean }>;
+  indexResume: (payload: { jobId: string }) => Promise<{ ok: boolean }>;
+  indexListJobs: (payload: { limit?: number }) => Promise<IndexStatus[]>;
   indexStatus: (jobId: string) => Promise<IndexStatus | null>;
   indexOnProgress: (listener: (progress: IndexStatus) => void) => () => void;
+  indexListErrors: (payload: { limit?: number }) => Promise<IndexErrorGroup[]>;
+  indexClearErrors: (payload: { rootId: number; message: string }) => Promise<{ cleared: number }>;
+  indexListQueue: () => Promise<IndexQueueSnapshot>;
+  indexOnQueueChanged: (listener: (queue: IndexQueueSnapshot) => void) => () => void;
 
   geoGetClusters: (payload: { bbox: [number, number, number, number]; zoom: number; filters: Filters }) => Promise<ClusterItem[]>;
   geoGetClusterMembers: (payload: { clusterId: number; limit: number; filters: Filters }) => Promise<PointNode[]>;
   geoGetTrips: (payload: { filters: Filters; splitHours?: number; splitKm?: number; maxPoints?: number }) => Promise<TripSegment[]>;
 
+  geotagSelectTrackFiles: () => Promise<{ paths: string[] }>;
+  geotagPreview: (payload: GeotagOptions) => Promise<GeotagPreview>;
+  geotagApply: (payload: GeotagOptions & { photoIds?: number[] }) => Promise<{ applied: number; photoIds: number[] }>;
+  geotagClear: (payload: { photoIds: number[] }) => Promise<{ cleared: number }>;
+  locationSet: (payload: ManualLocationPayload) => Promise<LocationEditResult>;
+  locationRevert: (payload: { photoIds: number[] }) => Promise<LocationEditResult>;
+  locationRestore: (payload: { snapshots: LocationEditSnapshot[] }) => Promise<{ restored: number }>;
+  clockOffsetsListCameras: () => Promise<CameraModelSummary[]>;
+  clockOffsetsList: () => Promise<CameraClockOffset[]>;
+  clockOffsetsPreview: (payload: ClockOffsetPreviewOptions) => Promise<ClockOffsetPreview>;
+  clockOffsetsSave: (payload: ClockOffsetDraft) => Promise<ClockOffsetSaveResult>;
+  clockOffsetsRemove: (payload: { id: number }) => Promise<{ removed: boolean; updated: number }>;
+  placesList: (payload: { filters: Filters }) => Promise<PlacesSummary>;
+  placesOnUpdated: (listener: () => void) => () => void;
+  searchCount: (payload: { filters: Filters }) => Promise<SearchCount>;
+  maintenanceGetStatus: () => Promise<MaintenanceStatus>;
+  maintenanceRun: () => Promise<MaintenanceReport>;
+  databaseGetStatus: () => Promise<DatabaseStatus>;
+  databaseBackupNow: () => Promise<DatabaseBackupItem>;
+  databaseCheckIntegrity: (payload: { mode: DatabaseCheckMode }) => Promise<DatabaseIntegrityResult>;
+  databaseRestore: (payload: { name: string }) => Promise<{ scheduled: boolean }>;
+  metadataWrite: (payload: MetadataWriteOptions) => Promise<MetadataWriteReport>;
+
   mediaGetThumbnail: (payload: {
     photoId: number;
     size: 64 | 128 | 256 | 512;
@@ -56,6 +117,11 @@ export interface PhotoGlobeGateway {
   mediaGetHoverPreview: (payload: { photoId: number; width?: 240 | 320 | 480 }) => Promise<HoverPreviewInfo>;
   mediaGetDailyCounts: (payload: { filters: Filters; limit?: number }) => Promise<DateMediaCountItem[]>;
   mediaGetTimelineExtent: (payload: { filters: Filters }) => Promise<TimelineExtentInfo>;
+  mediaGetDuplicateGroups: (payload: { limit?: number }) => Promise<DuplicateGroupItem[]>;
+  mediaGetCacheStats: () => Promise<ThumbnailCacheStats>;
+  mediaFindSimilar: (payload: { photoId: number; maxDistance?: number; limit?: number }) => Promise<SimilarMemberItem[]>;
+  mediaGetSimilarGroups: (payload: { maxDistance?: number; limit?: number }) => Promise<SimilarGroupsResult>;
+  mediaHashPending: (payload: { limit?: number }) => Promise<PerceptualHashProgress>;
   mediaGetSource: (payload: { photoId: number }) => Promise<MediaSourceInfo>;
   mediaOpenSource: (payload: { photoId: number }) => Promise<OpenSourceResult>;
 
@@ -66,6 +132,8 @@ export interface PhotoGlobeGateway {
   settingsRemoveRoot: (payload: { rootId: number }) => Promise<AppSettings>;
   settingsSetActiveRoots: (payload: { rootIds: number[] }) => Promise<AppSettings>;
   settingsListRoots: () => Promise<RootListItem[]>;
+  settingsFindMissingRoots: () => Promise<MissingRootItem[]>;
+  settingsRelocateRoot: (payload: { rootId: number; path: string }) => Promise<RootRelocationResult>;
   metricsTrack: (payload: { name: UxEventName; props?: UxEventProps }) => Promise<void>;
   metricsGetSessionSummary: () => Promise<SessionMetricsSummary>;
   metricsListRecentSessions: (payload: { limit: number }) => Promise<SessionMetricsSummary[]>;
@@ -73,6 +141,8 @@ export interface PhotoGlobeGateway {
   metricsResetCurrentSession: () => Promise<{ ok: boolean }>;
 
   citiesEnsureCatalog: () => Promise<CityCatalogStatus>;
+  citiesSelectImportFiles: () => Promise<{ paths: string[] }>;
+  citiesImportFromFile: (payload: { paths: string[] }) => Promise<CityCatalogStatus>;
   citiesGetContinents: () => Promise<ContinentItem[]>;
   citiesGetCountries: (payload: { continentCode: string }) => Promise<CountryItem[]>;
   citiesGetCities: (payload: {
@@ -19,13 +19,43 @@ export const windowPhotoGlobeGateway: PhotoGlobeGateway = {
 
   indexStart: (payload) => getApi().index.start(payload),
   indexCancel: (payload) => getApi().index.cancel(payload),
+  indexPause: (payload) => getApi().index.pause(payload),
+  indexResume: (payload) => getApi().index.resume(payload),
+  indexListJobs: (payload) => getApi().index.listJobs(payload),
   indexStatus: (jobId) => getApi().index.status(jobId),
   indexOnProgress: (listener) => getApi().index.onProgress(listener),
+  indexListErrors: (payload) => getApi().index.listErrors(payload),
+  indexClearErrors: (payload) => getApi().index.clearErrors(payload),
+  indexListQueue: () => getApi().index.listQueue(),
+  indexOnQueueChanged: (listener) => getApi().index.onQueueChanged(listener),
 
   geoGetClusters: (payload) => getApi().geo.getClusters(payload),
   geoGetClusterMembers: (payload) => getApi().geo.getClusterMembers(payload),
   geoGetTrips: (payload) => getApi().geo.getTrips(payload),
 
+  geotagSelectTrackFiles: () => getApi().geotag.selectTrackFiles(),
+  geotagPreview: (payload) => getApi().geotag.preview(payload),
+  geotagApply: (payload) => getApi().geotag.apply(payload),
+  geotagClear: (payload) => getApi().geotag.clear(payload),
+  locationSet: (payload) => getApi().location.set(payload),
+  locationRevert: (payload) => getApi().location.revert(payload),
+  locationRestore: (payload) => getApi().location.restore(payload),
+  clockOffsetsListCameras: () => getApi().clockOffsets.listCameras(),
+  clockOffsetsList: () => getApi().clockOffsets.list(),
+  clockOffsetsPreview: (payload) => getApi().clockOffsets.preview(payload),
+  clockOffsetsSave: (payload) => getApi().clockOffsets.save(payload),
+  clockOffsetsRemove: (payload) => getApi().clockOffsets.remove(payload),
+  placesList: (payload) => getApi().places.list(payload),
+  placesOnUpdated: (listener) => getApi().places.onUpdated(listener),
+  searchCount: (payload) => getApi().search.count(payload),
+  maintenanceGetStatus: () => getApi().maintenance.getStatus(),
+  maintenanceRun: () => getApi().maintenance.run(),
+  databaseGetStatus: () => getApi().database.getStatus(),
+  databaseBackupNow: () => getApi().database.backupNow(),
+  databaseCheckIntegrity: (payload) => getApi().database.checkIntegrity(payload),
+  databaseRestore: (payload) => getApi().database.restore(payload),
+  metadataWrite: (payload) => getApi().metadata.write(payload),
+
   mediaGetThumbnail: (payload) => getApi().media.getThumbnail(payload),
   mediaRequestPreviewStrip: (payload) => getApi().media.requestPreviewStrip(payload),
   mediaCancelPreviewStrip: (payload) => getApi().media.cancelPreviewStrip(payload),
@@ -36,6 +66,11 @@ export const windowPhotoGlobeGateway: PhotoGlobeGateway = {
   mediaGetHoverPreview: (payload) => getApi().media.getHoverPreview(payload),
   mediaGetDailyCounts: (payload) => getApi().media.getDailyCounts(payload),
   mediaGetTimelineExtent: (payload) => getApi().media.getTimelineExtent(payload),
+  mediaGetDuplicateGroups: (payload) => getApi().media.getDuplicateGroups(payload),
+  mediaGetCacheStats: () => getApi().media.getCacheStats(),
+  mediaFindSimilar: (payload) => getApi().media.findSimilar(payload),
+  mediaGetSimilarGroups: (payload) => getApi().media.getSimilarGroups(payload),
+  mediaHashPending: (payload) => getApi().media.hashPending(payload),
   mediaGetSource: (payload) => getApi().media.getSource(payload),
   mediaOpenSource: (payload) => getApi().media.openSource(payload),
 
@@ -46,6 +81,8 @@ export const windowPhotoGlobeGateway: PhotoGlobeGateway = {
   settingsRemoveRoot: (payload) => getApi().settings.removeRoot(payload),
   settingsSetActiveRoots: (payload) => getApi().settings.setActiveRoots(payload),
   settingsListRoots: () => getApi().settings.listRoots(),
+  settingsFindMissingRoots: () => getApi().settings.findMissingRoots(),
+  settingsRelocateRoot: (payload) => getApi().settings.relocateRoot(payload),
   metricsTrack: (payload) => getApi().metrics.track(payload),
   metricsGetSessionSummary: () => getApi().metrics.getSessionSummary(),
   metricsListRecentSessions: (payload) => getApi().metrics.listRecentSessions(payload),
@@ -53,6 +90,8 @@ export const windowPhotoGlobeGateway: PhotoGlobeGateway = {
   metricsResetCurrentSession: () => getApi().metrics.resetCurrentSession(),
 
   citiesEnsureCatalog: () => getApi().cities.ensureCatalog(),
+  citiesSelectImportFiles: () => getApi().cities.selectImportFiles(),
+  citiesImportFromFile: (payload) => getApi().cities.importFromFile(payload),
   citiesGetContinents: () => getApi().cities.getContinents(),
   citiesGetCountries: (payload) => getApi().cities.getCountries(payload),
   citiesGetCities: (payload) => getApi().cities.getCities(payload),
@@ -2,9 +2,31 @@ import type { StateCreator } from 'zustand';
 
 import { DEFAULT_FILTER_DRAFT } from '@renderer/domain/filter/filterDraft';
 
-import type { AppSlice, AppStore } from '../types';
+import type { AppSlice, AppStore, IndexJobHistoryItem } from '../types';
+import type { IndexQueueSnapshot, IndexStatus } from '@shared/types/ipc';
 import { DEFAULT_SETTINGS } from '@shared/types/settings';
 
+const INDEX_HISTORY_LIMIT = 20;
+const EMPTY_INDEX_QUEUE: IndexQueueSnapshot = { queued: [], running: [], finished: [] };
+
+function toIndexJobHistoryItem(status: IndexStatus): IndexJobHistoryItem {
+  return {
+    jobId: status.jobId,
+    rootPath: status.rootPath,
+    phase: status.phase,
+    startedAtMs: status.startedAtMs,
+    finishedAtMs: status.finishedAtMs,
+    percent: status.percent,
+    indexed: status.indexed,
+    skipped: status.skipped,
+    errored: status.errored,
+    throughput: status.throughput,
+    phaseTimings: status.phaseTimings,
+    enrichment: status.enrichment,
+    message: status.message,
+  };
+}
+
 export const createAppSlice: StateCreator<AppStore, [], [], AppSlice> = (set) => ({
   apiReady: false,
   setApiReady: (ready) => set({ apiReady: ready }),
@@ -17,38 +39,43 @@ export const createAppSlice: StateCreator<AppStore, [], [], AppSlice> = (set) =>
 
   indexStatus: null,
   setIndexStatus: (status) => set({ indexStatus: status }),
-  activeIndexJobId: null,
-  setActiveIndexJobId: (jobId) => set({ activeIndexJobId: jobId }),
-  indexQueueRunning: false,
-  setIndexQueueRunning: (running) => set({ indexQueueRunning: running }),
+  indexQueue: EMPTY_INDEX_QUEUE,
+  setIndexQueue: (queue) => set({ indexQueue: queue }),
   indexJobHistory: [],
-  updateIndexProgress: (status) =>
+  // Seeds the list with jobs persisted by earlier sessions; live progress events keep it current.
+  setIndexJobHistory: (statuses) =>
     set((state) => {
-      const nextItem = {
-        jobId: status.jobId,
-        rootPath: status.rootPath,
-        phase: status.phase,
-        startedAtMs: status.startedAtMs,
-        finishedAtMs: status.finishedAtMs,
-        percent: status.percent,
-        indexed: status.indexed,
-        skipped: status.skipped,
-        errored: status.errored,
-        message: status.message,
+      const liveJobIds = new Set(state.indexJobHistory.map((item) => item.jobId));
+      const persisted = statuses.filter((status) => !liveJobIds.has(status.jobId)).map(toIndexJobHistoryItem);
+      return {
+        indexJobHistory: [...state.indexJobHistory, ...persisted]
+          .sort((a, b) => b.startedAtMs - a.startedAtMs)
+          .slice(0, INDEX_HISTORY_LIMIT),
+        indexStatus: state.indexStatus ?? statuses[0] ?? null,
       };
+    }),
+  updateIndexProgress: (status) =>
+    set((state) => {
+      const nextItem = toIndexJobHistoryItem(status);
 
       const current = state.indexJobHistory.filter((item) => item.jobId !== status.jobId);
       const updated = [nextItem, ...current]
         .sort((a, b) => b.startedAtMs - a.startedAtMs)
-        .slice(0, 20);
+        .slice(0, INDEX_HISTORY_LIMIT);
 
-      const terminal = status.phase === 'complete' || status.phase === 'cancelled' || status.phase === 'error';
-      const shouldClearActiveJob = terminal && state.activeIndexJobId === status.jobId;
+      // Queue membership changes arrive as snapshots; progress only refreshes the running rows.
+      const isRunning = state.indexQueue.running.some((item) => item.jobId === status.jobId);
+      const indexQueue = isRunning
+        ? {
+            ...state.indexQueue,
+            running: state.indexQueue.running.map((item) => (item.jobId === status.jobId ? status : item)),
+          }
+        : state.indexQueue;
 
       return {
         indexStatus: status,
         indexJobHistory: updated,
-        activeIndexJobId: shouldClearActiveJob ? null : state.activeIndexJobId,
+        indexQueue,
       };
     }),
 
@@ -4,8 +4,12 @@ import type {
   ContinentItem,
   CountryItem,
   HoverPreviewInfo,
+  IndexEnrichmentProgress,
   IndexPhase,
+  IndexPhaseTimings,
+  IndexQueueSnapshot,
   IndexStatus,
+  IndexThroughput,
   TimelineExtentInfo,
   TripSegment,
 } from '@shared/types/ipc';
@@ -25,6 +29,9 @@ export interface IndexJobHistoryItem {
   indexed: number;
   skipped: number;
   errored: number;
+  throughput: IndexThroughput | null;
+  phaseTimings: IndexPhaseTimings;
+  enrichment: IndexEnrichmentProgress | null;
   message?: string;
 }
 
@@ -45,11 +52,10 @@ export interface AppSlice {
   setRootPath: (path: string | null) => void;
   indexStatus: IndexStatus | null;
   setIndexStatus: (status: IndexStatus | null) => void;
-  activeIndexJobId: string | null;
-  setActiveIndexJobId: (jobId: string | null) => void;
-  indexQueueRunning: boolean;
-  setIndexQueueRunning: (running: boolean) => void;
+  indexQueue: IndexQueueSnapshot;
+  setIndexQueue: (queue: IndexQueueSnapshot) => void;
   indexJobHistory: IndexJobHistoryItem[];
+  setIndexJobHistory: (statuses: IndexStatus[]) => void;
   updateIndexProgress: (status: IndexStatus) => void;
 
   filtersDraft: FilterDraft;
@@ -6,8 +6,10 @@ interface CityListItemProps {
   isDefault: boolean;
   onFlyTo: (city: CityItem) => void;
   onToggleFavorite: (cityId: string) => void;
+  onAssignLocation?: (city: CityItem) => void;
   favoriteLabel: string;
   unfavoriteLabel: string;
+  assignLabel?: string;
 }
 
 export function CityListItem({
@@ -16,8 +18,10 @@ export function CityListItem({
   isDefault,
   onFlyTo,
   onToggleFavorite,
+  onAssignLocation,
   favoriteLabel,
   unfavoriteLabel,
+  assignLabel,
 }: CityListItemProps) {
   return (
     <button
@@ -32,6 +36,29 @@ export function CityListItem({
       </span>
       <span className="city-list-actions">
         <small>{city.population.toLocaleString()}</small>
+        {onAssignLocation ? (
+          <span
+            role="button"
+            tabIndex={0}
+            aria-label={assignLabel}
+            title={assignLabel}
+            className="city-assign"
+            onClick={(event) => {
+              event.preventDefault();
+              event.stopPropagation();
+              onAssignLocation(city);
+            }}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter' || event.key === ' ') {
+                event.preventDefault();
+                event.stopPropagation();
+                onAssignLocation(city);
+              }
+            }}
+          >
+            {'\u{1F4CD}'}
+          </span>
+        ) : null}
         <span
           role="button"
           tabIndex={0}
@@ -25,12 +25,17 @@ interface CityPanelProps {
   isFavorite: (cityId: string) => boolean;
   isDefaultFavorite: (cityId: string) => boolean;
   onRetryCatalog: () => void;
+  // Builds the catalog from local GeoNames files, for machines that cannot download it.
+  onImportCatalog: () => void;
   onSelectContinent: (code: string) => void;
   onSelectCountry: (code: string) => void;
   onQueryChange: (query: string) => void;
   onLoadMore: () => void;
   onToggleFavorite: (cityId: string) => void;
   onFlyTo: (city: CityItem) => void;
+  // Photos a city pick would place; the per-row assign action shows only while this is non-zero.
+  locationTargetCount?: number;
+  onAssignLocation?: (city: CityItem) => void;
 }
 
 const CITY_ROW_HEIGHT = 66;
@@ -56,12 +61,15 @@ export function CityPanel({
   isFavorite,
   isDefaultFavorite,
   onRetryCatalog,
+  onImportCatalog,
   onSelectContinent,
   onSelectCountry,
   onQueryChange,
   onLoadMore,
   onToggleFavorite,
   onFlyTo,
+  locationTargetCount = 0,
+  onAssignLocation,
 }: CityPanelProps) {
   const { t } = useTranslation();
   const cityListRef = useRef<HTMLDivElement | null>(null);
@@ -141,10 +149,21 @@ export function CityPanel({
         {catalogStatus?.rowCount ? (
           <p className="status-text">{t('cities.catalogRows')}: {catalogStatus.rowCount.toLocaleString()}</p>
         ) : null}
+        {catalogStatus?.phase === 'ready' && catalogStatus.variant ? (
+          <p className="status-text">
+            {catalogStatus.variant === 'lite' ? t('cities.catalogVariantLite') : t('cities.catalogVariantFull')}
+          </p>
+        ) : null}
         {errorMessage ? <p className="status-text status-text-error">{errorMessage}</p> : null}
-        <button type="button" onClick={onRetryCatalog} disabled={loadingCatalog}>
-          {loadingCatalog ? t('cities.catalogLoading') : t('cities.catalogRetry')}
-        </button>
+        <div className="action-buttons-grid">
+          <button type="button" onClick={onRetryCatalog} disabled={loadingCatalog}>
+            {loadingCatalog ? t('cities.catalogLoading') : t('cities.catalogRetry')}
+          </button>
+          <button type="button" onClick={onImportCatalog} disabled={loadingCatalog}>
+            {t('cities.catalogImport')}
+          </button>
+        </div>
+        <p className="status-text">{t('cities.catalogImportHint')}</p>
       </section>
 
       <section className="panel city-favorites-card">
@@ -160,6 +179,9 @@ export function CityPanel({
 
       <section className="panel">
         <h3>{t('cities.explore')}</h3>
+        {locationTargetCount > 0 && onAssignLocation ? (
+          <p className="status-text">{t('cities.assignHint', { count: locationTargetCount })}</p>
+        ) : null}
         <div className="city-select-row">
           <label>
             {t('cities.continent')}
@@ -222,8 +244,10 @@ export function CityPanel({
                       isDefault={isDefault}
                       onFlyTo={onFlyTo}
                       onToggleFavorite={onToggleFavorite}
+                      onAssignLocation={locationTargetCount > 0 ? onAssignLocation : undefined}
                       favoriteLabel={t('cities.favorite')}
                       unfavoriteLabel={t('cities.unfavorite')}
+                      assignLabel={t('cities.assignLocation', { count: locationTargetCount })}
                     />
                   </div>
                 );
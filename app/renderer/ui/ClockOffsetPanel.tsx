@@ -0,0 +1,311 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import {
+  formatClockOffset,
+  formatWallClock,
+  fromDateInputValue,
+  parseClockOffset,
+  toDateInputValue,
+} from '@renderer/domain/clock/clockOffsetRules';
+import type { CameraModelSummary, ClockOffsetDraft, ClockOffsetPreview, RootListItem } from '@shared/types/ipc';
+import type { CameraClockOffset } from '@shared/types/photo';
+
+interface ClockOffsetPanelProps {
+  cameras: CameraModelSummary[];
+  rules: CameraClockOffset[];
+  roots: RootListItem[];
+  preview: ClockOffsetPreview | null;
+  lastUpdated: number | null;
+  busy: boolean;
+  errorMessage: string | null;
+  onReload: () => void;
+  onDraftChange: () => void;
+  onPreview: (draft: ClockOffsetDraft) => void;
+  // Resolves to true once saved, so the form is only cleared when nothing was lost.
+  onSave: (draft: ClockOffsetDraft) => Promise<boolean>;
+  onRemove: (id: number) => void;
+}
+
+interface FormState {
+  editingId: number | null;
+  cameraModel: string;
+  offsetText: string;
+  rootId: string;
+  fromDate: string;
+  toDate: string;
+}
+
+const EMPTY_FORM: FormState = {
+  editingId: null,
+  cameraModel: '',
+  offsetText: '',
+  rootId: '',
+  fromDate: '',
+  toDate: '',
+};
+
+function getBaseName(filePath: string): string {
+  const parts = filePath.split(/[\\/]/);
+  return parts[parts.length - 1] || filePath;
+}
+
+function formatRange(range: { fromMs: number; toMs: number } | null): string {
+  return range ? `${formatWallClock(range.fromMs)} ~ ${formatWallClock(range.toMs)}` : '-';
+}
+
+function toForm(rule: CameraClockOffset): FormState {
+  return {
+    editingId: rule.id,
+    cameraModel: rule.cameraModel,
+    offsetText: formatClockOffset(rule.offsetMs),
+    rootId: rule.rootId == null ? '' : String(rule.rootId),
+    fromDate: toDateInputValue(rule.fromLocalMs),
+    toDate: toDateInputValue(rule.toLocalMs),
+  };
+}
+
+function RuleItem({
+  rule,
+  rootPath,
+  busy,
+  onEdit,
+  onRemove,
+}: {
+  rule: CameraClockOffset;
+  rootPath: string | null;
+  busy: boolean;
+  onEdit: () => void;
+  onRemove: () => void;
+}) {
+  const { t } = useTranslation();
+  const scope = [
+    rootPath ? getBaseName(rootPath) : t('clockOffset.allRoots'),
+    rule.fromLocalMs != null || rule.toLocalMs != null
+      ? `${toDateInputValue(rule.fromLocalMs) || '…'} ~ ${toDateInputValue(rule.toLocalMs) || '…'}`
+      : t('clockOffset.allDates'),
+  ].join(' · ');
+  return (
+    <li className="clock-offset-rule">
+      <div className="clock-offset-rule-text">
+        <p className="clock-offset-rule-title">
+          {rule.cameraModel} <strong>{formatClockOffset(rule.offsetMs)}</strong>
+        </p>
+        <p className="clock-offset-rule-meta" title={rootPath ?? undefined}>{scope}</p>
+      </div>
+      <button type="button" onClick={onEdit} disabled={busy}>
+        {t('clockOffset.edit')}
+      </button>
+      <button type="button" onClick={onRemove} disabled={busy}>
+        {t('clockOffset.remove')}
+      </button>
+    </li>
+  );
+}
+
+export function ClockOffsetPanel({
+  cameras,
+  rules,
+  roots,
+  preview,
+  lastUpdated,
+  busy,
+  errorMessage,
+  onReload,
+  onDraftChange,
+  onPreview,
+  onSave,
+  onRemove,
+}: ClockOffsetPanelProps) {
+  const { t } = useTranslation();
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+
+  const offsetMs = parseClockOffset(form.offsetText);
+  const offsetInvalid = form.offsetText.trim() !== '' && offsetMs == null;
+  const canSubmit = !busy && form.cameraModel !== '' && offsetMs != null;
+  const rootPathById = new Map(roots.map((root) => [root.id, root.path]));
+  const selectedCamera = cameras.find((camera) => camera.cameraModel === form.cameraModel) ?? null;
+
+  const updateForm = (patch: Partial<FormState>) => {
+    setForm((current) => ({ ...current, ...patch }));
+    onDraftChange();
+  };
+
+  const buildDraft = (): ClockOffsetDraft | null => {
+    if (offsetMs == null || !form.cameraModel) {
+      return null;
+    }
+    return {
+      id: form.editingId ?? undefined,
+      cameraModel: form.cameraModel,
+      offsetMs,
+      rootId: form.rootId ? Number(form.rootId) : null,
+      fromLocalMs: fromDateInputValue(form.fromDate, false),
+      toLocalMs: fromDateInputValue(form.toDate, true),
+    };
+  };
+
+  const submit = (action: (draft: ClockOffsetDraft) => void) => {
+    const draft = buildDraft();
+    if (draft) {
+      action(draft);
+    }
+  };
+
+  const handleSave = () => {
+    submit((draft) => {
+      void onSave(draft).then((saved) => {
+        if (saved) {
+          setForm(EMPTY_FORM);
+        }
+      });
+    });
+  };
+
+  return (
+    <section className="panel clock-offset-panel">
+      <div className="root-library-header">
+        <h3>{t('clockOffset.title')}</h3>
+        <button type="button" onClick={onReload} disabled={busy}>
+          {t('clockOffset.reload')}
+        </button>
+      </div>
+      <p className="status-text">{t('clockOffset.subtitle')}</p>
+      <div className="clock-offset-form">
+        <label>
+          {t('clockOffset.camera')}
+          <select
+            value={form.cameraModel}
+            onChange={(event) => updateForm({ cameraModel: event.target.value })}
+            disabled={busy}
+          >
+            <option value="">{t('clockOffset.chooseCamera')}</option>
+            {form.cameraModel && !selectedCamera ? <option value={form.cameraModel}>{form.cameraModel}</option> : null}
+            {cameras.map((camera) => (
+              <option key={camera.cameraModel} value={camera.cameraModel}>
+                {t('clockOffset.cameraOption', { model: camera.cameraModel, count: camera.count })}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          {t('clockOffset.offset')}
+          <input
+            type="text"
+            inputMode="numeric"
+            placeholder="+9:00"
+            value={form.offsetText}
+            aria-invalid={offsetInvalid}
+            onChange={(event) => updateForm({ offsetText: event.target.value })}
+            disabled={busy}
+          />
+        </label>
+        <label>
+          {t('clockOffset.root')}
+          <select value={form.rootId} onChange={(event) => updateForm({ rootId: event.target.value })} disabled={busy}>
+            <option value="">{t('clockOffset.allRoots')}</option>
+            {roots.map((root) => (
+              <option key={root.id} value={String(root.id)} title={root.path}>
+                {getBaseName(root.path)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="clock-offset-dates">
+          <label>
+            {t('clockOffset.from')}
+            <input
+              type="date"
+              value={form.fromDate}
+              onChange={(event) => updateForm({ fromDate: event.target.value })}
+              disabled={busy}
+            />
+          </label>
+          <label>
+            {t('clockOffset.to')}
+            <input
+              type="date"
+              value={form.toDate}
+              onChange={(event) => updateForm({ toDate: event.target.value })}
+              disabled={busy}
+            />
+          </label>
+        </div>
+      </div>
+      {selectedCamera && selectedCamera.minLocalMs != null && selectedCamera.maxLocalMs != null ? (
+        <p className="status-text">
+          {t('clockOffset.cameraRange', {
+            range: formatRange({ fromMs: selectedCamera.minLocalMs, toMs: selectedCamera.maxLocalMs }),
+          })}
+        </p>
+      ) : null}
+      <p className={offsetInvalid ? 'status-text status-text-error' : 'status-text'}>{t('clockOffset.offsetHint')}</p>
+      <div className="action-buttons-grid">
+        <button type="button" onClick={() => submit(onPreview)} disabled={!canSubmit}>
+          {t('clockOffset.preview')}
+        </button>
+        <button type="button" onClick={handleSave} disabled={!canSubmit}>
+          {form.editingId == null ? t('clockOffset.save') : t('clockOffset.update')}
+        </button>
+        {form.editingId != null ? (
+          <button type="button" onClick={() => updateForm(EMPTY_FORM)} disabled={busy}>
+            {t('clockOffset.cancelEdit')}
+          </button>
+        ) : null}
+      </div>
+      {busy ? <p className="status-text">{t('clockOffset.working')}</p> : null}
+      {errorMessage ? <p className="status-text status-text-error">{errorMessage}</p> : null}
+      {lastUpdated != null && !preview ? (
+        <p className="status-text">{t('clockOffset.updated', { count: lastUpdated })}</p>
+      ) : null}
+      {preview ? (
+        <div className="clock-offset-preview">
+          <p className="status-text">{t('clockOffset.affected', { count: preview.affectedCount })}</p>
+          {preview.affectedCount > 0 ? (
+            <>
+              <p className="status-text">{t('clockOffset.rangeBefore', { range: formatRange(preview.beforeRange) })}</p>
+              <p className="status-text">{t('clockOffset.rangeAfter', { range: formatRange(preview.afterRange) })}</p>
+            </>
+          ) : null}
+          <p className="status-text">
+            {t('clockOffset.trips', { before: preview.tripCountBefore, after: preview.tripCountAfter })}
+          </p>
+          {preview.samples.length > 0 ? (
+            <ul className="clock-offset-sample-list">
+              {preview.samples.map((sample) => (
+                <li key={sample.photoId} className="clock-offset-sample" title={sample.path}>
+                  <span className="clock-offset-sample-name">{getBaseName(sample.path)}</span>
+                  <span className="clock-offset-sample-meta">
+                    {formatWallClock(sample.beforeLocalMs)} → {formatWallClock(sample.afterLocalMs)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+          {preview.affectedCount > preview.samples.length ? (
+            <p className="status-text">
+              {t('clockOffset.moreSamples', { count: preview.affectedCount - preview.samples.length })}
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+      {rules.length === 0 ? (
+        <p className="status-text">{t('clockOffset.noRules')}</p>
+      ) : (
+        <ul className="clock-offset-rule-list">
+          {rules.map((rule) => (
+            <RuleItem
+              key={rule.id}
+              rule={rule}
+              rootPath={rule.rootId == null ? null : (rootPathById.get(rule.rootId) ?? null)}
+              busy={busy}
+              onEdit={() => updateForm(toForm(rule))}
+              onRemove={() => onRemove(rule.id)}
+            />
+          ))}
+        </ul>
+      )}
+      <p className="status-text">{t('clockOffset.precedenceHint')}</p>
+    </section>
+  );
+}
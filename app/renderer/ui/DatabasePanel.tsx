@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import type { DatabaseCheckMode, DatabaseStatus } from '@shared/types/ipc';
+import type { BackupSettings } from '@shared/types/settings';
+
+import type { DatabaseAction } from '@renderer/application/usecases/useDatabaseUseCase';
+
+interface DatabasePanelProps {
+  settings: BackupSettings;
+  status: DatabaseStatus | null;
+  busy: boolean;
+  busyAction: DatabaseAction | null;
+  restoreScheduled: boolean;
+  errorMessage: string | null;
+  onSaveSettings: (next: BackupSettings) => void;
+  onBackupNow: () => void;
+  onCheckIntegrity: (mode: DatabaseCheckMode) => void;
+  onRestore: (name: string) => void;
+}
+
+function formatBytes(value: number): string {
+  if (value < 1024) {
+    return `${value} B`;
+  }
+  if (value < 1024 * 1024) {
+    return `${(value / 1024).toFixed(1)} KB`;
+  }
+  if (value < 1024 * 1024 * 1024) {
+    return `${(value / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(value / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+function parseCount(value: string, fallback: number): number {
+  const parsed = Number(value.trim());
+  return Number.isFinite(parsed) ? Math.trunc(parsed) : fallback;
+}
+
+export function DatabasePanel({
+  settings,
+  status,
+  busy,
+  busyAction,
+  restoreScheduled,
+  errorMessage,
+  onSaveSettings,
+  onBackupNow,
+  onCheckIntegrity,
+  onRestore,
+}: DatabasePanelProps) {
+  const { t } = useTranslation();
+  const [intervalDraft, setIntervalDraft] = useState(String(settings.intervalHours));
+  const [keepDraft, setKeepDraft] = useState(String(settings.keepCount));
+
+  useEffect(() => {
+    setIntervalDraft(String(settings.intervalHours));
+  }, [settings.intervalHours]);
+
+  useEffect(() => {
+    setKeepDraft(String(settings.keepCount));
+  }, [settings.keepCount]);
+
+  const commitCounts = () => {
+    const next: BackupSettings = {
+      ...settings,
+      intervalHours: parseCount(intervalDraft, settings.intervalHours),
+      keepCount: parseCount(keepDraft, settings.keepCount),
+    };
+    if (next.intervalHours !== settings.intervalHours || next.keepCount !== settings.keepCount) {
+      onSaveSettings(next);
+    } else {
+      setIntervalDraft(String(settings.intervalHours));
+      setKeepDraft(String(settings.keepCount));
+    }
+  };
+
+  const recovery = status?.recovery ?? null;
+  const lastCheck = status?.lastCheck ?? null;
+
+  return (
+    <section className="panel database-panel">
+      <div className="root-library-header">
+        <h3>{t('database.title')}</h3>
+        <button type="button" onClick={onBackupNow} disabled={busy}>
+          {t('database.backupNow')}
+        </button>
+      </div>
+      {status ? (
+        <p className="status-text">
+          {t('database.summary', {
+            size: formatBytes(status.sizeBytes),
+            count: status.backups.length,
+          })}
+        </p>
+      ) : null}
+      {recovery ? (
+        <p className={recovery.reason === 'corrupt' ? 'status-text status-text-error' : 'status-text'}>
+          {recovery.reason === 'restore'
+            ? t('database.recoveryRestored', { name: recovery.restoredFrom })
+            : recovery.restoredFrom
+              ? t('database.recoveryCorruptRestored', { name: recovery.restoredFrom })
+              : t('database.recoveryCorruptEmpty')}
+        </p>
+      ) : null}
+      <label className="checkbox">
+        <input
+          type="checkbox"
+          checked={settings.autoBackupEnabled}
+          onChange={(event) => onSaveSettings({ ...settings, autoBackupEnabled: event.target.checked })}
+        />
+        {t('database.autoBackup')}
+      </label>
+      <div className="maintenance-options">
+        <label>
+          {t('database.intervalHours')}
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={intervalDraft}
+            disabled={!settings.autoBackupEnabled}
+            onChange={(event) => setIntervalDraft(event.target.value)}
+            onBlur={commitCounts}
+          />
+        </label>
+        <label>
+          {t('database.keepCount')}
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={keepDraft}
+            onChange={(event) => setKeepDraft(event.target.value)}
+            onBlur={commitCounts}
+          />
+        </label>
+      </div>
+      {status?.nextBackupAtMs != null ? (
+        <p className="status-text">
+          {t('database.nextBackup', { time: new Date(status.nextBackupAtMs).toLocaleString() })}
+        </p>
+      ) : null}
+      {status?.lastBackupError ? (
+        <p className="status-text status-text-error">
+          {t('database.lastBackupFailed', { message: status.lastBackupError })}
+        </p>
+      ) : null}
+      <div className="action-buttons-grid">
+        <button type="button" onClick={() => onCheckIntegrity('quick')} disabled={busy}>
+          {t('database.quickCheck')}
+        </button>
+        <button type="button" onClick={() => onCheckIntegrity('full')} disabled={busy}>
+          {t('database.fullCheck')}
+        </button>
+      </div>
+      {busyAction === 'check' ? <p className="status-text">{t('database.checking')}</p> : null}
+      {busyAction === 'backup' ? <p className="status-text">{t('database.backingUp')}</p> : null}
+      {lastCheck ? (
+        lastCheck.ok ? (
+          <p className="status-text">
+            {t(lastCheck.mode === 'quick' ? 'database.quickCheckOk' : 'database.fullCheckOk', {
+              time: new Date(lastCheck.checkedAtMs).toLocaleString(),
+              seconds: (lastCheck.durationMs / 1000).toFixed(1),
+            })}
+          </p>
+        ) : (
+          <div className="database-check-failed">
+            <p className="status-text status-text-error">
+              {t('database.checkFailed', { count: lastCheck.messages.length })}
+            </p>
+            <ul className="maintenance-report-list">
+              {lastCheck.messages.map((message, index) => (
+                <li key={`${index}:${message}`}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )
+      ) : null}
+      {restoreScheduled ? <p className="status-text">{t('database.restoreScheduled')}</p> : null}
+      {errorMessage ? <p className="status-text status-text-error">{errorMessage}</p> : null}
+      {status && status.backups.length > 0 ? (
+        <ul className="database-backup-list">
+          {status.backups.map((backup) => (
+            <li key={backup.name} className="database-backup-row">
+              <div className="database-backup-meta">
+                <strong>{new Date(backup.createdAtMs).toLocaleString()}</strong>
+                <span>
+                  {formatBytes(backup.sizeBytes)}
+                  {backup.kind === 'pre-restore' ? ` · ${t('database.preRestore')}` : ''}
+                </span>
+              </div>
+              <button type="button" onClick={() => onRestore(backup.name)} disabled={busy}>
+                {t('database.restore')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="status-text">{t('database.noBackups')}</p>
+      )}
+    </section>
+  );
+}
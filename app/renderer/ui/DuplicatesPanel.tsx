@@ -0,0 +1,83 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import type { DuplicateGroupItem } from '@shared/types/ipc';
+
+interface DuplicatesPanelProps {
+  groups: DuplicateGroupItem[];
+  loading: boolean;
+  onRefresh: () => void;
+  onOpenSource: (photoId: number) => void;
+}
+
+function formatBytes(value: number): string {
+  if (value < 1024) {
+    return `${value} B`;
+  }
+  if (value < 1024 * 1024) {
+    return `${(value / 1024).toFixed(1)} KB`;
+  }
+  if (value < 1024 * 1024 * 1024) {
+    return `${(value / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(value / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+export function DuplicatesPanel({ groups, loading, onRefresh, onOpenSource }: DuplicatesPanelProps) {
+  const { t } = useTranslation();
+
+  const reclaimableBytes = useMemo(
+    () => groups.reduce((acc, group) => acc + group.reclaimableBytes, 0),
+    [groups],
+  );
+
+  return (
+    <section className="panel duplicates-panel">
+      <div className="root-library-header">
+        <h3>{t('duplicates.title')}</h3>
+        <button type="button" onClick={onRefresh} disabled={loading}>
+          {t('duplicates.refresh')}
+        </button>
+      </div>
+      <p className="status-text">{t('duplicates.sampledHint')}</p>
+      {loading ? <p className="status-text">{t('duplicates.loading')}</p> : null}
+      {!loading && groups.length === 0 ? <p className="status-text">{t('duplicates.empty')}</p> : null}
+      {groups.length > 0 ? (
+        <>
+          <p className="status-text">
+            {t('duplicates.summary', {
+              groups: groups.length.toLocaleString(),
+              size: formatBytes(reclaimableBytes),
+            })}
+          </p>
+          <ul className="duplicates-list">
+            {groups.map((group) => (
+              <li key={group.contentHash} className="duplicates-group">
+                <p className="duplicates-group-meta">
+                  {t('duplicates.groupMeta', {
+                    count: group.count,
+                    size: formatBytes(group.sizeBytes),
+                  })}
+                </p>
+                <ul className="duplicates-member-list">
+                  {group.members.map((member) => (
+                    <li key={member.photoId}>
+                      <button
+                        type="button"
+                        className="duplicates-member"
+                        title={t('duplicates.open')}
+                        onClick={() => onOpenSource(member.photoId)}
+                      >
+                        {member.path}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : null}
+    </section>
+  );
+}
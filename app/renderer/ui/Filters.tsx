@@ -1,17 +1,20 @@
 import { useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 
-import type { RootListItem } from '@shared/types/ipc';
+import type { RootListItem, SearchCount } from '@shared/types/ipc';
 
-import type { FilterDraft } from '@renderer/domain/filter/filterDraft';
+import type { FilterDraft, FlashFilter } from '@renderer/domain/filter/filterDraft';
 
 interface FiltersProps {
   value: FilterDraft;
   roots: RootListItem[];
+  // Matches for the search text; null while the box is empty.
+  searchCount: SearchCount | null;
+  searchCounting: boolean;
   onChange: (next: FilterDraft) => void;
 }
 
-export function Filters({ value, roots, onChange }: FiltersProps) {
+export function Filters({ value, roots, searchCount, searchCounting, onChange }: FiltersProps) {
   const { t } = useTranslation();
   const sortedRoots = useMemo(
     () => [...roots].sort((a, b) => b.updatedAtMs - a.updatedAtMs),
@@ -68,6 +71,28 @@ export function Filters({ value, roots, onChange }: FiltersProps) {
     <section className="panel">
       <h3>{t('filters.title')}</h3>
 
+      <div className="filter-search-block">
+        <input
+          type="search"
+          value={value.textQuery}
+          onChange={(event) => onChange({ ...value, textQuery: event.target.value })}
+          placeholder={t('filters.searchPlaceholder')}
+          aria-label={t('filters.search')}
+        />
+        {value.textQuery.trim().length > 0 ? (
+          <p className="status-text">
+            {searchCount
+              ? t('filters.searchCount', {
+                  total: searchCount.total.toLocaleString(),
+                  geotagged: searchCount.geotagged.toLocaleString(),
+                })
+              : searchCounting
+                ? t('filters.searchCounting')
+                : null}
+          </p>
+        ) : null}
+      </div>
+
       <div className="filter-root-block">
         <p className="filter-section-title">{t('filters.roots')}</p>
         {sortedRoots.length === 0 ? (
@@ -92,6 +117,18 @@ export function Filters({ value, roots, onChange }: FiltersProps) {
         <p className="status-text">{t('filters.rootHint')}</p>
       </div>
 
+      {value.countryCodes.length > 0 || value.cityIds.length > 0 ? (
+        <div className="filter-place-block">
+          <p className="filter-section-title">{t('filters.places')}</p>
+          <p className="status-text">
+            {t('filters.placesActive', { countries: value.countryCodes.length, cities: value.cityIds.length })}
+          </p>
+          <button type="button" onClick={() => onChange({ ...value, countryCodes: [], cityIds: [] })}>
+            {t('filters.clearPlaces')}
+          </button>
+        </div>
+      ) : null}
+
       <label>
         {t('filters.dateFrom')}
         <input
@@ -140,6 +177,15 @@ export function Filters({ value, roots, onChange }: FiltersProps) {
         {t('filters.hasGps')}
       </label>
 
+      <label className="checkbox">
+        <input
+          type="checkbox"
+          checked={value.collapseDuplicates}
+          onChange={(event) => onChange({ ...value, collapseDuplicates: event.target.checked })}
+        />
+        {t('filters.collapseDuplicates')}
+      </label>
+
       <label>
         {t('filters.cameraModel')}
         <input
@@ -150,6 +196,135 @@ export function Filters({ value, roots, onChange }: FiltersProps) {
         />
       </label>
 
+      <label>
+        {t('filters.cameraMake')}
+        <input
+          type="text"
+          value={value.cameraMakeQuery}
+          onChange={(event) => onChange({ ...value, cameraMakeQuery: event.target.value })}
+          placeholder={t('filters.cameraMakePlaceholder')}
+        />
+      </label>
+
+      <label>
+        {t('filters.lensModel')}
+        <input
+          type="text"
+          value={value.lensModelQuery}
+          onChange={(event) => onChange({ ...value, lensModelQuery: event.target.value })}
+          placeholder={t('filters.lensModelPlaceholder')}
+        />
+      </label>
+
+      <div className="filter-exif-block">
+        <p className="filter-section-title">{t('filters.exposureSection')}</p>
+
+        <label>
+          {t('filters.focalLengthMm')}
+          <span className="filter-range">
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={value.focalLengthFromMm}
+              onChange={(event) => onChange({ ...value, focalLengthFromMm: event.target.value })}
+              placeholder="24"
+            />
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={value.focalLengthToMm}
+              onChange={(event) => onChange({ ...value, focalLengthToMm: event.target.value })}
+              placeholder="70"
+            />
+          </span>
+        </label>
+
+        <label className="checkbox">
+          <input
+            type="checkbox"
+            checked={value.focalLengthUse35mm}
+            onChange={(event) => onChange({ ...value, focalLengthUse35mm: event.target.checked })}
+          />
+          {t('filters.focalLengthUse35mm')}
+        </label>
+
+        <label>
+          {t('filters.aperture')}
+          <span className="filter-range">
+            <input
+              type="number"
+              min={0.5}
+              step={0.1}
+              value={value.apertureFrom}
+              onChange={(event) => onChange({ ...value, apertureFrom: event.target.value })}
+              placeholder="1.8"
+            />
+            <input
+              type="number"
+              min={0.5}
+              step={0.1}
+              value={value.apertureTo}
+              onChange={(event) => onChange({ ...value, apertureTo: event.target.value })}
+              placeholder="2.8"
+            />
+          </span>
+        </label>
+
+        <label>
+          {t('filters.shutterSpeed')}
+          <span className="filter-range">
+            <input
+              type="text"
+              value={value.exposureFrom}
+              onChange={(event) => onChange({ ...value, exposureFrom: event.target.value })}
+              placeholder="1/1000"
+            />
+            <input
+              type="text"
+              value={value.exposureTo}
+              onChange={(event) => onChange({ ...value, exposureTo: event.target.value })}
+              placeholder="1/60"
+            />
+          </span>
+        </label>
+
+        <label>
+          {t('filters.iso')}
+          <span className="filter-range">
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={value.isoFrom}
+              onChange={(event) => onChange({ ...value, isoFrom: event.target.value })}
+              placeholder="100"
+            />
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={value.isoTo}
+              onChange={(event) => onChange({ ...value, isoTo: event.target.value })}
+              placeholder="3200"
+            />
+          </span>
+        </label>
+
+        <label>
+          {t('filters.flash')}
+          <select
+            value={value.flash}
+            onChange={(event) => onChange({ ...value, flash: event.target.value as FlashFilter })}
+          >
+            <option value="any">{t('filters.flashAny')}</option>
+            <option value="fired">{t('filters.flashFired')}</option>
+            <option value="notFired">{t('filters.flashNotFired')}</option>
+          </select>
+        </label>
+      </div>
+
       <label>
         {t('filters.minWidthPx')}
         <input
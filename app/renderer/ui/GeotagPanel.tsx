@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import type { GeotagMatch, GeotagPreview, GeotagTrackSummary } from '@shared/types/ipc';
+import type { GeotagSettings } from '@shared/types/settings';
+
+interface GeotagPanelProps {
+  settings: GeotagSettings;
+  trackPaths: string[];
+  preview: GeotagPreview | null;
+  lastAppliedCount: number | null;
+  busy: boolean;
+  errorMessage: string | null;
+  onSaveSettings: (next: GeotagSettings) => void;
+  onSelectTracks: () => void;
+  onClearTracks: () => void;
+  onPreview: () => void;
+  onApply: () => void;
+  onUndoApply: () => void;
+}
+
+function getBaseName(filePath: string): string {
+  const parts = filePath.split(/[\\/]/);
+  return parts[parts.length - 1] || filePath;
+}
+
+function formatTimestamp(value: number | null): string {
+  if (value == null) {
+    return '-';
+  }
+  return new Date(value).toLocaleString();
+}
+
+function formatGap(gapMs: number): string {
+  const seconds = Math.round(gapMs / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function formatCoordinate(lat: number, lng: number): string {
+  return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+}
+
+function parseSeconds(value: string, fallback: number): number {
+  const parsed = Number(value.trim());
+  return Number.isFinite(parsed) ? Math.trunc(parsed) : fallback;
+}
+
+function TrackSummaryItem({ track }: { track: GeotagTrackSummary }) {
+  const { t } = useTranslation();
+  return (
+    <li className="geotag-track">
+      <span className="geotag-track-name" title={track.path}>{getBaseName(track.path)}</span>
+      {track.error ? (
+        <span className="geotag-track-error">{t('geotag.trackError', { message: track.error })}</span>
+      ) : (
+        <span className="geotag-track-meta">
+          {t('geotag.trackMeta', {
+            count: track.pointCount,
+            from: formatTimestamp(track.startMs),
+            to: formatTimestamp(track.endMs),
+          })}
+        </span>
+      )}
+    </li>
+  );
+}
+
+function MatchItem({ match }: { match: GeotagMatch }) {
+  const { t } = useTranslation();
+  return (
+    <li className="geotag-match">
+      <p className="geotag-match-path" title={match.path}>{getBaseName(match.path)}</p>
+      <p className="geotag-match-meta">
+        {formatCoordinate(match.lat, match.lng)} · {t(`geotag.method.${match.method}`)} · {formatGap(match.gapMs)}
+        {match.hasGeotag ? ` · ${t('geotag.replaces')}` : ''}
+      </p>
+    </li>
+  );
+}
+
+export function GeotagPanel({
+  settings,
+  trackPaths,
+  preview,
+  lastAppliedCount,
+  busy,
+  errorMessage,
+  onSaveSettings,
+  onSelectTracks,
+  onClearTracks,
+  onPreview,
+  onApply,
+  onUndoApply,
+}: GeotagPanelProps) {
+  const { t } = useTranslation();
+  const [offsetDraft, setOffsetDraft] = useState(String(settings.clockOffsetSeconds));
+  const [maxGapDraft, setMaxGapDraft] = useState(String(settings.maxGapSeconds));
+
+  useEffect(() => {
+    setOffsetDraft(String(settings.clockOffsetSeconds));
+  }, [settings.clockOffsetSeconds]);
+
+  useEffect(() => {
+    setMaxGapDraft(String(settings.maxGapSeconds));
+  }, [settings.maxGapSeconds]);
+
+  const commitSettings = () => {
+    const next: GeotagSettings = {
+      clockOffsetSeconds: parseSeconds(offsetDraft, settings.clockOffsetSeconds),
+      maxGapSeconds: parseSeconds(maxGapDraft, settings.maxGapSeconds),
+    };
+    if (next.clockOffsetSeconds !== settings.clockOffsetSeconds || next.maxGapSeconds !== settings.maxGapSeconds) {
+      onSaveSettings(next);
+    } else {
+      setOffsetDraft(String(settings.clockOffsetSeconds));
+      setMaxGapDraft(String(settings.maxGapSeconds));
+    }
+  };
+
+  const hiddenMatches = preview ? preview.matchedCount - preview.matches.length : 0;
+
+  return (
+    <section className="panel geotag-panel">
+      <div className="root-library-header">
+        <h3>{t('geotag.title')}</h3>
+        <button type="button" onClick={onSelectTracks} disabled={busy}>
+          {t('geotag.selectTracks')}
+        </button>
+      </div>
+      <p className="status-text">{t('geotag.subtitle')}</p>
+      {trackPaths.length === 0 ? (
+        <p className="status-text">{t('geotag.noTracks')}</p>
+      ) : (
+        <div className="geotag-selected">
+          <ul className="geotag-selected-list">
+            {trackPaths.map((trackPath) => (
+              <li key={trackPath} title={trackPath}>{getBaseName(trackPath)}</li>
+            ))}
+          </ul>
+          <button type="button" onClick={onClearTracks} disabled={busy}>
+            {t('geotag.clearTracks')}
+          </button>
+        </div>
+      )}
+      <div className="geotag-options">
+        <label>
+          {t('geotag.clockOffset')}
+          <input
+            type="number"
+            step={1}
+            value={offsetDraft}
+            onChange={(event) => setOffsetDraft(event.target.value)}
+            onBlur={commitSettings}
+          />
+        </label>
+        <label>
+          {t('geotag.maxGap')}
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={maxGapDraft}
+            onChange={(event) => setMaxGapDraft(event.target.value)}
+            onBlur={commitSettings}
+          />
+        </label>
+      </div>
+      <p className="status-text">{t('geotag.clockOffsetHint')}</p>
+      <div className="action-buttons-grid">
+        <button type="button" onClick={onPreview} disabled={busy || trackPaths.length === 0}>
+          {t('geotag.preview')}
+        </button>
+        <button type="button" onClick={onApply} disabled={busy || !preview || preview.matchedCount === 0}>
+          {t('geotag.apply', { count: preview?.matchedCount ?? 0 })}
+        </button>
+      </div>
+      {busy ? <p className="status-text">{t('geotag.working')}</p> : null}
+      {errorMessage ? <p className="status-text status-text-error">{errorMessage}</p> : null}
+      {lastAppliedCount != null ? (
+        <div className="geotag-applied">
+          <p className="status-text">{t('geotag.applied', { count: lastAppliedCount })}</p>
+          <button type="button" onClick={onUndoApply} disabled={busy || lastAppliedCount === 0}>
+            {t('geotag.undo')}
+          </button>
+        </div>
+      ) : null}
+      {preview ? (
+        <>
+          <ul className="geotag-track-list">
+            {preview.tracks.map((track) => (
+              <TrackSummaryItem key={track.path} track={track} />
+            ))}
+          </ul>
+          <p className="status-text">
+            {t('geotag.summary', { matched: preview.matchedCount, candidates: preview.candidateCount })}
+          </p>
+          {preview.matches.length > 0 ? (
+            <ul className="geotag-match-list">
+              {preview.matches.map((match) => (
+                <MatchItem key={match.photoId} match={match} />
+              ))}
+            </ul>
+          ) : null}
+          {hiddenMatches > 0 ? (
+            <p className="status-text">{t('geotag.moreMatches', { count: hiddenMatches })}</p>
+          ) : null}
+        </>
+      ) : null}
+    </section>
+  );
+}
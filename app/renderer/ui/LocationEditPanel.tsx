@@ -0,0 +1,76 @@
+import { useTranslation } from 'react-i18next';
+
+interface LocationEditPanelProps {
+  targetCount: number;
+  selectionCount: number;
+  stripCount: number;
+  pickActive: boolean;
+  canUndo: boolean;
+  busy: boolean;
+  errorMessage: string | null;
+  onTogglePick: () => void;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onRevert: () => void;
+  onUndo: () => void;
+}
+
+export function LocationEditPanel({
+  targetCount,
+  selectionCount,
+  stripCount,
+  pickActive,
+  canUndo,
+  busy,
+  errorMessage,
+  onTogglePick,
+  onSelectAll,
+  onClearSelection,
+  onRevert,
+  onUndo,
+}: LocationEditPanelProps) {
+  const { t } = useTranslation();
+  const hasTarget = targetCount > 0;
+
+  return (
+    <section className="panel location-edit-panel">
+      <div className="root-library-header">
+        <h3>{t('locationEdit.title')}</h3>
+        <button type="button" onClick={onUndo} disabled={busy || !canUndo}>
+          {t('locationEdit.undo')}
+        </button>
+      </div>
+      <p className="status-text">
+        {selectionCount > 0
+          ? t('locationEdit.selected', { count: selectionCount })
+          : hasTarget
+            ? t('locationEdit.currentOnly')
+            : t('locationEdit.noTarget')}
+      </p>
+      <p className="status-text">{t('locationEdit.selectHint')}</p>
+      <div className="action-buttons-grid">
+        <button
+          type="button"
+          className={pickActive ? 'is-active' : undefined}
+          aria-pressed={pickActive}
+          onClick={onTogglePick}
+          disabled={busy || !hasTarget}
+        >
+          {pickActive ? t('locationEdit.cancelPick') : t('locationEdit.pickOnGlobe')}
+        </button>
+        <button type="button" onClick={onRevert} disabled={busy || !hasTarget}>
+          {t('locationEdit.revert')}
+        </button>
+        <button type="button" onClick={onSelectAll} disabled={busy || stripCount === 0}>
+          {t('locationEdit.selectAll', { count: stripCount })}
+        </button>
+        <button type="button" onClick={onClearSelection} disabled={busy || selectionCount === 0}>
+          {t('locationEdit.clearSelection')}
+        </button>
+      </div>
+      {pickActive ? <p className="status-text location-edit-picking">{t('locationEdit.pickHint')}</p> : null}
+      {hasTarget ? <p className="status-text">{t('locationEdit.cityHint')}</p> : null}
+      {errorMessage ? <p className="status-text status-text-error">{errorMessage}</p> : null}
+    </section>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import type { MaintenanceStatus } from '@shared/types/ipc';
+import type { MaintenanceSettings } from '@shared/types/settings';
+
+interface MaintenancePanelProps {
+  settings: MaintenanceSettings;
+  status: MaintenanceStatus | null;
+  busy: boolean;
+  errorMessage: string | null;
+  onSaveSettings: (next: MaintenanceSettings) => void;
+  onRun: () => void;
+}
+
+function formatBytes(value: number): string {
+  if (value < 1024) {
+    return `${value} B`;
+  }
+  if (value < 1024 * 1024) {
+    return `${(value / 1024).toFixed(1)} KB`;
+  }
+  if (value < 1024 * 1024 * 1024) {
+    return `${(value / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(value / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+function parseDays(value: string, fallback: number): number {
+  const parsed = Number(value.trim());
+  return Number.isFinite(parsed) ? Math.trunc(parsed) : fallback;
+}
+
+export function MaintenancePanel({ settings, status, busy, errorMessage, onSaveSettings, onRun }: MaintenancePanelProps) {
+  const { t } = useTranslation();
+  const [intervalDraft, setIntervalDraft] = useState(String(settings.intervalDays));
+  const [retentionDraft, setRetentionDraft] = useState(String(settings.tombstoneRetentionDays));
+
+  useEffect(() => {
+    setIntervalDraft(String(settings.intervalDays));
+  }, [settings.intervalDays]);
+
+  useEffect(() => {
+    setRetentionDraft(String(settings.tombstoneRetentionDays));
+  }, [settings.tombstoneRetentionDays]);
+
+  const commitDays = () => {
+    const next: MaintenanceSettings = {
+      ...settings,
+      intervalDays: parseDays(intervalDraft, settings.intervalDays),
+      tombstoneRetentionDays: parseDays(retentionDraft, settings.tombstoneRetentionDays),
+    };
+    if (
+      next.intervalDays !== settings.intervalDays ||
+      next.tombstoneRetentionDays !== settings.tombstoneRetentionDays
+    ) {
+      onSaveSettings(next);
+    } else {
+      setIntervalDraft(String(settings.intervalDays));
+      setRetentionDraft(String(settings.tombstoneRetentionDays));
+    }
+  };
+
+  const report = status?.lastReport ?? null;
+
+  return (
+    <section className="panel maintenance-panel">
+      <div className="root-library-header">
+        <h3>{t('maintenance.title')}</h3>
+        <button type="button" onClick={onRun} disabled={busy}>
+          {t('maintenance.run')}
+        </button>
+      </div>
+      <p className="status-text">{t('maintenance.subtitle')}</p>
+      <label className="checkbox">
+        <input
+          type="checkbox"
+          checked={settings.autoRunEnabled}
+          onChange={(event) => onSaveSettings({ ...settings, autoRunEnabled: event.target.checked })}
+        />
+        {t('maintenance.autoRun')}
+      </label>
+      <div className="maintenance-options">
+        <label>
+          {t('maintenance.intervalDays')}
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={intervalDraft}
+            disabled={!settings.autoRunEnabled}
+            onChange={(event) => setIntervalDraft(event.target.value)}
+            onBlur={commitDays}
+          />
+        </label>
+        <label>
+          {t('maintenance.retentionDays')}
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={retentionDraft}
+            onChange={(event) => setRetentionDraft(event.target.value)}
+            onBlur={commitDays}
+          />
+        </label>
+      </div>
+      <p className="status-text">{t('maintenance.retentionHint')}</p>
+      {status?.nextRunAtMs != null ? (
+        <p className="status-text">
+          {t('maintenance.nextRun', { time: new Date(status.nextRunAtMs).toLocaleString() })}
+        </p>
+      ) : null}
+      {busy ? <p className="status-text">{t('maintenance.running')}</p> : null}
+      {errorMessage ? <p className="status-text status-text-error">{errorMessage}</p> : null}
+      {report ? (
+        <div className="maintenance-report">
+          <p className="status-text">
+            {t(report.trigger === 'scheduled' ? 'maintenance.lastRunScheduled' : 'maintenance.lastRunManual', {
+              time: new Date(report.finishedAtMs).toLocaleString(),
+            })}
+          </p>
+          <ul className="maintenance-report-list">
+            <li>{t('maintenance.purgedRows', { count: report.purgedRows, days: report.tombstoneRetentionDays })}</li>
+            <li>
+              {t('maintenance.deletedCacheFiles', {
+                count: report.deletedCacheFiles,
+                size: formatBytes(report.reclaimedBytes),
+              })}
+            </li>
+            {report.prunedSearchRows > 0 ? (
+              <li>{t('maintenance.prunedSearchRows', { count: report.prunedSearchRows })}</li>
+            ) : null}
+            {report.failedCacheFiles > 0 ? (
+              <li className="status-text-error">
+                {t('maintenance.failedCacheFiles', { count: report.failedCacheFiles })}
+              </li>
+            ) : null}
+          </ul>
+        </div>
+      ) : (
+        <p className="status-text">{t('maintenance.neverRun')}</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,141 @@
+import { useTranslation } from 'react-i18next';
+
+import type { MetadataWriteFileResult, MetadataWriteReport, MetadataWriteTarget } from '@shared/types/ipc';
+
+const REPORT_ITEM_LIMIT = 50;
+
+interface MetadataWritePanelProps {
+  targetCount: number;
+  target: MetadataWriteTarget;
+  keepBackup: boolean;
+  report: MetadataWriteReport | null;
+  busy: boolean;
+  errorMessage: string | null;
+  onTargetChange: (target: MetadataWriteTarget) => void;
+  onKeepBackupChange: (keepBackup: boolean) => void;
+  onWrite: () => void;
+  onDismissReport: () => void;
+}
+
+function getBaseName(filePath: string): string {
+  const parts = filePath.split(/[\\/]/);
+  return parts[parts.length - 1] || filePath;
+}
+
+// Plain successes are only counted; the list is for files that need a second look.
+function needsAttention(result: MetadataWriteFileResult): boolean {
+  return (
+    result.status !== 'written' ||
+    Boolean(result.sidecarTakesPrecedence) ||
+    Boolean(result.sharedSidecar) ||
+    Boolean(result.message)
+  );
+}
+
+function ReportItem({ result }: { result: MetadataWriteFileResult }) {
+  const { t } = useTranslation();
+  let detail: string;
+  if (result.status === 'skipped') {
+    detail = t(`metadataWrite.skip.${result.skipReason ?? 'noCorrection'}`);
+  } else if (result.status === 'error') {
+    detail = t('metadataWrite.failed', { message: result.message ?? '' });
+  } else if (result.sidecarTakesPrecedence) {
+    detail = t('metadataWrite.sidecarTakesPrecedence');
+  } else if (result.sharedSidecar && !result.message) {
+    detail = t('metadataWrite.sharedSidecar');
+  } else {
+    detail = t('metadataWrite.writtenWithWarning', { message: result.message ?? '' });
+  }
+  return (
+    <li className={`metadata-write-item is-${result.status}`}>
+      <p className="metadata-write-item-path" title={result.path}>
+        {result.path ? getBaseName(result.path) : `#${result.photoId}`}
+      </p>
+      <p className="metadata-write-item-detail">{detail}</p>
+    </li>
+  );
+}
+
+export function MetadataWritePanel({
+  targetCount,
+  target,
+  keepBackup,
+  report,
+  busy,
+  errorMessage,
+  onTargetChange,
+  onKeepBackupChange,
+  onWrite,
+  onDismissReport,
+}: MetadataWritePanelProps) {
+  const { t } = useTranslation();
+  const flagged = report ? report.results.filter(needsAttention) : [];
+
+  return (
+    <section className="panel metadata-write-panel">
+      <div className="root-library-header">
+        <h3>{t('metadataWrite.title')}</h3>
+      </div>
+      <p className="status-text">{t('metadataWrite.subtitle')}</p>
+      <div className="metadata-write-options">
+        <label>
+          {t('metadataWrite.target')}
+          <select
+            value={target}
+            onChange={(event) => onTargetChange(event.target.value as MetadataWriteTarget)}
+            disabled={busy}
+          >
+            <option value="sidecar">{t('metadataWrite.targetSidecar')}</option>
+            <option value="original">{t('metadataWrite.targetOriginal')}</option>
+          </select>
+        </label>
+        <label className="metadata-write-backup">
+          <input
+            type="checkbox"
+            checked={keepBackup}
+            onChange={(event) => onKeepBackupChange(event.target.checked)}
+            disabled={busy}
+          />
+          {t('metadataWrite.keepBackup')}
+        </label>
+      </div>
+      {target === 'original' ? <p className="status-text">{t('metadataWrite.originalHint')}</p> : null}
+      <div className="action-buttons-grid">
+        <button type="button" onClick={onWrite} disabled={busy || targetCount === 0}>
+          {t('metadataWrite.write', { count: targetCount })}
+        </button>
+      </div>
+      {busy ? <p className="status-text">{t('metadataWrite.working')}</p> : null}
+      {errorMessage ? <p className="status-text status-text-error">{errorMessage}</p> : null}
+      {report ? (
+        <div className="metadata-write-report">
+          <div className="metadata-write-report-header">
+            <p className="status-text">
+              {t('metadataWrite.summary', {
+                written: report.written,
+                skipped: report.skipped,
+                errored: report.errored,
+              })}
+            </p>
+            <button type="button" onClick={onDismissReport} disabled={busy}>
+              {t('metadataWrite.dismiss')}
+            </button>
+          </div>
+          {flagged.length > 0 ? (
+            <ul className="metadata-write-list">
+              {flagged.slice(0, REPORT_ITEM_LIMIT).map((result) => (
+                <ReportItem key={result.photoId} result={result} />
+              ))}
+            </ul>
+          ) : null}
+          {flagged.length > REPORT_ITEM_LIMIT ? (
+            <p className="status-text">{t('metadataWrite.more', { count: flagged.length - REPORT_ITEM_LIMIT })}</p>
+          ) : null}
+          <p className="status-text metadata-write-report-path" title={report.reportPath}>
+            {t('metadataWrite.reportSaved', { path: report.reportPath })}
+          </p>
+        </div>
+      ) : null}
+    </section>
+  );
+}
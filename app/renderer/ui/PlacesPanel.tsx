@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import type { PlaceCountryCount, PlacesSummary } from '@shared/types/ipc';
+
+interface PlacesPanelProps {
+  summary: PlacesSummary | null;
+  selectedCountryCodes: string[];
+  selectedCityIds: string[];
+  busy: boolean;
+  errorMessage: string | null;
+  onReload: () => void;
+  onToggleCountry: (countryCode: string) => void;
+  onToggleCity: (cityId: string) => void;
+}
+
+function CountryItem({
+  country,
+  expanded,
+  selected,
+  selectedCityIds,
+  onToggleExpanded,
+  onToggleCountry,
+  onToggleCity,
+}: {
+  country: PlaceCountryCount;
+  expanded: boolean;
+  selected: boolean;
+  selectedCityIds: string[];
+  onToggleExpanded: () => void;
+  onToggleCountry: () => void;
+  onToggleCity: (cityId: string) => void;
+}) {
+  const { t } = useTranslation();
+  return (
+    <li className="places-country">
+      <div className="places-row">
+        <button
+          type="button"
+          className="places-expand"
+          aria-expanded={expanded}
+          aria-label={expanded ? t('places.collapse') : t('places.expand')}
+          onClick={onToggleExpanded}
+        >
+          {expanded ? '▾' : '▸'}
+        </button>
+        <label className="checkbox places-name">
+          <input type="checkbox" checked={selected} onChange={onToggleCountry} />
+          {country.countryName}
+        </label>
+        <span className="places-count">
+          {t('places.cityCount', { count: country.cities.length })} · {country.photoCount.toLocaleString()}
+        </span>
+      </div>
+      {expanded ? (
+        <ul className="places-city-list">
+          {country.cities.map((city) => (
+            <li key={city.cityId} className="places-row">
+              <label className="checkbox places-name">
+                <input
+                  type="checkbox"
+                  checked={selectedCityIds.includes(city.cityId)}
+                  onChange={() => onToggleCity(city.cityId)}
+                />
+                {city.name}
+              </label>
+              <span className="places-count">{city.photoCount.toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </li>
+  );
+}
+
+export function PlacesPanel({
+  summary,
+  selectedCountryCodes,
+  selectedCityIds,
+  busy,
+  errorMessage,
+  onReload,
+  onToggleCountry,
+  onToggleCity,
+}: PlacesPanelProps) {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+  const countries = summary?.countries ?? [];
+  const cityTotal = countries.reduce((sum, country) => sum + country.cities.length, 0);
+
+  const toggleExpanded = (countryCode: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(countryCode)) {
+        next.delete(countryCode);
+      } else {
+        next.add(countryCode);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <section className="panel places-panel">
+      <div className="root-library-header">
+        <h3>{t('places.title')}</h3>
+        <button type="button" onClick={onReload} disabled={busy}>
+          {t('places.reload')}
+        </button>
+      </div>
+      {summary && !summary.catalogReady ? <p className="status-text">{t('places.catalogMissing')}</p> : null}
+      {summary && summary.catalogReady && summary.pendingCount > 0 ? (
+        <p className="status-text">{t('places.pending', { count: summary.pendingCount })}</p>
+      ) : null}
+      {errorMessage ? <p className="status-text status-text-error">{errorMessage}</p> : null}
+      {summary && countries.length === 0 ? <p className="status-text">{t('places.empty')}</p> : null}
+      {countries.length > 0 ? (
+        <>
+          <p className="status-text">{t('places.summary', { countries: countries.length, cities: cityTotal })}</p>
+          <ul className="places-list">
+            {countries.map((country) => (
+              <CountryItem
+                key={country.countryCode}
+                country={country}
+                expanded={expanded.has(country.countryCode)}
+                selected={selectedCountryCodes.includes(country.countryCode)}
+                selectedCityIds={selectedCityIds}
+                onToggleExpanded={() => toggleExpanded(country.countryCode)}
+                onToggleCountry={() => onToggleCountry(country.countryCode)}
+                onToggleCity={onToggleCity}
+              />
+            ))}
+          </ul>
+          <p className="status-text">{t('places.filterHint')}</p>
+        </>
+      ) : null}
+    </section>
+  );
+}
@@ -1,17 +1,47 @@
+import { Fragment } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { usePreviewMediaSource } from '@renderer/application/media/usePreviewMediaSource';
-import type { PreviewState } from '@renderer/domain/preview/previewModels';
+import { usePreviewSourceInfo } from '@renderer/application/media/usePreviewSourceInfo';
+import { formatClockOffset } from '@renderer/domain/clock/clockOffsetRules';
+import type { MediaType, PreviewState } from '@renderer/domain/preview/previewModels';
+import type { LocationOverride, MetadataSourceField } from '@shared/types/photo';
+
+const SOURCE_FIELDS: MetadataSourceField[] = ['location', 'altitude', 'takenAt', 'camera', 'lens'];
+
+function getExtensionLabel(filePath: string): string {
+  const extension = filePath.split('.').pop() ?? '';
+  return extension.toUpperCase();
+}
+
+function formatLocationOverride(t: (key: string) => string, override: LocationOverride): string {
+  const kind = t(`preview.locationOverrideKind.${override.kind}`);
+  return override.source ? `${kind} · ${override.source}` : kind;
+}
 
 interface PreviewCardProps {
   preview: PreviewState | null;
   isLoading?: boolean;
   onOpenPreview?: (photoId: number) => void;
+  onSelectStackMember?: (photoId: number, mediaType: MediaType) => void;
+  sourceRevision?: number;
 }
 
-export function PreviewCard({ preview, isLoading = false, onOpenPreview }: PreviewCardProps) {
+export function PreviewCard({
+  preview,
+  isLoading = false,
+  onOpenPreview,
+  onSelectStackMember,
+  sourceRevision = 0,
+}: PreviewCardProps) {
   const { t } = useTranslation();
   const { resolvedSource, isConvertingHeic, handleImageError } = usePreviewMediaSource(preview);
+  const sourceInfo = usePreviewSourceInfo(preview, undefined, sourceRevision);
+  const locationOverride = sourceInfo?.locationOverride ?? null;
+  const clockOffsetMs = sourceInfo?.clockOffsetMs ?? 0;
+  const place = sourceInfo?.place ?? null;
+  const metadataSources = sourceInfo?.metadataSources ?? {};
+  const stackMembers = sourceInfo?.stackMembers ?? [];
 
   if (!preview || !resolvedSource) {
     return (
@@ -37,11 +67,57 @@ export function PreviewCard({ preview, isLoading = false, onOpenPreview }: Previ
       />
       {isLoading ? <p className="preview-loading">{t('preview.loading')}</p> : null}
       {isConvertingHeic ? <p className="preview-loading">Converting HEIC to JPEG...</p> : null}
+      {stackMembers.length > 1 ? (
+        <div className="preview-stack" role="group" aria-label={t('preview.stack')}>
+          {stackMembers.map((member) => (
+            <button
+              key={member.photoId}
+              type="button"
+              className={member.photoId === preview.photoId ? 'preview-stack-member active' : 'preview-stack-member'}
+              aria-pressed={member.photoId === preview.photoId}
+              title={member.path}
+              onClick={() => onSelectStackMember?.(member.photoId, member.mediaType)}
+            >
+              {getExtensionLabel(member.path)}
+              {member.isPrimary ? ` · ${t('preview.stackPrimary')}` : ''}
+            </button>
+          ))}
+        </div>
+      ) : null}
       <dl className="kv-grid">
         <dt>{t('preview.photoId')}</dt>
         <dd>{preview.photoId}</dd>
         <dt>{t('preview.mediaType')}</dt>
         <dd>{preview.mediaType}</dd>
+        {place ? (
+          <>
+            <dt>{t('preview.place')}</dt>
+            <dd>{t('preview.placeValue', { city: place.cityName, country: place.countryName })}</dd>
+          </>
+        ) : null}
+        {SOURCE_FIELDS.map((field) => {
+          const source = metadataSources[field];
+          return source ? (
+            <Fragment key={field}>
+              <dt>{t(`preview.sourceField.${field}`)}</dt>
+              <dd>{t(`preview.source.${source}`)}</dd>
+            </Fragment>
+          ) : null;
+        })}
+        {locationOverride ? (
+          <>
+            <dt>{t('preview.locationOverride')}</dt>
+            <dd title={`${locationOverride.lat.toFixed(5)}, ${locationOverride.lng.toFixed(5)}`}>
+              {formatLocationOverride(t, locationOverride)}
+            </dd>
+          </>
+        ) : null}
+        {clockOffsetMs !== 0 ? (
+          <>
+            <dt>{t('preview.clockOffset')}</dt>
+            <dd>{formatClockOffset(clockOffsetMs)}</dd>
+          </>
+        ) : null}
       </dl>
     </div>
   );
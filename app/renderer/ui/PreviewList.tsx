@@ -7,6 +7,9 @@ interface PreviewListProps {
   previews: PreviewListItem[];
   currentPreview: PreviewState | null;
   onSelectPreview?: (photoId: number) => void;
+  // Multi-selection for batch edits; Ctrl/Cmd/Shift-click toggles an item instead of previewing it.
+  checkedIds?: ReadonlySet<number>;
+  onToggleChecked?: (photoId: number) => void;
 }
 
 const PREVIEW_GRID_COLUMNS = 4;
@@ -19,7 +22,13 @@ function toFileUrl(filePath: string): string {
   return `photoglobe://thumb?path=${encodeURIComponent(filePath)}`;
 }
 
-export function PreviewList({ previews, currentPreview, onSelectPreview }: PreviewListProps) {
+export function PreviewList({
+  previews,
+  currentPreview,
+  onSelectPreview,
+  checkedIds,
+  onToggleChecked,
+}: PreviewListProps) {
   const { t } = useTranslation();
   const listRef = useRef<HTMLDivElement | null>(null);
   const [scrollTop, setScrollTop] = useState(0);
@@ -122,12 +131,20 @@ export function PreviewList({ previews, currentPreview, onSelectPreview }: Previ
                 const src = item.thumbPath ? toFileUrl(item.thumbPath) : null;
                 const selected = currentPreview?.photoId === item.photoId;
                 const isSkeleton = item.stripStatus === 'skeleton' && !src;
+                const checked = checkedIds?.has(item.photoId) ?? false;
                 return (
                   <button
                     key={item.photoId}
                     type="button"
-                    className={`preview-list-item${selected ? ' is-selected' : ''}${isSkeleton ? ' is-skeleton' : ''}`}
-                    onClick={() => {
+                    className={`preview-list-item${selected ? ' is-selected' : ''}${checked ? ' is-checked' : ''}${
+                      isSkeleton ? ' is-skeleton' : ''
+                    }`}
+                    aria-pressed={onToggleChecked ? checked : undefined}
+                    onClick={(event) => {
+                      if (onToggleChecked && (event.ctrlKey || event.metaKey || event.shiftKey)) {
+                        onToggleChecked(item.photoId);
+                        return;
+                      }
                       if (onSelectPreview) onSelectPreview(item.photoId);
                     }}
                   >
@@ -1,6 +1,6 @@
 import { useTranslation } from 'react-i18next';
 
-import type { PreviewListItem, PreviewState } from '@renderer/domain/preview/previewModels';
+import type { MediaType, PreviewListItem, PreviewState } from '@renderer/domain/preview/previewModels';
 
 import { PreviewCard } from './PreviewCard';
 import { PreviewList } from './PreviewList';
@@ -11,6 +11,10 @@ interface PreviewPanelProps {
   isLoading?: boolean;
   onSelectPreview?: (photoId: number) => void;
   onOpenPreview?: (photoId: number) => void;
+  onSelectStackMember?: (photoId: number, mediaType: MediaType) => void;
+  checkedIds?: ReadonlySet<number>;
+  onToggleChecked?: (photoId: number) => void;
+  sourceRevision?: number;
 }
 
 export function PreviewPanel({
@@ -19,14 +23,30 @@ export function PreviewPanel({
   isLoading = false,
   onSelectPreview,
   onOpenPreview,
+  onSelectStackMember,
+  checkedIds,
+  onToggleChecked,
+  sourceRevision,
 }: PreviewPanelProps) {
   const { t } = useTranslation();
 
   return (
     <section className="panel">
       <h3>{t('preview.title')}</h3>
-      <PreviewCard preview={preview} isLoading={isLoading} onOpenPreview={onOpenPreview} />
-      <PreviewList previews={previews} currentPreview={preview} onSelectPreview={onSelectPreview} />
+      <PreviewCard
+        preview={preview}
+        isLoading={isLoading}
+        onOpenPreview={onOpenPreview}
+        onSelectStackMember={onSelectStackMember}
+        sourceRevision={sourceRevision}
+      />
+      <PreviewList
+        previews={previews}
+        currentPreview={preview}
+        onSelectPreview={onSelectPreview}
+        checkedIds={checkedIds}
+        onToggleChecked={onToggleChecked}
+      />
     </section>
   );
 }
@@ -1,18 +1,49 @@
 import { useTranslation } from 'react-i18next';
 
-import type { IndexStatus } from '@shared/types/ipc';
+import type {
+  IndexEnrichmentProgress,
+  IndexErrorGroup,
+  IndexPhaseTimings,
+  IndexQueueSnapshot,
+  IndexStatus,
+  IndexThroughput,
+} from '@shared/types/ipc';
 
 import type { IndexJobHistoryItem } from '@renderer/store/types';
 
 interface ProgressPanelProps {
   status: IndexStatus | null;
   history?: IndexJobHistoryItem[];
+  queue?: IndexQueueSnapshot;
   canCancel?: boolean;
   canRetry?: boolean;
+  canPause?: boolean;
   onCancel?: () => void;
   onRetry?: () => void;
+  onPause?: () => void;
+  onResume?: (jobId: string) => void;
+  onCancelJob?: (jobId: string) => void;
+  errorGroups?: IndexErrorGroup[];
+  onRetryFailed?: () => void;
+  onClearErrors?: (group: IndexErrorGroup) => void;
+  onOpenErrorFile?: (photoId: number) => void;
 }
 
+interface IndexQueueListProps {
+  queue: IndexQueueSnapshot;
+  onCancelJob?: (jobId: string) => void;
+}
+
+interface IndexErrorBrowserProps {
+  groups: IndexErrorGroup[];
+  canRetry: boolean;
+  onRetryFailed?: () => void;
+  onClearErrors?: (group: IndexErrorGroup) => void;
+  onOpenErrorFile?: (photoId: number) => void;
+}
+
+type Translate = ReturnType<typeof useTranslation>['t'];
+
 function formatTimestamp(value: number | null): string {
   if (!value) {
     return '-';
@@ -20,15 +51,173 @@ function formatTimestamp(value: number | null): string {
   return new Date(value).toLocaleString();
 }
 
+function formatBytes(value: number): string {
+  if (value < 1024) {
+    return `${value} B`;
+  }
+  if (value < 1024 * 1024) {
+    return `${(value / 1024).toFixed(1)} KB`;
+  }
+  if (value < 1024 * 1024 * 1024) {
+    return `${(value / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(value / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+function formatDuration(ms: number | null | undefined): string {
+  if (typeof ms !== 'number' || !Number.isFinite(ms)) {
+    return '-';
+  }
+  if (ms < 1_000) {
+    return `${Math.round(ms)}ms`;
+  }
+  const totalSeconds = Math.round(ms / 1_000);
+  if (totalSeconds < 60) {
+    return `${totalSeconds}s`;
+  }
+  const hours = Math.floor(totalSeconds / 3_600);
+  const minutes = Math.floor((totalSeconds % 3_600) / 60);
+  const seconds = totalSeconds % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${seconds}s`;
+}
+
+function formatThroughput(t: Translate, throughput: IndexThroughput | null): string {
+  if (!throughput) {
+    return '-';
+  }
+  const filesPerSec = t('progress.filesPerSec', { value: throughput.filesPerSec.toFixed(1) });
+  return `${filesPerSec} / ${formatBytes(throughput.bytesPerSec)}/s`;
+}
+
+function formatPhaseTimings(t: Translate, timings: IndexPhaseTimings): string {
+  return [
+    `${t('progress.timing.scan')} ${formatDuration(timings.scanMs)}`,
+    `${t('progress.timing.extract')} ${formatDuration(timings.extractMs)}`,
+    `${t('progress.timing.save')} ${formatDuration(timings.saveMs)}`,
+    `${t('progress.timing.enrich')} ${formatDuration(timings.enrichMs)}`,
+  ].join(' / ');
+}
+
+function formatEnrichment(t: Translate, enrichment: IndexEnrichmentProgress | null): string {
+  if (!enrichment) {
+    return '-';
+  }
+  return `${t(`progress.enrichState.${enrichment.state}`)} ${enrichment.processed}/${enrichment.total}`;
+}
+
+function IndexQueueList({ queue, onCancelJob }: IndexQueueListProps) {
+  const { t } = useTranslation();
+  const items = [...queue.running, ...queue.queued];
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="progress-history-block">
+      <h4>{t('progress.queue')}</h4>
+      <ul className="progress-history-list">
+        {items.map((item) => (
+          <li key={item.jobId} className={item.phase === 'queued' ? 'progress-queue-waiting' : undefined}>
+            <p className="progress-history-phase">
+              {item.phase} ({item.percent}%)
+            </p>
+            <p className="progress-history-root">{item.rootPath}</p>
+            <p className="progress-history-meta">
+              {t(`progress.mode.${item.mode}`)} / {t(`progress.priority.${item.priority}`)}
+            </p>
+            <button type="button" className="progress-history-resume" onClick={() => onCancelJob?.(item.jobId)}>
+              {t('progress.cancel')}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function IndexErrorBrowser({ groups, canRetry, onRetryFailed, onClearErrors, onOpenErrorFile }: IndexErrorBrowserProps) {
+  const { t } = useTranslation();
+
+  if (groups.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="progress-history-block">
+      <div className="root-library-header">
+        <h4>{t('progress.errors')}</h4>
+        <button type="button" onClick={onRetryFailed} disabled={!canRetry}>
+          {t('progress.retryFailed')}
+        </button>
+      </div>
+      <ul className="progress-error-list">
+        {groups.map((group) => (
+          <li key={`${group.rootId}:${group.message}`} className="progress-error-group">
+            <p className="progress-error-message">{group.message}</p>
+            <p className="progress-history-root">{group.rootPath}</p>
+            <details>
+              <summary className="progress-history-meta">
+                {t('progress.errorFiles', { count: group.count })}
+              </summary>
+              <ul className="duplicates-member-list">
+                {group.files.map((file) => (
+                  <li key={file.photoId}>
+                    <button
+                      type="button"
+                      className="duplicates-member"
+                      title={t('duplicates.open')}
+                      onClick={() => onOpenErrorFile?.(file.photoId)}
+                    >
+                      {file.path}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {group.count > group.files.length ? (
+                <p className="progress-history-meta">
+                  {t('progress.errorFilesMore', { count: group.count - group.files.length })}
+                </p>
+              ) : null}
+            </details>
+            <button type="button" className="progress-error-clear" onClick={() => onClearErrors?.(group)}>
+              {t('progress.clearErrors')}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 export function ProgressPanel({
   status,
   history = [],
+  queue,
   canCancel = false,
   canRetry = false,
+  canPause = false,
   onCancel,
   onRetry,
+  onPause,
+  onResume,
+  onCancelJob,
+  errorGroups = [],
+  onRetryFailed,
+  onClearErrors,
+  onOpenErrorFile,
 }: ProgressPanelProps) {
   const { t } = useTranslation();
+  const queueList = queue ? <IndexQueueList queue={queue} onCancelJob={onCancelJob} /> : null;
+  const errorBrowser = (
+    <IndexErrorBrowser
+      groups={errorGroups}
+      canRetry={canRetry}
+      onRetryFailed={onRetryFailed}
+      onClearErrors={onClearErrors}
+      onOpenErrorFile={onOpenErrorFile}
+    />
+  );
 
   if (!status) {
     return (
@@ -39,6 +228,7 @@ export function ProgressPanel({
           <button type="button" onClick={onCancel} disabled={!canCancel}>{t('progress.cancel')}</button>
           <button type="button" onClick={onRetry} disabled={!canRetry}>{t('progress.retry')}</button>
         </div>
+        {queueList}
         {history.length > 0 ? (
           <div className="progress-history-block">
             <h4>{t('progress.recentJobs')}</h4>
@@ -46,15 +236,23 @@ export function ProgressPanel({
               {history.map((item) => (
                 <li key={item.jobId}>
                   <strong>{item.phase}</strong> ({item.percent}%)
+                  {item.phase === 'paused' ? (
+                    <button type="button" className="progress-history-resume" onClick={() => onResume?.(item.jobId)}>
+                      {t('progress.resume')}
+                    </button>
+                  ) : null}
                 </li>
               ))}
             </ul>
           </div>
         ) : null}
+        {errorBrowser}
       </section>
     );
   }
 
+  const isPaused = status.phase === 'paused';
+
   return (
     <section className="panel">
       <h3>{t('progress.title')}</h3>
@@ -63,6 +261,11 @@ export function ProgressPanel({
       </div>
       <div className="progress-action-row">
         <button type="button" onClick={onCancel} disabled={!canCancel}>{t('progress.cancel')}</button>
+        {isPaused ? (
+          <button type="button" onClick={() => onResume?.(status.jobId)}>{t('progress.resume')}</button>
+        ) : (
+          <button type="button" onClick={onPause} disabled={!canPause}>{t('progress.pause')}</button>
+        )}
         <button type="button" onClick={onRetry} disabled={!canRetry}>{t('progress.retry')}</button>
       </div>
       <dl className="kv-grid">
@@ -78,9 +281,25 @@ export function ProgressPanel({
         <dd>{status.indexed}</dd>
         <dt>{t('progress.skipped')}</dt>
         <dd>{status.skipped}</dd>
+        <dt>{t('progress.relocated')}</dt>
+        <dd>{status.relocated}</dd>
         <dt>{t('progress.errored')}</dt>
         <dd>{status.errored}</dd>
+        <dt>{t('progress.throughput')}</dt>
+        <dd>{formatThroughput(t, status.throughput)}</dd>
+        <dt>{t('progress.eta')}</dt>
+        <dd>{formatDuration(status.throughput?.etaMs)}</dd>
+        <dt>{t('progress.enrichment')}</dt>
+        <dd>
+          {formatEnrichment(t, status.enrichment)}
+          {status.enrichment?.state === 'running'
+            ? ` (${t('progress.eta')} ${formatDuration(status.enrichment.throughput?.etaMs)})`
+            : null}
+        </dd>
+        <dt>{t('progress.phaseTimings')}</dt>
+        <dd>{formatPhaseTimings(t, status.phaseTimings)}</dd>
       </dl>
+      {queueList}
       {history.length > 0 ? (
         <div className="progress-history-block">
           <h4>{t('progress.recentJobs')}</h4>
@@ -95,14 +314,29 @@ export function ProgressPanel({
                   {t('progress.indexed')}: {item.indexed} / {t('progress.skipped')}: {item.skipped} / {t('progress.errored')}:{' '}
                   {item.errored}
                 </p>
+                <p className="progress-history-meta">
+                  {t('progress.throughput')}: {formatThroughput(t, item.throughput)}
+                </p>
+                <p className="progress-history-meta">{formatPhaseTimings(t, item.phaseTimings)}</p>
+                {item.enrichment ? (
+                  <p className="progress-history-meta">
+                    {t('progress.enrichment')}: {formatEnrichment(t, item.enrichment)}
+                  </p>
+                ) : null}
                 <p className="progress-history-meta">
                   {t('progress.finishedAt')}: {formatTimestamp(item.finishedAtMs)}
                 </p>
+                {item.phase === 'paused' && item.jobId !== status.jobId ? (
+                  <button type="button" className="progress-history-resume" onClick={() => onResume?.(item.jobId)}>
+                    {t('progress.resume')}
+                  </button>
+                ) : null}
               </li>
             ))}
           </ul>
         </div>
       ) : null}
+      {errorBrowser}
     </section>
   );
 }
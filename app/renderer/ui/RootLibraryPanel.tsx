@@ -1,16 +1,38 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 
-import type { RootListItem } from '@shared/types/ipc';
+import type { MissingRootItem, RootListItem } from '@shared/types/ipc';
 
 interface RootLibraryPanelProps {
   roots: RootListItem[];
   activeRootIds: number[];
+  ignorePatterns: Record<string, string[]>;
   onAddRoot: () => void;
   onToggleActive: (rootId: number, active: boolean) => void;
   onRemoveRoot: (rootId: number) => void;
+  onSaveIgnorePatterns: (rootPath: string, patterns: string[]) => void;
+  missingRoots: MissingRootItem[];
+  relocatingRootId: number | null;
+  relocationError: string | null;
+  onRelocate: (rootId: number, path: string) => void;
+  onPickRelocation: (rootId: number) => void;
 }
 
+interface RootIgnoreRulesProps {
+  root: RootListItem;
+  patterns: string[];
+  onSave: (rootPath: string, patterns: string[]) => void;
+}
+
+interface RootRelocationProps {
+  missing: MissingRootItem | undefined;
+  busy: boolean;
+  onRelocate: (rootId: number, path: string) => void;
+  onPick: (rootId: number) => void;
+}
+
+const EMPTY_PATTERNS: string[] = [];
+
 function formatTimestamp(value: number | null): string {
   if (!value) {
     return '-';
@@ -18,16 +40,110 @@ function formatTimestamp(value: number | null): string {
   return new Date(value).toLocaleString();
 }
 
+function RootIgnoreRules({ root, patterns, onSave }: RootIgnoreRulesProps) {
+  const { t } = useTranslation();
+  const savedText = useMemo(() => patterns.join('\n'), [patterns]);
+  const [draft, setDraft] = useState(savedText);
+
+  useEffect(() => {
+    setDraft(savedText);
+  }, [savedText]);
+
+  const handleSave = () => {
+    const lines = draft
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+    onSave(root.path, lines);
+  };
+
+  return (
+    <details className="root-ignore">
+      <summary>{t('roots.ignoreTitle')}</summary>
+      <textarea
+        className="root-ignore-input"
+        rows={4}
+        value={draft}
+        placeholder={'@eaDir/\n.thumbnails/\n*.lrprev'}
+        onChange={(event) => setDraft(event.target.value)}
+      />
+      <button type="button" onClick={handleSave} disabled={draft === savedText}>
+        {t('roots.ignoreSave')}
+      </button>
+      <p className="status-text">{t('roots.ignoreHint')}</p>
+      {root.ignoreRuleStats.length === 0 ? (
+        <p className="root-library-meta">{t('roots.ignoreStatsEmpty')}</p>
+      ) : (
+        <ul className="root-ignore-stats">
+          {root.ignoreRuleStats.map((stat) => (
+            <li key={`${stat.source}:${stat.pattern}`}>
+              <code>{stat.pattern}</code>
+              <span className="root-ignore-source">
+                {stat.source === 'settings' ? t('roots.ignoreSourceSettings') : stat.source}
+              </span>
+              <span className="root-ignore-count">
+                {t('roots.ignoreExcluded', { count: stat.excludedCount })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
+
+// Shown for a root whose folder is gone, e.g. a drive that came back under another letter.
+function RootRelocation({ missing, busy, onRelocate, onPick }: RootRelocationProps) {
+  const { t } = useTranslation();
+  if (!missing) {
+    return null;
+  }
+
+  return (
+    <div className="root-relocation">
+      <p className="status-text status-text-error">{t('roots.missing')}</p>
+      {missing.candidates.length > 0 ? (
+        <ul className="root-relocation-list">
+          {missing.candidates.map((candidate) => (
+            <li key={candidate.path} className="root-relocation-candidate">
+              <div className="root-relocation-meta">
+                <strong>{candidate.path}</strong>
+                <span>{t('roots.relocateMatched', { matched: candidate.matched, sampled: candidate.sampled })}</span>
+              </div>
+              <button type="button" onClick={() => onRelocate(missing.rootId, candidate.path)} disabled={busy}>
+                {t('roots.relocateHere')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="root-library-meta">{t('roots.relocateNoCandidates')}</p>
+      )}
+      <button type="button" onClick={() => onPick(missing.rootId)} disabled={busy}>
+        {busy ? t('roots.relocating') : t('roots.relocatePick')}
+      </button>
+    </div>
+  );
+}
+
 export function RootLibraryPanel({
   roots,
   activeRootIds,
+  ignorePatterns,
   onAddRoot,
   onToggleActive,
   onRemoveRoot,
+  onSaveIgnorePatterns,
+  missingRoots,
+  relocatingRootId,
+  relocationError,
+  onRelocate,
+  onPickRelocation,
 }: RootLibraryPanelProps) {
   const { t } = useTranslation();
   const sortedRoots = useMemo(() => [...roots].sort((a, b) => b.updatedAtMs - a.updatedAtMs), [roots]);
   const activeSet = useMemo(() => new Set(activeRootIds), [activeRootIds]);
+  const missingById = useMemo(() => new Map(missingRoots.map((item) => [item.rootId, item])), [missingRoots]);
 
   return (
     <section className="panel">
@@ -53,6 +169,17 @@ export function RootLibraryPanel({
               <p className="root-library-meta">
                 {t('roots.lastScan')}: {formatTimestamp(root.lastScanAtMs)}
               </p>
+              <RootRelocation
+                missing={missingById.get(root.id)}
+                busy={relocatingRootId !== null}
+                onRelocate={onRelocate}
+                onPick={onPickRelocation}
+              />
+              <RootIgnoreRules
+                root={root}
+                patterns={ignorePatterns[root.path] ?? EMPTY_PATTERNS}
+                onSave={onSaveIgnorePatterns}
+              />
               <button
                 type="button"
                 className="root-remove-btn"
@@ -64,6 +191,7 @@ export function RootLibraryPanel({
           ))}
         </ul>
       )}
+      {relocationError ? <p className="status-text status-text-error">{relocationError}</p> : null}
       <p className="status-text">{t('roots.removeHint')}</p>
     </section>
   );
@@ -0,0 +1,153 @@
+import { useTranslation } from 'react-i18next';
+
+import type { SimilarGroupItem, SimilarMemberItem } from '@shared/types/ipc';
+
+import type { SimilarLookup } from '@renderer/application/usecases/useSimilarPhotosUseCase';
+import { SIMILAR_DISTANCE_OPTIONS } from '@renderer/application/usecases/useSimilarPhotosUseCase';
+
+interface SimilarPhotosPanelProps {
+  groups: SimilarGroupItem[];
+  hashedCount: number;
+  pendingCount: number;
+  maxDistance: number;
+  lookup: SimilarLookup | null;
+  thumbPaths: Record<number, string>;
+  currentPhotoId: number | null;
+  loading: boolean;
+  hashing: boolean;
+  errorMessage: string | null;
+  onMaxDistanceChange: (value: number) => void;
+  onRefresh: () => void;
+  onStartHashing: () => void;
+  onStopHashing: () => void;
+  onFindSimilar: (photoId: number) => void;
+  onClearLookup: () => void;
+  onOpenPhoto: (photoId: number) => void;
+}
+
+function toFileUrl(filePath: string): string {
+  return `photoglobe://thumb?path=${encodeURIComponent(filePath)}`;
+}
+
+function fileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() ?? filePath;
+}
+
+export function SimilarPhotosPanel({
+  groups,
+  hashedCount,
+  pendingCount,
+  maxDistance,
+  lookup,
+  thumbPaths,
+  currentPhotoId,
+  loading,
+  hashing,
+  errorMessage,
+  onMaxDistanceChange,
+  onRefresh,
+  onStartHashing,
+  onStopHashing,
+  onFindSimilar,
+  onClearLookup,
+  onOpenPhoto,
+}: SimilarPhotosPanelProps) {
+  const { t } = useTranslation();
+
+  const renderMembers = (members: SimilarMemberItem[]) => (
+    <ul className="similar-member-list">
+      {members.map((member) => {
+        const thumbPath = thumbPaths[member.photoId];
+        return (
+          <li key={member.photoId}>
+            <button
+              type="button"
+              className="similar-member"
+              title={member.path}
+              onClick={() => onOpenPhoto(member.photoId)}
+            >
+              {thumbPath ? (
+                <img src={toFileUrl(thumbPath)} alt="" loading="lazy" decoding="async" />
+              ) : (
+                <span className="similar-member-placeholder" />
+              )}
+              <span className="similar-member-name">{fileName(member.path)}</span>
+              <span className="similar-member-distance">{t('similar.distance', { distance: member.distance })}</span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <section className="panel similar-panel">
+      <div className="root-library-header">
+        <h3>{t('similar.title')}</h3>
+        <button type="button" onClick={onRefresh} disabled={loading || hashing}>
+          {t('similar.refresh')}
+        </button>
+      </div>
+      <p className="status-text">
+        {t('similar.hashStatus', { hashed: hashedCount.toLocaleString(), pending: pendingCount.toLocaleString() })}
+      </p>
+      <label className="similar-strictness">
+        <span>{t('similar.strictness')}</span>
+        <select
+          value={maxDistance}
+          disabled={loading || hashing}
+          onChange={(event) => onMaxDistanceChange(Number(event.target.value))}
+        >
+          {SIMILAR_DISTANCE_OPTIONS.map((value) => (
+            <option key={value} value={value}>
+              {t(`similar.strictness${value}`)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="action-buttons-grid">
+        {hashing ? (
+          <button type="button" onClick={onStopHashing}>
+            {t('similar.stopHashing')}
+          </button>
+        ) : (
+          <button type="button" onClick={onStartHashing} disabled={loading || pendingCount === 0}>
+            {t('similar.startHashing')}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => currentPhotoId !== null && onFindSimilar(currentPhotoId)}
+          disabled={currentPhotoId === null || hashing}
+        >
+          {t('similar.findForCurrent')}
+        </button>
+      </div>
+      {hashing ? <p className="status-text">{t('similar.hashing')}</p> : null}
+      {errorMessage ? <p className="status-text status-text-error">{errorMessage}</p> : null}
+      {lookup ? (
+        <div className="similar-lookup">
+          <div className="root-library-header">
+            <p className="similar-group-meta">{t('similar.lookupTitle', { count: lookup.members.length })}</p>
+            <button type="button" onClick={onClearLookup}>
+              {t('similar.clearLookup')}
+            </button>
+          </div>
+          {lookup.members.length > 0 ? renderMembers(lookup.members) : null}
+        </div>
+      ) : null}
+      {loading ? <p className="status-text">{t('similar.loading')}</p> : null}
+      {!loading && !hashing && groups.length === 0 ? <p className="status-text">{t('similar.empty')}</p> : null}
+      {groups.length > 0 ? (
+        <ul className="similar-list">
+          {groups.map((group) => (
+            <li key={group.groupId} className="similar-group">
+              <p className="similar-group-meta">{t('similar.groupMeta', { count: group.count })}</p>
+              {renderMembers(group.members)}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import type { ThumbnailCacheStats } from '@shared/types/ipc';
+import { THUMBNAIL_CACHE_CLASSES, type ThumbnailCacheClass, type ThumbnailCacheSettings } from '@shared/types/settings';
+
+interface ThumbnailCachePanelProps {
+  settings: ThumbnailCacheSettings;
+  stats: ThumbnailCacheStats | null;
+  errorMessage: string | null;
+  onSaveSettings: (next: ThumbnailCacheSettings) => void;
+  onRefresh: () => void;
+}
+
+function formatBytes(value: number): string {
+  if (value < 1024) {
+    return `${value} B`;
+  }
+  if (value < 1024 * 1024) {
+    return `${(value / 1024).toFixed(1)} KB`;
+  }
+  if (value < 1024 * 1024 * 1024) {
+    return `${(value / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(value / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+function toDrafts(budgetsMb: Record<ThumbnailCacheClass, number>): Record<ThumbnailCacheClass, string> {
+  return Object.fromEntries(
+    THUMBNAIL_CACHE_CLASSES.map((cacheClass) => [cacheClass, String(budgetsMb[cacheClass])]),
+  ) as Record<ThumbnailCacheClass, string>;
+}
+
+export function ThumbnailCachePanel({
+  settings,
+  stats,
+  errorMessage,
+  onSaveSettings,
+  onRefresh,
+}: ThumbnailCachePanelProps) {
+  const { t } = useTranslation();
+  const [drafts, setDrafts] = useState(() => toDrafts(settings.budgetsMb));
+
+  useEffect(() => {
+    setDrafts(toDrafts(settings.budgetsMb));
+  }, [settings.budgetsMb]);
+
+  const commitBudget = (cacheClass: ThumbnailCacheClass) => {
+    const parsed = Number(drafts[cacheClass].trim());
+    const nextMb = Number.isFinite(parsed) ? Math.max(0, Math.trunc(parsed)) : settings.budgetsMb[cacheClass];
+    if (nextMb === settings.budgetsMb[cacheClass]) {
+      setDrafts(toDrafts(settings.budgetsMb));
+      return;
+    }
+    onSaveSettings({ budgetsMb: { ...settings.budgetsMb, [cacheClass]: nextMb } });
+  };
+
+  const usageByClass = new Map(stats?.classes.map((item) => [item.cacheClass, item]) ?? []);
+
+  return (
+    <section className="panel thumbnail-cache-panel">
+      <div className="root-library-header">
+        <h3>{t('thumbnailCache.title')}</h3>
+        <button type="button" onClick={onRefresh}>
+          {t('thumbnailCache.refresh')}
+        </button>
+      </div>
+      <p className="status-text">{t('thumbnailCache.subtitle')}</p>
+      <ul className="thumbnail-cache-list">
+        {THUMBNAIL_CACHE_CLASSES.map((cacheClass) => {
+          const usage = usageByClass.get(cacheClass);
+          return (
+            <li key={cacheClass} className="thumbnail-cache-row">
+              <div className="thumbnail-cache-usage">
+                <strong>
+                  {cacheClass === 'hover'
+                    ? t('thumbnailCache.classHover')
+                    : t('thumbnailCache.classSize', { size: cacheClass })}
+                </strong>
+                <span>
+                  {t('thumbnailCache.usage', {
+                    used: formatBytes(usage?.usedBytes ?? 0),
+                    count: usage?.fileCount ?? 0,
+                  })}
+                </span>
+              </div>
+              <label>
+                {t('thumbnailCache.budgetMb')}
+                <input
+                  type="number"
+                  min={0}
+                  step={64}
+                  value={drafts[cacheClass]}
+                  onChange={(event) => setDrafts((prev) => ({ ...prev, [cacheClass]: event.target.value }))}
+                  onBlur={() => commitBudget(cacheClass)}
+                />
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+      <p className="status-text">{t('thumbnailCache.budgetHint')}</p>
+      {stats ? (
+        <p className="status-text">
+          {t('thumbnailCache.total', { size: formatBytes(stats.totalBytes) })}
+          {stats.evictedFiles > 0
+            ? ` · ${t('thumbnailCache.evicted', {
+                count: stats.evictedFiles,
+                size: formatBytes(stats.evictedBytes),
+              })}`
+            : ''}
+        </p>
+      ) : null}
+      {stats?.scanning ? <p className="status-text">{t('thumbnailCache.scanning')}</p> : null}
+      {errorMessage ? <p className="status-text status-text-error">{errorMessage}</p> : null}
+    </section>
+  );
+}
@@ -7,7 +7,7 @@ const DAY_MS = 86_400_000;
 
 function startOfDay(ms: number): number {
   const date = new Date(ms);
-  date.setHours(0, 0, 0, 0);
+  date.setUTCHours(0, 0, 0, 0);
   return date.getTime();
 }
 
@@ -71,7 +71,7 @@ export function TimelineBar({
       return [];
     }
     return tripSegments.map((trip) => {
-      const tripDayMs = startOfDay(trip.startAtMs);
+      const tripDayMs = startOfDay(trip.startLocalMs);
       const index = Math.max(
         0,
         Math.min(
@@ -203,7 +203,7 @@ export function TimelineBar({
         <div className="timeline-trip-card">
           <p className="timeline-trip-card-title">{t('timeline.activeTrip')}</p>
           <p className="timeline-trip-card-meta">
-            {formatDate(currentTrip.startAtMs)} ~ {formatDate(currentTrip.endAtMs)}
+            {formatDate(currentTrip.startLocalMs)} ~ {formatDate(currentTrip.endLocalMs)}
           </p>
           <p className="timeline-trip-card-meta">
             {t('timeline.tripStats', {
@@ -1,7 +1,7 @@
 import { useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 
-import type { TripSegment } from '@shared/types/ipc';
+import type { TripPlace, TripSegment } from '@shared/types/ipc';
 
 interface TripCardsPanelProps {
   visible: boolean;
@@ -11,8 +11,14 @@ interface TripCardsPanelProps {
   onOpenRepresentative: (trip: TripSegment) => void;
 }
 
-function formatDateTime(ms: number): string {
-  return new Date(ms).toLocaleString();
+function formatDateTime(localMs: number): string {
+  return new Date(localMs).toLocaleString(undefined, { timeZone: 'UTC' });
+}
+
+// "Kyoto, Osaka · Japan"; cities first, then every country they fall in.
+function formatPlaces(places: TripPlace[]): string {
+  const countries = Array.from(new Set(places.map((place) => place.countryName)));
+  return `${places.map((place) => place.cityName).join(', ')} · ${countries.join(', ')}`;
 }
 
 export function TripCardsPanel({
@@ -50,7 +56,12 @@ export function TripCardsPanel({
               }
             }}
           >
-            <p className="trip-card-title">{formatDateTime(trip.startAtMs)}</p>
+            <p className="trip-card-title">{formatDateTime(trip.startLocalMs)}</p>
+            {trip.places.length > 0 ? (
+              <p className="trip-card-meta trip-card-places" title={formatPlaces(trip.places)}>
+                {formatPlaces(trip.places)}
+              </p>
+            ) : null}
             <p className="trip-card-meta">
               {t('tripCards.stats', {
                 points: trip.pointCount,
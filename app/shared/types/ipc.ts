@@ -1,8 +1,25 @@
 import type { ClusterItem, PointNode } from './cluster';
-import type { PointItem } from './photo';
-import type { AppSettings, Filters } from './settings';
+import type { CameraClockOffset, LocationOverride, PhotoMetadataSources, PointItem } from './photo';
+import type { AppSettings, Filters, ThumbnailCacheClass } from './settings';
 
-export type IndexPhase = 'idle' | 'scanning' | 'extracting' | 'saving' | 'complete' | 'cancelled' | 'error';
+export type IndexPhase =
+  | 'idle'
+  | 'queued'
+  | 'scanning'
+  | 'extracting'
+  | 'saving'
+  | 'paused'
+  | 'complete'
+  | 'cancelled'
+  | 'error';
+
+// `failedOnly` re-extracts just the rows that recorded an error, without walking the root.
+export type IndexJobMode = 'full' | 'failedOnly';
+
+export type IndexJobRunMode = IndexJobMode | 'delta';
+
+// Dispatch order when jobs compete for a slot: user requests, then watcher deltas, then startup first-scans.
+export type IndexJobPriority = 'user' | 'watcher' | 'startup';
 
 export interface IndexProgress {
   jobId: string;
@@ -12,31 +29,120 @@ export interface IndexProgress {
   processed: number;
   indexed: number;
   skipped: number;
+  relocated: number;
   errored: number;
   percent: number;
   message?: string;
 }
 
+export interface IndexThroughput {
+  filesPerSec: number;
+  bytesPerSec: number;
+  // Null while nothing finished inside the rolling window, which is also what a stall looks like.
+  etaMs: number | null;
+}
+
+// Wall-clock time spent in each phase, summed across pause/resume.
+export interface IndexPhaseTimings {
+  scanMs: number;
+  extractMs: number;
+  saveMs: number;
+  enrichMs: number;
+}
+
+export const EMPTY_INDEX_PHASE_TIMINGS: IndexPhaseTimings = {
+  scanMs: 0,
+  extractMs: 0,
+  saveMs: 0,
+  enrichMs: 0,
+};
+
+// Enrichment runs after the job itself is complete, so it reports separately from `phase`.
+export interface IndexEnrichmentProgress {
+  state: 'running' | 'complete' | 'cancelled' | 'error';
+  processed: number;
+  total: number;
+  throughput: IndexThroughput | null;
+}
+
 export interface IndexStatus extends IndexProgress {
   rootPath: string;
+  mode: IndexJobRunMode;
+  priority: IndexJobPriority;
+  bytesProcessed: number;
+  // Rolling rate while extracting; the run's average once the job stops.
+  throughput: IndexThroughput | null;
+  phaseTimings: IndexPhaseTimings;
+  enrichment: IndexEnrichmentProgress | null;
   startedAtMs: number;
   finishedAtMs: number | null;
 }
 
+export interface IndexQueueSnapshot {
+  // In dispatch order.
+  queued: IndexStatus[];
+  running: IndexStatus[];
+  finished: IndexStatus[];
+}
+
+export interface IndexErrorFileItem {
+  photoId: number;
+  path: string;
+  lastIndexedAtMs: number;
+}
+
+export interface IndexErrorGroup {
+  rootId: number;
+  rootPath: string;
+  message: string;
+  count: number;
+  files: IndexErrorFileItem[];
+}
+
+export interface RootIgnoreRuleStat {
+  source: string;
+  pattern: string;
+  excludedCount: number;
+}
+
 export interface RootListItem {
   id: number;
   path: string;
   lastScanAtMs: number | null;
   updatedAtMs: number;
+  ignoreRuleStats: RootIgnoreRuleStat[];
+}
+
+// A folder that holds the same files as a root that is no longer found at its saved path.
+export interface RootRelocationCandidate {
+  path: string;
+  sampled: number;
+  matched: number;
+}
+
+export interface MissingRootItem {
+  rootId: number;
+  path: string;
+  candidates: RootRelocationCandidate[];
+}
+
+export interface RootRelocationResult {
+  rootId: number;
+  fromPath: string;
+  toPath: string;
+  relocatedCount: number;
+  settings: AppSettings;
 }
 
 export interface GetClustersPayload {
+  // [west, south, east, north]; west > east when the view crosses the antimeridian.
   bbox: [number, number, number, number];
   zoom: number;
   filters: Filters;
 }
 
 export interface GetPointsPayload {
+  // [west, south, east, north]; west > east when the view crosses the antimeridian.
   bbox: [number, number, number, number];
   limit: number;
   offset: number;
@@ -49,10 +155,27 @@ export interface GetClusterMembersPayload {
   filters: Filters;
 }
 
+export interface StackMemberItem {
+  photoId: number;
+  path: string;
+  mediaType: 'photo' | 'video';
+  isPrimary: boolean;
+}
+
 export interface MediaSourceInfo {
   path: string;
   mediaType: 'photo' | 'video';
   mime: string | null;
+  // Which of the embedded tags, an XMP sidecar or a Takeout JSON sidecar supplied each field.
+  metadataSources: PhotoMetadataSources;
+  // Live Photo / RAW+JPEG siblings including this photo; empty when it is not stacked.
+  stackMembers: StackMemberItem[];
+  // Set when a track match or manual edit replaces the file's own position.
+  locationOverride: LocationOverride | null;
+  // Camera clock correction added to the capture time; 0 when no rule applies.
+  clockOffsetMs: number;
+  // Nearest catalog city; null without a position, a catalog or a city close enough.
+  place: PlaceLabel | null;
 }
 
 export interface OpenSourceResult {
@@ -98,11 +221,62 @@ export interface DateMediaCountItem {
   totalCount: number;
 }
 
+export interface DuplicateMemberItem {
+  photoId: number;
+  rootId: number;
+  path: string;
+  mediaType: 'photo' | 'video';
+  mtimeMs: number;
+}
+
+export interface DuplicateGroupItem {
+  contentHash: string;
+  sizeBytes: number;
+  count: number;
+  reclaimableBytes: number;
+  members: DuplicateMemberItem[];
+}
+
+export interface SimilarMemberItem {
+  photoId: number;
+  rootId: number;
+  path: string;
+  mediaType: 'photo' | 'video';
+  takenAtMs: number | null;
+  sizeBytes: number;
+  width: number | null;
+  height: number | null;
+  // Differing hash bits (0-64) from the photo searched for, or from the first member of its group.
+  distance: number;
+}
+
+export interface SimilarGroupItem {
+  // Lowest photo id in the group; stable while the group's members do not change.
+  groupId: number;
+  count: number;
+  members: SimilarMemberItem[];
+}
+
+export interface SimilarGroupsResult {
+  groups: SimilarGroupItem[];
+  hashedCount: number;
+  // Photos that have no perceptual hash yet and cannot show up in any group.
+  pendingCount: number;
+}
+
+export interface PerceptualHashProgress {
+  hashed: number;
+  failed: number;
+  pending: number;
+}
+
 export interface TripPoint {
   photoId: number;
   lat: number;
   lng: number;
   takenAtMs: number;
+  // Capture wall-clock time encoded as UTC; date labels and timeline positions use this.
+  takenAtLocalMs: number;
   mediaType: 'photo' | 'video';
 }
 
@@ -111,10 +285,292 @@ export interface TripSegment {
   colorIndex: number;
   startAtMs: number;
   endAtMs: number;
+  startLocalMs: number;
+  endLocalMs: number;
   distanceKm: number;
   durationMs: number;
   pointCount: number;
   points: TripPoint[];
+  // Most photographed places of the trip, busiest first.
+  places: TripPlace[];
+}
+
+/** A catalog city with its country, as resolved for a photo's position. */
+export interface PlaceLabel {
+  cityId: string;
+  cityName: string;
+  countryCode: string;
+  countryName: string;
+}
+
+export interface TripPlace extends PlaceLabel {
+  photoCount: number;
+}
+
+export interface PlaceCityCount {
+  cityId: string;
+  name: string;
+  photoCount: number;
+}
+
+export interface PlaceCountryCount {
+  countryCode: string;
+  countryName: string;
+  photoCount: number;
+  // Busiest first.
+  cities: PlaceCityCount[];
+}
+
+export interface PlacesSummary {
+  countries: PlaceCountryCount[];
+  // Geotagged photos not looked up yet, e.g. while the catalog is missing or still downloading.
+  pendingCount: number;
+  catalogReady: boolean;
+}
+
+/** Live result counts for the search box under the current filters. */
+export interface SearchCount {
+  total: number;
+  geotagged: number;
+}
+
+export type MaintenanceTrigger = 'manual' | 'scheduled';
+
+export interface MaintenanceReport {
+  trigger: MaintenanceTrigger;
+  startedAtMs: number;
+  finishedAtMs: number;
+  // Soft-deleted rows older than this many days were purged.
+  tombstoneRetentionDays: number;
+  purgedRows: number;
+  // Search documents left behind by photos removed some other way, e.g. with their root.
+  prunedSearchRows: number;
+  deletedCacheFiles: number;
+  reclaimedBytes: number;
+  // Cache files that could not be read or deleted; they are retried next run.
+  failedCacheFiles: number;
+}
+
+export interface MaintenanceStatus {
+  running: boolean;
+  lastReport: MaintenanceReport | null;
+  nextRunAtMs: number | null;
+}
+
+export type DatabaseCheckMode = 'quick' | 'full';
+
+export interface DatabaseIntegrityResult {
+  mode: DatabaseCheckMode;
+  ok: boolean;
+  // Problems SQLite reported, capped at the first hundred.
+  messages: string[];
+  checkedAtMs: number;
+  durationMs: number;
+}
+
+export type DatabaseBackupKind = 'regular' | 'pre-restore';
+
+export interface DatabaseBackupItem {
+  name: string;
+  kind: DatabaseBackupKind;
+  createdAtMs: number;
+  sizeBytes: number;
+}
+
+/** What happened to the database file at startup, when it was not simply opened. */
+export interface DatabaseRecoveryInfo {
+  reason: 'corrupt' | 'restore';
+  atMs: number;
+  // Why the database could not be used, for `corrupt`.
+  message: string | null;
+  // Backup the database was replaced with; null when no usable backup existed and it started empty.
+  restoredFrom: string | null;
+  // Where the unusable files were moved, for `corrupt`.
+  movedToPath: string | null;
+}
+
+export interface DatabaseStatus {
+  dbPath: string;
+  sizeBytes: number;
+  backups: DatabaseBackupItem[];
+  backingUp: boolean;
+  lastBackupAtMs: number | null;
+  nextBackupAtMs: number | null;
+  lastBackupError: string | null;
+  lastCheck: DatabaseIntegrityResult | null;
+  recovery: DatabaseRecoveryInfo | null;
+}
+
+export interface ThumbnailCacheClassStats {
+  cacheClass: ThumbnailCacheClass;
+  fileCount: number;
+  usedBytes: number;
+  // Null when the class has no budget.
+  budgetBytes: number | null;
+}
+
+export interface ThumbnailCacheStats {
+  classes: ThumbnailCacheClassStats[];
+  totalBytes: number;
+  // Evictions since the app started.
+  evictedFiles: number;
+  evictedBytes: number;
+  lastEvictionAtMs: number | null;
+  // True while cached files not tracked yet (e.g. from before the budget existed) are being counted.
+  scanning: boolean;
+}
+
+export interface CameraModelSummary {
+  cameraModel: string;
+  count: number;
+  // Uncorrected capture wall-clock range of this model's files.
+  minLocalMs: number | null;
+  maxLocalMs: number | null;
+}
+
+export interface ClockOffsetDraft {
+  // Set when editing an existing rule.
+  id?: number;
+  cameraModel: string;
+  offsetMs: number;
+  rootId?: number | null;
+  fromLocalMs?: number | null;
+  toLocalMs?: number | null;
+}
+
+export interface ClockOffsetPreviewOptions {
+  draft: ClockOffsetDraft;
+  // Same meaning as for geo.getTrips; defaults match the trip view.
+  splitHours?: number;
+  splitKm?: number;
+}
+
+export interface ClockOffsetSample {
+  photoId: number;
+  path: string;
+  beforeLocalMs: number;
+  afterLocalMs: number;
+}
+
+export interface ClockOffsetPreview {
+  // Photos whose effective capture time would change.
+  affectedCount: number;
+  samples: ClockOffsetSample[];
+  // Capture range of the affected photos before and after, in wall-clock time.
+  beforeRange: { fromMs: number; toMs: number } | null;
+  afterRange: { fromMs: number; toMs: number } | null;
+  tripCountBefore: number;
+  tripCountAfter: number;
+}
+
+export interface ClockOffsetSaveResult {
+  rule: CameraClockOffset;
+  // Photos whose effective capture time changed.
+  updated: number;
+}
+
+export interface GeotagOptions {
+  trackPaths: string[];
+  // Added to each capture time before matching: corrects a camera clock that runs fast or slow,
+  // or one set to local time without a zone.
+  clockOffsetSeconds: number;
+  // Longest stretch without a fix that is still interpolated across, and the farthest a photo may sit from a fix.
+  maxGapSeconds: number;
+  rootIds?: number[];
+}
+
+export type GeotagMatchMethod = 'interpolated' | 'nearest';
+
+export interface GeotagMatch {
+  photoId: number;
+  path: string;
+  takenAtMs: number;
+  lat: number;
+  lng: number;
+  alt: number | null;
+  method: GeotagMatchMethod;
+  gapMs: number;
+  hasGeotag: boolean;
+}
+
+export interface GeotagTrackSummary {
+  path: string;
+  pointCount: number;
+  startMs: number | null;
+  endMs: number | null;
+  error?: string;
+}
+
+export interface GeotagPreview {
+  tracks: GeotagTrackSummary[];
+  candidateCount: number;
+  matchedCount: number;
+  // Capped for display; counts cover every match.
+  matches: GeotagMatch[];
+}
+
+export interface ManualLocationPayload {
+  photoIds: number[];
+  lat: number;
+  lng: number;
+  // City name when picked from the catalog; null for a spot clicked on the globe.
+  label?: string | null;
+}
+
+// What a photo's override was before an edit; `override: null` means the file's own position applied.
+export interface LocationEditSnapshot {
+  photoId: number;
+  override: LocationOverride | null;
+}
+
+export interface LocationEditResult {
+  changed: number;
+  // Pass back to `restore` to undo the edit.
+  previous: LocationEditSnapshot[];
+}
+
+// `original` edits the media file in place; `sidecar` writes an XMP file next to it and leaves the original alone.
+export type MetadataWriteTarget = 'original' | 'sidecar';
+
+export type MetadataWriteField = 'location' | 'captureTime';
+
+export interface MetadataWriteOptions {
+  photoIds: number[];
+  target: MetadataWriteTarget;
+  // Copies each file about to be modified into the report folder first.
+  keepBackup: boolean;
+}
+
+export type MetadataWriteStatus = 'written' | 'skipped' | 'error';
+
+export type MetadataWriteSkipReason = 'notInLibrary' | 'noCorrection' | 'sharedSidecar';
+
+export interface MetadataWriteFileResult {
+  photoId: number;
+  path: string;
+  status: MetadataWriteStatus;
+  fields: MetadataWriteField[];
+  // The media file or the XMP sidecar that was written.
+  writtenPath: string | null;
+  backupPath: string | null;
+  // Written in place, but a paired sidecar still supplies the position or capture time the app reads.
+  sidecarTakesPrecedence?: boolean;
+  // The XMP sidecar also belongs to the other files of a RAW+JPEG pair, so the capture time was left out of it.
+  sharedSidecar?: boolean;
+  skipReason?: MetadataWriteSkipReason;
+  message?: string;
+}
+
+export interface MetadataWriteReport {
+  target: MetadataWriteTarget;
+  startedAtMs: number;
+  finishedAtMs: number;
+  written: number;
+  skipped: number;
+  errored: number;
+  // JSON copy of this report, saved next to the backups.
+  reportPath: string;
+  results: MetadataWriteFileResult[];
 }
 
 export type UxEventName =
@@ -154,12 +610,18 @@ export type ThumbnailPriority = 'high' | 'normal' | 'low';
 
 export type CityCatalogPhase = 'idle' | 'downloading' | 'importing' | 'ready' | 'error';
 
+/** `full` is built from allCountries, `lite` from one of the smaller citiesNNNNN dumps. */
+export type CityCatalogVariant = 'full' | 'lite';
+
 export interface CityCatalogStatus {
   phase: CityCatalogPhase;
   percent: number;
   message?: string;
   updatedAtMs?: number | null;
   rowCount?: number;
+  variant?: CityCatalogVariant | null;
+  // Set on a ready status when a rebuild failed and the previous catalog stayed in use.
+  error?: string;
 }
 
 export interface ContinentItem {
@@ -197,10 +659,17 @@ export interface ElectronApi {
     getWindowState: () => Promise<{ isFullScreen: boolean; isMaximized: boolean }>;
   };
   index: {
-    start: (payload: { rootPath: string }) => Promise<{ jobId: string }>;
+    start: (payload: { rootPath: string; mode?: IndexJobMode }) => Promise<{ jobId: string }>;
     cancel: (payload: { jobId: string }) => Promise<{ ok: boolean }>;
+    pause: (payload: { jobId: string }) => Promise<{ ok: boolean }>;
+    resume: (payload: { jobId: string }) => Promise<{ ok: boolean }>;
+    listJobs: (payload: { limit?: number }) => Promise<IndexStatus[]>;
+    listQueue: () => Promise<IndexQueueSnapshot>;
+    onQueueChanged: (listener: (queue: IndexQueueSnapshot) => void) => () => void;
     status: (jobId: string) => Promise<IndexStatus | null>;
     onProgress: (listener: (progress: IndexStatus) => void) => () => void;
+    listErrors: (payload: { limit?: number }) => Promise<IndexErrorGroup[]>;
+    clearErrors: (payload: { rootId: number; message: string }) => Promise<{ cleared: number }>;
   };
   geo: {
     getClusters: (payload: GetClustersPayload) => Promise<ClusterItem[]>;
@@ -208,6 +677,45 @@ export interface ElectronApi {
     getClusterMembers: (payload: GetClusterMembersPayload) => Promise<PointNode[]>;
     getTrips: (payload: { filters: Filters; splitHours?: number; splitKm?: number; maxPoints?: number }) => Promise<TripSegment[]>;
   };
+  clockOffsets: {
+    listCameras: () => Promise<CameraModelSummary[]>;
+    list: () => Promise<CameraClockOffset[]>;
+    preview: (payload: ClockOffsetPreviewOptions) => Promise<ClockOffsetPreview>;
+    save: (payload: ClockOffsetDraft) => Promise<ClockOffsetSaveResult>;
+    remove: (payload: { id: number }) => Promise<{ removed: boolean; updated: number }>;
+  };
+  places: {
+    list: (payload: { filters: Filters }) => Promise<PlacesSummary>;
+    onUpdated: (listener: () => void) => () => void;
+  };
+  search: {
+    count: (payload: { filters: Filters }) => Promise<SearchCount>;
+  };
+  maintenance: {
+    getStatus: () => Promise<MaintenanceStatus>;
+    run: () => Promise<MaintenanceReport>;
+  };
+  database: {
+    getStatus: () => Promise<DatabaseStatus>;
+    backupNow: () => Promise<DatabaseBackupItem>;
+    checkIntegrity: (payload: { mode: DatabaseCheckMode }) => Promise<DatabaseIntegrityResult>;
+    // Replaces the database with the backup and restarts the app.
+    restore: (payload: { name: string }) => Promise<{ scheduled: boolean }>;
+  };
+  geotag: {
+    selectTrackFiles: () => Promise<{ paths: string[] }>;
+    preview: (payload: GeotagOptions) => Promise<GeotagPreview>;
+    apply: (payload: GeotagOptions & { photoIds?: number[] }) => Promise<{ applied: number; photoIds: number[] }>;
+    clear: (payload: { photoIds: number[] }) => Promise<{ cleared: number }>;
+  };
+  location: {
+    set: (payload: ManualLocationPayload) => Promise<LocationEditResult>;
+    revert: (payload: { photoIds: number[] }) => Promise<LocationEditResult>;
+    restore: (payload: { snapshots: LocationEditSnapshot[] }) => Promise<{ restored: number }>;
+  };
+  metadata: {
+    write: (payload: MetadataWriteOptions) => Promise<MetadataWriteReport>;
+  };
   media: {
     getThumbnail: (payload: {
       photoId: number;
@@ -227,6 +735,11 @@ export interface ElectronApi {
     getHoverPreview: (payload: { photoId: number; width?: 240 | 320 | 480 }) => Promise<HoverPreviewInfo>;
     getDailyCounts: (payload: { filters: Filters; limit?: number }) => Promise<DateMediaCountItem[]>;
     getTimelineExtent: (payload: { filters: Filters }) => Promise<TimelineExtentInfo>;
+    getDuplicateGroups: (payload: { limit?: number }) => Promise<DuplicateGroupItem[]>;
+    getCacheStats: () => Promise<ThumbnailCacheStats>;
+    findSimilar: (payload: { photoId: number; maxDistance?: number; limit?: number }) => Promise<SimilarMemberItem[]>;
+    getSimilarGroups: (payload: { maxDistance?: number; limit?: number }) => Promise<SimilarGroupsResult>;
+    hashPending: (payload: { limit?: number }) => Promise<PerceptualHashProgress>;
     getSource: (payload: { photoId: number }) => Promise<MediaSourceInfo>;
     openSource: (payload: { photoId: number }) => Promise<OpenSourceResult>;
   };
@@ -238,6 +751,8 @@ export interface ElectronApi {
     removeRoot: (payload: { rootId: number }) => Promise<AppSettings>;
     setActiveRoots: (payload: { rootIds: number[] }) => Promise<AppSettings>;
     listRoots: () => Promise<RootListItem[]>;
+    findMissingRoots: () => Promise<MissingRootItem[]>;
+    relocateRoot: (payload: { rootId: number; path: string }) => Promise<RootRelocationResult>;
   };
   metrics: {
     track: (payload: { name: UxEventName; props?: UxEventProps }) => Promise<void>;
@@ -248,6 +763,8 @@ export interface ElectronApi {
   };
   cities: {
     ensureCatalog: () => Promise<CityCatalogStatus>;
+    selectImportFiles: () => Promise<{ paths: string[] }>;
+    importFromFile: (payload: { paths: string[] }) => Promise<CityCatalogStatus>;
     getContinents: () => Promise<ContinentItem[]>;
     getCountries: (payload: { continentCode: string }) => Promise<CountryItem[]>;
     getCities: (payload: {
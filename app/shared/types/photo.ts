@@ -1,10 +1,31 @@
 export type MediaType = 'photo' | 'video';
 
-export interface PhotoRecord {
+export type MetadataSource = 'embedded' | 'xmp' | 'takeout';
+
+export type MetadataSourceField = 'location' | 'altitude' | 'takenAt' | 'camera' | 'lens';
+
+export type PhotoMetadataSources = Partial<Record<MetadataSourceField, MetadataSource>>;
+
+export interface PhotoExifDetails {
+  cameraMake: string | null;
+  lensModel: string | null;
+  focalLengthMm: number | null;
+  focalLength35mm: number | null;
+  fNumber: number | null;
+  exposureTimeSec: number | null;
+  iso: number | null;
+  flashFired: number | null;
+  orientation: number | null;
+}
+
+export interface PhotoRecord extends PhotoExifDetails {
   id: number;
   rootId: number;
   path: string;
   pathHash: string;
+  contentHash: string | null;
+  // dHash of the 64px thumbnail as 16 hex chars; null until hashed (photos only).
+  perceptualHash: string | null;
   sizeBytes: number;
   mtimeMs: number;
   mediaType: MediaType;
@@ -13,21 +34,35 @@ export interface PhotoRecord {
   lng: number | null;
   alt: number | null;
   takenAtMs: number | null;
+  takenAtLocalMs: number | null;
+  takenTzOffsetMinutes: number | null;
+  // Camera clock correction in effect; queries read takenAtMs + takenAtOffsetMs.
+  takenAtOffsetMs: number;
+  // Nearest catalog city (GeoNames id) and its country for the effective position.
+  placeCityId: string | null;
+  placeCountryCode: string | null;
   width: number | null;
   height: number | null;
   durationMs: number | null;
   cameraModel: string | null;
+  metadataSourcesJson: string | null;
+  sidecarSignature: string | null;
+  contentIdentifier: string | null;
+  stackId: number | null;
+  isStackPrimary: number;
   thumbPath: string | null;
   thumbUpdatedAtMs: number | null;
   isDeleted: number;
+  metadataVersion: number;
   lastIndexedAtMs: number;
   lastError: string | null;
 }
 
-export interface PhotoUpsertInput {
+export interface PhotoUpsertInput extends PhotoExifDetails {
   rootId: number;
   path: string;
   pathHash: string;
+  contentHash: string | null;
   sizeBytes: number;
   mtimeMs: number;
   mediaType: MediaType;
@@ -36,20 +71,57 @@ export interface PhotoUpsertInput {
   lng: number | null;
   alt: number | null;
   takenAtMs: number | null;
+  takenAtLocalMs: number | null;
+  takenTzOffsetMinutes: number | null;
   width: number | null;
   height: number | null;
   durationMs: number | null;
   cameraModel: string | null;
+  metadataSourcesJson: string | null;
+  sidecarSignature: string | null;
+  contentIdentifier: string | null;
   thumbPath: string | null;
   thumbUpdatedAtMs: number | null;
+  metadataVersion: number;
   lastIndexedAtMs: number;
   lastError: string | null;
 }
 
+// Where a location override came from: matched against a GPS track, or placed by hand.
+export type LocationOverrideKind = 'track' | 'manual';
+
+/** A position that takes precedence over the file's own lat/lng wherever a location is read. */
+export interface LocationOverride {
+  photoId: number;
+  lat: number;
+  lng: number;
+  alt: number | null;
+  kind: LocationOverrideKind;
+  // Track file names, a city name, or null for a spot picked on the globe.
+  source: string | null;
+  updatedAtMs: number;
+}
+
+/**
+ * Shifts capture times of one camera model. The range is in the camera's own uncorrected
+ * wall-clock time; when rules overlap, the one saved last wins.
+ */
+export interface CameraClockOffset {
+  id: number;
+  cameraModel: string;
+  offsetMs: number;
+  rootId: number | null;
+  fromLocalMs: number | null;
+  toLocalMs: number | null;
+  createdAtMs: number;
+  updatedAtMs: number;
+}
+
 export interface RootRecord {
   id: number;
   path: string;
   lastScanAtMs: number | null;
+  ignoreStatsJson: string | null;
   createdAtMs: number;
   updatedAtMs: number;
 }
@@ -60,6 +132,9 @@ export interface ScanFile {
   mtimeMs: number;
   mediaType: MediaType;
   mime: string | null;
+  // XMP first, then Takeout JSON; see main/indexer/sidecars.ts.
+  sidecarPaths: string[];
+  sidecarSignature: string | null;
 }
 
 export interface PointItem {
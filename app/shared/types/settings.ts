@@ -16,6 +16,36 @@ export interface OnboardingState {
   skippedAtMs: number | null;
 }
 
+export interface GeotagSettings {
+  clockOffsetSeconds: number;
+  maxGapSeconds: number;
+}
+
+export interface MaintenanceSettings {
+  // Runs the purge and cache cleanup in the background every `intervalDays`.
+  autoRunEnabled: boolean;
+  intervalDays: number;
+  // Rows of files gone from disk are kept this long, so a file that reappears keeps its edits.
+  tombstoneRetentionDays: number;
+}
+
+export interface BackupSettings {
+  // Takes an online backup of the database every `intervalHours`.
+  autoBackupEnabled: boolean;
+  intervalHours: number;
+  // Older backups beyond this many are deleted after each new one.
+  keepCount: number;
+}
+
+export type ThumbnailCacheClass = '64' | '128' | '256' | '512' | 'hover';
+
+export const THUMBNAIL_CACHE_CLASSES: readonly ThumbnailCacheClass[] = ['64', '128', '256', '512', 'hover'];
+
+export interface ThumbnailCacheSettings {
+  // Disk budget per cache class (thumbnail size or hover videos) in megabytes; 0 leaves it unlimited.
+  budgetsMb: Record<ThumbnailCacheClass, number>;
+}
+
 export interface Filters {
   dateFromMs?: number | null;
   dateToMs?: number | null;
@@ -23,11 +53,29 @@ export interface Filters {
   rootIds?: number[];
   mediaTypes?: MediaType[];
   hasGps?: boolean;
+  // Free text matched word by word (as prefixes) against file names, folders, cameras and place names.
+  textQuery?: string;
   cameraModelQuery?: string;
+  cameraMakeQuery?: string;
+  lensModelQuery?: string;
+  focalLengthFromMm?: number;
+  focalLengthToMm?: number;
+  focalLengthUse35mm?: boolean;
+  apertureFrom?: number;
+  apertureTo?: number;
+  exposureFromSec?: number;
+  exposureToSec?: number;
+  isoFrom?: number;
+  isoTo?: number;
+  flashFired?: boolean;
+  // Resolved places (see PhotoRecord.placeCountryCode / placeCityId); a photo matching either list passes.
+  countryCodes?: string[];
+  cityIds?: string[];
   minWidthPx?: number;
   minHeightPx?: number;
   durationFromMs?: number;
   durationToMs?: number;
+  collapseDuplicates?: boolean;
 }
 
 export interface AppSettings {
@@ -35,10 +83,15 @@ export interface AppSettings {
   watchEnabled: boolean;
   recentRoots: string[];
   activeRootIds: number[];
+  rootIgnorePatterns: Record<string, string[]>;
   favoriteCityIds: string[];
   uiThemePreset: UiThemePreset;
   featureFlags: FeatureFlags;
   onboarding: OnboardingState;
+  geotag: GeotagSettings;
+  maintenance: MaintenanceSettings;
+  thumbnailCache: ThumbnailCacheSettings;
+  backup: BackupSettings;
 }
 
 export const DEFAULT_FEATURE_FLAGS: FeatureFlags = {
@@ -54,13 +107,45 @@ export const DEFAULT_ONBOARDING_STATE: OnboardingState = {
   skippedAtMs: null,
 };
 
+export const DEFAULT_GEOTAG_SETTINGS: GeotagSettings = {
+  clockOffsetSeconds: 0,
+  maxGapSeconds: 300,
+};
+
+export const DEFAULT_MAINTENANCE_SETTINGS: MaintenanceSettings = {
+  autoRunEnabled: true,
+  intervalDays: 7,
+  tombstoneRetentionDays: 30,
+};
+
+export const DEFAULT_BACKUP_SETTINGS: BackupSettings = {
+  autoBackupEnabled: true,
+  intervalHours: 24,
+  keepCount: 7,
+};
+
+export const DEFAULT_THUMBNAIL_CACHE_SETTINGS: ThumbnailCacheSettings = {
+  budgetsMb: {
+    '64': 256,
+    '128': 512,
+    '256': 1_024,
+    '512': 2_048,
+    hover: 1_024,
+  },
+};
+
 export const DEFAULT_SETTINGS: AppSettings = {
   language: 'ko',
   watchEnabled: false,
   recentRoots: [],
   activeRootIds: [],
+  rootIgnorePatterns: {},
   favoriteCityIds: [],
   uiThemePreset: 'indigo',
   featureFlags: DEFAULT_FEATURE_FLAGS,
   onboarding: DEFAULT_ONBOARDING_STATE,
+  geotag: DEFAULT_GEOTAG_SETTINGS,
+  maintenance: DEFAULT_MAINTENANCE_SETTINGS,
+  thumbnailCache: DEFAULT_THUMBNAIL_CACHE_SETTINGS,
+  backup: DEFAULT_BACKUP_SETTINGS,
 };
@@ -18,8 +18,26 @@ export function normalizeBbox(bbox: BBox): BBox {
   return [clampLng(west), clampLat(south), clampLng(east), clampLat(north)];
 }
 
+/**
+ * A bbox whose west edge lies east of its east edge crosses the antimeridian; it is returned as
+ * the part up to 180° and the part from -180°. Any other bbox is returned as is.
+ */
+export function splitBboxAtAntimeridian(bbox: BBox): BBox[] {
+  const [west, south, east, north] = bbox;
+  if (west <= east) {
+    return [bbox];
+  }
+  return [
+    [west, south, MAX_LNG, north],
+    [MIN_LNG, south, east, north],
+  ];
+}
+
 export function isInBbox(lat: number, lng: number, bbox: BBox): boolean {
   const [west, south, east, north] = bbox;
-  return lat >= south && lat <= north && lng >= west && lng <= east;
+  if (lat < south || lat > north) {
+    return false;
+  }
+  return west <= east ? lng >= west && lng <= east : lng >= west || lng <= east;
 }
 
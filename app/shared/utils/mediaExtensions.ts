@@ -21,12 +21,22 @@ export const PHOTO_EXTENSIONS = [
   'raw',
 ] as const;
 
-export const VIDEO_EXTENSIONS = ['mov', 'mp4'] as const;
+export const VIDEO_EXTENSIONS = ['mov', 'mp4', 'm4v', 'mts', 'm2ts', 'mkv', 'avi', '3gp', 'webm'] as const;
+
+// mime-types maps .mts to a 3D model format; AVCHD clips are MPEG transport streams.
+const MIME_OVERRIDES: Record<string, string> = {
+  mts: 'video/mp2t',
+  m2ts: 'video/mp2t',
+};
+
+// Rendered formats; every other photo extension is a camera RAW.
+export const RENDERED_PHOTO_EXTENSIONS = ['jpg', 'jpeg', 'png', 'heic', 'heif'] as const;
 
 export const SUPPORTED_MEDIA_EXTENSIONS = [...PHOTO_EXTENSIONS, ...VIDEO_EXTENSIONS] as const;
 
 const PHOTO_EXTENSION_SET = new Set<string>(PHOTO_EXTENSIONS);
 const VIDEO_EXTENSION_SET = new Set<string>(VIDEO_EXTENSIONS);
+const RENDERED_PHOTO_EXTENSION_SET = new Set<string>(RENDERED_PHOTO_EXTENSIONS);
 
 export function getMediaGlobPattern(): string {
   return `**/*.{${SUPPORTED_MEDIA_EXTENSIONS.join(',')}}`;
@@ -45,3 +55,13 @@ export function detectMediaTypeFromPath(filePath: string): MediaType | null {
   }
   return null;
 }
+
+export function isRawPhotoPath(filePath: string): boolean {
+  const extension = filePath.split('.').pop()?.toLowerCase() ?? '';
+  return PHOTO_EXTENSION_SET.has(extension) && !RENDERED_PHOTO_EXTENSION_SET.has(extension);
+}
+
+export function getMediaMimeOverride(filePath: string): string | null {
+  const extension = filePath.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_OVERRIDES[extension] ?? null;
+}
@@ -34,6 +34,7 @@ export default defineConfig({
                 'sharp',
                 'ffmpeg-static',
                 '@ffmpeg-installer/ffmpeg',
+                '@ffprobe-installer/ffprobe',
                 'heic-decode',
                 'exiftool-vendored',
                 'fast-glob',